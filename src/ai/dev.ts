@@ -1 +1,4 @@
 // Flows will be imported for their side effects in this file.
+
+import '@/ai/flows/moderate-content.ts';
+import '@/ai/flows/draft-post.ts';
@@ -0,0 +1,104 @@
+'use server';
+
+/**
+ * @fileOverview Turns an author's rough trip notes into a suggested post draft: a title, an excerpt,
+ * sections, tags, a category and an image hint (see `src/lib/post-drafts.ts`).
+ *
+ * - draftPost - Drafts a post from notes. Without a model it uses the notes drafter.
+ * - DraftPostInput - The input type for the draftPost function.
+ * - DraftPostResult - The return type for the draftPost function.
+ *
+ * The model is used when a Gemini API key is set (`GEMINI_API_KEY` or `GOOGLE_API_KEY`) and
+ * `POST_DRAFTER` isn't `notes`. Tests can register their own drafter with `setPostDrafter`.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import {
+  PostDraft, PostDrafter, DraftInput, notesDrafter, draftFromNotes, getPostDrafter, normalizeDraft, validateNotes, MAX_DRAFT_TAGS,
+} from '@/lib/post-drafts';
+
+const DraftPostInputSchema = z.object({
+  notes: z.string().describe('The author\'s rough notes about their trip.'),
+  categories: z.array(z.string()).describe('The blog\'s categories; the draft should use one of them, or none.'),
+});
+export type DraftPostInput = z.infer<typeof DraftPostInputSchema>;
+
+const PostDraftSchema = z.object({
+  title: z.string().describe('A specific, inviting title of at most 70 characters.'),
+  excerpt: z.string().describe('One or two sentences summarizing the post, at most 200 characters.'),
+  sections: z.array(z.object({
+    heading: z.string().describe('A short section heading.'),
+    body: z.string().describe('The section, as one or more Markdown paragraphs.'),
+  })).describe('The body of the post, in the order of the trip.'),
+  tags: z.array(z.string()).describe(`Up to ${MAX_DRAFT_TAGS} lowercase tags, e.g. places and activities.`),
+  category: z.string().describe('One of the given categories, or an empty string if none fits.'),
+  imageHint: z.string().describe('One or two words describing a fitting featured image, e.g. "misty hills".'),
+});
+
+export type DraftPostResult = {
+  draft: PostDraft;
+  // Which drafter wrote it, so the form can say whether it was written by the model.
+  source: PostDrafter['name'];
+};
+
+const draftPostPrompt = ai.definePrompt({
+  name: 'draftPostPrompt',
+  input: { schema: DraftPostInputSchema },
+  output: { schema: PostDraftSchema },
+  prompt: `You help community authors of Travonex, a travel blog, turn their rough trip notes into a first draft.
+
+Write the draft in the first person, in the author's voice, using only what the notes say: don't invent
+places, prices, dates or experiences. Keep their details and opinions. Organize the notes into a few
+sections in the order of the trip.
+
+Choose the category from this list, or leave it empty if none fits: {{#each categories}}"{{this}}" {{/each}}
+
+Notes:
+"""
+{{{notes}}}
+"""`,
+});
+
+const draftPostFlow = ai.defineFlow(
+  {
+    name: 'draftPostFlow',
+    inputSchema: DraftPostInputSchema,
+    outputSchema: PostDraftSchema,
+  },
+  async input => {
+    const { output } = await draftPostPrompt(input);
+    if (!output) {
+      throw new Error('The model did not return a draft.');
+    }
+    return output;
+  }
+);
+
+const modelDrafter: PostDrafter = {
+  name: 'model',
+  draft: (input: DraftInput) => draftPostFlow(input),
+};
+
+// The drafter to use: a registered one, else the model when it is configured, else the notes drafter.
+function chooseDrafter(): PostDrafter {
+  const registered = getPostDrafter();
+  if (registered) {
+    return registered;
+  }
+  const hasKey = !!(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || process.env.GOOGLE_GENAI_API_KEY);
+  return hasKey && process.env.POST_DRAFTER !== 'notes' ? modelDrafter : notesDrafter;
+}
+
+export async function draftPost(input: DraftPostInput): Promise<DraftPostResult> {
+  const notes = validateNotes(input.notes);
+  const drafter = chooseDrafter();
+  try {
+    const draft = await drafter.draft({ notes, categories: input.categories });
+    return { draft: normalizeDraft(draft, input.categories), source: drafter.name };
+  } catch (error) {
+    // The model is down or returned nonsense: a draft from the notes alone is still a start.
+    console.error(`The ${drafter.name} drafter failed, drafting from the notes instead:`, error);
+    return { draft: normalizeDraft(draftFromNotes({ notes, categories: input.categories }), input.categories), source: 'notes' };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileOverview Scores new comments, stories and posts for spam, toxicity and off-topic content
+ * before they reach the moderation queue (see `src/lib/auto-moderation.ts` for what the scores lead to).
+ *
+ * - moderateContent - Assesses a piece of content. Never fails: without a model it uses the rules.
+ * - ModerateContentInput - The input type for the moderateContent function.
+ *
+ * The model is used when a Gemini API key is set (`GEMINI_API_KEY` or `GOOGLE_API_KEY`) and
+ * `MODERATION_CLASSIFIER` isn't `rules`. Tests can register their own classifier with `setContentClassifier`.
+ *
+ * This is not a server action: the browser can't call it. New submissions are screened on the server
+ * by `screenSubmission` (see `./screen-submission.ts`), which records the assessment itself.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import {
+  ContentClassifier, ModerationInput, rulesClassifier, assessContent, getContentClassifier,
+} from '@/lib/auto-moderation';
+import { ModerationAssessment } from '@/lib/types';
+
+const ModerateContentInputSchema = z.object({
+  kind: z.enum(['comment', 'story', 'post']).describe('What kind of content this is.'),
+  text: z.string().describe('The content to moderate.'),
+  context: z.object({
+    title: z.string(),
+    tags: z.array(z.string()).optional(),
+    category: z.string().optional(),
+  }).optional().describe('The post a comment or story responds to, or a post\'s own title, category and tags.'),
+});
+export type ModerateContentInput = z.infer<typeof ModerateContentInputSchema>;
+
+const ClassificationSchema = z.object({
+  scores: z.object({
+    spam: z.number().min(0).max(1).describe('How likely the content is spam or advertising, from 0 to 1.'),
+    toxicity: z.number().min(0).max(1).describe('How insulting, hateful, threatening or profane it is, from 0 to 1.'),
+    off_topic: z.number().min(0).max(1).describe('How unrelated it is to travel and to its context, from 0 to 1.'),
+  }),
+  reasons: z.array(z.string()).describe('One short sentence per problem found, for the moderators. Empty when there is none.'),
+});
+
+const moderateContentPrompt = ai.definePrompt({
+  name: 'moderateContentPrompt',
+  input: { schema: ModerateContentInputSchema },
+  output: { schema: ClassificationSchema },
+  prompt: `You are a content moderator for Travonex, a travel blog. Readers write posts about their trips,
+comment on posts and share follow-up stories about places from the posts.
+
+Score the {{kind}} below from 0 (clearly fine) to 1 (clearly a problem) for:
+- spam: advertising, links or contact details for selling something, scams, repeated or meaningless text.
+- toxicity: insults, harassment, hate, threats or profanity. Honest criticism of a place or a post is fine.
+- off_topic: content that has nothing to do with travel{{#if context}} or with "{{context.title}}"{{/if}}.
+
+{{#if context}}Context: "{{context.title}}"{{#if context.category}}, category {{context.category}}{{/if}}{{#if context.tags}}, tags {{context.tags}}{{/if}}.
+{{/if}}
+Give a short reason for every score of 0.3 or more.
+
+Content:
+"""
+{{{text}}}
+"""`,
+});
+
+const moderateContentFlow = ai.defineFlow(
+  {
+    name: 'moderateContentFlow',
+    inputSchema: ModerateContentInputSchema,
+    outputSchema: ClassificationSchema,
+  },
+  async input => {
+    const { output } = await moderateContentPrompt(input);
+    if (!output) {
+      throw new Error('The model did not return a classification.');
+    }
+    return output;
+  }
+);
+
+const modelClassifier: ContentClassifier = {
+  name: 'model',
+  classify: (input: ModerationInput) => moderateContentFlow(input),
+};
+
+// The classifier to use: a registered one, else the model when it is configured, else the rules.
+function chooseClassifier(): ContentClassifier {
+  const registered = getContentClassifier();
+  if (registered) {
+    return registered;
+  }
+  const hasKey = !!(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || process.env.GOOGLE_GENAI_API_KEY);
+  return hasKey && process.env.MODERATION_CLASSIFIER !== 'rules' ? modelClassifier : rulesClassifier;
+}
+
+export async function moderateContent(input: ModerateContentInput): Promise<ModerationAssessment> {
+  return assessContent(input, chooseClassifier());
+}
@@ -0,0 +1,23 @@
+'use server';
+
+/**
+ * @fileOverview Screens a new comment, story or post with automated moderation on the server, signed
+ * in as the service account, and records the outcome (see `src/lib/screening.ts`).
+ *
+ * - screenSubmission - Screens a submission by ID. Resolves with whether it was approved straight away.
+ *
+ * Anyone may call this action, so it takes nothing but what to screen: the document is read here, and
+ * only a pending one that hasn't been assessed yet is screened. The data layer calls it right after
+ * saving a submission (see `requestScreening` in `src/lib/firestore.ts`).
+ */
+
+import { moderateContent } from '@/ai/flows/moderate-content';
+import { screenSubmission as screen, ScreeningKind, SCREENING_KINDS } from '@/lib/screening';
+import { getServiceRepositories } from '@/lib/service-account';
+
+export async function screenSubmission(kind: ScreeningKind, id: string): Promise<boolean> {
+  if (!SCREENING_KINDS.includes(kind) || typeof id !== 'string' || !id || id.includes('/')) {
+    throw new Error('Nothing to screen.');
+  }
+  return screen(await getServiceRepositories(), kind, id, moderateContent);
+}
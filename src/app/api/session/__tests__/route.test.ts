@@ -0,0 +1,100 @@
+// Tests for `POST /api/session` (`../route.ts`): who gets a session cookie, with which role, and that
+// a refused renewal clears the cookie. Tokens are read by the local verifier and users come from the
+// in-memory seed data.
+
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { POST } from '../route';
+import { firebaseIdTokenVerifier, localIdTokenVerifier, setIdTokenVerifier } from '@/lib/auth/id-token';
+import { getSessionSecret, verifySession, SESSION_COOKIE, SESSION_MAX_AGE } from '@/lib/auth/session';
+import { createMemoryRepositories, Repositories, setRepositories } from '@/lib/repositories';
+
+// An unsigned ID token for a user, as the local verifier reads it.
+function idToken(payload: Record<string, unknown>): string {
+  const encode = (part: Record<string, unknown>) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  return `${encode({ alg: 'RS256' })}.${encode({ exp: Math.floor(Date.now() / 1000) + 60 * 60, ...payload })}.signature`;
+}
+
+function post(body: unknown): Promise<Response> {
+  return POST(new Request('http://localhost/api/session', { method: 'POST', body: typeof body === 'string' ? body : JSON.stringify(body) }));
+}
+
+// The session cookie the response sets, if any.
+function sessionCookie(response: Response): { value: string; maxAge: number } | null {
+  const header = response.headers.getSetCookie().find(cookie => cookie.startsWith(`${SESSION_COOKIE}=`));
+  if (!header) {
+    return null;
+  }
+  const value = header.slice(SESSION_COOKIE.length + 1).split(';')[0];
+  const maxAge = Number(header.match(/Max-Age=(\d+)/i)?.[1]);
+  return { value, maxAge };
+}
+
+let repositories: Repositories;
+
+beforeEach(() => {
+  repositories = createMemoryRepositories();
+  setRepositories(repositories);
+  setIdTokenVerifier(localIdTokenVerifier);
+});
+
+afterAll(() => {
+  setIdTokenVerifier(firebaseIdTokenVerifier);
+});
+
+describe('POST /api/session', () => {
+  it.each([
+    ['seed-admin', 'admin'],
+    ['seed-editor', 'editor'],
+    ['seed-user', 'user'],
+  ])('gives %s a session with the role from their user document', async (uid, role) => {
+    const response = await post({ idToken: idToken({ sub: uid, role: 'admin' }) });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ uid, role });
+    const cookie = sessionCookie(response);
+    expect(cookie?.maxAge).toBe(SESSION_MAX_AGE);
+    expect(await verifySession(cookie?.value, getSessionSecret())).toMatchObject({ uid, role });
+  });
+
+  it('treats a user without a document as an ordinary user', async () => {
+    const response = await post({ idToken: idToken({ sub: 'brand-new-user' }) });
+    expect(await response.json()).toEqual({ uid: 'brand-new-user', role: 'user' });
+  });
+
+  it.each([
+    ['a body that is not JSON', 'idToken=abc'],
+    ['no token', {}],
+    ['a token that is not a string', { idToken: 42 }],
+  ])('asks again for %s', async (_, body) => {
+    const response = await post(body);
+    expect(response.status).toBe(400);
+    expect(sessionCookie(response)).toBeNull();
+  });
+
+  it.each([
+    ['a malformed token', 'not-a-token'],
+    ['an expired token', idToken({ sub: 'seed-admin', exp: Math.floor(Date.now() / 1000) - 1 })],
+    ['a token without a user', idToken({})],
+  ])('refuses %s and clears the cookie', async (_, token) => {
+    const response = await post({ idToken: token });
+    expect(response.status).toBe(401);
+    expect(sessionCookie(response)).toEqual({ value: '', maxAge: 0 });
+  });
+
+  it('refuses a blocked user and clears the cookie', async () => {
+    await repositories.users.update('seed-editor', { status: 'banned', status_reason: 'Spam.' });
+
+    const response = await post({ idToken: idToken({ sub: 'seed-editor' }) });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toContain('Spam.');
+    expect(sessionCookie(response)).toEqual({ value: '', maxAge: 0 });
+  });
+
+  it('lets a user back in once their suspension has ended', async () => {
+    await repositories.users.update('seed-user', { status: 'suspended', suspended_until: new Date(Date.now() - 1000) });
+
+    const response = await post({ idToken: idToken({ sub: 'seed-user' }) });
+    expect(response.status).toBe(200);
+  });
+});
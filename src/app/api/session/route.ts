@@ -0,0 +1,65 @@
+// This route turns a Firebase ID token into the session cookie the middleware checks (see `src/lib/auth/session.ts`).
+//   - `POST /api/session` with `{ idToken }` checks the token, looks up the user's role and sets the cookie.
+//     Users who are suspended, banned or deleted are refused, and so is an invalid token; either way the
+//     cookie is cleared, so a session that is being renewed ends there.
+//   - `DELETE /api/session` clears the cookie when the user logs out.
+// The browser calls it from `useAuth` whenever the Firebase login state changes.
+
+import { NextResponse } from 'next/server';
+import { getIdTokenVerifier } from '@/lib/auth/id-token';
+import { getSessionSecret, signSession, SESSION_COOKIE, SESSION_MAX_AGE } from '@/lib/auth/session';
+import { getUserById } from '@/lib/firestore';
+import { isBlocked, blockedMessage } from '@/lib/users';
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+};
+
+// Turns the session down and clears the cookie.
+function refuse(error: string, status: 401 | 403) {
+  const response = NextResponse.json({ error }, { status });
+  response.cookies.set(SESSION_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  return response;
+}
+
+export async function POST(request: Request) {
+  let idToken: unknown;
+  try {
+    ({ idToken } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Send the ID token as JSON: { "idToken": "..." }.' }, { status: 400 });
+  }
+  if (typeof idToken !== 'string' || !idToken) {
+    return NextResponse.json({ error: 'An ID token is required.' }, { status: 400 });
+  }
+
+  let token;
+  try {
+    token = await getIdTokenVerifier().verify(idToken);
+  } catch (error) {
+    return refuse((error as Error).message, 401);
+  }
+
+  // The role comes from the user's document rather than the token, so a role change applies at the
+  // next login or page load. A user whose document doesn't exist yet is an ordinary user.
+  const user = await getUserById(token.uid);
+  // Suspended, banned and deleted users can't start a session.
+  if (user && isBlocked(user)) {
+    return refuse(blockedMessage(user), 403);
+  }
+  const role = user?.role ?? 'user';
+  const session = await signSession({ uid: token.uid, role, ...(token.email && { email: token.email }) }, getSessionSecret());
+
+  const response = NextResponse.json({ uid: token.uid, role });
+  response.cookies.set(SESSION_COOKIE, session, { ...cookieOptions, maxAge: SESSION_MAX_AGE });
+  return response;
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(SESSION_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  return response;
+}
@@ -3,7 +3,6 @@
 
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
-import Image from 'next/image';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 
@@ -15,6 +14,9 @@ import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
 import { getUserByUsername } from '@/lib/firestore';
 import { Post, User } from '@/lib/types';
+import { ReactionSummary } from '@/components/blog/reactions';
+import { FollowButton } from '@/components/blog/follow-button';
+import { PostImage } from '@/components/blog/post-image';
 
 type AuthorPageProps = {
     author: User;
@@ -22,6 +24,10 @@ type AuthorPageProps = {
 }
 
 function AuthorPageContent({ author, posts }: AuthorPageProps) {
+    // Kept here so following or unfollowing updates the count without reloading the author.
+    const [followerCount, setFollowerCount] = useState(author.follower_count ?? 0);
+    const followingCount = author.following_count ?? 0;
+
      return (
         <div className="flex flex-col min-h-dvh bg-background">
             <Header />
@@ -37,6 +43,15 @@ function AuthorPageContent({ author, posts }: AuthorPageProps) {
                             {author.name}
                         </h1>
                         <p className="mt-2 text-muted-foreground">@{author.username}</p>
+                        <div className="mt-4 flex items-center justify-center gap-4 text-sm text-muted-foreground">
+                            <span><strong className="text-foreground">{followerCount}</strong> {followerCount === 1 ? 'follower' : 'followers'}</span>
+                            <span><strong className="text-foreground">{followingCount}</strong> following</span>
+                            <FollowButton
+                                targetType="author"
+                                targetId={author.id}
+                                onChange={following => setFollowerCount(count => Math.max(0, count + (following ? 1 : -1)))}
+                            />
+                        </div>
                         {author.bio && (
                             <p className="mt-4 max-w-2xl mx-auto text-lg text-foreground/80">
                                 {author.bio}
@@ -59,13 +74,12 @@ function AuthorPageContent({ author, posts }: AuthorPageProps) {
                                             <CardHeader className="p-0">
                                                 {post.featuredImgUrl && (
                                                     <div className="aspect-video overflow-hidden">
-                                                        <Image
-                                                            src={post.featuredImgUrl}
-                                                            alt={post.title}
+                                                        <PostImage
+                                                            post={post}
+                                                            variant="card"
                                                             width={600}
                                                             height={400}
                                                             className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                                                            data-ai-hint={post.imageHint || 'travel landscape'}
                                                         />
                                                     </div>
                                                 )}
@@ -77,6 +91,7 @@ function AuthorPageContent({ author, posts }: AuthorPageProps) {
                                                  <div className="mt-4 text-sm text-muted-foreground">
                                                     <time dateTime={post.created_at.toISOString()}>{format(new Date(post.created_at), 'MMMM d, yyyy')}</time>
                                                 </div>
+                                                <ReactionSummary counts={post.reaction_counts} className="mt-3" />
                                             </CardContent>
                                         </Card>
                                     </Link>
@@ -3,8 +3,7 @@
 // The [slug] part in the filename indicates that it will match any URL like /blog/my-first-post.
 
 // Import necessary functions and components from Next.js and other libraries.
-import { notFound } from 'next/navigation'; // A Next.js function to trigger a 404 Not Found page.
-import Image from 'next/image'; // The optimized Image component from Next.js.
+import { notFound, permanentRedirect } from 'next/navigation'; // Next.js functions to trigger a 404 Not Found page or a permanent redirect.
 import type { Metadata, ResolvingMetadata } from 'next'; // Types for defining page metadata for SEO.
 import { Header } from '@/components/landing/header'; // The site's main header component.
 import { Footer } from '@/components/landing/footer'; // The site's main footer component.
@@ -12,12 +11,19 @@ import { Badge } from '@/components/ui/badge'; // A UI component for displaying
 import { format } from 'date-fns'; // A utility library for formatting dates.
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'; // UI components for displaying user avatars.
 import { Separator } from '@/components/ui/separator'; // A UI component for drawing a horizontal line.
-import { Share2 } from 'lucide-react'; // An icon from the lucide-react library.
+import { Share2, Clock } from 'lucide-react'; // Icons from the lucide-react library.
 import { Button } from '@/components/ui/button'; // The standard button component.
 import Link from 'next/link'; // The Next.js component for client-side navigation.
 import { Card, CardContent, CardHeader } from '@/components/ui/card'; // UI components for card layouts.
 import { InteractiveSection } from '@/components/blog/interactive-section'; // The component for comments and stories.
-import { getPostsBySlug, getPublishedPosts, getUserById } from '@/lib/firestore'; // The Firestore data source for posts and users.
+import { ReactionBar, ReactionSummary } from '@/components/blog/reactions'; // Reactions to the post and its related posts.
+import { BookmarkButton } from '@/components/blog/bookmark-button'; // Saves the post to the reader's bookmarks and reading lists.
+import { PostImage } from '@/components/blog/post-image'; // The featured image, in the right size and blurred until it loads.
+import { Gallery } from '@/components/blog/gallery'; // The post's gallery, with a lightbox carousel.
+import { getPostsBySlug, queryPublishedPosts, getUserById } from '@/lib/firestore'; // The Firestore data source for posts and users.
+import { renderPostContent } from '@/lib/content'; // Converts the post's content to HTML.
+import { postAnalysis, addHeadingIds } from '@/lib/content-analysis'; // Reading time, table of contents and descriptions.
+import { categoryPath, tagPath } from '@/lib/taxonomy'; // The URLs of the category and tag pages.
 
 // An asynchronous function to retrieve a single blog post from the mock data based on its slug.
 // In a real application, this would fetch data from a database.
@@ -38,9 +44,13 @@ async function getBlogPostBySlug(slug: string) {
 // An asynchronous function to get a few related posts.
 // This is based on the category of the current post, excluding the current post itself.
 async function getRelatedPosts(categoryId: string | null, currentPostId: string) {
-    const posts = await getPublishedPosts();
-    // Filter `mockPosts` to find posts that are 'published', in the same category, and are not the current post.
-    return posts.filter(p => p.status === 'published' && p.category === categoryId && p.id !== currentPostId).slice(0, 3); // Limit to 3 related posts.
+    // Posts without a category have nothing to relate to.
+    if (!categoryId) {
+        return [];
+    }
+    // Fetch one more than we show, in case the current post is among the results.
+    const { items } = await queryPublishedPosts({ category: categoryId, pageSize: 4 });
+    return items.filter(p => p.id !== currentPostId).slice(0, 3); // Limit to 3 related posts.
 }
 
 // Define the type for the props that this page component will receive from Next.js.
@@ -65,16 +75,18 @@ export async function generateMetadata(
   }
  
   // If the post is found, return detailed metadata for better SEO.
+  // The description is worked out from the excerpt when the post is saved (see `src/lib/content-analysis.ts`).
+  const { meta_description } = postAnalysis(post);
   return {
     title: `${post.title} | Travonex`,
-    description: `Discover ${post.title} with Travonex – your gateway to curated weekend getaways, treks, road trips, and unique travel experiences across India. Plan smarter, travel better.`,
+    description: meta_description,
     alternates: {
       canonical: `${process.env.NEXT_PUBLIC_BASE_URL}/blog/${post.slug}`,
     },
     // Open Graph metadata is used for social media sharing (e.g., Facebook, LinkedIn).
     openGraph: {
       title: post.title,
-      description: post.excerpt,
+      description: meta_description,
       images: [post.featuredImgUrl], // The main image for the social media preview.
     },
   }
@@ -91,6 +103,15 @@ export default async function BlogPostPage({ params }: { params: { slug: string
     notFound();
   }
 
+  // The post was found through one of its old slugs (its title has changed since), so send readers and
+  // search engines to the current URL. This is a permanent (308) redirect, which search engines treat like a 301.
+  if (post.slug !== params.slug) {
+    permanentRedirect(`/blog/${post.slug}`);
+  }
+
+  // The reading time and table of contents, stored when the post was saved.
+  const { reading_minutes, toc } = postAnalysis(post);
+
   // Fetch related posts to display at the bottom of the page.
   const relatedPosts = await getRelatedPosts(post.category, post.id);
 
@@ -102,7 +123,11 @@ export default async function BlogPostPage({ params }: { params: { slug: string
         {/* The main article content. */}
         <article className="container max-w-4xl mx-auto py-12 md:py-24">
           <header className="text-center mb-12">
-            <Badge variant="secondary" className="mb-4">{post.category}</Badge>
+            {post.category && (
+              <Link href={categoryPath(post.category)}>
+                <Badge variant="secondary" className="mb-4">{post.category}</Badge>
+              </Link>
+            )}
             <h1 className="text-4xl md:text-6xl font-extrabold font-headline tracking-tight text-foreground">
               {post.title}
             </h1>
@@ -116,37 +141,66 @@ export default async function BlogPostPage({ params }: { params: { slug: string
               </div>
               <span>•</span>
               <time dateTime={post.created_at.toISOString()}>{format(new Date(post.created_at), 'MMMM d, yyyy')}</time>
+              <span>•</span>
+              <span className="flex items-center gap-1"><Clock className="h-4 w-4" />{reading_minutes} min read</span>
             </div>
           </header>
 
           {/* Display the featured image if it exists. */}
           {post.featuredImgUrl && (
             <div className="aspect-video relative mb-12 rounded-2xl overflow-hidden shadow-2xl">
-                <Image
-                  src={post.featuredImgUrl}
-                  alt={post.title}
+                <PostImage
+                  post={post}
+                  variant="hero"
                   fill // The `fill` prop makes the image cover its parent container.
+                  priority // The hero image is the largest thing on the page, so it loads first.
                   className="object-cover"
-                  data-ai-hint={post.imageHint || 'travel landscape'} // A hint for AI image tools.
                 />
             </div>
           )}
 
-          {/* The main content of the post. `dangerouslySetInnerHTML` is used here because the mock
-              content contains HTML tags. In a real app with a CMS, this is a common pattern, but
-              it's crucial to ensure the HTML is sanitized to prevent XSS attacks. */}
-          <div className="prose prose-lg dark:prose-invert max-w-none mx-auto text-foreground/90 text-lg" dangerouslySetInnerHTML={{ __html: post.content || '' }} />
+          {/* The table of contents, for posts with enough sections to need one. */}
+          {toc.length >= 3 && (
+            <nav aria-label="Table of contents" className="mb-12 rounded-2xl border bg-secondary/30 p-6">
+              <h2 className="font-headline font-bold mb-3">In this post</h2>
+              <ol className="space-y-1 text-muted-foreground">
+                {toc.map(entry => (
+                  <li key={entry.id} className={entry.level === 3 ? 'ml-4' : undefined}>
+                    <a href={`#${entry.id}`} className="hover:text-foreground hover:underline">{entry.text}</a>
+                  </li>
+                ))}
+              </ol>
+            </nav>
+          )}
+
+          {/* The main content of the post. `renderPostContent` converts the stored Markdown (or the HTML of
+              older posts) to HTML and sanitizes it against an allowlist (see `src/lib/sanitize.ts`),
+              which is what makes `dangerouslySetInnerHTML` safe here. `addHeadingIds` then gives the
+              headings the anchors the table of contents links to. */}
+          <div className="prose prose-lg dark:prose-invert max-w-none mx-auto text-foreground/90 text-lg" dangerouslySetInnerHTML={{ __html: addHeadingIds(renderPostContent(post)) }} />
+
+          {/* The author's gallery of photos, which open in a lightbox. */}
+          {post.gallery && post.gallery.length > 0 && (
+            <section aria-labelledby="gallery-heading" className="mt-12">
+              <h2 id="gallery-heading" className="text-2xl font-bold font-headline mb-4">Photos</h2>
+              <Gallery photos={post.gallery} title={post.title} />
+            </section>
+          )}
           
           <Separator className="my-12" />
 
-          {/* Footer of the article, showing tags and a share button. */}
+          {/* Footer of the article, showing tags, reactions and a share button. */}
           <footer className="flex flex-col md:flex-row justify-between items-center gap-6">
             <div className="flex gap-2">
               {post.tags.map(tag => (
-                <Badge key={tag} variant="outline">{tag}</Badge>
+                <Link key={tag} href={tagPath(tag)}>
+                  <Badge variant="outline">#{tag}</Badge>
+                </Link>
               ))}
             </div>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center justify-center gap-2">
+              <ReactionBar targetType="post" targetId={post.id} counts={post.reaction_counts} />
+              <BookmarkButton postId={post.id} />
               <Button variant="outline" size="sm">
                 <Share2 className="mr-2 h-4 w-4" />
                 Share
@@ -174,13 +228,12 @@ export default async function BlogPostPage({ params }: { params: { slug: string
                       <CardHeader className="p-0">
                          {relatedPost.featuredImgUrl && (
                             <div className="aspect-video overflow-hidden">
-                                <Image
-                                src={relatedPost.featuredImgUrl}
-                                alt={relatedPost.title}
+                                <PostImage
+                                post={relatedPost}
+                                variant="card"
                                 width={600}
                                 height={400}
                                 className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                                data-ai-hint={relatedPost.imageHint || 'travel landscape'}
                                 />
                             </div>
                          )}
@@ -188,6 +241,7 @@ export default async function BlogPostPage({ params }: { params: { slug: string
                       <CardContent className="p-6">
                         <h3 className="text-xl font-bold font-headline group-hover:text-primary transition-.colors">{relatedPost.title}</h3>
                         <p className="mt-2 text-muted-foreground line-clamp-2">{relatedPost.excerpt}</p>
+                        <ReactionSummary counts={relatedPost.reaction_counts} className="mt-3" />
                       </CardContent>
                     </Card>
                   </Link>
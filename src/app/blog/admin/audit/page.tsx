@@ -0,0 +1,202 @@
+// This file creates the audit log page in the admin dashboard: every moderation and admin action,
+// newest first, with who made it, what it changed and why. Only admins can open it.
+//
+// The entries of the chosen period are loaded once; the other filters run in the browser (see
+// `filterAuditEntries` in `src/lib/audit.ts`). "Export CSV" downloads the entries the filters show.
+
+// This is a Client Component because it keeps the entries and the filters in state.
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Loader2 } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+// Import types and data functions.
+import { AuditEntry, AuditTargetType, User } from '@/lib/types';
+import { getAuditLog, getUsers } from '@/lib/firestore';
+import { AUDIT_ACTIONS, auditActionLabel, auditEntriesToCsv, filterAuditEntries } from '@/lib/audit';
+
+// The periods to load, in days. 0 loads the whole log.
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 0, label: 'All time' },
+];
+
+const TARGET_TYPES: { value: AuditTargetType; label: string }[] = [
+  { value: 'post', label: 'Posts' },
+  { value: 'comment', label: 'Comments' },
+  { value: 'story', label: 'Stories' },
+  { value: 'user', label: 'Users' },
+];
+
+// The value the selects use for "no filter", since a Select item can't have an empty value.
+const ANY = 'any';
+
+// Lists the fields an entry changed, e.g. "status: pending → published".
+function describeChanges(entry: AuditEntry): string {
+  const keys = Array.from(new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]));
+  const show = (value: unknown) => value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+  return keys
+    .map(key => entry.after && key in entry.after
+      ? `${key}: ${show(entry.before?.[key])} → ${show(entry.after[key])}`
+      : `${key}: ${show(entry.before?.[key])}`)
+    .join('; ');
+}
+
+export default function AdminAuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [periodDays, setPeriodDays] = useState(30);
+  const [targetType, setTargetType] = useState(ANY);
+  const [action, setAction] = useState(ANY);
+  const [actorId, setActorId] = useState(ANY);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    getUsers().then(setUsers);
+  }, []);
+
+  useEffect(() => {
+    async function fetchEntries() {
+      setIsLoading(true);
+      setEntries(await getAuditLog(periodDays ? subDays(new Date(), periodDays) : undefined));
+      setIsLoading(false);
+    }
+    fetchEntries();
+  }, [periodDays]);
+
+  const actorName = (id: string) => users.find(u => u.id === id)?.name ?? 'Unknown user';
+
+  const filtered = useMemo(() => filterAuditEntries(entries, {
+    ...(targetType !== ANY && { targetType: targetType as AuditTargetType }),
+    ...(action !== ANY && { action }),
+    ...(actorId !== ANY && { actorId }),
+    search,
+  }), [entries, targetType, action, actorId, search]);
+
+  // The users who appear in the loaded entries, for the actor filter.
+  const actors = useMemo(() => users.filter(u => entries.some(e => e.actor_id === u.id)), [users, entries]);
+
+  // Downloads the filtered entries as a CSV file.
+  const handleExport = () => {
+    const csv = auditEntriesToCsv(filtered, actorName);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>Every moderation and admin action: who did what, and when.</CardDescription>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={filtered.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-1">
+            <Label>Period</Label>
+            <Select value={String(periodDays)} onValueChange={(value) => setPeriodDays(Number(value))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(period => <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Target</Label>
+            <Select value={targetType} onValueChange={setTargetType}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Everything</SelectItem>
+                {TARGET_TYPES.map(type => <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All actions</SelectItem>
+                {Object.entries(AUDIT_ACTIONS)
+                  .filter(([value]) => targetType === ANY || value.startsWith(`${targetType}.`))
+                  .map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Actor</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Anyone</SelectItem>
+                {actors.map(actor => <SelectItem key={actor.id} value={actor.id}>{actor.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-search">Search</Label>
+            <Input id="audit-search" placeholder="Summary, reason or ID" value={search} onChange={(e) => setSearch(e.target.value)} />
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Actor</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Summary</TableHead>
+              <TableHead>Changes</TableHead>
+              <TableHead>Reason</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  <Loader2 className="inline mr-2 h-4 w-4 animate-spin" />Loading...
+                </TableCell>
+              </TableRow>
+            ) : filtered.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">No actions match these filters.</TableCell>
+              </TableRow>
+            ) : filtered.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">{format(entry.created_at, 'yyyy-MM-dd HH:mm')}</TableCell>
+                <TableCell>{actorName(entry.actor_id)}</TableCell>
+                <TableCell><Badge variant="outline" className="whitespace-nowrap">{auditActionLabel(entry.action)}</Badge></TableCell>
+                <TableCell className="max-w-xs">{entry.summary}</TableCell>
+                <TableCell className="max-w-xs text-xs text-muted-foreground break-words">{describeChanges(entry)}</TableCell>
+                <TableCell className="max-w-xs text-sm">{entry.reason}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-sm text-muted-foreground">
+          Showing {filtered.length} of {entries.length} {entries.length === 1 ? 'entry' : 'entries'}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
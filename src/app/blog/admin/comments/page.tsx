@@ -1,26 +1,35 @@
 // This file creates the page for moderating user-submitted comments in the admin dashboard.
 // It displays a table of comments and allows an admin to approve, reject, or delete them.
+// Replies show which comment they answer. Rejecting or deleting a comment doesn't touch its replies:
+// approved replies stay on the post under a placeholder.
+// The table works as a triage queue: it starts filtered to pending comments, several comments can be
+// approved, rejected or deleted at once, and keyboard shortcuts work through it (see `useModerationQueue`).
 
 // This is a Client Component because it uses `useState` for state management and handles user interactions.
 'use client';
 
 // Import React hooks and UI components.
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ModerationFiltersBar, ModerationBulkBar, ModerationRiskBadge, bulkResultToast } from "@/components/blog/moderation-queue";
 import { format } from 'date-fns';
 // Import mock data and types.
 import { Comment, User, Post } from '@/lib/types';
-import { getComments, getUsers, getPosts, updateComment, deleteComment as deleteCommentFromFirestore } from '@/lib/firestore';
+import { getComments, getUsers, getPosts } from '@/lib/firestore';
+// Moderation actions go through the moderation service, which records them in the audit log.
+import { moderateCommentStatus, moderateCommentDelete, bulkModerateComments, filterModerationQueue, ModerationFilters, BulkModerationAction } from '@/lib/moderation';
 // Import icons for action buttons.
-import { ThumbsUp, ThumbsDown, Trash2, CheckCircle, XCircle, Send } from 'lucide-react';
+import { ThumbsUp, ThumbsDown, Trash2, CheckCircle, XCircle, Send, CornerDownRight } from 'lucide-react';
 // Import Next.js components.
 import Link from 'next/link';
 // Import custom hooks.
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import { useModerationQueue, queueRowId } from '@/hooks/use-moderation-queue';
 
 // The main component for the Admin Comments Page.
 export default function AdminCommentsPage() {
@@ -28,10 +37,12 @@ export default function AdminCommentsPage() {
   const [comments, setComments] = useState<Comment[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [posts, setPosts] = useState<Post[]>([]);
-  // Get user role for permission checks.
-  const { userRole } = useAuth();
+  // Get the current user, who is recorded as making each change, and their role for permission checks.
+  const { user, userRole } = useAuth();
   // Get the toast function for user feedback.
   const { toast } = useToast();
+  // The queue starts with what still needs a decision.
+  const [filters, setFilters] = useState<ModerationFilters>({ status: 'pending' });
 
     useEffect(() => {
         async function fetchData() {
@@ -49,23 +60,32 @@ export default function AdminCommentsPage() {
     // Helper function to find post information by ID.
     const getPostInfo = (postId: string) => posts.find(p => p.id === postId) || { title: 'Unknown Post', slug: '#' };
 
+    // How many approved replies, at any level, sit below a comment.
+    const countApprovedReplies = (commentId: string) =>
+      comments.filter(c => c.ancestor_ids?.includes(commentId) && c.status === 'approved').length;
+
   // Handler to change the status of a comment.
   const handleStatusChange = async (commentId: string, newStatus: Comment['status']) => {
-    await updateComment(commentId, { status: newStatus });
+    if (!user) return;
+    await moderateCommentStatus(user.uid, commentId, newStatus);
     // Update the state by mapping over the comments array.
     setComments(comments.map(c => 
       c.id === commentId ? { ...c, status: newStatus } : c
     ));
-    // Show a success toast.
+    // Show a success toast, pointing out replies that stay visible without their parent.
+    const replies = newStatus === 'approved' ? 0 : countApprovedReplies(commentId);
     toast({
         title: "Comment Updated",
-        description: `The comment has been ${newStatus}.`
+        description: replies > 0
+          ? `The comment has been ${newStatus}. Its ${replies} approved ${replies === 1 ? 'reply stays' : 'replies stay'} visible under a placeholder.`
+          : `The comment has been ${newStatus}.`
     });
   };
   
   // Handler to delete a comment.
   const handleDelete = async (commentId: string) => {
-      await deleteCommentFromFirestore(commentId);
+      if (!user) return;
+      await moderateCommentDelete(user.uid, commentId);
       // Update state by filtering out the deleted comment.
       setComments(comments.filter(c => c.id !== commentId));
       // Show a destructive toast.
@@ -76,6 +96,22 @@ export default function AdminCommentsPage() {
     });
   }
 
+  // The comments the filters let through, which the table, the selection and the shortcuts work on.
+  const visibleComments = useMemo(() => filterModerationQueue(comments, filters), [comments, filters]);
+
+  // Runs a bulk action (from the bulk bar or a keyboard shortcut) and updates the table with what it changed.
+  const handleBulkAction = async (action: BulkModerationAction, ids: string[]) => {
+    if (!user) return;
+    const result = await bulkModerateComments(user.uid, ids, action);
+    const done = new Set(result.succeeded);
+    setComments(current => action === 'delete'
+      ? current.filter(c => !done.has(c.id))
+      : current.map(c => done.has(c.id) ? { ...c, status: action === 'approve' ? 'approved' : 'rejected' } : c));
+    toast(bulkResultToast(result, action, 'comment', 'comments'));
+  };
+
+  const queue = useModerationQueue(visibleComments, { run: handleBulkAction, canDelete: userRole === 'admin' });
+
   // A helper component to render the correct status badge.
   const getStatusBadge = (status: Comment['status']) => {
     switch (status) {
@@ -95,12 +131,17 @@ export default function AdminCommentsPage() {
     <Card>
       <CardHeader>
         <CardTitle>Moderate Comments</CardTitle>
-        <CardDescription>Approve or reject comments submitted by users.</CardDescription>
+        <CardDescription>Approve or reject comments submitted by users, one at a time or in bulk.</CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <ModerationFiltersBar filters={filters} onChange={setFilters} posts={posts} users={users} />
+        <ModerationBulkBar queue={queue} noun="comment" plural="comments" />
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10">
+                <Checkbox checked={queue.allSelected} onCheckedChange={queue.toggleAll} aria-label="Select all" />
+              </TableHead>
               <TableHead>Author</TableHead>
               <TableHead>Comment</TableHead>
               <TableHead>In Response To</TableHead>
@@ -111,14 +152,41 @@ export default function AdminCommentsPage() {
           </TableHeader>
           <TableBody>
             {/* Map over the comments array to render a row for each one. */}
-            {comments.map(comment => {
+            {visibleComments.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">No comments match these filters.</TableCell>
+              </TableRow>
+            )}
+            {visibleComments.map(comment => {
               const author = getUserInfo(comment.userId);
               const post = getPostInfo(comment.postId);
               return (
-                <TableRow key={comment.id}>
+                <TableRow
+                  key={comment.id}
+                  id={queueRowId(comment.id)}
+                  onClick={() => queue.setFocusedId(comment.id)}
+                  data-state={queue.selectedIds.has(comment.id) ? 'selected' : undefined}
+                  className={queue.focusedId === comment.id ? 'outline outline-2 -outline-offset-2 outline-primary' : undefined}
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={queue.selectedIds.has(comment.id)}
+                      onCheckedChange={() => queue.toggle(comment.id)}
+                      aria-label="Select"
+                    />
+                  </TableCell>
                   <TableCell className="font-medium">{author.name}</TableCell>
                   {/* `truncate` and `max-w-xs` are Tailwind classes to prevent long text from breaking the layout. */}
-                  <TableCell className="text-muted-foreground truncate max-w-xs">{comment.comment_text}</TableCell>
+                  <TableCell className="text-muted-foreground max-w-xs">
+                    <p className="truncate">{comment.comment_text}</p>
+                    {/* For replies, show whose comment they answer. */}
+                    {comment.parent_id && (
+                      <p className="flex items-center gap-1 text-xs">
+                        <CornerDownRight className="h-3 w-3" />
+                        Reply to {getUserInfo(comments.find(c => c.id === comment.parent_id)?.userId ?? '').name}
+                      </p>
+                    )}
+                  </TableCell>
                   <TableCell>
                     {/* Link to the original post for context. */}
                     <Link href={`/blog/${post.slug}`} className="hover:underline" target="_blank">
@@ -126,7 +194,11 @@ export default function AdminCommentsPage() {
                     </Link>
                   </TableCell>
                   <TableCell>
-                    {getStatusBadge(comment.status)}
+                    {/* The status, and what automated moderation made of the comment. */}
+                    <div className="flex flex-col items-start gap-1">
+                      {getStatusBadge(comment.status)}
+                      <ModerationRiskBadge moderation={comment.moderation} />
+                    </div>
                   </TableCell>
                   <TableCell>{format(new Date(comment.created_at), 'yyyy-MM-dd')}</TableCell>
                   <TableCell className="text-right">
@@ -1,5 +1,7 @@
 // This file defines the layout for the entire admin dashboard section (/blog/admin/*).
 // It includes the sidebar navigation, the top header, and a route guard to protect the section.
+// The middleware (`src/middleware.ts`) already turns away visitors without the right role on the server;
+// the guard here covers a session that ends while the page is open.
 
 // This component must be a Client Component because it uses hooks like `useEffect`, `useRouter`,
 // and `usePathname` to handle client-side logic like authentication checks and navigation.
@@ -19,7 +21,7 @@ import {
   SidebarInset,
 } from "@/components/ui/sidebar";
 // Import icons from the lucide-react library.
-import { Home, Newspaper, MessageSquare, Pencil, Users, LogOut } from "lucide-react";
+import { Home, Newspaper, MessageSquare, Pencil, Tags, Users, ScrollText, LogOut } from "lucide-react";
 // Import Next.js components for navigation.
 import Link from 'next/link';
 import { useRouter, usePathname } from "next/navigation";
@@ -30,17 +32,23 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 // Import React's `useEffect` hook for running side effects (like checking auth status).
 import { useEffect } from "react";
+// The sections of the admin area and the roles allowed in each, shared with the middleware.
+import { ADMIN_NAV_ITEMS, allowedRoles, Role } from "@/lib/auth/routes";
+
+// The icon shown next to each section in the sidebar.
+const navIcons: Record<string, React.ReactNode> = {
+    "/blog/admin": <Home />,
+    "/blog/admin/posts": <Newspaper />,
+    "/blog/admin/comments": <MessageSquare />,
+    "/blog/admin/stories": <Pencil />,
+    "/blog/admin/taxonomy": <Tags />,
+    "/blog/admin/users": <Users />,
+    "/blog/admin/audit": <ScrollText />,
+};
 
 // Define the navigation items for the sidebar.
 // Each item includes a path, icon, label, and an array of roles that are allowed to see it.
-// This makes the navigation structure clear and easy to manage.
-const navItems = [
-    { href: "/blog/admin", icon: <Home />, label: "Dashboard", roles: ['admin', 'editor'] },
-    { href: "/blog/admin/posts", icon: <Newspaper />, label: "Posts", roles: ['admin', 'editor'] },
-    { href: "/blog/admin/comments", icon: <MessageSquare />, label: "Comments", roles: ['admin', 'editor'] },
-    { href: "/blog/admin/stories", icon: <Pencil />, label: "Stories", roles: ['admin', 'editor'] },
-    { href: "/blog/admin/users", icon: <Users />, label: "Users", roles: ['admin'] } // Only admins can see this.
-];
+const navItems = ADMIN_NAV_ITEMS.map(item => ({ ...item, icon: navIcons[item.href] }));
 
 // This is the main layout component for the admin section.
 // It wraps around the page components for each admin route (e.g., /blog/admin/posts/page.tsx).
@@ -55,19 +63,21 @@ export default function AdminLayout({
   const router = useRouter();
   // Get the current URL path to highlight the active sidebar link.
   const pathname = usePathname();
+  // Whether the user's role may open the current page, by the same rules the middleware enforces.
+  const isAllowed = !!userRole && !!allowedRoles(pathname)?.includes(userRole as Role);
 
   // This `useEffect` hook is the route guard. It runs whenever the component mounts or
   // the dependencies (user, loading, userRole) change.
   useEffect(() => {
     // We only perform the check once the authentication state is no longer loading.
     if (!loading) {
-      // If there is no logged-in user, or if the user's role is not 'admin' or 'editor',
+      // If there is no logged-in user, or if the user's role may not open this page,
       // we redirect them to the login page.
-      if (!user || (userRole !== 'admin' && userRole !== 'editor')) {
+      if (!user || !isAllowed) {
         router.push('/login');
       }
     }
-  }, [user, loading, userRole, router]); // Dependencies array for the hook.
+  }, [user, loading, isAllowed, router]); // Dependencies array for the hook.
 
   // While the auth state is loading, display a simple loading message.
   // This prevents a flash of the admin content before the auth check completes.
@@ -81,7 +91,7 @@ export default function AdminLayout({
   
   // After loading, if the user is still not authorized, show an "Access Denied" message.
   // This provides a better user experience than just a blank screen before the redirect happens.
-  if (!user || (userRole !== 'admin' && userRole !== 'editor')) {
+  if (!user || !isAllowed) {
     return (
         <div className="flex flex-col items-center justify-center h-screen text-center p-4">
             <h1 className="text-2xl font-bold mb-4">Access Denied</h1>
@@ -113,7 +123,7 @@ export default function AdminLayout({
           <div className="flex-1 overflow-auto py-2">
             <nav className="grid items-start px-4 text-sm font-medium">
               {navItems.map((item) => (
-                item.roles.includes(userRole!) && (
+                item.roles.includes(userRole as Role) && (
                     <Link
                         key={item.label}
                         href={item.href}
@@ -6,8 +6,7 @@ import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@
 import { Newspaper, MessageSquare, Pencil } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
-import { collection, getDocs, query } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { getPosts, getUsers, getComments, getStories } from '@/lib/firestore';
 import { useAuth } from '@/hooks/use-auth';
 import { Post, User, Comment, FollowUpStory } from '@/lib/types';
 
@@ -28,28 +27,11 @@ export default function AdminDashboard() {
     if (!user) return;
 
     const fetchData = async () => {
-      const postsSnapshot = await getDocs(query(collection(db, 'posts')));
-      const postsData = postsSnapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          // 🔥 normalize created_at so it's always a Date
-          created_at: data.created_at?.toDate
-            ? data.created_at.toDate()
-            : data.created_at
-        };
-      }) as Post[];
-      setPosts(postsData);
-
-      const usersSnapshot = await getDocs(query(collection(db, 'users')));
-      setUsers(usersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as User[]);
-
-      const commentsSnapshot = await getDocs(query(collection(db, 'comments')));
-      setComments(commentsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Comment[]);
-
-      const storiesSnapshot = await getDocs(query(collection(db, 'stories')));
-      setStories(storiesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as FollowUpStory[]);
+      const [posts, users, comments, stories] = await Promise.all([getPosts(), getUsers(), getComments(), getStories()]);
+      setPosts(posts);
+      setUsers(users);
+      setComments(comments);
+      setStories(stories);
     };
 
     fetchData();
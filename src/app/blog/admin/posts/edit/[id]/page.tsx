@@ -6,7 +6,7 @@
 'use client';
 
 // Import React hooks for state management and side effects.
-import { useState, useEffect, ChangeEvent } from 'react';
+import { useState, useEffect, useCallback, ChangeEvent } from 'react';
 // Import Next.js hooks for accessing the router and URL parameters.
 import { useRouter, useParams } from 'next/navigation';
 // Import UI components from ShadCN.
@@ -15,9 +15,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { ContentEditor } from "@/components/blog/content-editor";
+import { CategoryPicker, TagPicker } from "@/components/blog/taxonomy-pickers";
+import { RevisionHistory } from "@/components/blog/revision-history";
+import { ReviewThread } from "@/components/blog/review-thread";
+import { GalleryUploader } from "@/components/blog/gallery-uploader";
 // Import the Firestore functions to interact with the database.
 import { getPost, updatePost as updatePostInFirestore } from '@/lib/firestore';
-import { Post } from '@/lib/types';
+import { Post, GalleryImage } from '@/lib/types';
 // Import the hook for showing toast notifications.
 import { useToast } from '@/hooks/use-toast';
 // Import Next.js components for navigation and images.
@@ -25,7 +30,11 @@ import Link from 'next/link';
 import Image from 'next/image';
 // Import an icon.
 import { ArrowLeft } from 'lucide-react';
-import { uploadImage } from '@/lib/storage';
+import { uploadImageVariants } from '@/lib/storage';
+import { validateImageFile, ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { DEFAULT_CONTENT_FORMAT } from '@/lib/content';
+import { authorExcerpt } from '@/lib/content-analysis';
+import { normalizeGallery, MAX_POST_GALLERY_IMAGES } from '@/lib/galleries';
 import { useAuth } from '@/hooks/use-auth';
 
 // The main component for the Edit Post page.
@@ -37,7 +46,7 @@ export default function EditPostPage() {
   const { id } = params;
   // Get the toast function for user feedback.
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, userRole } = useAuth();
   
   // State to hold the full post object being edited.
   const [post, setPost] = useState<Post | null>(null);
@@ -45,9 +54,26 @@ export default function EditPostPage() {
   const [title, setTitle] = useState('');
   const [excerpt, setExcerpt] = useState('');
   const [content, setContent] = useState('');
+  const [category, setCategory] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
   const [imageFile, setImageFile] = useState<File | null>(null);
   // State to hold the preview URL for a newly selected image file.
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // The gallery as edited, and whether new photos are still uploading.
+  const [gallery, setGallery] = useState<GalleryImage[]>([]);
+  const [isGalleryUploading, setIsGalleryUploading] = useState(false);
+
+  // Fills the form with a post's values, when it is loaded and when a revision is restored.
+  const fillForm = useCallback((postToEdit: Post) => {
+    setPost(postToEdit);
+    setTitle(postToEdit.title);
+    setExcerpt(authorExcerpt(postToEdit));
+    setContent(postToEdit.content);
+    setCategory(postToEdit.category || '');
+    setTags(postToEdit.tags || []);
+    setImageFile(null);
+    setImagePreview(postToEdit.featuredImgUrl);
+  }, []);
 
   // This `useEffect` hook runs when the component mounts or when the `id` parameter changes.
   // Its purpose is to fetch the post data and populate the form fields.
@@ -62,11 +88,7 @@ export default function EditPostPage() {
         const postToEdit = await getPost(postId);
         if (postToEdit) {
           // If the post is found, update the state.
-          setPost(postToEdit);
-          setTitle(postToEdit.title);
-          setExcerpt(postToEdit.excerpt);
-          setContent(postToEdit.content);
-          setImagePreview(postToEdit.featuredImgUrl);
+          fillForm(postToEdit);
         } else {
           // If no post is found, show an error toast and redirect the user back to the main posts list.
           toast({
@@ -79,13 +101,21 @@ export default function EditPostPage() {
     }
     
     fetchPost();
-  }, [id, router, toast]); // Dependencies for the effect.
+  }, [id, router, toast, fillForm]); // Dependencies for the effect.
 
   // Handler for the file input change event.
   const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
     // Check if a file was selected.
     if (e.target.files && e.target.files[0]) {
         const file = e.target.files[0];
+        // Check the type and size straight away, rather than when saving.
+        try {
+          validateImageFile(file);
+        } catch (error) {
+          toast({ title: "Can't use this image", description: (error as Error).message, variant: "destructive" });
+          e.target.value = '';
+          return;
+        }
         setImageFile(file);
         // In a real application, you would start the upload process here.
         // For this mock setup, we use `URL.createObjectURL` to generate a temporary local URL
@@ -98,18 +128,42 @@ export default function EditPostPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault(); // Prevent the default browser form submission behavior.
     if (post && user) {
+      if (isGalleryUploading) {
+        toast({ title: "Photos still uploading", description: "Wait for the gallery photos to finish uploading." });
+        return;
+      }
+      try {
+        normalizeGallery(gallery, MAX_POST_GALLERY_IMAGES);
+      } catch (error) {
+        toast({ title: "Check the gallery", description: (error as Error).message, variant: "destructive" });
+        return;
+      }
       let imageUrl = post.featuredImgUrl;
+      let featuredImage = post.featured_image;
       if (imageFile) {
-        const path = `posts/${user.uid}/${imageFile.name}`;
-        imageUrl = await uploadImage(imageFile, path);
+        // The image is resized and stripped of its metadata before upload (see `src/lib/images.ts`).
+        try {
+          featuredImage = await uploadImageVariants(imageFile, `posts/${user.uid}`);
+        } catch (error) {
+          toast({ title: "Image upload failed", description: (error as Error).message, variant: "destructive" });
+          return;
+        }
+        imageUrl = featuredImage.hero.url;
       }
       // Call the `updatePost` function from our mock data library to "save" the changes.
       await updatePostInFirestore(post.id, {
         title,
         excerpt,
         content,
+        category,
+        tags,
+        // Older HTML posts are saved as Markdown too; the HTML they contain is still valid Markdown.
+        content_format: DEFAULT_CONTENT_FORMAT,
         featuredImgUrl: imageUrl, // Save the new image URL (or the old one if unchanged).
-      });
+        ...(featuredImage && { featured_image: featuredImage }),
+        // Always saved, so removing every photo empties the gallery.
+        gallery,
+      }, { editorId: user.uid }); // Recorded on the revision this save creates.
       // Show a success notification.
       toast({
         title: "Post Updated",
@@ -127,8 +181,8 @@ export default function EditPostPage() {
 
   // The JSX for the edit form.
   return (
-    <div>
-       <Button variant="outline" size="sm" asChild className="mb-4">
+    <div className="space-y-6">
+       <Button variant="outline" size="sm" asChild>
           <Link href="/blog/admin/posts">
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Posts
@@ -154,25 +208,65 @@ export default function EditPostPage() {
                       </div>
                     )}
                     {/* The file input for uploading a new image. */}
-                    <Input id="featuredImgUrl" type="file" onChange={handleImageChange} className="mt-2" accept="image/png, image/jpeg" />
+                    <Input id="featuredImgUrl" type="file" onChange={handleImageChange} className="mt-2" accept={ALLOWED_IMAGE_TYPES.join(',')} />
                     <p className="text-sm text-muted-foreground mt-2">
-                        Supports JPG, PNG. Max file size: 2MB. Recommended aspect ratio: 16:9.
+                        Supports JPG, PNG and WebP. Max file size: 10MB. Recommended aspect ratio: 16:9.
                     </p>
                 </div>
+                {user && (
+                  <div className="space-y-2">
+                    <Label htmlFor="gallery">Gallery</Label>
+                    {/* Keyed by post, so it starts again from the saved gallery only when another post is loaded. */}
+                    <GalleryUploader
+                      key={post.id}
+                      id="gallery"
+                      folder={`posts/${user.uid}`}
+                      max={MAX_POST_GALLERY_IMAGES}
+                      initial={post.gallery}
+                      onChange={(photos, uploading) => {
+                        setGallery(photos);
+                        setIsGalleryUploading(uploading);
+                      }}
+                    />
+                  </div>
+                )}
                 <div>
-                    <Label htmlFor="excerpt">Excerpt</Label>
+                    <Label htmlFor="excerpt">Excerpt (optional)</Label>
                     <Textarea id="excerpt" value={excerpt} onChange={(e) => setExcerpt(e.target.value)} />
                 </div>
                 <div>
                     <Label htmlFor="content">Content</Label>
-                    <Textarea id="content" value={content} onChange={(e) => setContent(e.target.value)} className="min-h-[250px]" />
+                    <ContentEditor id="content" value={content} onChange={setContent} imageFolder={user ? `posts/${user.uid}` : undefined} />
+                </div>
+                <div className="grid gap-6 md:grid-cols-2">
+                    <div>
+                        <Label htmlFor="category">Category</Label>
+                        <CategoryPicker id="category" value={category} onChange={setCategory} />
+                    </div>
+                    <div>
+                        <Label htmlFor="tags">Tags</Label>
+                        <TagPicker id="tags" value={tags} onChange={setTags} />
+                    </div>
                 </div>
             </CardContent>
             <CardFooter className="flex justify-end">
-                <Button type="submit">Save Changes</Button>
+                <Button type="submit" disabled={isGalleryUploading}>Save Changes</Button>
             </CardFooter>
         </form>
       </Card>
+      {/* The review thread with the author, and the moderator's decisions. */}
+      {user && (
+        <ReviewThread
+          postId={post.id}
+          userId={user.uid}
+          mode="reviewer"
+          canApprove={userRole === 'admin'}
+          quoteSourceId="content"
+          onDecision={(status) => setPost({ ...post, status })}
+        />
+      )}
+      {/* The saved versions of the post, with a comparison and restore. */}
+      <RevisionHistory postId={post.id} editorId={user?.uid ?? null} onRestored={fillForm} />
     </div>
   );
 }
@@ -13,12 +13,18 @@ import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { SchedulePostDialog } from "@/components/blog/schedule-post-dialog";
+import { ScheduleCalendar } from "@/components/blog/schedule-calendar";
+import { ModerationRiskBadge } from "@/components/blog/moderation-queue";
 // Import icons.
-import { PlusCircle, MoreHorizontal, CheckCircle, XCircle, Send, Trash2, Archive, Eye } from "lucide-react";
+import { PlusCircle, MoreHorizontal, CheckCircle, XCircle, Send, Trash2, Archive, Eye, CalendarClock, MessageSquareText, Undo2 } from "lucide-react";
 // Import date formatting utility.
 import { format, isValid } from 'date-fns';
 // Import Firestore functions.
-import { getPosts, getUsers, updatePost, deletePost as deletePostFromFirestore } from '@/lib/firestore';
+import { getPosts, getUsers } from '@/lib/firestore';
+// Moderation actions go through the moderation service, which records them in the audit log.
+import { moderatePostStatus, moderatePostReview, moderatePostSchedule, moderatePostDelete } from '@/lib/moderation';
 import { Post, User } from '@/lib/types';
 // Import custom hooks for authentication and notifications.
 import { useAuth } from '@/hooks/use-auth';
@@ -32,8 +38,10 @@ export default function AdminPostsPage() {
   // Using state allows the UI to update instantly when a post's status changes or it's deleted.
   const [posts, setPosts] = useState<Post[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  // The post being scheduled in the schedule dialog, or null while it is closed.
+  const [postToSchedule, setPostToSchedule] = useState<Post | null>(null);
   // Get the current user's role to control access to actions (e.g., only admins can delete).
-  const { userRole, loading } = useAuth();
+  const { user, userRole, loading } = useAuth();
   // Get the toast function for user feedback.
   const { toast } = useToast();
 
@@ -59,11 +67,12 @@ export default function AdminPostsPage() {
 
   // Handler to change the status of a post (e.g., from 'pending' to 'published').
   const handleStatusChange = async (postId: string, newStatus: Post['status']) => {
+    if (!user) return;
     // Update the post in Firestore.
-    await updatePost(postId, { status: newStatus });
-    // Update the local `posts` state.
+    await moderatePostStatus(user.uid, postId, newStatus);
+    // Update the local `posts` state. Publishing records the time the post went live.
     setPosts(posts.map(post => 
-      post.id === postId ? { ...post, status: newStatus } : post
+      post.id === postId ? { ...post, status: newStatus, ...(newStatus === 'published' && { publish_at: new Date() }) } : post
     ));
     // Show a confirmation toast.
     toast({
@@ -72,10 +81,37 @@ export default function AdminPostsPage() {
     });
   };
 
+  // Handler to approve and publish a post. The approval is recorded in the post's review thread.
+  const handleApprove = async (postId: string) => {
+    if (!user) return;
+    await moderatePostReview(user.uid, postId, 'approved');
+    setPosts(posts.map(post =>
+      post.id === postId ? { ...post, status: 'published', publish_at: new Date() } : post
+    ));
+    toast({
+        title: "Post Published",
+        description: "The post has been approved and published."
+    });
+  };
+
+  // Handler to schedule (or reschedule) a post from the schedule dialog.
+  const handleSchedule = async (postToUpdate: Post, publishAt: Date) => {
+    if (!user) return;
+    await moderatePostSchedule(user.uid, postToUpdate.id, publishAt);
+    setPosts(posts.map(post =>
+      post.id === postToUpdate.id ? { ...post, status: 'scheduled', publish_at: publishAt } : post
+    ));
+    setPostToSchedule(null);
+    toast({
+        title: "Post Scheduled",
+        description: `"${postToUpdate.title}" will be published on ${format(publishAt, "MMMM d 'at' HH:mm")}.`
+    });
+  };
+
   // Handler to delete a post.
   const handleDelete = async (postId: string) => {
-      // Call the `deletePost` function from the mock data library to update the "source of truth".
-      await deletePostFromFirestore(postId); 
+      if (!user) return;
+      await moderatePostDelete(user.uid, postId);
       // Update the local state to remove the post from the UI immediately.
       setPosts(currentPosts => currentPosts.filter(post => post.id !== postId));
       // Show a destructive toast to confirm the deletion.
@@ -93,6 +129,10 @@ export default function AdminPostsPage() {
         return <Badge className="bg-green-100 text-green-800 border-green-200 hover:bg-green-200"><CheckCircle className="mr-1 h-3 w-3" />Published</Badge>;
       case 'pending':
         return <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200 hover:bg-yellow-200"><Send className="mr-1 h-3 w-3" />Pending</Badge>;
+      case 'changes_requested':
+        return <Badge className="bg-orange-100 text-orange-800 border-orange-200 hover:bg-orange-200"><Undo2 className="mr-1 h-3 w-3" />Changes Requested</Badge>;
+      case 'scheduled':
+        return <Badge className="bg-blue-100 text-blue-800 border-blue-200 hover:bg-blue-200"><CalendarClock className="mr-1 h-3 w-3" />Scheduled</Badge>;
       case 'draft':
         return <Badge variant="outline">Draft</Badge>;
       case 'rejected':
@@ -124,86 +164,116 @@ export default function AdminPostsPage() {
         </Button>
       </CardHeader>
       <CardContent>
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Title</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Author</TableHead>
-              <TableHead>Last Updated</TableHead>
-              <TableHead><span className="sr-only">Actions</span></TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {/* Map over the posts array to render a table row for each post. */}
-            {posts.map(post => (
-              <TableRow key={post.id}>
-                <TableCell className="font-medium">{post.title}</TableCell>
-                <TableCell>{getStatusBadge(post.status)}</TableCell>
-                <TableCell>{getAuthorName(post)}</TableCell>
-                <TableCell>
-                  {isValid(new Date(post.updated_at))
-                    ? format(new Date(post.updated_at), 'yyyy-MM-dd')
-                    : 'Invalid date'}
-                </TableCell>
-                <TableCell className="text-right">
-                    {/* The DropdownMenu component contains all actions for a single post. */}
-                    <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" className="h-8 w-8 p-0">
-                                <span className="sr-only">Open menu</span>
-                                <MoreHorizontal className="h-4 w-4" />
-                            </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                            <DropdownMenuItem asChild>
-                               {/* Link to the dynamic edit page for this post. */}
-                               <Link href={`/blog/admin/posts/edit/${post.id}`}>Edit</Link>
-                            </DropdownMenuItem>
-                            <DropdownMenuItem asChild>
-                                <a href={`/blog/${post.slug}`} target="_blank" rel="noopener noreferrer">
-                                    <Eye className="mr-2 h-4 w-4" /> Preview
-                                </a>
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            {/* Role-based conditional rendering for actions. */}
-                            {userRole === 'admin' && post.status !== 'published' && (
-                                <DropdownMenuItem onClick={() => handleStatusChange(post.id, 'published')}>
-                                    <CheckCircle className="mr-2 h-4 w-4" /> Approve & Publish
+        <Tabs defaultValue="list">
+          <TabsList className="mb-4">
+            <TabsTrigger value="list">All Posts</TabsTrigger>
+            <TabsTrigger value="calendar">Schedule</TabsTrigger>
+          </TabsList>
+          <TabsContent value="list">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Author</TableHead>
+                  <TableHead>Last Updated</TableHead>
+                  <TableHead><span className="sr-only">Actions</span></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {/* Map over the posts array to render a table row for each post. */}
+                {posts.map(post => (
+                  <TableRow key={post.id}>
+                    <TableCell className="font-medium">{post.title}</TableCell>
+                    <TableCell>
+                      {getStatusBadge(post.status)}
+                      {post.status === 'scheduled' && post.publish_at && (
+                        <p className="mt-1 text-xs text-muted-foreground">{format(post.publish_at, 'yyyy-MM-dd HH:mm')}</p>
+                      )}
+                      {/* What automated moderation made of the post, for whoever reviews it. */}
+                      {post.status === 'pending' && (
+                        <div className="mt-1"><ModerationRiskBadge moderation={post.moderation} /></div>
+                      )}
+                    </TableCell>
+                    <TableCell>{getAuthorName(post)}</TableCell>
+                    <TableCell>
+                      {isValid(new Date(post.updated_at))
+                        ? format(new Date(post.updated_at), 'yyyy-MM-dd')
+                        : 'Invalid date'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                        {/* The DropdownMenu component contains all actions for a single post. */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" className="h-8 w-8 p-0">
+                                    <span className="sr-only">Open menu</span>
+                                    <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                                <DropdownMenuItem asChild>
+                                   {/* Link to the dynamic edit page for this post. */}
+                                   <Link href={`/blog/admin/posts/edit/${post.id}`}>Edit</Link>
                                 </DropdownMenuItem>
-                            )}
-                            {/* Example of a disabled menu item if the user doesn't have permission. */}
-                            {post.status === 'pending' && userRole !== 'admin' && (
-                                <DropdownMenuItem disabled>
-                                    <CheckCircle className="mr-2 h-4 w-4" /> Admin required
+                                <DropdownMenuItem asChild>
+                                    <a href={`/blog/${post.slug}`} target="_blank" rel="noopener noreferrer">
+                                        <Eye className="mr-2 h-4 w-4" /> Preview
+                                    </a>
                                 </DropdownMenuItem>
-                            )}
-                             {post.status !== 'rejected' && (
-                                <DropdownMenuItem onClick={() => handleStatusChange(post.id, 'rejected')}>
-                                    <XCircle className="mr-2 h-4 w-4" /> Reject
-                                </DropdownMenuItem>
-                             )}
-                             {post.status !== 'draft' && (
-                                <DropdownMenuItem onClick={() => handleStatusChange(post.id, 'draft')}>
-                                    <Archive className="mr-2 h-4 w-4" /> Move to Drafts
-                                </DropdownMenuItem>
-                             )}
-                            {/* The delete action is only available to admins. */}
-                            {userRole === 'admin' && (
-                                <>
                                 <DropdownMenuSeparator />
-                                <DropdownMenuItem className="text-destructive focus:bg-red-100 focus:text-destructive" onClick={() => handleDelete(post.id)}>
-                                    <Trash2 className="mr-2 h-4 w-4" /> Delete
-                                </DropdownMenuItem>
-                                </>
-                            )}
-                        </DropdownMenuContent>
-                    </DropdownMenu>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
+                                {/* Role-based conditional rendering for actions. */}
+                                {userRole === 'admin' && post.status !== 'published' && (
+                                    <DropdownMenuItem onClick={() => handleApprove(post.id)}>
+                                        <CheckCircle className="mr-2 h-4 w-4" /> Approve & Publish
+                                    </DropdownMenuItem>
+                                )}
+                                {userRole === 'admin' && post.status !== 'published' && (
+                                    <DropdownMenuItem onClick={() => setPostToSchedule(post)}>
+                                        <CalendarClock className="mr-2 h-4 w-4" /> {post.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+                                    </DropdownMenuItem>
+                                )}
+                                {/* Example of a disabled menu item if the user doesn't have permission. */}
+                                {post.status === 'pending' && userRole !== 'admin' && (
+                                    <DropdownMenuItem disabled>
+                                        <CheckCircle className="mr-2 h-4 w-4" /> Admin required
+                                    </DropdownMenuItem>
+                                )}
+                                 {/* Requesting changes and rejecting need a note for the author, written in the review thread. */}
+                                 {post.status !== 'published' && (
+                                    <DropdownMenuItem asChild>
+                                        <Link href={`/blog/admin/posts/edit/${post.id}#review`}>
+                                            <MessageSquareText className="mr-2 h-4 w-4" /> Review & Give Feedback
+                                        </Link>
+                                    </DropdownMenuItem>
+                                 )}
+                                 {post.status !== 'draft' && (
+                                    <DropdownMenuItem onClick={() => handleStatusChange(post.id, 'draft')}>
+                                        <Archive className="mr-2 h-4 w-4" /> Move to Drafts
+                                    </DropdownMenuItem>
+                                 )}
+                                {/* The delete action is only available to admins. */}
+                                {userRole === 'admin' && (
+                                    <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem className="text-destructive focus:bg-red-100 focus:text-destructive" onClick={() => handleDelete(post.id)}>
+                                        <Trash2 className="mr-2 h-4 w-4" /> Delete
+                                    </DropdownMenuItem>
+                                    </>
+                                )}
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+          {/* The calendar of scheduled posts. */}
+          <TabsContent value="calendar">
+            <ScheduleCalendar posts={posts.filter(post => post.status === 'scheduled')} onReschedule={setPostToSchedule} />
+          </TabsContent>
+        </Tabs>
+        <SchedulePostDialog post={postToSchedule} onOpenChange={(open) => !open && setPostToSchedule(null)} onSchedule={handleSchedule} />
       </CardContent>
     </Card>
   );
@@ -1,19 +1,24 @@
 // This file creates the page for moderating user-submitted follow-up stories in the admin dashboard.
-// It's very similar in structure and function to the comments moderation page.
+// It's very similar in structure and function to the comments moderation page, including the
+// filters, bulk actions and keyboard shortcuts of the triage queue.
 
 // This is a Client Component because it uses `useState` for state management and handles user interactions.
 'use client';
 
 // Import React hooks and UI components.
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ModerationFiltersBar, ModerationBulkBar, ModerationRiskBadge, bulkResultToast } from "@/components/blog/moderation-queue";
 import { format } from 'date-fns';
 // Import mock data and types.
 import { FollowUpStory, User, Post } from '@/lib/types';
-import { getStories, getUsers, getPosts, updateStory, deleteStory as deleteStoryFromFirestore } from '@/lib/firestore';
+import { getStories, getUsers, getPosts } from '@/lib/firestore';
+// Moderation actions go through the moderation service, which records them in the audit log.
+import { moderateStoryStatus, moderateStoryDelete, bulkModerateStories, filterModerationQueue, ModerationFilters, BulkModerationAction } from '@/lib/moderation';
 // Import icons for action buttons.
 import { ThumbsUp, ThumbsDown, Trash2, CheckCircle, XCircle, Send } from 'lucide-react';
 // Import Next.js components.
@@ -21,6 +26,7 @@ import Link from 'next/link';
 // Import custom hooks.
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import { useModerationQueue, queueRowId } from '@/hooks/use-moderation-queue';
 
 // The main component for the Admin Stories Page.
 export default function AdminStoriesPage() {
@@ -28,10 +34,12 @@ export default function AdminStoriesPage() {
   const [stories, setStories] = useState<FollowUpStory[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [posts, setPosts] = useState<Post[]>([]);
-  // Get user role for permission checks.
-  const { userRole } = useAuth();
+  // Get the current user, who is recorded as making each change, and their role for permission checks.
+  const { user, userRole } = useAuth();
   // Get the toast function for user feedback.
   const { toast } = useToast();
+  // The queue starts with what still needs a decision.
+  const [filters, setFilters] = useState<ModerationFilters>({ status: 'pending' });
 
   useEffect(() => {
     async function fetchData() {
@@ -51,7 +59,8 @@ export default function AdminStoriesPage() {
 
   // Handler to change the status of a story.
   const handleStatusChange = async (storyId: string, newStatus: FollowUpStory['status']) => {
-    await updateStory(storyId, { status: newStatus });
+    if (!user) return;
+    await moderateStoryStatus(user.uid, storyId, newStatus);
     // Update the state by mapping over the stories array.
     setStories(stories.map(s => 
       s.id === storyId ? { ...s, status: newStatus } : s
@@ -65,7 +74,8 @@ export default function AdminStoriesPage() {
   
   // Handler to delete a story.
   const handleDelete = async (storyId: string) => {
-      await deleteStoryFromFirestore(storyId);
+      if (!user) return;
+      await moderateStoryDelete(user.uid, storyId);
       // Update state by filtering out the deleted story.
       setStories(stories.filter(s => s.id !== storyId));
       // Show a destructive toast.
@@ -76,6 +86,22 @@ export default function AdminStoriesPage() {
     });
   }
 
+  // The stories the filters let through, which the table, the selection and the shortcuts work on.
+  const visibleStories = useMemo(() => filterModerationQueue(stories, filters), [stories, filters]);
+
+  // Runs a bulk action (from the bulk bar or a keyboard shortcut) and updates the table with what it changed.
+  const handleBulkAction = async (action: BulkModerationAction, ids: string[]) => {
+    if (!user) return;
+    const result = await bulkModerateStories(user.uid, ids, action);
+    const done = new Set(result.succeeded);
+    setStories(current => action === 'delete'
+      ? current.filter(c => !done.has(c.id))
+      : current.map(c => done.has(c.id) ? { ...c, status: action === 'approve' ? 'approved' : 'rejected' } : c));
+    toast(bulkResultToast(result, action, 'story', 'stories'));
+  };
+
+  const queue = useModerationQueue(visibleStories, { run: handleBulkAction, canDelete: userRole === 'admin' });
+
   // A helper component to render the correct status badge.
   const getStatusBadge = (status: FollowUpStory['status']) => {
     switch (status) {
@@ -95,12 +121,17 @@ export default function AdminStoriesPage() {
     <Card>
       <CardHeader>
         <CardTitle>Moderate Follow-up Stories</CardTitle>
-        <CardDescription>Approve or reject stories submitted by users.</CardDescription>
+        <CardDescription>Approve or reject stories submitted by users, one at a time or in bulk.</CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <ModerationFiltersBar filters={filters} onChange={setFilters} posts={posts} users={users} />
+        <ModerationBulkBar queue={queue} noun="story" plural="stories" />
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10">
+                <Checkbox checked={queue.allSelected} onCheckedChange={queue.toggleAll} aria-label="Select all" />
+              </TableHead>
               <TableHead>Author</TableHead>
               <TableHead>Story Excerpt</TableHead>
               <TableHead>In Response To</TableHead>
@@ -111,11 +142,29 @@ export default function AdminStoriesPage() {
           </TableHeader>
           <TableBody>
             {/* Map over the stories array to render a row for each one. */}
-            {stories.map(story => {
+            {visibleStories.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">No stories match these filters.</TableCell>
+              </TableRow>
+            )}
+            {visibleStories.map(story => {
               const author = getUserInfo(story.userId);
               const post = getPostInfo(story.postId);
               return (
-                <TableRow key={story.id}>
+                <TableRow
+                  key={story.id}
+                  id={queueRowId(story.id)}
+                  onClick={() => queue.setFocusedId(story.id)}
+                  data-state={queue.selectedIds.has(story.id) ? 'selected' : undefined}
+                  className={queue.focusedId === story.id ? 'outline outline-2 -outline-offset-2 outline-primary' : undefined}
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={queue.selectedIds.has(story.id)}
+                      onCheckedChange={() => queue.toggle(story.id)}
+                      aria-label="Select"
+                    />
+                  </TableCell>
                   <TableCell className="font-medium">{author.name}</TableCell>
                   {/* `truncate` and `max-w-xs` are Tailwind classes to prevent long text from breaking the layout. */}
                   <TableCell className="text-muted-foreground truncate max-w-xs">{story.story_text}</TableCell>
@@ -126,7 +175,11 @@ export default function AdminStoriesPage() {
                     </Link>
                   </TableCell>
                   <TableCell>
-                    {getStatusBadge(story.status)}
+                    {/* The status, and what automated moderation made of the story. */}
+                    <div className="flex flex-col items-start gap-1">
+                      {getStatusBadge(story.status)}
+                      <ModerationRiskBadge moderation={story.moderation} />
+                    </div>
                   </TableCell>
                   <TableCell>{format(new Date(story.created_at), 'yyyy-MM-dd')}</TableCell>
                   <TableCell className="text-right">
@@ -0,0 +1,244 @@
+// This file creates the page for managing the blog's taxonomy in the admin dashboard.
+// Admins and editors can add categories (with a description and cover image shown on the category's page),
+// and maintain the list of tags suggested to authors in the post forms.
+
+// This is a Client Component because it uses `useState` for state management and handles user interactions.
+'use client';
+
+// Import React hooks and UI components.
+import { useState, useEffect, FormEvent } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import Image from 'next/image';
+import Link from 'next/link';
+// Import types and data functions.
+import { Category, Tag, Post } from '@/lib/types';
+import { getCategories, addCategory, updateCategory, deleteCategory, getTags, addTag, deleteTag, getPosts } from '@/lib/firestore';
+import { uploadImage } from '@/lib/storage';
+import { ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { categoryPath, tagPath } from '@/lib/taxonomy';
+// Import icons for action buttons.
+import { Edit, Trash2, PlusCircle, X, Loader2 } from 'lucide-react';
+// Import custom hooks.
+import { useToast } from '@/hooks/use-toast';
+
+// The values edited in the category dialog. `id` is null when adding a new category.
+type CategoryForm = {
+  id: string | null;
+  name: string;
+  description: string;
+  cover_image_url?: string;
+  cover?: File;
+};
+
+const emptyForm: CategoryForm = { id: null, name: '', description: '' };
+
+// The main component for the Admin Taxonomy Page.
+export default function AdminTaxonomyPage() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [posts, setPosts] = useState<Post[]>([]);
+  // The category being added or edited; null while the dialog is closed.
+  const [form, setForm] = useState<CategoryForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newTag, setNewTag] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function fetchData() {
+      const [categories, tags, posts] = await Promise.all([getCategories(), getTags(), getPosts()]);
+      setCategories(categories);
+      setTags(tags);
+      setPosts(posts);
+    }
+    fetchData();
+  }, []);
+
+  // How many posts (of any status) use a category or tag.
+  const countCategory = (name: string) => posts.filter(p => p.category === name).length;
+  const countTag = (tag: string) => posts.filter(p => p.tags?.includes(tag)).length;
+
+  // Handler to save the category dialog, creating or updating the category.
+  const handleSaveCategory = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      const id = form.id;
+      let coverImageUrl = form.cover_image_url;
+      if (form.cover) {
+        coverImageUrl = await uploadImage(form.cover, `categories/${Date.now()}-${form.cover.name}`);
+      }
+      const details = { description: form.description.trim(), ...(coverImageUrl && { cover_image_url: coverImageUrl }) };
+
+      if (id) {
+        await updateCategory(id, details);
+        setCategories(categories.map(c => c.id === id ? { ...c, ...details } : c));
+      } else {
+        const name = form.name.trim();
+        const newId = await addCategory({ name, ...details });
+        setCategories([...categories, { id: newId, name, ...details, created_at: new Date() }].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      toast({ title: id ? "Category Updated" : "Category Added", description: `"${form.name}" has been saved.` });
+      setForm(null);
+    } catch (error) {
+      toast({ title: "Could not save the category", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Handler to delete a category. The data layer refuses while posts still use it.
+  const handleDeleteCategory = async (category: Category) => {
+    try {
+      await deleteCategory(category.id);
+      setCategories(categories.filter(c => c.id !== category.id));
+      toast({ title: "Category Deleted", description: `"${category.name}" has been removed.`, variant: "destructive" });
+    } catch (error) {
+      toast({ title: "Could not delete the category", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  // Handler to add a suggested tag.
+  const handleAddTag = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const tag = await addTag(newTag);
+      if (!tags.some(t => t.id === tag)) {
+        setTags([...tags, { id: tag, name: tag, created_at: new Date() }].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setNewTag('');
+    } catch (error) {
+      toast({ title: "Could not add the tag", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  // Handler to remove a tag from the suggestions.
+  const handleDeleteTag = async (tag: Tag) => {
+    await deleteTag(tag.id);
+    setTags(tags.filter(t => t.id !== tag.id));
+  };
+
+  // The JSX for the page layout.
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Categories</CardTitle>
+            <CardDescription>Each category has its own page listing its posts. Categories used by posts can&apos;t be deleted.</CardDescription>
+          </div>
+          <Button onClick={() => setForm(emptyForm)}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add Category
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Posts</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.map(category => (
+                <TableRow key={category.id}>
+                  <TableCell className="font-medium">
+                    <Link href={categoryPath(category.name)} className="hover:underline" target="_blank">
+                      {category.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground truncate max-w-xs">{category.description}</TableCell>
+                  <TableCell>{countCategory(category.name)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex gap-2 justify-end">
+                      <Button variant="outline" size="icon" title="Edit" onClick={() => setForm({ id: category.id, name: category.name, description: category.description || '', cover_image_url: category.cover_image_url })}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="text-destructive hover:bg-red-100" title="Delete" onClick={() => handleDeleteCategory(category)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tags</CardTitle>
+          <CardDescription>These tags are suggested to authors. Authors can still add their own; removing a tag here doesn&apos;t remove it from posts.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleAddTag} className="flex gap-2 max-w-md">
+            <Input value={newTag} onChange={(e) => setNewTag(e.target.value)} placeholder="e.g. Road Trips" />
+            <Button type="submit" variant="outline" disabled={!newTag.trim()}>Add Tag</Button>
+          </form>
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => (
+              <Badge key={tag.id} variant="secondary" className="gap-1 py-1">
+                <Link href={tagPath(tag.name)} target="_blank" className="hover:underline">#{tag.name}</Link>
+                <span className="text-muted-foreground">({countTag(tag.name)})</span>
+                <button type="button" aria-label={`Remove tag ${tag.name}`} onClick={() => handleDeleteTag(tag)}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* The dialog for adding or editing a category. */}
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          {form && (
+            <form onSubmit={handleSaveCategory} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{form.id ? 'Edit Category' : 'Add Category'}</DialogTitle>
+                <DialogDescription>
+                  {form.id ? "A category's name can't be changed, since posts refer to it." : 'The name also determines the URL of the category page.'}
+                </DialogDescription>
+              </DialogHeader>
+              <div>
+                <Label htmlFor="category-name">Name</Label>
+                <Input id="category-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} disabled={!!form.id} required />
+              </div>
+              <div>
+                <Label htmlFor="category-description">Description</Label>
+                <Textarea id="category-description" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} rows={3} />
+              </div>
+              <div>
+                <Label htmlFor="category-cover">Cover Image</Label>
+                {form.cover_image_url && !form.cover && (
+                  <div className="relative aspect-video w-full rounded-md overflow-hidden my-2">
+                    <Image src={form.cover_image_url} alt={form.name} fill className="object-cover" />
+                  </div>
+                )}
+                <Input id="category-cover" type="file" accept={ALLOWED_IMAGE_TYPES.join(',')} onChange={(e) => setForm({ ...form, cover: e.target.files?.[0] })} />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving || !form.name.trim()}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
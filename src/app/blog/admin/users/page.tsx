@@ -1,8 +1,11 @@
 // This file creates the page for managing users in the admin dashboard.
 // This page is restricted to users with the 'admin' role.
+//
+// Admins can change a user's role, suspend or ban them, delete their account (choosing what happens to
+// their posts, comments and stories) and reinstate them. Every change is recorded in the audit log,
+// which the History dialog shows. Admins can't change their own account, so they can't lock themselves out.
 
-// This is a Client Component because it displays data from the mock store
-// which could theoretically be updated by other admin actions.
+// This is a Client Component because it keeps the list of users in state and updates it after each action.
 'use client';
 
 // Import React hooks.
@@ -11,37 +14,100 @@ import { useState, useEffect } from 'react';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from "@/components/ui/dropdown-menu";
+import {
+    DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator,
+    DropdownMenuSub, DropdownMenuSubTrigger, DropdownMenuSubContent, DropdownMenuRadioGroup, DropdownMenuRadioItem,
+} from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import { UserActionDialog, UserHistoryDialog, UserAction, UserActionDetails } from '@/components/blog/user-management-dialogs';
 // Import icons.
-import { PlusCircle, MoreHorizontal } from "lucide-react";
+import { PlusCircle, MoreHorizontal, UserCog, PauseCircle, Ban, Trash2, Undo2, History } from "lucide-react";
 // Import Firestore functions.
-import { getUsers } from '@/lib/firestore';
+import { getUsers, changeUserRole, suspendUser, banUser, reinstateUser, deleteUserAccount } from '@/lib/firestore';
 import { User } from '@/lib/types';
+import { USER_ROLES, effectiveStatus, DEFAULT_DELETE_CASCADE } from '@/lib/users';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
 // Import date formatting utility.
 import { format } from "date-fns";
 
 // The main component for the Admin Users page.
 export default function AdminUsersPage() {
     const [users, setUsers] = useState<User[]>([]);
+    // The action whose dialog is open, and the user whose history is shown.
+    const [actionTarget, setActionTarget] = useState<{ action: UserAction; user: User } | null>(null);
+    const [historyUser, setHistoryUser] = useState<User | null>(null);
+    const { user: currentUser } = useAuth();
+    const { toast } = useToast();
+
+    const fetchUsers = async () => {
+        setUsers(await getUsers());
+    };
 
     useEffect(() => {
-        async function fetchUsers() {
-            const users = await getUsers();
-            setUsers(users);
-        }
         fetchUsers();
     }, []);
 
-  // The functionality for adding/editing/deleting users is not implemented in this mock version,
-  // but the UI structure is here to demonstrate what it would look like.
+    // Runs one of the management functions, then reloads the users so the table shows the new state.
+    const runAction = async (title: string, description: string, action: () => Promise<void>) => {
+        try {
+            await action();
+            await fetchUsers();
+            toast({ title, description });
+        } catch (error) {
+            toast({ variant: 'destructive', title: 'Could not update the user', description: (error as Error).message });
+        }
+    };
+
+    const handleRoleChange = (user: User, role: User['role']) => {
+        if (!currentUser || role === user.role) return;
+        runAction('Role Changed', `${user.name} is now ${role === 'admin' ? 'an' : 'a'} ${role}.`,
+            () => changeUserRole(currentUser.uid, user.id, role));
+    };
+
+    const handleConfirm = async (action: UserAction, user: User, details: UserActionDetails) => {
+        if (!currentUser) return;
+        switch (action) {
+            case 'suspend':
+                await runAction('User Suspended', `${user.name} is suspended until ${format(details.until!, 'MMMM d, yyyy')}.`,
+                    () => suspendUser(currentUser.uid, user.id, details.until!, details.reason));
+                break;
+            case 'ban':
+                await runAction('User Banned', `${user.name} has been banned.`,
+                    () => banUser(currentUser.uid, user.id, details.reason));
+                break;
+            case 'delete':
+                await runAction('User Deleted', `The account of ${user.name} has been deleted.`,
+                    () => deleteUserAccount(currentUser.uid, user.id, details.cascade ?? DEFAULT_DELETE_CASCADE, details.reason));
+                break;
+            case 'reinstate':
+                await runAction('User Reinstated', `${user.name} can use their account again.`,
+                    () => reinstateUser(currentUser.uid, user.id, details.reason));
+                break;
+        }
+        setActionTarget(null);
+    };
+
+    // A helper to render a badge for the user's account status.
+    const getStatusBadge = (user: User) => {
+        switch (effectiveStatus(user)) {
+            case 'suspended':
+                return <Badge variant="secondary">Suspended{user.suspended_until && ` until ${format(user.suspended_until, 'MMM d')}`}</Badge>;
+            case 'banned':
+                return <Badge variant="destructive">Banned</Badge>;
+            case 'deleted':
+                return <Badge variant="outline" className="text-muted-foreground">Deleted</Badge>;
+            default:
+                return <Badge variant="outline">Active</Badge>;
+        }
+    };
 
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
         <div>
           <CardTitle>Users</CardTitle>
-          <CardDescription>Manage all registered users and their roles.</CardDescription>
+          <CardDescription>Manage all registered users, their roles and their access.</CardDescription>
         </div>
         {/* The "Add User" button is present but not wired up. */}
         <Button>
@@ -56,15 +122,19 @@ export default function AdminUsersPage() {
               <TableHead>Name</TableHead>
               <TableHead>Email</TableHead>
               <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
               <TableHead>Joined</TableHead>
               <TableHead><span className="sr-only">Actions</span></TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {/* Map over the mockUsers array to render a row for each user. */}
-            {users.map(user => (
-              <TableRow key={user.id}>
-                <TableCell className="font-medium">{user.name}</TableCell>
+            {/* Render a row for each user. */}
+            {users.map(user => {
+              const status = effectiveStatus(user);
+              const isSelf = user.id === currentUser?.uid;
+              return (
+              <TableRow key={user.id} className={status === 'deleted' ? 'opacity-60' : undefined}>
+                <TableCell className="font-medium">{user.name}{isSelf && <span className="text-muted-foreground"> (you)</span>}</TableCell>
                 <TableCell>{user.email}</TableCell>
                 <TableCell>
                     {/* Display a different badge style based on the user's role. */}
@@ -72,6 +142,7 @@ export default function AdminUsersPage() {
                         {user.role}
                     </Badge>
                 </TableCell>
+                <TableCell>{getStatusBadge(user)}</TableCell>
                  <TableCell>{format(new Date(user.created_at), 'yyyy-MM-dd')}</TableCell>
                 <TableCell className="text-right">
                     {/* The action menu for each user. */}
@@ -83,17 +154,54 @@ export default function AdminUsersPage() {
                             </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                            {/* These actions are placeholders in the mock-up. */}
-                            <DropdownMenuItem>Edit</DropdownMenuItem>
-                            <DropdownMenuItem>Change Role</DropdownMenuItem>
-                            <DropdownMenuItem className="text-destructive">Delete</DropdownMenuItem>
+                            {!isSelf && status !== 'deleted' && (
+                                <DropdownMenuSub>
+                                    <DropdownMenuSubTrigger><UserCog className="mr-2 h-4 w-4" />Change Role</DropdownMenuSubTrigger>
+                                    <DropdownMenuSubContent>
+                                        <DropdownMenuRadioGroup value={user.role} onValueChange={(role) => handleRoleChange(user, role as User['role'])}>
+                                            {USER_ROLES.map(role => (
+                                                <DropdownMenuRadioItem key={role} value={role} className="capitalize">{role}</DropdownMenuRadioItem>
+                                            ))}
+                                        </DropdownMenuRadioGroup>
+                                    </DropdownMenuSubContent>
+                                </DropdownMenuSub>
+                            )}
+                            {!isSelf && status === 'active' && (
+                                <>
+                                    <DropdownMenuItem onClick={() => setActionTarget({ action: 'suspend', user })}>
+                                        <PauseCircle className="mr-2 h-4 w-4" />Suspend
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => setActionTarget({ action: 'ban', user })}>
+                                        <Ban className="mr-2 h-4 w-4" />Ban
+                                    </DropdownMenuItem>
+                                </>
+                            )}
+                            {!isSelf && status !== 'active' && (
+                                <DropdownMenuItem onClick={() => setActionTarget({ action: 'reinstate', user })}>
+                                    <Undo2 className="mr-2 h-4 w-4" />{status === 'deleted' ? 'Restore Account' : 'Reinstate'}
+                                </DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem onClick={() => setHistoryUser(user)}>
+                                <History className="mr-2 h-4 w-4" />History
+                            </DropdownMenuItem>
+                            {!isSelf && status !== 'deleted' && (
+                                <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem className="text-destructive" onClick={() => setActionTarget({ action: 'delete', user })}>
+                                        <Trash2 className="mr-2 h-4 w-4" />Delete
+                                    </DropdownMenuItem>
+                                </>
+                            )}
                         </DropdownMenuContent>
                     </DropdownMenu>
                 </TableCell>
               </TableRow>
-            ))}
+              );
+            })}
           </TableBody>
         </Table>
+        <UserActionDialog target={actionTarget} onOpenChange={(open) => !open && setActionTarget(null)} onConfirm={handleConfirm} />
+        <UserHistoryDialog user={historyUser} users={users} onOpenChange={(open) => !open && setHistoryUser(null)} />
       </CardContent>
     </Card>
   );
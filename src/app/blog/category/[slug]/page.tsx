@@ -0,0 +1,53 @@
+// This file is the page for a single category, e.g. /blog/category/road-trips.
+// It shows the category's description and cover image, and its published posts, newest first.
+
+import { notFound } from 'next/navigation';
+import type { Metadata } from 'next';
+import { TaxonomyListing } from '@/components/blog/taxonomy-listing';
+import { getCategory, queryPublishedPosts } from '@/lib/firestore';
+
+// `params` holds the category's slug; `searchParams` may hold the cursor of the page to show.
+type Props = {
+  params: { slug: string };
+  searchParams: { cursor?: string };
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const category = await getCategory(params.slug);
+  if (!category) {
+    return { title: 'Category Not Found' };
+  }
+  return {
+    title: `${category.name} | Travonex Blog`,
+    description: category.description || `Travel stories about ${category.name} from the Travonex community.`,
+    alternates: {
+      canonical: `${process.env.NEXT_PUBLIC_BASE_URL}/blog/category/${category.id}`,
+    },
+    openGraph: {
+      title: category.name,
+      description: category.description,
+      images: category.cover_image_url ? [category.cover_image_url] : undefined,
+    },
+  };
+}
+
+export default async function CategoryPage({ params, searchParams }: Props) {
+  const category = await getCategory(params.slug);
+  if (!category) {
+    notFound();
+  }
+
+  // Posts store the category's name, so that is what they are filtered by.
+  const { items, nextCursor } = await queryPublishedPosts({ category: category.name, cursor: searchParams.cursor });
+
+  return (
+    <TaxonomyListing
+      eyebrow="Category"
+      title={category.name}
+      description={category.description}
+      coverImageUrl={category.cover_image_url}
+      posts={items}
+      olderHref={nextCursor && `/blog/category/${category.id}?cursor=${encodeURIComponent(nextCursor)}`}
+    />
+  );
+}
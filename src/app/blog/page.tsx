@@ -2,11 +2,11 @@
 // It includes a hero section, a search bar, and the grid of post cards.
 
 // This is a Client Component because it uses hooks (`useState`, `useEffect`, `useSearchParams`)
-// to handle client-side searching and to react to the user's authentication state.
+// to page through posts, keep the filters in sync with the URL and react to the user's authentication state.
 'use client';
 
 // Import React hooks.
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 // Import Next.js components and hooks.
 import Link from 'next/link';
 import Image from 'next/image';
@@ -15,11 +15,11 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Header } from '@/components/landing/header';
 import { Footer } from '@/components/landing/footer';
 // Import UI components from ShadCN.
-import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,27 +30,59 @@ import {
 } from "@/components/ui/dropdown-menu";
 // Import other components used on this page.
 import { NewsletterSignup } from '@/components/blog/newsletter-signup';
+import { HighlightedText } from '@/components/blog/highlighted-text';
+import { PostCard } from '@/components/blog/post-card';
 // Import icons.
-import { Search, LogIn, PlusCircle, LayoutDashboard, Newspaper, LogOut } from 'lucide-react';
-// Import date formatting utility.
-import { format } from 'date-fns';
+import { Search, LogIn, PlusCircle, LayoutDashboard, Newspaper, LogOut, X, Loader2 } from 'lucide-react';
 // Import custom authentication hook.
 import { useAuth } from '@/hooks/use-auth';
 // Import Firestore functions.
-import { getPublishedPosts, getUsers } from '@/lib/firestore';
+import { queryPublishedPosts, getUsers } from '@/lib/firestore';
+// Import the full-text search.
+import { searchPosts, SearchResult } from '@/lib/search';
 import { Post, User } from '@/lib/types';
+import { PublishedPostsQuery } from '@/lib/repositories';
+
+// The sort options offered on the page, keyed by their value in the `?sort=` URL parameter.
+const sortOptions = {
+  newest: { label: 'Newest first', orderBy: 'created_at', direction: 'desc' },
+  oldest: { label: 'Oldest first', orderBy: 'created_at', direction: 'asc' },
+  updated: { label: 'Recently updated', orderBy: 'updated_at', direction: 'desc' },
+} satisfies Record<string, { label: string } & Pick<PublishedPostsQuery, 'orderBy' | 'direction'>>;
+
+type SortKey = keyof typeof sortOptions;
+
+const isSortKey = (value: string | null): value is SortKey => !!value && value in sortOptions;
 
 // The main component for the Blog Index Page.
 export default function BlogIndexPage() {
   // Hook to get URL search parameters. Used for the search functionality.
   const searchParams = useSearchParams();
   const searchTerm = searchParams.get('search') || '';
+  // The filters and sort order live in the URL so that every view can be bookmarked and shared.
+  const category = searchParams.get('category') || '';
+  const tag = searchParams.get('tag') || '';
+  const sortParam = searchParams.get('sort');
+  const sort: SortKey = isSortKey(sortParam) ? sortParam : 'newest';
   
   // State to hold the posts that are currently displayed on the page.
-  // This can be the full list or a filtered list based on the search term.
+  // Pages are appended as the reader scrolls; `nextCursor` is null once the last page is loaded.
   const [posts, setPosts] = useState<Post[]>([]);
+  // When searching, the highlighted title and snippet of each result, keyed by post ID.
+  const [highlights, setHighlights] = useState<Record<string, Pick<SearchResult, 'title' | 'snippet'>>>({});
   const [users, setUsers] = useState<User[]>([]);
-  const [filteredPosts, setFilteredPosts] = useState<Post[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Set when the first page or the next one couldn't be loaded, until the reader tries again.
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+  // Bumped by the "Try again" button to load the first page again.
+  const [retryCount, setRetryCount] = useState(0);
+  // The element at the bottom of the grid that triggers loading the next page when it scrolls into view.
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Counts the times the first page was reloaded, so a later page fetched for earlier filters is dropped.
+  const queryVersion = useRef(0);
 
   // Get user authentication status and functions from the custom `useAuth` hook.
   const { user, loading, logout, userRole } = useAuth();
@@ -58,36 +90,114 @@ export default function BlogIndexPage() {
   const router = useRouter();
   
   useEffect(() => {
-    async function fetchData() {
-      const [posts, users] = await Promise.all([getPublishedPosts(), getUsers()]);
-      setPosts(posts);
-      setUsers(users);
-    }
-    fetchData();
+    getUsers().then(setUsers);
   }, []);
 
+  // This `useEffect` hook loads the first page whenever the search term, filters or sort order change.
+  useEffect(() => {
+    // Ignore responses that arrive after the filters have changed again.
+    let cancelled = false;
+    queryVersion.current += 1;
+    setIsLoading(true);
+    setLoadFailed(false);
+    setLoadMoreFailed(false);
+
+    async function fetchFirstPage() {
+      try {
+        if (searchTerm) {
+          // Search results come back ranked by relevance, so they are shown as a single list.
+          const results = await searchPosts(searchTerm);
+          if (cancelled) return;
+          setPosts(results.map(result => result.post));
+          setHighlights(Object.fromEntries(results.map(({ post, title, snippet }) => [post.id, { title, snippet }])));
+          setNextCursor(null);
+        } else {
+          const { orderBy, direction } = sortOptions[sort];
+          const page = await queryPublishedPosts({ category, tag, orderBy, direction });
+          if (cancelled) return;
+          setPosts(page.items);
+          setHighlights({});
+          setNextCursor(page.nextCursor);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Could not load posts:', error);
+        setPosts([]);
+        setNextCursor(null);
+        setLoadFailed(true);
+      }
+      setIsLoading(false);
+    }
+    fetchFirstPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm, category, tag, sort, retryCount]);
+
+  // Appends the next page of posts to the grid.
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const version = queryVersion.current;
+    setIsLoadingMore(true);
+    try {
+      const { orderBy, direction } = sortOptions[sort];
+      const page = await queryPublishedPosts({ category, tag, orderBy, direction, cursor: nextCursor });
+      // Ignore a page that arrives after the filters have changed.
+      if (queryVersion.current !== version) return;
+      setPosts(current => [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      if (queryVersion.current !== version) return;
+      console.error('Could not load more posts:', error);
+      // Infinite scroll stops until the reader tries again with the button.
+      setLoadMoreFailed(true);
+    } finally {
+      // Reset even when the query fails, so the button can try again.
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, category, tag, sort]);
+
+  // Tries the failed page again, from the "Try again" button.
+  const retryLoadMore = () => {
+    setLoadMoreFailed(false);
+    loadMore();
+  };
+
+  // This `useEffect` hook implements infinite scroll by watching the sentinel below the grid.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loadMoreFailed) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore, loadMoreFailed]);
+
+  // Updates the given URL parameters (removing the empty ones) without scrolling the page.
+  const updateParams = (updates: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    });
+    const queryString = params.toString();
+    router.push(queryString ? `/blog?${queryString}` : '/blog', { scroll: false });
+  };
+
   // Helper function to get an author's name from their ID.
   const getAuthorName = (authorId: string) => {
       const user = users.find(u => u.id === authorId);
       return user ? user.name : 'Unknown Author';
   };
 
-  // This `useEffect` hook handles the search functionality.
-  // It runs whenever the `searchTerm` from the URL changes.
-  useEffect(() => {
-    if (searchTerm) {
-      // If there is a search term, filter the `publishedPosts` array.
-      const filtered = posts.filter(post =>
-        post.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        post.excerpt.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      setFilteredPosts(filtered);
-    } else {
-      // If the search term is empty, show all published posts.
-      setFilteredPosts(posts);
-    }
-  }, [searchTerm, posts]); // The effect depends on the `searchTerm`.
-  
   // Handler for the "Add Your Story" button.
   // It checks if the user is logged in before redirecting.
   const handleAddStoryClick = () => {
@@ -217,47 +327,89 @@ export default function BlogIndexPage() {
         {/* The main content section displaying the grid of blog posts. */}
         <section className="py-24 md:py-32">
           <div className="container mx-auto">
+             {/* The toolbar with the active filters and the sort order. Sorting does not apply to search results. */}
+             {!searchTerm && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-10">
+                    <div className="flex flex-wrap items-center gap-2">
+                        {category && (
+                            <Badge variant="secondary" className="gap-1 py-1">
+                                Category: {category}
+                                <button type="button" aria-label="Clear category filter" onClick={() => updateParams({ category: null })}>
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </Badge>
+                        )}
+                        {tag && (
+                            <Badge variant="outline" className="gap-1 py-1">
+                                Tag: {tag}
+                                <button type="button" aria-label="Clear tag filter" onClick={() => updateParams({ tag: null })}>
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </Badge>
+                        )}
+                    </div>
+                    <Select value={sort} onValueChange={(value) => updateParams({ sort: value === 'newest' ? null : value })}>
+                        <SelectTrigger className="w-full sm:w-[200px]">
+                            <SelectValue placeholder="Sort by" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Object.entries(sortOptions).map(([key, option]) => (
+                                <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+             )}
+             {searchTerm && !isLoading && posts.length > 0 && (
+                <p className="mb-10 text-muted-foreground">
+                    {posts.length} {posts.length === 1 ? 'result' : 'results'} for &ldquo;{searchTerm}&rdquo;
+                </p>
+             )}
              {/* Conditionally render the posts grid or a "No Posts Found" message. */}
-             {filteredPosts.length > 0 ? (
+             {isLoading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+             ) : loadFailed ? (
+                // This message is shown when the posts couldn't be loaded, e.g. while offline.
+                <div className="text-center">
+                    <h2 className="text-2xl font-bold">Couldn&apos;t load the posts</h2>
+                    <p className="mt-4 text-muted-foreground">Check your connection and try again.</p>
+                    <Button variant="outline" className="mt-6" onClick={() => setRetryCount(count => count + 1)}>Try again</Button>
+                </div>
+             ) : posts.length > 0 ? (
+                <>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                {filteredPosts.map((post) => (
-                    <Link href={`/blog/${post.slug}`} key={post.slug}>
-                    <Card className="overflow-hidden h-full group cursor-pointer shadow-lg hover:shadow-2xl transition-shadow duration-300 rounded-2xl border-none">
-                        <CardHeader className="p-0">
-                         {post.featuredImgUrl && (
-                            <div className="aspect-video overflow-hidden">
-                                <Image
-                                src={post.featuredImgUrl}
-                                alt={post.title}
-                                width={600}
-                                height={400}
-                                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                                data-ai-hint={post.imageHint || 'travel landscape'}
-                                />
-                            </div>
-                         )}
-                        </CardHeader>
-                        <CardContent className="p-6">
-                        <div className="flex items-center gap-2 mb-2">
-                            <Badge variant="secondary">{post.category}</Badge>
-                        </div>
-                        <h2 className="text-xl font-bold font-headline group-hover:text-primary transition-colors">{post.title}</h2>
-                        <p className="mt-2 text-muted-foreground line-clamp-3">{post.excerpt}</p>
-                        <div className="mt-4 flex items-center gap-4 text-sm text-muted-foreground">
-                            <span>{getAuthorName(post.author_id || (post as any).authorId)}</span>
-                            <span>•</span>
-                            <time dateTime={post.created_at.toISOString()}>{format(new Date(post.created_at), 'MMMM d, yyyy')}</time>
-                        </div>
-                        </CardContent>
-                    </Card>
-                    </Link>
-                ))}
+                {posts.map((post) => {
+                    // Search results show the matched words highlighted, and a snippet of the body when the match is not in the excerpt.
+                    const highlight = highlights[post.id];
+                    return (
+                        <PostCard
+                            key={post.id}
+                            post={post}
+                            authorName={getAuthorName(post.author_id || (post as any).authorId)}
+                            title={highlight && <HighlightedText value={highlight.title} />}
+                            excerpt={highlight && <HighlightedText value={highlight.snippet} />}
+                        />
+                    );
+                })}
                 </div>
+                {/* When there are more pages, the sentinel triggers infinite scroll; the button is a fallback. */}
+                {nextCursor && (
+                    <div ref={sentinelRef} className="mt-12 flex flex-col items-center gap-3">
+                        {loadMoreFailed && <p className="text-sm text-destructive">Couldn&apos;t load more stories.</p>}
+                        <Button variant="outline" onClick={loadMoreFailed ? retryLoadMore : loadMore} disabled={isLoadingMore}>
+                            {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {isLoadingMore ? 'Loading...' : loadMoreFailed ? 'Try again' : 'Load more stories'}
+                        </Button>
+                    </div>
+                )}
+                </>
              ) : (
                 // This message is shown when a search yields no results.
                 <div className="text-center">
                     <h2 className="text-2xl font-bold">No Posts Found</h2>
-                    <p className="mt-4 text-muted-foreground">Try adjusting your search term or check back later!</p>
+                    <p className="mt-4 text-muted-foreground">Try adjusting your search term or filters, or check back later!</p>
                 </div>
              )}
           </div>
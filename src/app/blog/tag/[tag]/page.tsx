@@ -0,0 +1,45 @@
+// This file is the page for a single tag, e.g. /blog/tag/monsoon.
+// It lists the published posts carrying the tag, newest first.
+
+import { notFound } from 'next/navigation';
+import type { Metadata } from 'next';
+import { TaxonomyListing } from '@/components/blog/taxonomy-listing';
+import { FollowButton } from '@/components/blog/follow-button';
+import { queryPublishedPosts } from '@/lib/firestore';
+import { normalizeTag, tagPath } from '@/lib/taxonomy';
+
+// `params` holds the tag; `searchParams` may hold the cursor of the page to show.
+type Props = {
+  params: { tag: string };
+  searchParams: { cursor?: string };
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const tag = normalizeTag(decodeURIComponent(params.tag));
+  return {
+    title: `#${tag} | Travonex Blog`,
+    description: `Travel stories tagged "${tag}" from the Travonex community.`,
+    alternates: {
+      canonical: `${process.env.NEXT_PUBLIC_BASE_URL}${tagPath(tag)}`,
+    },
+  };
+}
+
+export default async function TagPage({ params, searchParams }: Props) {
+  const tag = normalizeTag(decodeURIComponent(params.tag));
+  // Tags are open-ended, so there is no list to check against; a tag no post carries is simply not found.
+  const { items, nextCursor } = await queryPublishedPosts({ tag, cursor: searchParams.cursor });
+  if (items.length === 0) {
+    notFound();
+  }
+
+  return (
+    <TaxonomyListing
+      eyebrow="Tag"
+      title={`#${tag}`}
+      posts={items}
+      olderHref={nextCursor && `${tagPath(tag)}?cursor=${encodeURIComponent(nextCursor)}`}
+      action={<FollowButton targetType="tag" targetId={tag} />}
+    />
+  );
+}
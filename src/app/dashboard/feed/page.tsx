@@ -0,0 +1,210 @@
+// This file creates the personalized feed page: the latest published posts by the authors and with
+// the tags the user follows. The user can also unfollow from here and turn on the weekly digest email.
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Head from 'next/head';
+import { format } from 'date-fns';
+import { ArrowLeft, X } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Header } from "@/components/landing/header";
+import { Footer } from "@/components/landing/footer";
+import { BookmarkButton } from '@/components/blog/bookmark-button';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { getFeed, getFollows, getUsers, setFollow, getDigestSubscription, setWeeklyDigest } from '@/lib/firestore';
+import { FeedItem, publishedAt, DIGEST_INTERVAL_DAYS } from '@/lib/feed';
+import { tagPath } from '@/lib/taxonomy';
+import { Follow, User } from '@/lib/types';
+
+export default function FeedPage() {
+    const router = useRouter();
+    const { toast } = useToast();
+    const { user, loading } = useAuth();
+    const [items, setItems] = useState<FeedItem[] | null>(null);
+    const [follows, setFollows] = useState<Follow[]>([]);
+    const [users, setUsers] = useState<User[]>([]);
+    const [weeklyDigest, setWeeklyDigestState] = useState(false);
+
+    const load = useCallback(async (userId: string) => {
+        const [feed, userFollows, allUsers, subscription] = await Promise.all([
+            getFeed(userId),
+            getFollows(userId),
+            getUsers(),
+            getDigestSubscription(userId),
+        ]);
+        setItems(feed);
+        setFollows(userFollows);
+        setUsers(allUsers);
+        setWeeklyDigestState(!!subscription?.weekly_digest);
+    }, []);
+
+    useEffect(() => {
+        if (user) {
+            load(user.uid).catch(error => {
+                console.error('Error loading the feed:', error);
+                setItems([]);
+            });
+        }
+    }, [user, load]);
+
+    if (loading) {
+      return <div className="flex items-center justify-center h-screen">Loading...</div>;
+    }
+
+    if (!user) {
+        router.push('/login');
+        return null;
+    }
+
+    const getAuthorName = (authorId?: string) => users.find(u => u.id === authorId)?.name || 'Unknown Author';
+    const followedAuthors = follows.filter(f => f.target_type === 'author');
+    const followedTags = follows.filter(f => f.target_type === 'tag');
+
+    const handleUnfollow = async (follow: Follow) => {
+        try {
+            await setFollow(user.uid, follow.target_type, follow.target_id, false);
+            await load(user.uid);
+        } catch (error) {
+            toast({ title: 'Could not unfollow', description: (error as Error).message, variant: 'destructive' });
+        }
+    };
+
+    const handleDigestChange = async (enabled: boolean) => {
+        if (!user.email) {
+            toast({ title: 'No email address', description: 'Add an email address to your account to get the digest.', variant: 'destructive' });
+            return;
+        }
+        setWeeklyDigestState(enabled);
+        try {
+            await setWeeklyDigest(user.uid, user.email, enabled);
+            toast({
+                title: enabled ? 'Weekly digest on' : 'Weekly digest off',
+                description: enabled ? `We'll email ${user.email} the new posts in your feed once a week.` : 'You won\'t get the digest any more.',
+            });
+        } catch (error) {
+            setWeeklyDigestState(!enabled);
+            toast({ title: 'Could not change the digest', description: (error as Error).message, variant: 'destructive' });
+        }
+    };
+
+  return (
+    <>
+      <Head>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+      <div className="flex flex-col min-h-dvh bg-secondary/50">
+        <Header />
+        <main className="flex-1 py-12 md:py-16">
+          <div className="container max-w-5xl">
+             <Button variant="outline" size="sm" asChild className="mb-4">
+                <Link href="/dashboard">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Dashboard
+                </Link>
+              </Button>
+            <div className="grid gap-6 lg:grid-cols-[1fr_300px]">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Your Feed</CardTitle>
+                  <CardDescription>The latest stories from the authors and tags you follow.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {items === null ? (
+                    <p className="text-sm text-muted-foreground">Loading your feed...</p>
+                  ) : items.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <p>Nothing here yet. Follow authors from their pages and tags from their tag pages to fill your feed.</p>
+                      <Button variant="outline" className="mt-4" asChild>
+                        <Link href="/blog">Browse all stories</Link>
+                      </Button>
+                    </div>
+                  ) : (
+                    <ul className="divide-y">
+                      {items.map(({ post, byFollowedAuthor, followedTags: tags }) => (
+                        <li key={post.id} className="flex items-start justify-between gap-4 py-4">
+                          <div className="min-w-0">
+                            <Link href={`/blog/${post.slug}`} className="text-lg font-semibold font-headline hover:text-primary">{post.title}</Link>
+                            <p className="mt-1 text-sm text-muted-foreground line-clamp-2">{post.excerpt}</p>
+                            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                              <span>{getAuthorName(post.author_id)}</span>
+                              <span>•</span>
+                              <time dateTime={publishedAt(post).toISOString()}>{format(publishedAt(post), 'MMMM d, yyyy')}</time>
+                              {byFollowedAuthor && <Badge variant="secondary">Author you follow</Badge>}
+                              {tags.map(tag => <Badge key={tag} variant="outline">#{tag}</Badge>)}
+                            </div>
+                          </div>
+                          <BookmarkButton postId={post.id} variant="icon" className="shrink-0" />
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Weekly Digest</CardTitle>
+                    <CardDescription>Get an email every {DIGEST_INTERVAL_DAYS} days with the new posts in your feed.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-3">
+                      <Switch id="weekly-digest" checked={weeklyDigest} onCheckedChange={handleDigestChange} />
+                      <Label htmlFor="weekly-digest">Email me a weekly digest</Label>
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Following</CardTitle>
+                    <CardDescription>{followedAuthors.length} {followedAuthors.length === 1 ? 'author' : 'authors'}, {followedTags.length} {followedTags.length === 1 ? 'tag' : 'tags'}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {follows.length === 0 && <p className="text-sm text-muted-foreground">You don&apos;t follow anyone yet.</p>}
+                    {followedAuthors.length > 0 && (
+                      <ul className="space-y-2">
+                        {followedAuthors.map(follow => {
+                          const author = users.find(u => u.id === follow.target_id);
+                          return (
+                            <li key={follow.id} className="flex items-center justify-between gap-2 text-sm">
+                              {author?.username
+                                ? <Link href={`/author/${author.username}`} className="hover:underline truncate">{author.name}</Link>
+                                : <span className="truncate">{author?.name ?? 'Unknown Author'}</span>}
+                              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleUnfollow(follow)} aria-label={`Unfollow ${author?.name ?? 'author'}`}>
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                    {followedTags.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {followedTags.map(follow => (
+                          <Badge key={follow.id} variant="outline" className="gap-1 pr-1">
+                            <Link href={tagPath(follow.target_id)}>#{follow.target_id}</Link>
+                            <button type="button" onClick={() => handleUnfollow(follow)} aria-label={`Unfollow #${follow.target_id}`}>
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    </>
+  );
+}
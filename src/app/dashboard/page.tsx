@@ -17,18 +17,23 @@ import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 // Import custom hooks.
 import { useAuth } from '@/hooks/use-auth';
+import { useSearchParams } from 'next/navigation';
 // Import icons.
-import { PlusCircle, Newspaper, MessageSquare, Star, Edit, Settings } from "lucide-react";
+import { PlusCircle, Newspaper, MessageSquare, Star, Edit, Settings, Bookmark, Rss } from "lucide-react";
 // Import Next.js components for navigation.
 import Link from 'next/link';
 import { getPostsByUserId, getCommentsByUserId } from '@/lib/firestore';
 import { Post, Comment } from '@/lib/types';
 import Head from 'next/head';
+import { SavedPosts } from '@/components/blog/saved-posts';
 
 // The main component for the Dashboard page.
 export default function DashboardPage() {
   // Get user data and authentication status from the `useAuth` hook.
   const { user, loading } = useAuth();
+  // The open tab; links can open a specific one with `?tab=`, e.g. `/dashboard?tab=saved`.
+  const searchParams = useSearchParams();
+  const [tab, setTab] = useState(searchParams.get('tab') ?? 'stories');
   // State to hold the user's posts. Initialized with some placeholder data.
   const [userPosts, setUserPosts] = useState<Post[]>([]);
   const [userComments, setUserComments] = useState<Comment[]>([]);
@@ -42,6 +47,13 @@ export default function DashboardPage() {
     }
   }, [user]);
 
+  useEffect(() => {
+    const requested = searchParams.get('tab');
+    if (requested) {
+      setTab(requested);
+    }
+  }, [searchParams]);
+
   // An effect to simulate the progress bar filling up on component mount.
   useEffect(() => {
     const timer = setTimeout(() => setProgress(66), 500);
@@ -67,6 +79,10 @@ export default function DashboardPage() {
         return <Badge className="bg-green-100 text-green-800 border-green-200">{status}</Badge>;
       case 'pending':
         return <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200">{status}</Badge>;
+      case 'changes_requested':
+        return <Badge className="bg-orange-100 text-orange-800 border-orange-200">changes requested</Badge>;
+      case 'scheduled':
+        return <Badge className="bg-blue-100 text-blue-800 border-blue-200">{status}</Badge>;
       case 'draft':
         return <Badge variant="outline">{status}</Badge>;
       case 'rejected':
@@ -115,6 +131,20 @@ export default function DashboardPage() {
                   <Newspaper className="h-4 w-4" />
                   My Stories
                 </Link>
+                <Link
+                  className="flex items-center gap-3 rounded-lg px-3 py-2 text-gray-500 transition-all hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-50"
+                  href="/dashboard?tab=saved"
+                >
+                  <Bookmark className="h-4 w-4" />
+                  Saved Posts
+                </Link>
+                <Link
+                  className="flex items-center gap-3 rounded-lg px-3 py-2 text-gray-500 transition-all hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-50"
+                  href="/dashboard/feed"
+                >
+                  <Rss className="h-4 w-4" />
+                  My Feed
+                </Link>
                 <Link
                   className="flex items-center gap-3 rounded-lg px-3 py-2 text-gray-500 transition-all hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-50"
                   href="/dashboard/profile"
@@ -143,10 +173,11 @@ export default function DashboardPage() {
               </Button>
           </header>
           <main className="flex-1 p-4 sm:p-6">
-            <Tabs defaultValue="stories">
+            <Tabs value={tab} onValueChange={setTab}>
               <TabsList>
                 <TabsTrigger value="stories">My Stories</TabsTrigger>
                 <TabsTrigger value="comments">My Comments</TabsTrigger>
+                <TabsTrigger value="saved">Saved</TabsTrigger>
               </TabsList>
               <TabsContent value="stories">
                 <Card>
@@ -200,6 +231,9 @@ export default function DashboardPage() {
                   </CardContent>
                 </Card>
               </TabsContent>
+              <TabsContent value="saved">
+                <SavedPosts />
+              </TabsContent>
             </Tabs>
           </main>
         </div>
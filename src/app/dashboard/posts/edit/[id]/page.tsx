@@ -3,7 +3,7 @@
 
 'use client';
 
-import { useState, useEffect, ChangeEvent } from 'react';
+import { useState, useEffect, useCallback, ChangeEvent } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -16,20 +16,33 @@ import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
 import { Header } from "@/components/landing/header";
 import { Footer } from "@/components/landing/footer";
-import { getPost, updatePost } from '@/lib/firestore';
+import { ContentEditor } from "@/components/blog/content-editor";
+import { CategoryPicker, TagPicker } from "@/components/blog/taxonomy-pickers";
+import { RevisionHistory } from "@/components/blog/revision-history";
+import { ReviewThread } from "@/components/blog/review-thread";
+import { GalleryUploader } from "@/components/blog/gallery-uploader";
+import { getPost, updatePost, resubmitPost } from '@/lib/firestore';
 import { useToast } from '@/hooks/use-toast';
 import Link from 'next/link';
 import Image from 'next/image';
 import { ArrowLeft } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
-import { Post } from '@/lib/types';
-import { uploadImage } from '@/lib/storage';
+import { Post, GalleryImage } from '@/lib/types';
+import { uploadImageVariants } from '@/lib/storage';
+import { validateImageFile, ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { DEFAULT_CONTENT_FORMAT } from '@/lib/content';
+import { authorExcerpt } from '@/lib/content-analysis';
+import { normalizeGallery, MAX_POST_GALLERY_IMAGES } from '@/lib/galleries';
 
 // Define the validation schema for the edit form.
 const formSchema = z.object({
   title: z.string().min(5, { message: "Title must be at least 5 characters." }),
-  excerpt: z.string().min(10, { message: "Excerpt must be at least 10 characters." }).max(200, { message: "Excerpt cannot be more than 200 characters."}),
+  // Optional: without one, the start of the story is used (see `src/lib/content-analysis.ts`).
+  excerpt: z.string().max(200, { message: "Excerpt cannot be more than 200 characters."})
+    .refine(value => value.trim() === '' || value.trim().length >= 10, { message: "Excerpt must be at least 10 characters." }),
   content: z.string().min(50, { message: "Your story must be at least 50 characters long." }),
+  category: z.string(),
+  tags: z.array(z.string()),
   image: z.any().optional(),
 });
 
@@ -47,6 +60,9 @@ export default function EditPostPage() {
   const [post, setPost] = useState<Post | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [imageFile, setImageFile] = useState<File | null>(null);
+  // The gallery as edited: the saved photos, reordered, removed or added to. New photos upload as they are added.
+  const [gallery, setGallery] = useState<GalleryImage[]>([]);
+  const [isGalleryUploading, setIsGalleryUploading] = useState(false);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
 
    const form = useForm<z.infer<typeof formSchema>>({
@@ -55,9 +71,25 @@ export default function EditPostPage() {
         title: "",
         excerpt: "",
         content: "",
+        category: "",
+        tags: [],
     },
   });
 
+  // Fills the form with a post's values, when it is loaded and when a revision is restored.
+  const fillForm = useCallback((postToEdit: Post) => {
+    setPost(postToEdit);
+    form.reset({
+        title: postToEdit.title,
+        excerpt: authorExcerpt(postToEdit),
+        content: postToEdit.content,
+        category: postToEdit.category || "",
+        tags: postToEdit.tags || [],
+    });
+    setImageFile(null);
+    setImagePreview(postToEdit.featuredImgUrl);
+  }, [form]);
+
   // This `useEffect` hook runs when the component mounts or when the `id` parameter changes.
   useEffect(() => {
     if (!id || !user) return;
@@ -71,13 +103,7 @@ export default function EditPostPage() {
           router.push('/dashboard');
           return;
         }
-        setPost(postToEdit);
-        form.reset({
-            title: postToEdit.title,
-            excerpt: postToEdit.excerpt,
-            content: postToEdit.content,
-        });
-        setImagePreview(postToEdit.featuredImgUrl);
+        fillForm(postToEdit);
       } else {
         toast({
           title: "Post not found",
@@ -89,39 +115,75 @@ export default function EditPostPage() {
     }
 
     fetchPost(id);
-  }, [id, router, toast, user, form]);
+  }, [id, router, toast, user, fillForm]);
 
   const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
         const file = e.target.files[0];
+        // Check the type and size straight away, rather than when saving.
+        try {
+          validateImageFile(file);
+        } catch (error) {
+          toast({ title: "Can't use this image", description: (error as Error).message, variant: "destructive" });
+          e.target.value = '';
+          return;
+        }
         setImageFile(file);
         setImagePreview(URL.createObjectURL(file));
     }
   };
 
   async function handlePostUpdate(values: z.infer<typeof formSchema>, action: ActionType) {
+    if (isGalleryUploading) {
+        toast({ title: "Photos still uploading", description: "Wait for your gallery photos to finish uploading." });
+        return;
+    }
+    try {
+        normalizeGallery(gallery, MAX_POST_GALLERY_IMAGES);
+    } catch (error) {
+        toast({ title: "Check your gallery", description: (error as Error).message, variant: "destructive" });
+        return;
+    }
     setIsLoading(true);
     
     let imageUrl = post?.featuredImgUrl;
+    let featuredImage = post?.featured_image;
     if (imageFile && user) {
-        const path = `posts/${user.uid}/${imageFile.name}`;
-        imageUrl = await uploadImage(imageFile, path);
+        // The image is resized and stripped of its metadata before upload (see `src/lib/images.ts`).
+        try {
+            featuredImage = await uploadImageVariants(imageFile, `posts/${user.uid}`);
+        } catch (error) {
+            toast({ title: "Image upload failed", description: (error as Error).message, variant: "destructive" });
+            setIsLoading(false);
+            return;
+        }
+        imageUrl = featuredImage.hero.url;
     }
 
     // Determine the new status based on the button clicked.
     let newStatus: Post['status'] = post?.status || 'draft';
-    if(action === 'submit' && (newStatus === 'draft' || newStatus === 'rejected')) {
+    if(action === 'submit' && (newStatus === 'draft' || newStatus === 'rejected' || newStatus === 'changes_requested')) {
         newStatus = 'pending';
     } else if (action === 'draft') {
         newStatus = 'draft';
     }
+    // Submitting a post the reviewers sent back is a resubmission, which is noted in the review thread.
+    const isResubmission = action === 'submit' && (post?.status === 'changes_requested' || post?.status === 'rejected');
     
     if (post) {
       await updatePost(post.id, {
         ...values,
+        // Older HTML posts are saved as Markdown too; the HTML they contain is still valid Markdown.
+        content_format: DEFAULT_CONTENT_FORMAT,
         status: newStatus,
         featuredImgUrl: imageUrl,
-      });
+        ...(featuredImage && { featured_image: featuredImage }),
+        // Always saved, so removing every photo empties the gallery.
+        gallery,
+      }, { editorId: user?.uid });
+      if (isResubmission && user) {
+        await resubmitPost(post.id, user.uid);
+      }
       
       toast({
         title: action === 'submit' ? "Post Submitted" : "Draft Saved",
@@ -151,6 +213,8 @@ export default function EditPostPage() {
                 Back to Dashboard
               </Link>
             </Button>
+            {/* Feedback from the reviewers, once there is any. */}
+            {user && <ReviewThread postId={post.id} userId={user.uid} mode="author" className="mb-8" />}
             <Form {...form}>
             <form>
                 <Card>
@@ -179,17 +243,35 @@ export default function EditPostPage() {
                                 <Image src={imagePreview} alt="Featured image preview" fill className="object-cover" />
                               </div>
                             )}
-                            <Input id="featuredImgUrl" type="file" onChange={handleImageChange} className="mt-2" accept="image/png, image/jpeg" />
+                            <Input id="featuredImgUrl" type="file" onChange={handleImageChange} className="mt-2" accept={ALLOWED_IMAGE_TYPES.join(',')} />
                             <p className="text-sm text-muted-foreground mt-2">
-                                Supports JPG, PNG. Max file size: 2MB. Recommended aspect ratio: 16:9.
+                                Supports JPG, PNG and WebP. Max file size: 10MB. Recommended aspect ratio: 16:9.
                             </p>
                         </div>
+                        {user && (
+                            <div className="space-y-2">
+                                <Label htmlFor="gallery">Gallery (optional)</Label>
+                                <p className="text-sm text-muted-foreground">More photos from your trip, shown after your story. Drag them to change their order.</p>
+                                {/* Keyed by post, so it starts again from the saved gallery only when another post is loaded. */}
+                                <GalleryUploader
+                                    key={post.id}
+                                    id="gallery"
+                                    folder={`posts/${user.uid}`}
+                                    max={MAX_POST_GALLERY_IMAGES}
+                                    initial={post.gallery}
+                                    onChange={(photos, uploading) => {
+                                        setGallery(photos);
+                                        setIsGalleryUploading(uploading);
+                                    }}
+                                />
+                            </div>
+                        )}
                         <FormField
                             control={form.control}
                             name="excerpt"
                             render={({ field }) => (
                                 <FormItem>
-                                <Label htmlFor="excerpt">Excerpt</Label>
+                                <Label htmlFor="excerpt">Excerpt (optional)</Label>
                                 <FormControl>
                                     <Textarea id="excerpt" {...field} />
                                 </FormControl>
@@ -204,24 +286,59 @@ export default function EditPostPage() {
                                 <FormItem>
                                 <Label htmlFor="content">Content</Label>
                                 <FormControl>
-                                     <Textarea id="content" className="min-h-[250px]" {...field} />
+                                     <ContentEditor
+                                        id="content"
+                                        imageFolder={user ? `posts/${user.uid}` : undefined}
+                                        name={field.name}
+                                        value={field.value}
+                                        onChange={field.onChange}
+                                        onBlur={field.onBlur}
+                                     />
                                 </FormControl>
                                 <FormMessage />
                                 </FormItem>
                             )}
                         />
+                        <div className="grid gap-6 md:grid-cols-2">
+                            <FormField
+                                control={form.control}
+                                name="category"
+                                render={({ field }) => (
+                                    <FormItem>
+                                    <Label htmlFor="category">Category</Label>
+                                    <CategoryPicker id="category" value={field.value} onChange={field.onChange} />
+                                    <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="tags"
+                                render={({ field }) => (
+                                    <FormItem>
+                                    <Label htmlFor="tags">Tags</Label>
+                                    <TagPicker id="tags" value={field.value} onChange={field.onChange} />
+                                    <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
                     </CardContent>
                     <CardFooter className="flex justify-end gap-2">
-                        <Button type="button" variant="outline" onClick={onSubmit('draft')} disabled={isLoading}>
+                        <Button type="button" variant="outline" onClick={onSubmit('draft')} disabled={isLoading || isGalleryUploading}>
                             {isLoading ? "Saving..." : "Save Draft"}
                         </Button>
-                        <Button type="button" onClick={onSubmit('submit')} disabled={isLoading}>
-                            {isLoading ? "Submitting..." : (post.status === 'pending' ? 'Resubmit for Review' : 'Submit for Review')}
+                        <Button type="button" onClick={onSubmit('submit')} disabled={isLoading || isGalleryUploading}>
+                            {isLoading ? "Submitting..." : (['pending', 'changes_requested', 'rejected'].includes(post.status) ? 'Resubmit for Review' : 'Submit for Review')}
                         </Button>
                     </CardFooter>
                 </Card>
             </form>
             </Form>
+            {/* The saved versions of the post, with a comparison and restore. */}
+            <div className="mt-8">
+                <RevisionHistory postId={post.id} editorId={user?.uid ?? null} onRestored={fillForm} />
+            </div>
         </div>
       </main>
       <Footer />
@@ -21,6 +21,7 @@ import { ArrowLeft, Upload } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import Image from 'next/image';
 import Head from 'next/head';
+import { validateImageFile, ALLOWED_IMAGE_TYPES } from '@/lib/images';
 
 // Define the validation schema for the profile form.
 const profileFormSchema = z.object({
@@ -50,6 +51,14 @@ export default function ProfilePage() {
     const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
+            // Check the type and size straight away, rather than when saving.
+            try {
+                validateImageFile(file);
+            } catch (error) {
+                toast({ title: "Can't use this image", description: (error as Error).message, variant: "destructive" });
+                e.target.value = '';
+                return;
+            }
             setAvatarFile(file);
             const previewUrl = URL.createObjectURL(file);
             setAvatarPreview(previewUrl);
@@ -73,7 +82,7 @@ export default function ProfilePage() {
         } catch (error) {
             toast({
                 title: "Error",
-                description: "There was an error updating your profile.",
+                description: (error as Error).message || "There was an error updating your profile.",
                 variant: "destructive",
             });
         } finally {
@@ -124,7 +133,7 @@ export default function ProfilePage() {
                                   <Button asChild size="icon" className="absolute -bottom-2 -right-2 h-8 w-8 rounded-full cursor-pointer">
                                        <label htmlFor="avatar-upload">
                                           <Upload className="h-4 w-4" />
-                                          <input id="avatar-upload" type="file" accept="image/*" className="hidden" onChange={handleAvatarChange} />
+                                          <input id="avatar-upload" type="file" accept={ALLOWED_IMAGE_TYPES.join(',')} className="hidden" onChange={handleAvatarChange} />
                                        </label>
                                   </Button>
                               </div>
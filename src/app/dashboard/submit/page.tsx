@@ -1,5 +1,6 @@
 // This file creates the page where users can submit a new blog post for review.
-// It contains a form for the title, excerpt, content, and a featured image.
+// It contains a form for the title, excerpt, content, a featured image and a gallery of more photos.
+// Authors with rough notes can have them turned into a draft first (see `DraftFromNotes`).
 'use client';
 
 import { useForm } from 'react-hook-form';
@@ -12,20 +13,41 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Header } from "@/components/landing/header";
 import { Footer } from "@/components/landing/footer";
-import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { ContentEditor } from "@/components/blog/content-editor";
+import { CategoryPicker, TagPicker } from "@/components/blog/taxonomy-pickers";
+import { DraftFromNotes, DraftSuggestion } from "@/components/blog/draft-from-notes";
+import { GalleryUploader } from "@/components/blog/gallery-uploader";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormMessage } from '@/components/ui/form';
 import { useAuth } from '@/hooks/use-auth';
 import { addPost } from '@/lib/firestore';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
-import { uploadImage } from '@/lib/storage';
+import { uploadImageVariants } from '@/lib/storage';
+import { validateImageFile, ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { normalizeGallery, MAX_POST_GALLERY_IMAGES } from '@/lib/galleries';
+import { GalleryImage } from '@/lib/types';
+import { DEFAULT_CONTENT_FORMAT } from '@/lib/content';
 import Image from 'next/image';
 import { useState } from 'react';
 
 const formSchema = z.object({
     title: z.string().min(1, "Title is required"),
-    excerpt: z.string().min(1, "Excerpt is required"),
+    // Optional: without one, the start of the story is used (see `src/lib/content-analysis.ts`).
+    excerpt: z.string(),
     content: z.string().min(1, "Content is required"),
-    image: z.any().optional(),
+    category: z.string(),
+    tags: z.array(z.string()),
+    imageHint: z.string(),
+    // The picked file must be an image the upload pipeline accepts (see `src/lib/images.ts`).
+    image: z.any().optional().superRefine((files, ctx) => {
+        const file = files?.[0];
+        if (!file) return;
+        try {
+            validateImageFile(file);
+        } catch (error) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+        }
+    }),
 });
 
 export default function SubmitStoryPage() {
@@ -33,6 +55,9 @@ export default function SubmitStoryPage() {
     const { toast } = useToast();
     const router = useRouter();
     const [imagePreview, setImagePreview] = useState<string | null>(null);
+    // The gallery photos uploaded so far. They are uploaded as they are added, so the post waits for them.
+    const [gallery, setGallery] = useState<GalleryImage[]>([]);
+    const [isGalleryUploading, setIsGalleryUploading] = useState(false);
 
     const form = useForm({
         resolver: zodResolver(formSchema),
@@ -40,6 +65,9 @@ export default function SubmitStoryPage() {
             title: "",
             excerpt: "",
             content: "",
+            category: "",
+            tags: [] as string[],
+            imageHint: "",
             image: undefined,
         },
     });
@@ -55,6 +83,17 @@ export default function SubmitStoryPage() {
         }
     };
 
+    // Copies a draft suggested from the author's notes into the form, replacing what it held.
+    const applyDraft = (draft: DraftSuggestion) => {
+        const options = { shouldDirty: true, shouldValidate: true };
+        form.setValue('title', draft.title, options);
+        form.setValue('excerpt', draft.excerpt, options);
+        form.setValue('content', draft.content, options);
+        form.setValue('category', draft.category, options);
+        form.setValue('tags', draft.tags, options);
+        form.setValue('imageHint', draft.imageHint, options);
+    };
+
     async function onSubmit(values: z.infer<typeof formSchema>) {
         if (!user) {
             toast({
@@ -64,27 +103,37 @@ export default function SubmitStoryPage() {
             });
             return;
         }
+        if (isGalleryUploading) {
+            toast({ title: "Photos still uploading", description: "Wait for your gallery photos to finish uploading." });
+            return;
+        }
+        try {
+            normalizeGallery(gallery, MAX_POST_GALLERY_IMAGES);
+        } catch (error) {
+            toast({ title: "Check your gallery", description: (error as Error).message, variant: "destructive" });
+            return;
+        }
 
         try {
-            let imageUrl = '';
-            if (values.image && values.image[0]) {
-                const file = values.image[0];
-                const path = `posts/${user.uid}/${file.name}`;
-                imageUrl = await uploadImage(file, path);
-            }
+            // The image is resized and stripped of its metadata before upload (see `src/lib/images.ts`).
+            const featuredImage = values.image && values.image[0]
+                ? await uploadImageVariants(values.image[0], `posts/${user.uid}`)
+                : undefined;
 
             // Construct the post object without the 'image' field from the form values.
             const postData = {
                 title: values.title,
                 excerpt: values.excerpt,
                 content: values.content,
+                content_format: DEFAULT_CONTENT_FORMAT,
                 author_id: user.uid,
                 status: 'pending' as const,
-                slug: values.title.toLowerCase().replace(/\s+/g, '-'),
-                featuredImgUrl: imageUrl,
-                imageHint: '',
-                category: '',
-                tags: [],
+                featuredImgUrl: featuredImage?.hero.url ?? '',
+                ...(featuredImage && { featured_image: featuredImage }),
+                ...(gallery.length > 0 && { gallery }),
+                imageHint: values.imageHint,
+                category: values.category,
+                tags: values.tags,
                 created_at: new Date(),
                 updated_at: new Date(),
             };
@@ -118,6 +167,9 @@ export default function SubmitStoryPage() {
                 <CardDescription>Share your adventures with the Travonex community.</CardDescription>
             </CardHeader>
             <CardContent>
+                <div className="mb-6">
+                    <DraftFromNotes onApply={applyDraft} />
+                </div>
                 <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                         <FormField
@@ -138,10 +190,11 @@ export default function SubmitStoryPage() {
                             name="excerpt"
                             render={({ field }) => (
                                 <FormItem>
-                                    <Label>Excerpt</Label>
+                                    <Label>Excerpt (optional)</Label>
                                     <FormControl>
                                         <Textarea placeholder="A short summary of your story..." {...field} />
                                     </FormControl>
+                                    <FormDescription>Leave this empty to use the start of your story.</FormDescription>
                                     <FormMessage />
                                 </FormItem>
                             )}
@@ -153,12 +206,43 @@ export default function SubmitStoryPage() {
                                 <FormItem>
                                     <Label>Your Story</Label>
                                     <FormControl>
-                                        <Textarea placeholder="Tell us all about it..." className="min-h-[200px]" {...field} />
+                                        <ContentEditor
+                                            placeholder="Tell us all about it..."
+                                            imageFolder={user ? `posts/${user.uid}` : undefined}
+                                            name={field.name}
+                                            value={field.value}
+                                            onChange={field.onChange}
+                                            onBlur={field.onBlur}
+                                        />
                                     </FormControl>
                                     <FormMessage />
                                 </FormItem>
                             )}
                         />
+                        <div className="grid gap-6 md:grid-cols-2">
+                            <FormField
+                                control={form.control}
+                                name="category"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <Label>Category</Label>
+                                        <CategoryPicker value={field.value} onChange={field.onChange} />
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="tags"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <Label>Tags</Label>
+                                        <TagPicker value={field.value} onChange={field.onChange} />
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
                         <FormField
                             control={form.control}
                             name="image"
@@ -168,6 +252,7 @@ export default function SubmitStoryPage() {
                                     <FormControl>
                                         <Input 
                                             type="file" 
+                                            accept={ALLOWED_IMAGE_TYPES.join(',')}
                                             name={name}
                                             ref={ref}
                                             onBlur={onBlur}
@@ -184,8 +269,23 @@ export default function SubmitStoryPage() {
                         {imagePreview && (
                             <Image src={imagePreview} alt="Image preview" width={200} height={200} />
                         )}
+                        {user && (
+                            <div className="space-y-2">
+                                <Label htmlFor="gallery">Gallery (optional)</Label>
+                                <p className="text-sm text-muted-foreground">More photos from your trip, shown after your story. Describe each one for readers who cannot see it.</p>
+                                <GalleryUploader
+                                    id="gallery"
+                                    folder={`posts/${user.uid}`}
+                                    max={MAX_POST_GALLERY_IMAGES}
+                                    onChange={(photos, uploading) => {
+                                        setGallery(photos);
+                                        setIsGalleryUploading(uploading);
+                                    }}
+                                />
+                            </div>
+                        )}
                         <div className="flex justify-end">
-                            <Button type="submit">Submit for Review</Button>
+                            <Button type="submit" disabled={isGalleryUploading}>Submit for Review</Button>
                         </div>
                     </form>
                 </Form>
@@ -0,0 +1,118 @@
+// This file creates the page of a reading list, e.g., /lists/abc123
+// Anyone with the link can view a public (shared) list; a private list is only visible to its owner.
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+import { Header } from '@/components/landing/header';
+import { Footer } from '@/components/landing/footer';
+import { PostCard } from '@/components/blog/post-card';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/use-auth';
+import { getReadingList, getSavedPosts, getUserById } from '@/lib/firestore';
+import { Post, ReadingList, User } from '@/lib/types';
+
+type ReadingListPageProps = {
+    list: ReadingList;
+    owner: User | null;
+    posts: Post[];
+    authors: Record<string, User | null>;
+    isOwner: boolean;
+}
+
+function ReadingListPageContent({ list, owner, posts, authors, isOwner }: ReadingListPageProps) {
+    return (
+        <div className="flex flex-col min-h-dvh bg-background">
+            <Header />
+            <main className="flex-1">
+                {/* List Header */}
+                <section className="py-20 md:py-24 bg-secondary">
+                    <div className="container mx-auto text-center">
+                        <p className="text-sm uppercase tracking-wide text-muted-foreground">Reading list</p>
+                        <h1 className="mt-2 text-4xl md:text-5xl font-extrabold font-headline">
+                            {list.name}
+                        </h1>
+                        {owner && (
+                            <p className="mt-2 text-muted-foreground">
+                                Curated by <Link href={`/author/${owner.username}`} className="underline">{owner.name}</Link>
+                            </p>
+                        )}
+                        {list.description && (
+                            <p className="mt-4 max-w-2xl mx-auto text-lg text-foreground/80">
+                                {list.description}
+                            </p>
+                        )}
+                        {isOwner && (
+                            <div className="mt-4 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                                <Badge variant={list.is_public ? 'secondary' : 'outline'}>{list.is_public ? 'Public' : 'Private'}</Badge>
+                                <Link href="/dashboard?tab=saved" className="underline">Manage your lists</Link>
+                            </div>
+                        )}
+                    </div>
+                </section>
+
+                {/* The posts in the list */}
+                <section className="py-24 md:py-32">
+                    <div className="container mx-auto">
+                        {posts.length > 0 ? (
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                                {posts.map((post) => (
+                                    <PostCard key={post.id} post={post} authorName={(post.author_id && authors[post.author_id]?.name) || 'Travonex'} />
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="text-center py-12 text-muted-foreground">
+                                <p>There are no posts in this list yet.</p>
+                            </div>
+                        )}
+                    </div>
+                </section>
+            </main>
+            <Footer />
+        </div>
+    );
+}
+
+
+export default function ReadingListPage() {
+    const params = useParams();
+    const id = params.id as string;
+    const { user, loading } = useAuth();
+
+    const [data, setData] = useState<ReadingListPageProps | null | undefined>(undefined);
+
+    useEffect(() => {
+        // Wait for the login state, since the owner may view their own private list.
+        if (!id || loading) {
+            return;
+        }
+        const load = async () => {
+            const list = await getReadingList(id);
+            const isOwner = !!user && list?.user_id === user.uid;
+            if (!list || (!list.is_public && !isOwner)) {
+                return null;
+            }
+            const posts = await getSavedPosts(list.post_ids);
+            const authorIds = Array.from(new Set([list.user_id, ...posts.flatMap(post => post.author_id ? [post.author_id] : [])]));
+            const users = await Promise.all(authorIds.map(authorId => getUserById(authorId)));
+            const authors = Object.fromEntries(authorIds.map((authorId, i) => [authorId, users[i]]));
+            return { list, owner: authors[list.user_id], posts, authors, isOwner };
+        };
+        // A private list of another user can't even be read from Firestore; treat that as not found.
+        load().then(setData).catch(() => setData(null));
+    }, [id, user, loading]);
+
+
+    if (data === undefined) {
+        return <div className="flex h-screen items-center justify-center">Loading reading list...</div>;
+    }
+
+    if (data === null) {
+        notFound();
+    }
+
+    return <ReadingListPageContent {...data} />;
+}
@@ -6,10 +6,10 @@
 'use client';
 
 // Import React hooks for state management.
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 // Import Next.js components for navigation.
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 // Import UI components from ShadCN.
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -29,6 +29,21 @@ export default function LoginPage() {
   const { login, googleSignIn, user } = useAuth();
   // Get the router instance to redirect the user after login.
   const router = useRouter();
+  // The protected page the user was sent here from, if any (set by `src/middleware.ts`).
+  const searchParams = useSearchParams();
+  const nextPath = searchParams.get('next');
+  
+  // Sends the user on after logging in: back to the page they asked for, or to the start page of their role.
+  // Only paths on this site are followed, so the link can't be used to send users elsewhere.
+  const redirectAfterLogin = useCallback((role?: string) => {
+    if (nextPath && nextPath.startsWith('/') && !nextPath.startsWith('//')) {
+      router.push(nextPath);
+    } else if (role === 'admin') {
+      router.push('/blog/admin');
+    } else {
+      router.push('/dashboard');
+    }
+  }, [nextPath, router]);
   
   // State to manage the email and password form fields.
   const [email, setEmail] = useState('');
@@ -50,11 +65,7 @@ export default function LoginPage() {
 
       if (userCredential) {
         const userDoc = await getUserById(userCredential.user.uid);
-        if (userDoc && userDoc.role === 'admin') {
-          router.push('/blog/admin');
-        } else {
-          router.push('/dashboard');
-        }
+        redirectAfterLogin(userDoc?.role);
       }
     } catch (err: unknown) {
       // If there's an error, display a generic message.
@@ -81,11 +92,7 @@ export default function LoginPage() {
       const userCredential = await googleSignIn();
       if (userCredential) {
         const userDoc = await getUserById(userCredential.user.uid);
-        if (userDoc && userDoc.role === 'admin') {
-          router.push('/blog/admin');
-        } else {
-          router.push('/dashboard');
-        }
+        redirectAfterLogin(userDoc?.role);
       }
     } catch (err: unknown) {
       // Handle potential errors.
@@ -106,15 +113,11 @@ export default function LoginPage() {
     if (user) {
       const checkUserRole = async () => {
         const userDoc = await getUserById(user.uid);
-        if (userDoc && userDoc.role === 'admin') {
-          router.push('/blog/admin');
-        } else {
-          router.push('/dashboard');
-        }
+        redirectAfterLogin(userDoc?.role);
       };
       checkUserRole();
     }
-  }, [user, router]);
+  }, [user, redirectAfterLogin]);
 
 
   // The JSX for the login page layout.
@@ -1,8 +1,10 @@
-import { getPublishedPosts } from '@/lib/firestore';
+import { getPublishedPosts, getCategories } from '@/lib/firestore';
+import { tagPath } from '@/lib/taxonomy';
 import { MetadataRoute } from 'next';
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-  const posts = await getPublishedPosts();
+  // Scheduled posts only appear once their publish time has passed.
+  const [posts, categories] = await Promise.all([getPublishedPosts(), getCategories()]);
 
   const postEntries: MetadataRoute.Sitemap = posts.map((post) => ({
     url: `${process.env.NEXT_PUBLIC_BASE_URL}/blog/${post.slug}`,
@@ -11,6 +13,20 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: 0.8,
   }));
 
+  const categoryEntries: MetadataRoute.Sitemap = categories.map((category) => ({
+    url: `${process.env.NEXT_PUBLIC_BASE_URL}/blog/category/${category.id}`,
+    changeFrequency: 'weekly',
+    priority: 0.7,
+  }));
+
+  // Only tags that published posts carry have a page.
+  const tags = Array.from(new Set(posts.flatMap((post) => post.tags || []))).sort();
+  const tagEntries: MetadataRoute.Sitemap = tags.map((tag) => ({
+    url: `${process.env.NEXT_PUBLIC_BASE_URL}${tagPath(tag)}`,
+    changeFrequency: 'weekly',
+    priority: 0.5,
+  }));
+
   return [
     {
       url: `${process.env.NEXT_PUBLIC_BASE_URL}`,
@@ -25,5 +41,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       priority: 0.9,
     },
     ...postEntries,
+    ...categoryEntries,
+    ...tagEntries,
   ];
 }
@@ -0,0 +1,149 @@
+// This component renders the save button for a post, on post cards and on the post page.
+// Clicking it saves the post and opens a menu to file it in the user's reading lists, create a new list,
+// or unsave it again. The saved posts and lists are shown on the "Saved" tab of the user dashboard.
+
+// This is a Client Component because it depends on the logged-in user's bookmarks.
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Bookmark, BookmarkCheck, Loader2, Plus } from 'lucide-react';
+// Import UI components from ShadCN.
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/use-auth';
+import { useBookmarks } from '@/hooks/use-bookmarks';
+import { useToast } from '@/hooks/use-toast';
+import { READING_LIST_NAME_MAX_LENGTH } from '@/lib/firestore';
+import { cn } from '@/lib/utils';
+
+type BookmarkButtonProps = {
+  postId: string;
+  // 'icon' is the round button laid over post cards; 'default' is a labelled button for the post page.
+  variant?: 'icon' | 'default';
+  className?: string;
+};
+
+export function BookmarkButton({ postId, variant = 'default', className }: BookmarkButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { lists, isSaved, setSaved, createList, setInList } = useBookmarks();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const saved = isSaved(postId);
+
+  // Runs a change, reporting failures in a toast.
+  const run = async (change: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await change();
+      return true;
+    } catch (error) {
+      toast({ title: failure, description: (error as Error).message, variant: 'destructive' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Opening the menu saves the post, so one click is enough to save it.
+  const handleOpenChange = async (open: boolean) => {
+    if (open && !user) {
+      toast({ title: 'Log in to save posts', description: 'You need an account to save posts and build reading lists.' });
+      return;
+    }
+    setIsOpen(open);
+    if (open && !saved) {
+      await run(() => setSaved(postId, true), 'Could not save the post');
+    }
+  };
+
+  const handleUnsave = async () => {
+    if (await run(() => setSaved(postId, false), 'Could not unsave the post')) {
+      setIsOpen(false);
+    }
+  };
+
+  const handleCreateList = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newListName;
+    await run(async () => {
+      const listId = await createList(name);
+      await setInList(listId, postId, true);
+      setNewListName('');
+    }, 'Could not create the list');
+  };
+
+  const label = saved ? 'Saved' : 'Save';
+  const Icon = saved ? BookmarkCheck : Bookmark;
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        {variant === 'icon' ? (
+          <Button
+            variant="secondary"
+            size="icon"
+            className={cn('rounded-full shadow-md', saved && 'text-primary', className)}
+            aria-label={saved ? 'Saved — manage reading lists' : 'Save post'}
+          >
+            <Icon className={cn('h-4 w-4', saved && 'fill-current')} />
+          </Button>
+        ) : (
+          <Button variant={saved ? 'secondary' : 'outline'} size="sm" className={cn(saved && 'text-primary', className)}>
+            <Icon className={cn('mr-2 h-4 w-4', saved && 'fill-current')} />
+            {label}
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="font-semibold">{saved ? 'Saved' : 'Saving…'}</p>
+          {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+        <div className="px-4 py-3 space-y-2">
+          <p className="text-sm text-muted-foreground">Add to a reading list</p>
+          {lists.length === 0 && <p className="text-sm text-muted-foreground italic">You have no reading lists yet.</p>}
+          {lists.map(list => {
+            const checkboxId = `list-${list.id}-${postId}`;
+            return (
+              <div key={list.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={checkboxId}
+                  checked={list.post_ids.includes(postId)}
+                  disabled={busy}
+                  onCheckedChange={checked => run(() => setInList(list.id, postId, checked === true), 'Could not update the list')}
+                />
+                <label htmlFor={checkboxId} className="text-sm truncate cursor-pointer">{list.name}</label>
+              </div>
+            );
+          })}
+          <form onSubmit={handleCreateList} className="flex items-center gap-2 pt-1">
+            <Input
+              value={newListName}
+              onChange={e => setNewListName(e.target.value)}
+              placeholder="New list, e.g. Goa trip ideas"
+              maxLength={READING_LIST_NAME_MAX_LENGTH}
+              className="h-8"
+              aria-label="New reading list name"
+            />
+            <Button type="submit" size="icon" variant="outline" className="h-8 w-8 shrink-0" disabled={busy || !newListName.trim()} aria-label="Create list">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+        <div className="flex items-center justify-between border-t px-4 py-2">
+          <Button variant="link" size="sm" className="h-auto p-0" asChild>
+            <Link href="/dashboard?tab=saved" onClick={() => setIsOpen(false)}>View saved posts</Link>
+          </Button>
+          {saved && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-destructive" disabled={busy} onClick={handleUnsave}>Unsave</Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
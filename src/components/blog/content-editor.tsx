@@ -0,0 +1,250 @@
+// This component is the editor used to write post content.
+// It is a Markdown textarea with a formatting toolbar (headings, lists, links, images and embeds)
+// and a preview tab that shows the content exactly as the post page will render it.
+// The document format itself is described in `src/lib/content.ts`.
+
+// This is a Client Component because it manages the text selection, uploads and the preview tab.
+'use client';
+
+import { useRef, useState, ChangeEvent, ComponentPropsWithoutRef, ReactNode } from 'react';
+// Import UI components from ShadCN.
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+// Import icons.
+import { Bold, Italic, Heading2, Heading3, List, ListOrdered, Quote, Link2, ImagePlus, Youtube, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { uploadImage } from '@/lib/storage';
+import { ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { contentToHtml, toEmbedUrl } from '@/lib/content';
+
+// The textarea's new value and the selection to restore after a toolbar action.
+type Edit = {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+};
+
+// Wraps the selection in `before`/`after`, e.g. `**bold**`. Inserts `placeholder` when nothing is selected.
+function wrapSelection(value: string, start: number, end: number, before: string, after: string, placeholder: string): Edit {
+  const selected = value.slice(start, end) || placeholder;
+  return {
+    value: value.slice(0, start) + before + selected + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + selected.length,
+  };
+}
+
+// Adds a prefix (e.g. `## ` or `- `) to every line touched by the selection.
+// `prefix` may be a function for numbered lists, which need a different prefix on each line.
+function prefixLines(value: string, start: number, end: number, prefix: string | ((index: number) => string)): Edit {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split('\n')
+    .map((line, i) => (typeof prefix === 'string' ? prefix : prefix(i)) + line.replace(/^(#{1,6} |> |- |\d+\. )/, ''));
+  const replaced = lines.join('\n');
+  return {
+    value: value.slice(0, lineStart) + replaced + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length,
+  };
+}
+
+// Inserts a block (an image or an embed) on its own paragraph at the cursor.
+function insertBlock(value: string, start: number, end: number, block: string): Edit {
+  const before = value.slice(0, start).replace(/\s*$/, '');
+  const after = value.slice(end).replace(/^\s*/, '');
+  const head = before ? `${before}\n\n` : '';
+  const inserted = `${head}${block}\n\n`;
+  return {
+    value: inserted + after,
+    selectionStart: inserted.length,
+    selectionEnd: inserted.length,
+  };
+}
+
+type ContentEditorProps = Omit<ComponentPropsWithoutRef<'textarea'>, 'value' | 'onChange'> & {
+  value: string;
+  onChange: (value: string) => void;
+  // The Storage folder inline images are uploaded to, e.g. `posts/{uid}`. Image uploads are hidden without it.
+  imageFolder?: string;
+};
+
+export function ContentEditor({ value, onChange, imageFolder, className, ...textareaProps }: ContentEditorProps) {
+  const { toast } = useToast();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Runs a toolbar action against the current selection, then puts the cursor back in the textarea.
+  // It reads the text from the textarea rather than `value`, which may be stale after an upload.
+  const apply = (action: (value: string, start: number, end: number) => Edit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const edit = action(textarea.value, textarea.selectionStart, textarea.selectionEnd);
+    onChange(edit.value);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const insertLink = (url: string) => {
+    apply((current, start, end) => {
+      const text = current.slice(start, end) || url;
+      const link = `[${text}](${url})`;
+      return {
+        value: current.slice(0, start) + link + current.slice(end),
+        selectionStart: start + link.length,
+        selectionEnd: start + link.length,
+      };
+    });
+  };
+
+  const insertEmbed = (url: string) => {
+    if (!toEmbedUrl(url)) {
+      toast({
+        title: "Unsupported link",
+        description: "Only YouTube, Vimeo and Google Maps embed links can be embedded.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    apply((current, start, end) => insertBlock(current, start, end, `@[](${url})`));
+    return true;
+  };
+
+  const handleImageSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again.
+    if (!file || !imageFolder) return;
+
+    setIsUploading(true);
+    try {
+      const url = await uploadImage(file, `${imageFolder}/${Date.now()}-${file.name}`);
+      const alt = file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+      apply((current, start, end) => insertBlock(current, start, end, `![${alt}](${url})`));
+    } catch (error) {
+      console.error("Error uploading image: ", error);
+      toast({
+        title: "Upload failed",
+        description: (error as Error).message || "The image could not be uploaded. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const tool = (label: string, icon: ReactNode, action: (value: string, start: number, end: number) => Edit) => (
+    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title={label} aria-label={label} onClick={() => apply(action)}>
+      {icon}
+    </Button>
+  );
+
+  return (
+    <Tabs defaultValue="write" className="w-full">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        {/* The formatting toolbar. Each button edits the Markdown around the current selection. */}
+        <div className="flex flex-wrap items-center gap-1">
+          {tool('Heading', <Heading2 className="h-4 w-4" />, (v, s, e) => prefixLines(v, s, e, '## '))}
+          {tool('Subheading', <Heading3 className="h-4 w-4" />, (v, s, e) => prefixLines(v, s, e, '### '))}
+          {tool('Bold', <Bold className="h-4 w-4" />, (v, s, e) => wrapSelection(v, s, e, '**', '**', 'bold text'))}
+          {tool('Italic', <Italic className="h-4 w-4" />, (v, s, e) => wrapSelection(v, s, e, '_', '_', 'italic text'))}
+          {tool('Bulleted list', <List className="h-4 w-4" />, (v, s, e) => prefixLines(v, s, e, '- '))}
+          {tool('Numbered list', <ListOrdered className="h-4 w-4" />, (v, s, e) => prefixLines(v, s, e, i => `${i + 1}. `))}
+          {tool('Quote', <Quote className="h-4 w-4" />, (v, s, e) => prefixLines(v, s, e, '> '))}
+          <UrlPopover label="Link" icon={<Link2 className="h-4 w-4" />} placeholder="https://example.com" onSubmit={url => { insertLink(url); return true; }} />
+          {imageFolder && (
+            <>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Image" aria-label="Image" disabled={isUploading} onClick={() => fileInputRef.current?.click()}>
+                {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+              </Button>
+              <input ref={fileInputRef} type="file" accept={ALLOWED_IMAGE_TYPES.join(',')} className="hidden" onChange={handleImageSelected} />
+            </>
+          )}
+          <UrlPopover label="Embed video or map" icon={<Youtube className="h-4 w-4" />} placeholder="YouTube, Vimeo or Google Maps link" onSubmit={insertEmbed} />
+        </div>
+        <TabsList>
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+      </div>
+      <TabsContent value="write" className="mt-0">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={className ?? 'min-h-[300px] font-mono text-sm'}
+          {...textareaProps}
+        />
+        <p className="text-sm text-muted-foreground mt-2">
+          Formatting uses Markdown: <code>## Heading</code>, <code>**bold**</code>, <code>_italic_</code>, <code>- list item</code>, <code>[link](url)</code>.
+        </p>
+      </TabsContent>
+      <TabsContent value="preview" className="mt-0">
+        {/* The same conversion as the post page, so what you see here is what readers will see. */}
+        {value.trim() ? (
+          <div className="prose dark:prose-invert max-w-none min-h-[300px] rounded-md border p-4" dangerouslySetInnerHTML={{ __html: contentToHtml(value) }} />
+        ) : (
+          <p className="min-h-[300px] rounded-md border p-4 text-muted-foreground">Nothing to preview yet.</p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+type UrlPopoverProps = {
+  label: string;
+  icon: ReactNode;
+  placeholder: string;
+  // Inserts the URL. Returns false to keep the popover open, e.g. when the URL is rejected.
+  onSubmit: (url: string) => boolean;
+};
+
+// A toolbar button that asks for a URL in a small popover.
+function UrlPopover({ label, icon, placeholder, onSubmit }: UrlPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState('');
+
+  const submit = () => {
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    if (onSubmit(trimmed)) {
+      setUrl('');
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title={label} aria-label={label}>
+          {icon}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="start">
+        <div className="flex gap-2">
+          <Input
+            type="url"
+            value={url}
+            placeholder={placeholder}
+            aria-label={label}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => {
+              // The editor usually sits inside a form, so Enter must not submit it.
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                submit();
+              }
+            }}
+          />
+          <Button type="button" onClick={submit}>Insert</Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
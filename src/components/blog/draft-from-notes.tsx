@@ -0,0 +1,166 @@
+// This file contains the "Draft from notes" helper on the submit page. The author pastes rough trip notes,
+// gets a suggested draft back (see `src/ai/flows/draft-post.ts`), edits it here, and only then copies it
+// into the submit form, replacing what the form held. Nothing is submitted by the helper itself.
+
+// This is a Client Component because it manages the notes and the suggestion being edited.
+'use client';
+
+import { useEffect, useState } from 'react';
+// Import UI components from ShadCN.
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { CategoryPicker, TagPicker } from '@/components/blog/taxonomy-pickers';
+import { Sparkles, Loader2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { draftPost } from '@/ai/flows/draft-post';
+import { getCategories } from '@/lib/firestore';
+import { draftToMarkdown, MAX_NOTES_LENGTH } from '@/lib/post-drafts';
+
+// A suggested draft, as the author edits it: the sections are edited together as the post's Markdown.
+export type DraftSuggestion = {
+  title: string;
+  excerpt: string;
+  content: string;
+  tags: string[];
+  category: string;
+  imageHint: string;
+};
+
+type DraftFromNotesProps = {
+  // Called with the edited suggestion when the author chooses to use it.
+  onApply: (suggestion: DraftSuggestion) => void;
+};
+
+export function DraftFromNotes({ onApply }: DraftFromNotesProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [suggestion, setSuggestion] = useState<DraftSuggestion | null>(null);
+  const [source, setSource] = useState<'model' | 'notes'>('notes');
+  const [categories, setCategories] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      getCategories().then(list => setCategories(list.map(category => category.name)));
+    }
+  }, [open]);
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    try {
+      const result = await draftPost({ notes, categories });
+      const { draft } = result;
+      setSuggestion({
+        title: draft.title,
+        excerpt: draft.excerpt,
+        content: draftToMarkdown(draft),
+        tags: draft.tags,
+        category: draft.category,
+        imageHint: draft.imageHint,
+      });
+      setSource(result.source);
+    } catch (error) {
+      toast({ title: 'Could not draft your post', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const update = <K extends keyof DraftSuggestion>(key: K, value: DraftSuggestion[K]) => {
+    setSuggestion(current => current && { ...current, [key]: value });
+  };
+
+  const handleApply = () => {
+    if (suggestion) {
+      onApply(suggestion);
+      setSuggestion(null);
+      setOpen(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button type="button" variant="outline" onClick={() => setOpen(true)}>
+        <Sparkles className="mr-2 h-4 w-4" />
+        Draft from my notes
+      </Button>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold">Draft from your notes</h3>
+          <p className="text-sm text-muted-foreground">
+            Paste your rough notes, one point per line. You can edit the suggested draft before using it.
+          </p>
+        </div>
+        <Button type="button" variant="ghost" size="icon" onClick={() => setOpen(false)} aria-label="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="draft-notes">Your notes</Label>
+        <Textarea
+          id="draft-notes"
+          rows={6}
+          maxLength={MAX_NOTES_LENGTH}
+          placeholder={'Weekend in Coorg\n- stayed at a coffee estate homestay\n- Abbey Falls early morning, no crowds\nFood:\n- pandi curry at the homestay'}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+      <Button type="button" onClick={handleDraft} disabled={isDrafting || !notes.trim()}>
+        {isDrafting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+        {suggestion ? 'Draft again' : 'Suggest a draft'}
+      </Button>
+
+      {/* The suggestion, editable before it is copied into the form. */}
+      {suggestion && (
+        <div className="space-y-4 border-t pt-4">
+          <p className="text-sm text-muted-foreground">
+            {source === 'model'
+              ? 'Suggested by AI from your notes. Check it says what you mean before using it.'
+              : 'Arranged from your notes. Polish the wording before using it.'}
+          </p>
+          <div className="space-y-1">
+            <Label htmlFor="draft-title">Title</Label>
+            <Input id="draft-title" value={suggestion.title} onChange={(e) => update('title', e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="draft-excerpt">Excerpt</Label>
+            <Textarea id="draft-excerpt" value={suggestion.excerpt} onChange={(e) => update('excerpt', e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="draft-content">Story (Markdown)</Label>
+            <Textarea id="draft-content" rows={10} className="font-mono text-sm" value={suggestion.content} onChange={(e) => update('content', e.target.value)} />
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="draft-category">Category</Label>
+              <CategoryPicker id="draft-category" value={suggestion.category} onChange={(value) => update('category', value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="draft-tags">Tags</Label>
+              <TagPicker id="draft-tags" value={suggestion.tags} onChange={(value) => update('tags', value)} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="draft-image-hint">Image idea</Label>
+            <Input id="draft-image-hint" value={suggestion.imageHint} onChange={(e) => update('imageHint', e.target.value)} />
+            <p className="text-xs text-muted-foreground">What a fitting featured image would show.</p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => setSuggestion(null)}>Discard</Button>
+            <Button type="button" onClick={handleApply}>Use this draft</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// This component renders the follow button on author and tag pages.
+// Posts by followed authors and with followed tags show up in the user's feed at `/dashboard/feed`.
+
+// This is a Client Component because it depends on the logged-in user and updates optimistically.
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { getFollows, setFollow } from '@/lib/firestore';
+import { FollowTarget } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+type FollowButtonProps = {
+  targetType: FollowTarget;
+  // The author's user ID, or the normalized tag.
+  targetId: string;
+  // Called after the user follows (true) or unfollows (false), e.g. to update a follower count.
+  onChange?: (following: boolean) => void;
+  className?: string;
+};
+
+export function FollowButton({ targetType, targetId, onChange, className }: FollowButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [following, setFollowing] = useState(false);
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      getFollows(user.uid).then(follows =>
+        setFollowing(follows.some(f => f.target_type === targetType && f.target_id === targetId)));
+    } else {
+      setFollowing(false);
+    }
+  }, [user, targetType, targetId]);
+
+  // Authors can't follow themselves.
+  if (targetType === 'author' && user?.uid === targetId) {
+    return null;
+  }
+
+  const handleClick = async () => {
+    if (!user) {
+      toast({ title: 'Log in to follow', description: 'You need an account to follow authors and tags.' });
+      return;
+    }
+    const next = !following;
+    // Show the change straight away, and undo it if saving fails.
+    setFollowing(next);
+    setPending(true);
+    try {
+      await setFollow(user.uid, targetType, targetId, next);
+      onChange?.(next);
+    } catch (error) {
+      setFollowing(!next);
+      toast({ title: next ? 'Could not follow' : 'Could not unfollow', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={following ? 'secondary' : 'default'}
+      size="sm"
+      className={cn('rounded-full', className)}
+      aria-pressed={following}
+      disabled={pending}
+      onClick={handleClick}
+    >
+      {following ? <Check className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+      {following ? 'Following' : 'Follow'}
+    </Button>
+  );
+}
@@ -0,0 +1,231 @@
+// This component lets authors build a gallery: they drop photos on it (or pick several at once), each
+// one is uploaded straight away through the image pipeline with its progress shown, and they then add
+// captions and descriptions and put the photos in order. It is used on `/dashboard/submit`, on the
+// post edit pages (starting from the saved gallery) and in the story form on the post page. The gallery
+// is checked again when the post or story is saved (see `src/lib/galleries.ts`).
+
+// This is a Client Component because it manages the photos being uploaded and edited.
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+// Import UI components from ShadCN.
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, ArrowRight, ImagePlus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { uploadImageVariants } from '@/lib/storage';
+import { validateImageFile, ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { moveItem, MAX_CAPTION_LENGTH, MAX_ALT_LENGTH } from '@/lib/galleries';
+import { GalleryImage, ProcessedImage } from '@/lib/types';
+
+// A photo in the gallery being built: uploading, uploaded or failed.
+type GalleryItem = {
+  key: string;
+  name: string;
+  preview: string; // A local URL of the picked file, shown until the form is closed, or a saved photo's thumbnail.
+  progress: number; // From 0 to 100.
+  image?: ProcessedImage; // Set once the upload is done.
+  error?: string;
+  caption: string;
+  alt: string;
+};
+
+type GalleryUploaderProps = {
+  // The Storage folder photos are uploaded to, e.g. `posts/${userId}`.
+  folder: string;
+  // The most photos the gallery can hold.
+  max: number;
+  // Called with the uploaded photos, in order, whenever they change, and whether uploads are still running.
+  onChange: (gallery: GalleryImage[], uploading: boolean) => void;
+  // The gallery saved so far, when editing. Only read when the component mounts.
+  initial?: GalleryImage[];
+  id?: string;
+};
+
+// A saved photo as an item of the gallery being edited.
+function savedItem(photo: GalleryImage, index: number): GalleryItem {
+  return {
+    key: `saved-${index}-${photo.image.hero.url}`,
+    name: photo.alt || `Photo ${index + 1}`,
+    preview: photo.image.thumbnail.url,
+    progress: 100,
+    image: photo.image,
+    caption: photo.caption,
+    alt: photo.alt,
+  };
+}
+
+export function GalleryUploader({ folder, max, onChange, initial, id = 'gallery' }: GalleryUploaderProps) {
+  const { toast } = useToast();
+  const [items, setItems] = useState<GalleryItem[]>(() => (initial ?? []).map(savedItem));
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  // The index of the photo being dragged to a new place, if any.
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // The latest `onChange`, so a new function on every render of the parent doesn't report the photos again.
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  useEffect(() => {
+    const gallery = items
+      .filter(item => item.image)
+      .map(item => ({ image: item.image!, caption: item.caption, alt: item.alt }));
+    onChangeRef.current(gallery, items.some(item => !item.image && !item.error));
+  }, [items]);
+
+  // Frees the local previews when the form goes away.
+  const previews = useRef<string[]>([]);
+  useEffect(() => () => previews.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  const update = (key: string, changes: Partial<GalleryItem>) => {
+    setItems(current => current.map(item => item.key === key ? { ...item, ...changes } : item));
+  };
+
+  const addFiles = (files: File[]) => {
+    const room = max - items.length;
+    if (files.length > room) {
+      toast({ title: 'Too many photos', description: `A gallery can hold at most ${max} photos.`, variant: 'destructive' });
+    }
+    const accepted: GalleryItem[] = [];
+    for (const file of files.slice(0, Math.max(0, room))) {
+      // Check the type and size straight away, rather than when the upload fails.
+      try {
+        validateImageFile(file);
+      } catch (error) {
+        toast({ title: `Can't use ${file.name}`, description: (error as Error).message, variant: 'destructive' });
+        continue;
+      }
+      const preview = URL.createObjectURL(file);
+      previews.current.push(preview);
+      const key = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      accepted.push({ key, name: file.name, preview, progress: 0, caption: '', alt: '' });
+
+      // Each photo is resized and stripped of its metadata before upload (see `src/lib/images.ts`).
+      uploadImageVariants(file, folder, progress => update(key, { progress }))
+        .then(image => update(key, { image, progress: 100 }))
+        .catch(error => update(key, { error: (error as Error).message }));
+    }
+    setItems(current => [...current, ...accepted]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingOver(false);
+    if (e.dataTransfer.files.length > 0) {
+      addFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  // Photos dropped on another photo take its place; the ones in between shift along.
+  const handleDropOnItem = (e: React.DragEvent, index: number) => {
+    if (draggedIndex === null) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    setItems(current => moveItem(current, draggedIndex, index));
+    setDraggedIndex(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDraggingOver(draggedIndex === null); }}
+        onDragLeave={() => setIsDraggingOver(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center text-sm text-muted-foreground transition-colors',
+          isDraggingOver && 'border-primary bg-primary/5',
+        )}
+      >
+        <ImagePlus className="h-8 w-8" />
+        <p>Drop photos here, or</p>
+        <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={items.length >= max}>
+          Choose photos
+        </Button>
+        <input
+          ref={inputRef}
+          id={id}
+          type="file"
+          multiple
+          accept={ALLOWED_IMAGE_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+        <p className="text-xs">{items.length} of {max} photos. Drag photos to change their order.</p>
+      </div>
+
+      {items.length > 0 && (
+        <ol className="grid gap-4 sm:grid-cols-2">
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              draggable
+              onDragStart={() => setDraggedIndex(index)}
+              onDragEnd={() => setDraggedIndex(null)}
+              onDragOver={(e) => draggedIndex !== null && e.preventDefault()}
+              onDrop={(e) => handleDropOnItem(e, index)}
+              className={cn('space-y-2 rounded-lg border p-3', draggedIndex === index && 'opacity-50')}
+            >
+              <div className="relative aspect-video overflow-hidden rounded-md bg-muted">
+                <Image src={item.preview} alt={item.alt || item.name} fill className="object-cover" />
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="icon"
+                  className="absolute right-1 top-1 h-6 w-6 rounded-full"
+                  onClick={() => setItems(current => current.filter(other => other.key !== item.key))}
+                  aria-label={`Remove ${item.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {item.error ? (
+                <p className="text-sm text-destructive">Upload failed: {item.error}</p>
+              ) : !item.image && (
+                <Progress value={item.progress} className="h-2" aria-label={`Uploading ${item.name}`} />
+              )}
+              <div className="space-y-1">
+                <Label htmlFor={`${item.key}-alt`}>Description</Label>
+                <Input
+                  id={`${item.key}-alt`}
+                  placeholder="What the photo shows, for readers who can't see it"
+                  maxLength={MAX_ALT_LENGTH}
+                  value={item.alt}
+                  onChange={(e) => update(item.key, { alt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${item.key}-caption`}>Caption (optional)</Label>
+                <Input
+                  id={`${item.key}-caption`}
+                  maxLength={MAX_CAPTION_LENGTH}
+                  value={item.caption}
+                  onChange={(e) => update(item.key, { caption: e.target.value })}
+                />
+              </div>
+              {/* Buttons to reorder without dragging, e.g. from the keyboard. */}
+              <div className="flex justify-between">
+                <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => setItems(current => moveItem(current, index, index - 1))}>
+                  <ArrowLeft className="mr-1 h-4 w-4" />
+                  Earlier
+                </Button>
+                <Button type="button" variant="ghost" size="sm" disabled={index === items.length - 1} onClick={() => setItems(current => moveItem(current, index, index + 1))}>
+                  Later
+                  <ArrowRight className="ml-1 h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
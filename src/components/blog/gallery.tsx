@@ -0,0 +1,140 @@
+// This component shows the gallery of a post or follow-up story: a grid of thumbnails that opens a
+// lightbox, a carousel of the photos at full size with their captions. The arrow keys move between
+// photos and Escape closes it. It is built on the `carousel` and `dialog` UI components.
+
+// This is a Client Component because the lightbox is opened and moved through by the reader.
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { imageSources, ImageVariantName } from '@/lib/images';
+import { GalleryImage } from '@/lib/types';
+
+type GalleryProps = {
+  photos: GalleryImage[];
+  // What the gallery belongs to, e.g. the post's title, for screen readers.
+  title: string;
+  // How many thumbnails to show before the rest are summed up as "+N".
+  visible?: number;
+  className?: string;
+};
+
+// One photo, in the given size, blurred until it loads.
+function GalleryPhoto({ photo, variant, className, sizes }: { photo: GalleryImage; variant: ImageVariantName; className?: string; sizes?: string }) {
+  const sources = imageSources(undefined, photo.image, variant);
+  if (!sources) {
+    return null;
+  }
+  return (
+    <Image
+      src={sources.src}
+      alt={photo.alt}
+      fill
+      sizes={sizes}
+      className={className}
+      {...(sources.blurDataURL && { placeholder: 'blur' as const, blurDataURL: sources.blurDataURL })}
+    />
+  );
+}
+
+export function Gallery({ photos, title, visible = 6, className }: GalleryProps) {
+  // The photo the lightbox opened on, or null while it is closed.
+  const [openAt, setOpenAt] = useState<number | null>(null);
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  // Keep the "3 of 12" counter in step with the carousel.
+  useEffect(() => {
+    if (!api) {
+      return;
+    }
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  if (photos.length === 0) {
+    return null;
+  }
+  const shown = photos.slice(0, visible);
+  const hidden = photos.length - shown.length;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      api?.scrollPrev();
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      api?.scrollNext();
+    }
+  };
+
+  return (
+    <div className={className}>
+      <ul className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+        {shown.map((photo, index) => (
+          <li key={photo.image.hero.url}>
+            <button
+              type="button"
+              onClick={() => setOpenAt(index)}
+              className="group relative block aspect-square w-full overflow-hidden rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              aria-label={`Open photo ${index + 1} of ${photos.length}: ${photo.alt}`}
+            >
+              <GalleryPhoto photo={photo} variant="thumbnail" sizes="(min-width: 640px) 33vw, 50vw" className="object-cover transition-transform duration-300 group-hover:scale-105" />
+              {/* The last thumbnail stands in for the photos that aren't shown. */}
+              {hidden > 0 && index === shown.length - 1 && (
+                <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-2xl font-bold text-white">+{hidden}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={openAt !== null} onOpenChange={(open) => !open && setOpenAt(null)}>
+        <DialogContent className="max-w-5xl border-none bg-background/95 p-4 sm:p-8" onKeyDown={handleKeyDown}>
+          <DialogTitle className="sr-only">Photos from {title}</DialogTitle>
+          <DialogDescription className="sr-only">Use the arrow keys to move between photos.</DialogDescription>
+          {openAt !== null && (
+            <Carousel setApi={setApi} opts={{ startIndex: openAt, loop: photos.length > 1 }} className="mx-auto w-full">
+              <CarouselContent>
+                {photos.map((photo, index) => (
+                  <CarouselItem key={photo.image.hero.url}>
+                    <figure className="space-y-3">
+                      <div className="relative h-[70vh] w-full">
+                        <GalleryPhoto photo={photo} variant="hero" sizes="(min-width: 1024px) 1024px, 100vw" className="object-contain" />
+                      </div>
+                      <figcaption className="flex items-start justify-between gap-4 text-sm">
+                        <span className={cn(!photo.caption && 'sr-only')}>{photo.caption || photo.alt}</span>
+                        <span className="shrink-0 text-muted-foreground">{index + 1} / {photos.length}</span>
+                      </figcaption>
+                    </figure>
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              {photos.length > 1 && (
+                <>
+                  <CarouselPrevious className="left-2" />
+                  <CarouselNext className="right-2" />
+                </>
+              )}
+            </Carousel>
+          )}
+          <p className="sr-only" aria-live="polite">Photo {current + 1} of {photos.length}</p>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+// This component renders a search result's text with the matched words wrapped in `<mark>` tags.
+// The ranges come from the search index (`src/lib/search`) as character offsets into the text.
+
+// Import the highlight type shared with the search index.
+import type { HighlightedText as HighlightedTextValue } from '@/lib/search';
+import { Fragment } from 'react';
+
+type HighlightedTextProps = {
+  value: HighlightedTextValue;
+};
+
+export function HighlightedText({ value }: HighlightedTextProps) {
+  const { text, ranges } = value;
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  // Walk through the ranges in order, emitting the plain text between them and the marked text inside them.
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end], i) => {
+    if (start < position) return; // Skip overlapping ranges.
+    if (start > position) {
+      parts.push(<Fragment key={`text-${i}`}>{text.slice(position, start)}</Fragment>);
+    }
+    parts.push(
+      <mark key={`mark-${i}`} className="bg-primary/20 text-inherit rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(<Fragment key="text-end">{text.slice(position)}</Fragment>);
+  }
+
+  return <>{parts}</>;
+}
@@ -1,5 +1,8 @@
 // This component manages the "Join the Conversation" section on a blog post page.
 // It includes the display of comments and follow-up stories, and provides modals for users to submit new content.
+// Comments are shown as threads: readers can reply to any approved comment (see `src/lib/comments.ts`).
+// Stories can carry a gallery of photos, uploaded in the story form and opened in a lightbox, as well as
+// a single attached image like comments.
 
 // This is a Client Component because it manages state (`useState`), handles user interactions,
 // and depends on the client-side authentication context (`useAuth`).
@@ -32,15 +35,48 @@ import {
   DialogClose
 } from "@/components/ui/dialog";
 // Import icons.
-import { Paperclip, Send, X, MessageSquare, Pencil } from 'lucide-react';
+import { Paperclip, Send, X, MessageSquare, Pencil, Reply, ChevronDown, ChevronUp } from 'lucide-react';
 // Import Next.js components.
 import Image from 'next/image';
 import Link from 'next/link';
 // Import utilities and mock data.
 import { format } from 'date-fns';
-import { getComments, getStories, addComment, addStory, getUsers } from '@/lib/firestore';
-import { Comment, FollowUpStory, User } from '@/lib/types';
-import { uploadImage } from '@/lib/storage';
+import { getComments, getStories, addComment, addStory, getUsers, getUserReactions } from '@/lib/firestore';
+import { Comment, FollowUpStory, User, Reaction, ReactionKind, ProcessedImage, GalleryImage } from '@/lib/types';
+import { uploadImageVariants } from '@/lib/storage';
+import { imageSources, validateImageFile, ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { buildCommentTree, countComments, CommentNode, COMMENT_COLLAPSE_AFTER } from '@/lib/comments';
+import { normalizeGallery, MAX_STORY_GALLERY_IMAGES } from '@/lib/galleries';
+import { ReactionBar } from './reactions';
+import { Gallery } from './gallery';
+import { GalleryUploader } from './gallery-uploader';
+
+// The kinds of reaction the user left on each comment or story, by its ID.
+type ReactionsById = Record<string, ReactionKind[]>;
+
+// Shared by every item without reactions, so the reaction bars see the same value on each render.
+const NO_REACTIONS: ReactionKind[] = [];
+
+// The image attached to a comment or story, in the card size, blurred until it loads.
+function AttachedImage({ url, image, alt }: { url: string; image?: ProcessedImage; alt: string }) {
+    const sources = imageSources(url, image, 'card');
+    if (!sources) return null;
+    return (
+        <Image
+            src={sources.src}
+            alt={alt}
+            fill
+            className="object-cover"
+            {...(sources.blurDataURL && { placeholder: 'blur' as const, blurDataURL: sources.blurDataURL })}
+        />
+    );
+}
+
+function groupReactions(reactions: Reaction[]): ReactionsById {
+    const byId: ReactionsById = {};
+    reactions.forEach(r => (byId[r.target_id] ??= []).push(r.kind));
+    return byId;
+}
 
 // The main component for the interactive section.
 export function InteractiveSection({ articleId }: { articleId: string }) {
@@ -51,6 +87,9 @@ export function InteractiveSection({ articleId }: { articleId: string }) {
     const [comments, setComments] = useState<Comment[]>([]);
     const [stories, setStories] = useState<FollowUpStory[]>([]);
     const [users, setUsers] = useState<User[]>([]);
+    // The current user's reactions to the comments and stories, loaded once for all of them.
+    const [commentReactions, setCommentReactions] = useState<ReactionsById>({});
+    const [storyReactions, setStoryReactions] = useState<ReactionsById>({});
 
     // This `useEffect` hook filters the mock data to get the relevant comments and stories for this article.
     // It runs whenever the `articleId` prop changes.
@@ -63,10 +102,25 @@ export function InteractiveSection({ articleId }: { articleId: string }) {
         }
         fetchData();
     }, [articleId]); // Dependency array.
+
+    useEffect(() => {
+        if (!user) {
+            setCommentReactions({});
+            setStoryReactions({});
+            return;
+        }
+        Promise.all([getUserReactions(user.uid, 'comment'), getUserReactions(user.uid, 'story')]).then(([comments, stories]) => {
+            setCommentReactions(groupReactions(comments));
+            setStoryReactions(groupReactions(stories));
+        });
+    }, [user]);
     
     // Helper function to find a user's details by their ID from the mock data.
     const getUser = (userId: string) => users.find(u => u.id === userId);
 
+    // The approved comments arranged into threads.
+    const threads = buildCommentTree(comments);
+
     // This function is passed down to the submission modal. In a real app with live data,
     // it would be used to trigger a re-fetch of the comments/stories to update the UI.
     // For the mock setup, a toast is sufficient since new submissions are 'pending' and won't show here anyway.
@@ -80,7 +134,7 @@ export function InteractiveSection({ articleId }: { articleId: string }) {
     }
 
     return (
-        <div>
+        <div id="conversation">
             <h2 className="text-3xl font-bold font-headline mb-8 text-center">Join the Conversation</h2>
 
             {/* If the user is not logged in, show a prompt to log in instead of the submission forms. */}
@@ -99,36 +153,15 @@ export function InteractiveSection({ articleId }: { articleId: string }) {
                     <AccordionTrigger className="p-6 text-xl font-bold font-headline hover:no-underline">
                         <div className='flex items-center gap-3'>
                             <MessageSquare className="h-6 w-6" />
-                            <span>Comments ({comments.length})</span>
+                            <span>Comments ({countComments(threads)})</span>
                         </div>
                     </AccordionTrigger>
                     <AccordionContent className="p-6 pt-0">
                         <div className="space-y-6">
-                            {/* Map over the approved comments and render them. */}
-                            {comments.map(c => {
-                                const author = getUser(c.userId);
-                                return (
-                                <div key={c.id} className="flex items-start gap-4">
-                                    <Avatar>
-                                        <AvatarImage src={author?.avatar} alt={author?.name} />
-                                        <AvatarFallback>{author?.name.charAt(0)}</AvatarFallback>
-                                    </Avatar>
-                                    <div className="w-full">
-                                        <div className="bg-secondary p-4 rounded-xl rounded-tl-none">
-                                            <div className="flex items-center justify-between mb-1">
-                                                <p className="font-bold">{author?.name}</p>
-                                                <p className="text-xs text-muted-foreground">{format(c.created_at, 'MMM d, yyyy')}</p>
-                                            </div>
-                                            <p className="text-foreground/90">{c.comment_text}</p>
-                                            {c.image_url && (
-                                                <div className="mt-4 aspect-video relative rounded-lg overflow-hidden">
-                                                    <Image src={c.image_url} alt="Comment image" fill className="object-cover" />
-                                                </div>
-                                            )}
-                                        </div>
-                                    </div>
-                                </div>
-                            )})}
+                            {/* Render each thread of approved comments with its replies. */}
+                            {threads.map(node => (
+                                <CommentThread key={node.id} node={node} getUser={getUser} reactions={commentReactions} articleId={articleId} canReply={!!user} onSubmission={onSubmission} />
+                            ))}
                         </div>
                         {/* The submission modal is only rendered if the user is logged in. */}
                         {user && <SubmissionModal type="comment" articleId={articleId} onSubmission={onSubmission} />}
@@ -160,12 +193,16 @@ export function InteractiveSection({ articleId }: { articleId: string }) {
                                                 <p className="text-xs text-muted-foreground">{format(story.created_at, 'MMM d, yyyy')}</p>
                                             </div>
                                             <p className="text-foreground/90 whitespace-pre-wrap">{story.story_text}</p>
+                                            {story.gallery && story.gallery.length > 0 && (
+                                                <Gallery photos={story.gallery} title={`${author?.name ?? 'a reader'}'s story`} visible={3} className="mt-4" />
+                                            )}
                                             {story.image_url && (
                                                 <div className="mt-4 aspect-video relative rounded-lg overflow-hidden">
-                                                    <Image src={story.image_url} alt="Story image" fill className="object-cover" />
+                                                    <AttachedImage url={story.image_url} image={story.image} alt="Story image" />
                                                 </div>
                                             )}
                                         </div>
+                                        <ReactionBar targetType="story" targetId={story.id} counts={story.reaction_counts} active={storyReactions[story.id] ?? NO_REACTIONS} size="sm" className="mt-1" />
                                     </div>
                                 </div>
                             )})}
@@ -179,27 +216,114 @@ export function InteractiveSection({ articleId }: { articleId: string }) {
     );
 }
 
-// A reusable modal component for submitting both comments and stories.
-function SubmissionModal({ type, articleId, onSubmission }: { type: 'comment' | 'story', articleId: string, onSubmission: () => void }) {
+type CommentThreadProps = {
+    node: CommentNode;
+    getUser: (userId: string) => User | undefined;
+    reactions: ReactionsById;
+    articleId: string;
+    canReply: boolean;
+    onSubmission: () => void;
+};
+
+// Renders a comment with its replies below it. Long threads start out collapsed.
+function CommentThread({ node, getUser, reactions, articleId, canReply, onSubmission }: CommentThreadProps) {
+    const [collapsed, setCollapsed] = useState(node.replyCount > COMMENT_COLLAPSE_AFTER);
+    const c = node.comment;
+    const author = c ? getUser(c.userId) : undefined;
+
+    return (
+        <div className="space-y-4">
+            {c ? (
+                <div className="flex items-start gap-4">
+                    <Avatar>
+                        <AvatarImage src={author?.avatar} alt={author?.name} />
+                        <AvatarFallback>{author?.name.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <div className="w-full">
+                        <div className="bg-secondary p-4 rounded-xl rounded-tl-none">
+                            <div className="flex items-center justify-between mb-1">
+                                <p className="font-bold">{author?.name}</p>
+                                <p className="text-xs text-muted-foreground">{format(c.created_at, 'MMM d, yyyy')}</p>
+                            </div>
+                            <p className="text-foreground/90">{c.comment_text}</p>
+                            {c.image_url && (
+                                <div className="mt-4 aspect-video relative rounded-lg overflow-hidden">
+                                    <AttachedImage url={c.image_url} image={c.image} alt="Comment image" />
+                                </div>
+                            )}
+                        </div>
+                        <div className="mt-1 flex flex-wrap items-center gap-1">
+                            <ReactionBar targetType="comment" targetId={c.id} counts={c.reaction_counts} active={reactions[c.id] ?? NO_REACTIONS} size="sm" />
+                            {canReply && (
+                                <SubmissionModal type="comment" articleId={articleId} onSubmission={onSubmission} replyTo={{ id: c.id, name: author?.name ?? 'this comment' }} />
+                            )}
+                        </div>
+                    </div>
+                </div>
+            ) : (
+                // A removed (or not yet approved) comment whose replies are still visible.
+                <p className="bg-muted p-4 rounded-xl text-sm italic text-muted-foreground">This comment is no longer available.</p>
+            )}
+
+            {node.replies.length > 0 && (
+                <div className="ml-5 pl-4 border-l-2 space-y-4">
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0 text-muted-foreground" onClick={() => setCollapsed(!collapsed)}>
+                        {collapsed ? <ChevronDown className="mr-1 h-4 w-4" /> : <ChevronUp className="mr-1 h-4 w-4" />}
+                        {collapsed
+                            ? `Show ${node.replyCount} ${node.replyCount === 1 ? 'reply' : 'replies'}`
+                            : 'Hide replies'}
+                    </Button>
+                    {!collapsed && node.replies.map(reply => (
+                        <CommentThread key={reply.id} node={reply} getUser={getUser} reactions={reactions} articleId={articleId} canReply={canReply} onSubmission={onSubmission} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+type SubmissionModalProps = {
+    type: 'comment' | 'story';
+    articleId: string;
+    onSubmission: () => void;
+    // When replying to a comment: the comment and the name of its writer.
+    replyTo?: { id: string; name: string };
+};
+
+// A reusable modal component for submitting comments, replies and stories.
+function SubmissionModal({ type, articleId, onSubmission, replyTo }: SubmissionModalProps) {
     const { user } = useAuth();
     const { toast } = useToast();
     // State for the form fields within the modal.
     const [content, setContent] = useState('');
     const [image, setImage] = useState<File | null>(null);
     const [imagePreview, setImagePreview] = useState<string | null>(null);
+    // A story's gallery: the photos uploaded so far, and whether more are on their way.
+    const [gallery, setGallery] = useState<GalleryImage[]>([]);
+    const [isGalleryUploading, setIsGalleryUploading] = useState(false);
     const [open, setOpen] = useState(false); // State to control the dialog's visibility.
 
     // Determine modal content based on the `type` prop.
     const isComment = type === 'comment';
     const charLimit = isComment ? 300 : 2000;
-    const title = isComment ? 'Add a Comment' : 'Add Your Story';
-    const description = isComment ? 'Share your thoughts on this article.' : 'Share a follow-up story with the community.';
+    const title = replyTo ? `Reply to ${replyTo.name}` : isComment ? 'Add a Comment' : 'Add Your Story';
+    const description = replyTo ? 'Your reply will appear once a moderator approves it.' : isComment ? 'Share your thoughts on this article.' : 'Share a follow-up story with the community.';
     const buttonIcon = isComment ? <MessageSquare className="h-5 w-5 mr-2" /> : <Pencil className="h-5 w-5 mr-2" />;
+    // The Storage folder the images go to: each kind of content has its own (see `MEDIA_FOLDERS` in `src/lib/media.ts`).
+    const uploadFolder = user ? `${isComment ? 'comments' : 'stories'}/${user.uid}` : '';
     
     // Handler for image file selection.
     const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
+            // Check the type and size straight away, rather than when posting.
+            try {
+                validateImageFile(file);
+            } catch (error) {
+                toast({ title: "Can't use this image", description: (error as Error).message, variant: 'destructive' });
+                e.target.value = '';
+                return;
+            }
             setImage(file);
             setImagePreview(URL.createObjectURL(file)); // Create a temporary URL for preview.
         }
@@ -218,15 +342,33 @@ function SubmissionModal({ type, articleId, onSubmission }: { type: 'comment' |
             toast({ title: 'Content cannot be empty.', variant: 'destructive' });
             return;
         }
+        if (!isComment) {
+            if (isGalleryUploading) {
+                toast({ title: 'Photos still uploading', description: 'Wait for your photos to finish uploading.' });
+                return;
+            }
+            try {
+                normalizeGallery(gallery, MAX_STORY_GALLERY_IMAGES);
+            } catch (error) {
+                toast({ title: 'Check your photos', description: (error as Error).message, variant: 'destructive' });
+                return;
+            }
+        }
 
-        let imageUrl: string | undefined = undefined;
-
+        // The image is resized and stripped of its metadata before upload (see `src/lib/images.ts`).
+        let uploaded: ProcessedImage | undefined = undefined;
         if (image) {
-            const path = `comments/${user.uid}/${image.name}`;
-            imageUrl = await uploadImage(image, path);
+            try {
+                uploaded = await uploadImageVariants(image, uploadFolder);
+            } catch (error) {
+                toast({ title: 'Image upload failed', description: (error as Error).message, variant: 'destructive' });
+                return;
+            }
         }
 
         // Call the appropriate mock data function based on the type.
+        // Automated moderation may approve the submission straight away (see `src/lib/auto-moderation.ts`).
+        let status: Comment['status'];
         if (isComment) {
 
             const commentData: Omit<Comment, 'id'> = {
@@ -237,11 +379,20 @@ function SubmissionModal({ type, articleId, onSubmission }: { type: 'comment' |
                 created_at: new Date()
             };
 
-            if (imageUrl) {
-                commentData.image_url = imageUrl;
+            if (uploaded) {
+                commentData.image_url = uploaded.card.url;
+                commentData.image = uploaded;
+            }
+            if (replyTo) {
+                commentData.parent_id = replyTo.id;
             }
 
-            await addComment(commentData);
+            try {
+                ({ status } = await addComment(commentData));
+            } catch (error) {
+                toast({ title: 'Could not post your reply', description: (error as Error).message, variant: 'destructive' });
+                return;
+            }
         } else {
             const storyData: Omit<FollowUpStory, 'id'> = {
                 postId: articleId,
@@ -251,17 +402,23 @@ function SubmissionModal({ type, articleId, onSubmission }: { type: 'comment' |
                 created_at: new Date()
             };
 
-            if (imageUrl) {
-                storyData.image_url = imageUrl;
+            if (uploaded) {
+                storyData.image_url = uploaded.card.url;
+                storyData.image = uploaded;
+            }
+            if (gallery.length > 0) {
+                storyData.gallery = gallery;
             }
 
-            await addStory(storyData);
+            ({ status } = await addStory(storyData));
         }
         
         // Provide user feedback and reset the form.
         toast({
             title: 'Success!',
-            description: `Your ${type} has been submitted for review.`,
+            description: status === 'approved'
+                ? `Your ${replyTo ? 'reply' : type} has been published.`
+                : `Your ${replyTo ? 'reply' : type} has been submitted for review.`,
         });
 
         onSubmission(); // Call the callback function from the parent.
@@ -274,19 +431,26 @@ function SubmissionModal({ type, articleId, onSubmission }: { type: 'comment' |
     return (
         <Dialog open={open} onOpenChange={setOpen}>
             <DialogTrigger asChild>
-                <Button className="mt-6 w-full" variant="outline">
-                    {buttonIcon}
-                    <span>{title}</span>
-                </Button>
+                {replyTo ? (
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground">
+                        <Reply className="mr-1 h-3 w-3" />
+                        Reply
+                    </Button>
+                ) : (
+                    <Button className="mt-6 w-full" variant="outline">
+                        {buttonIcon}
+                        <span>{title}</span>
+                    </Button>
+                )}
             </DialogTrigger>
-            <DialogContent className="sm:max-w-[425px]">
+            <DialogContent className={isComment ? 'sm:max-w-[425px]' : 'sm:max-w-2xl max-h-[90vh] overflow-y-auto'}>
                 <DialogHeader>
                     <DialogTitle>{title}</DialogTitle>
                     <DialogDescription>{description}</DialogDescription>
                 </DialogHeader>
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <div className="grid w-full gap-1.5">
-                         <Label htmlFor="content">{isComment ? 'Comment' : 'Story'}</Label>
+                         <Label htmlFor="content">{replyTo ? 'Reply' : isComment ? 'Comment' : 'Story'}</Label>
                          <Textarea
                             value={content}
                             onChange={(e) => setContent(e.target.value)}
@@ -298,6 +462,22 @@ function SubmissionModal({ type, articleId, onSubmission }: { type: 'comment' |
                         <p className="text-sm text-muted-foreground text-right">{content.length} / {charLimit}</p>
                     </div>
 
+                    {/* Stories take a gallery of photos, as well as the single image both can attach below. */}
+                    {!isComment && user && (
+                        <div className="grid w-full gap-1.5">
+                            <Label htmlFor="story-gallery">Photos (optional)</Label>
+                            <GalleryUploader
+                                id="story-gallery"
+                                folder={uploadFolder}
+                                max={MAX_STORY_GALLERY_IMAGES}
+                                onChange={(photos, uploading) => {
+                                    setGallery(photos);
+                                    setIsGalleryUploading(uploading);
+                                }}
+                            />
+                        </div>
+                    )}
+
                      {imagePreview && (
                         <div className="relative w-full h-32">
                             <Image src={imagePreview} alt="Image preview" fill className="rounded-md object-cover" />
@@ -317,14 +497,14 @@ function SubmissionModal({ type, articleId, onSubmission }: { type: 'comment' |
                         <Button asChild variant="ghost" size="icon" className="cursor-pointer">
                             <label htmlFor="image-upload">
                                 <Paperclip className="h-5 w-5" />
-                                <input id="image-upload" type="file" accept="image/*" className="hidden" onChange={handleImageChange} />
+                                <input id="image-upload" type="file" accept={ALLOWED_IMAGE_TYPES.join(',')} className="hidden" onChange={handleImageChange} />
                             </label>
                         </Button>
                         <DialogFooter>
                             <DialogClose asChild>
                                <Button type="button" variant="secondary">Cancel</Button>
                             </DialogClose>
-                            <Button type="submit">
+                            <Button type="submit" disabled={isGalleryUploading}>
                                 <Send className="mr-2 h-4 w-4" />
                                 Post
                             </Button>
@@ -0,0 +1,237 @@
+// This file renders the controls shared by the comment and story moderation queues on the admin pages:
+//   - `ModerationFiltersBar` filters the queue by status, risk, post, user and date.
+//   - `ModerationRiskBadge` shows what automated moderation made of an item, with its reasons on hover.
+//   - `ModerationBulkBar` runs the bulk actions on the selected items, confirms deletes and lists the
+//     keyboard shortcuts (see `useModerationQueue`).
+//   - `bulkResultToast` describes the outcome of a bulk action, including the items it couldn't change.
+
+// This is a Client Component because it handles user interactions.
+'use client';
+
+import { format } from 'date-fns';
+// Import UI components from ShadCN.
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
+import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from '@/components/ui/tooltip';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog, AlertDialogContent, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogCancel, AlertDialogAction,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ThumbsUp, ThumbsDown, Trash2, Keyboard, Loader2, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { ModerationQueue, MODERATION_SHORTCUTS } from '@/hooks/use-moderation-queue';
+import { BulkModerationAction, BulkModerationResult, ModerationFilters } from '@/lib/moderation';
+import { ModerationAssessment, Post, User } from '@/lib/types';
+
+// The value the selects use for "no filter", since a Select item can't have an empty value.
+const ANY = 'any';
+
+type ModerationFiltersBarProps = {
+  filters: ModerationFilters;
+  onChange: (filters: ModerationFilters) => void;
+  // The posts and users to offer in the filters.
+  posts: Pick<Post, 'id' | 'title'>[];
+  users: Pick<User, 'id' | 'name'>[];
+};
+
+export function ModerationFiltersBar({ filters, onChange, posts, users }: ModerationFiltersBarProps) {
+  // Sets or clears one filter.
+  const set = <K extends keyof ModerationFilters>(key: K, value: ModerationFilters[K] | undefined) => {
+    const next = { ...filters };
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+  const toDate = (value: string) => value ? new Date(`${value}T00:00`) : undefined;
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+      <div className="space-y-1">
+        <Label>Status</Label>
+        <Select value={filters.status ?? ANY} onValueChange={(value) => set('status', value === ANY ? undefined : value as ModerationFilters['status'])}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any status</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label>Risk</Label>
+        <Select value={filters.risk ?? ANY} onValueChange={(value) => set('risk', value === ANY ? undefined : value as ModerationFilters['risk'])}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any risk</SelectItem>
+            <SelectItem value="high">High risk</SelectItem>
+            <SelectItem value="medium">Medium risk</SelectItem>
+            <SelectItem value="low">Low risk</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label>Post</Label>
+        <Select value={filters.postId ?? ANY} onValueChange={(value) => set('postId', value === ANY ? undefined : value)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any post</SelectItem>
+            {posts.map(post => <SelectItem key={post.id} value={post.id}>{post.title}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label>User</Label>
+        <Select value={filters.userId ?? ANY} onValueChange={(value) => set('userId', value === ANY ? undefined : value)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Anyone</SelectItem>
+            {users.map(user => <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="queue-from">From</Label>
+        <Input id="queue-from" type="date" value={filters.from ? format(filters.from, 'yyyy-MM-dd') : ''} onChange={(e) => set('from', toDate(e.target.value))} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="queue-to">To</Label>
+        <Input id="queue-to" type="date" value={filters.to ? format(filters.to, 'yyyy-MM-dd') : ''} onChange={(e) => set('to', toDate(e.target.value))} />
+      </div>
+    </div>
+  );
+}
+
+const RISK_BADGES = {
+  low: { label: 'Low risk', icon: ShieldCheck, className: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' },
+  medium: { label: 'Medium risk', icon: ShieldQuestion, className: 'bg-yellow-50 text-yellow-700 border-yellow-200 hover:bg-yellow-100' },
+  high: { label: 'Flagged', icon: ShieldAlert, className: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+};
+
+// What automated moderation made of an item. Hovering shows the scores and the reasons it gave.
+// Items submitted before automated moderation existed have no assessment, and show nothing.
+export function ModerationRiskBadge({ moderation }: { moderation?: ModerationAssessment | null }) {
+  if (!moderation) {
+    return null;
+  }
+  const { label, icon: Icon, className } = RISK_BADGES[moderation.risk];
+  const percent = (score: number) => `${Math.round(score * 100)}%`;
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={className}><Icon className="mr-1 h-3 w-3" />{label}</Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <p className="font-medium">
+            Spam {percent(moderation.scores.spam)} · Toxicity {percent(moderation.scores.toxicity)} · Off-topic {percent(moderation.scores.off_topic)}
+          </p>
+          {moderation.reasons.length > 0 && (
+            <ul className="mt-1 list-disc pl-4">
+              {moderation.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          )}
+          <p className="mt-1 text-muted-foreground">Scored by {moderation.source === 'model' ? 'the language model' : 'the moderation rules'}.</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
+type ModerationBulkBarProps = {
+  queue: ModerationQueue;
+  // What the queue holds, e.g. 'comment', for the labels.
+  noun: string;
+  plural: string;
+};
+
+export function ModerationBulkBar({ queue, noun, plural }: ModerationBulkBarProps) {
+  const count = queue.selectedIds.size;
+  const selected = () => queue.targetIds();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 min-h-10">
+      {count > 0 ? (
+        <>
+          <span className="text-sm font-medium mr-2">{count} {count === 1 ? noun : plural} selected</span>
+          <Button size="sm" variant="outline" disabled={queue.isBusy} onClick={() => queue.runAction('approve', selected())}>
+            <ThumbsUp className="mr-2 h-4 w-4 text-green-600" />Approve
+          </Button>
+          <Button size="sm" variant="outline" disabled={queue.isBusy} onClick={() => queue.runAction('reject', selected())}>
+            <ThumbsDown className="mr-2 h-4 w-4 text-red-600" />Reject
+          </Button>
+          {queue.canDelete && (
+            <Button size="sm" variant="outline" className="text-destructive" disabled={queue.isBusy} onClick={() => queue.requestDelete(selected())}>
+              <Trash2 className="mr-2 h-4 w-4" />Delete
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" disabled={queue.isBusy} onClick={queue.clearSelection}>Clear</Button>
+          {queue.isBusy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </>
+      ) : (
+        <span className="text-sm text-muted-foreground">Select {plural} to act on several at once.</span>
+      )}
+
+      {/* The keyboard shortcuts. */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="ghost" className="ml-auto">
+            <Keyboard className="mr-2 h-4 w-4" />Shortcuts
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72">
+          <p className="text-sm text-muted-foreground mb-2">
+            Actions apply to the selected {plural}, or to the highlighted {noun} when nothing is selected.
+          </p>
+          <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-sm">
+            {MODERATION_SHORTCUTS.map(shortcut => (
+              <div key={shortcut.keys} className="contents">
+                <dt><kbd className="rounded border bg-muted px-1.5 font-mono text-xs">{shortcut.keys}</kbd></dt>
+                <dd>{shortcut.description}</dd>
+              </div>
+            ))}
+          </dl>
+        </PopoverContent>
+      </Popover>
+
+      <AlertDialog open={queue.pendingDelete !== null} onOpenChange={(open) => !open && queue.cancelDelete()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {queue.pendingDelete?.length === 1 ? `this ${noun}` : `${queue.pendingDelete?.length} ${plural}`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>This can&apos;t be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={queue.confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+const PAST_TENSE: Record<BulkModerationAction, string> = { approve: 'approved', reject: 'rejected', delete: 'deleted' };
+
+// The toast reporting a bulk action: how many items it changed and, if some failed, which and why.
+export function bulkResultToast(result: BulkModerationResult, action: BulkModerationAction, noun: string, plural: string) {
+  const done = result.succeeded.length;
+  const summary = `${done} ${done === 1 ? noun : plural} ${PAST_TENSE[action]}.`;
+  if (result.failed.length === 0) {
+    return { title: 'Done', description: summary };
+  }
+  // The reasons are usually all the same, so each is listed once.
+  const reasons = Array.from(new Set(result.failed.map(f => f.error)));
+  return {
+    variant: 'destructive' as const,
+    title: `${result.failed.length} ${result.failed.length === 1 ? noun : plural} could not be ${PAST_TENSE[action]}`,
+    description: `${summary} ${reasons.join(' ')}`,
+  };
+}
@@ -0,0 +1,61 @@
+// This component renders the card used for a post in the blog's post grids
+// (the blog index and the category and tag pages).
+
+import Link from 'next/link';
+import { ReactNode } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Post } from '@/lib/types';
+import { ReactionSummary } from './reactions';
+import { BookmarkButton } from './bookmark-button';
+import { PostImage } from './post-image';
+
+type PostCardProps = {
+  post: Post;
+  authorName: string;
+  // Replace the plain title and excerpt, e.g. with highlighted search matches.
+  title?: ReactNode;
+  excerpt?: ReactNode;
+};
+
+export function PostCard({ post, authorName, title, excerpt }: PostCardProps) {
+  // The save button sits on top of the card rather than inside the link, so clicking it doesn't open the post.
+  return (
+    <div className="relative h-full">
+      <Link href={`/blog/${post.slug}`} className="block h-full">
+        <Card className="overflow-hidden h-full group cursor-pointer shadow-lg hover:shadow-2xl transition-shadow duration-300 rounded-2xl border-none">
+          <CardHeader className="p-0">
+            {post.featuredImgUrl && (
+              <div className="aspect-video overflow-hidden">
+                <PostImage
+                  post={post}
+                  variant="card"
+                  width={600}
+                  height={400}
+                  className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                />
+              </div>
+            )}
+          </CardHeader>
+          <CardContent className="p-6">
+            {post.category && (
+              <div className="flex items-center gap-2 mb-2">
+                <Badge variant="secondary">{post.category}</Badge>
+              </div>
+            )}
+            <h2 className="text-xl font-bold font-headline group-hover:text-primary transition-colors">{title ?? post.title}</h2>
+            <p className="mt-2 text-muted-foreground line-clamp-3">{excerpt ?? post.excerpt}</p>
+            <div className="mt-4 flex items-center gap-4 text-sm text-muted-foreground">
+              <span>{authorName}</span>
+              <span>•</span>
+              <time dateTime={new Date(post.created_at).toISOString()}>{format(new Date(post.created_at), 'MMMM d, yyyy')}</time>
+            </div>
+            <ReactionSummary counts={post.reaction_counts} className="mt-3" />
+          </CardContent>
+        </Card>
+      </Link>
+      <BookmarkButton postId={post.id} variant="icon" className="absolute top-3 right-3" />
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+// This component renders a post's featured image with `next/image`, in the size the place calls for
+// (see `IMAGE_VARIANTS` in `src/lib/images.ts`) and blurred until it loads. Posts whose image was
+// uploaded before the image pipeline existed show their plain `featuredImgUrl`.
+
+import Image, { ImageProps } from 'next/image';
+import { imageSources, ImageVariantName } from '@/lib/images';
+import { Post } from '@/lib/types';
+
+type PostImageProps = Omit<ImageProps, 'src' | 'alt' | 'placeholder' | 'blurDataURL'> & {
+  post: Pick<Post, 'title' | 'featuredImgUrl' | 'featured_image' | 'imageHint'>;
+  variant: ImageVariantName;
+};
+
+export function PostImage({ post, variant, ...imageProps }: PostImageProps) {
+  const sources = imageSources(post.featuredImgUrl, post.featured_image, variant);
+  if (!sources) {
+    return null;
+  }
+  return (
+    <Image
+      {...imageProps}
+      src={sources.src}
+      alt={post.title}
+      {...(sources.blurDataURL && { placeholder: 'blur' as const, blurDataURL: sources.blurDataURL })}
+      data-ai-hint={post.imageHint || 'travel landscape'} // A hint for AI image tools.
+    />
+  );
+}
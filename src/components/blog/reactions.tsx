@@ -0,0 +1,119 @@
+// This file contains the components for reactions (like, "want to go", "been there") on posts,
+// comments and follow-up stories: a read-only summary for post cards, and the buttons readers use to react.
+
+// These are Client Components because the buttons depend on the logged-in user and update optimistically.
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Heart, Plane, MapPin, LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { getUserReactions, setReaction } from '@/lib/firestore';
+import { REACTION_KINDS, REACTION_LABELS, adjustReactionCounts, totalReactions } from '@/lib/reactions';
+import { ReactionCounts, ReactionKind, ReactionTarget } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const REACTION_ICONS: Record<ReactionKind, LucideIcon> = {
+  like: Heart,
+  want_to_go: Plane,
+  been_there: MapPin,
+};
+
+// The reaction counts of a post, for cards. Shows nothing until someone has reacted.
+export function ReactionSummary({ counts, className }: { counts?: ReactionCounts; className?: string }) {
+  if (totalReactions(counts) === 0) {
+    return null;
+  }
+  return (
+    <div className={cn('flex items-center gap-3 text-sm text-muted-foreground', className)}>
+      {REACTION_KINDS.filter(kind => counts?.[kind]).map(kind => {
+        const Icon = REACTION_ICONS[kind];
+        return (
+          <span key={kind} className="flex items-center gap-1" title={REACTION_LABELS[kind]}>
+            <Icon className="h-4 w-4" />
+            {counts?.[kind]}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+type ReactionBarProps = {
+  targetType: ReactionTarget;
+  targetId: string;
+  counts?: ReactionCounts;
+  // The kinds the current user has already used on this target. When omitted, the bar loads them
+  // itself; lists pass them in so they are loaded once for every item.
+  active?: ReactionKind[];
+  size?: 'sm' | 'default';
+  className?: string;
+};
+
+// The reaction buttons. Clicking a button adds the reaction or, if the user already reacted that way, removes it.
+export function ReactionBar({ targetType, targetId, counts: initialCounts, active, size = 'default', className }: ReactionBarProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [counts, setCounts] = useState<ReactionCounts>(initialCounts ?? {});
+  const [activeKinds, setActiveKinds] = useState<ReactionKind[]>(active ?? []);
+  const [pending, setPending] = useState<ReactionKind | null>(null);
+
+  useEffect(() => {
+    if (active) {
+      setActiveKinds(active);
+    } else if (user) {
+      getUserReactions(user.uid, targetType).then(reactions =>
+        setActiveKinds(reactions.filter(r => r.target_id === targetId).map(r => r.kind)));
+    } else {
+      setActiveKinds([]);
+    }
+  }, [active, user, targetType, targetId]);
+
+  const handleToggle = async (kind: ReactionKind) => {
+    if (!user) {
+      toast({ title: 'Log in to react', description: 'You need an account to react to stories and comments.' });
+      return;
+    }
+    const isActive = activeKinds.includes(kind);
+    const previous = { counts, activeKinds };
+    // Show the change straight away, then settle on the counts the server reports.
+    setCounts(adjustReactionCounts(counts, kind, isActive ? -1 : 1));
+    setActiveKinds(isActive ? activeKinds.filter(k => k !== kind) : [...activeKinds, kind]);
+    setPending(kind);
+    try {
+      setCounts(await setReaction(targetType, targetId, user.uid, kind, !isActive));
+    } catch (error) {
+      setCounts(previous.counts);
+      setActiveKinds(previous.activeKinds);
+      toast({ title: 'Could not save your reaction', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1', className)}>
+      {REACTION_KINDS.map(kind => {
+        const Icon = REACTION_ICONS[kind];
+        const isActive = activeKinds.includes(kind);
+        return (
+          <Button
+            key={kind}
+            type="button"
+            variant={isActive ? 'secondary' : 'ghost'}
+            size="sm"
+            className={cn(size === 'sm' && 'h-7 px-2 text-xs', isActive && 'text-primary')}
+            aria-pressed={isActive}
+            title={REACTION_LABELS[kind]}
+            disabled={pending === kind}
+            onClick={() => handleToggle(kind)}
+          >
+            <Icon className={cn('mr-1', size === 'sm' ? 'h-3 w-3' : 'h-4 w-4', isActive && kind === 'like' && 'fill-current')} />
+            {size === 'sm' ? counts[kind] || '' : `${REACTION_LABELS[kind]}${counts[kind] ? ` · ${counts[kind]}` : ''}`}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
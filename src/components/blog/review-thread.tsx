@@ -0,0 +1,199 @@
+// This component renders the review thread of a post: the notes moderators and the author exchange
+// while the post is under review, and the form for adding to it.
+//
+// Moderators (on the admin edit page) can comment, quote a passage of the post for inline feedback,
+// request changes, reject or approve. Authors (on the dashboard edit page) read the feedback and reply;
+// they resubmit the post with the page's own "Resubmit for Review" button.
+
+// This is a Client Component because it loads the thread and manages the note being written in state.
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+// Import UI components from ShadCN.
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquareText, Quote, X, CheckCircle, XCircle, Undo2, Send, Loader2 } from 'lucide-react';
+import { getReviewThread, getUsers, addReviewComment, ReviewDecision } from '@/lib/firestore';
+import { moderatePostReview } from '@/lib/moderation';
+import { Post, ReviewNote, User } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+
+type ReviewThreadProps = {
+  postId: string;
+  // The user writing notes.
+  userId: string;
+  // 'reviewer' shows the decision buttons; 'author' only allows replying.
+  mode: 'reviewer' | 'author';
+  // Only admins can approve and publish.
+  canApprove?: boolean;
+  // The ID of the content textarea, whose selected text can be quoted for inline feedback.
+  quoteSourceId?: string;
+  // Called after a decision, with the post's new status.
+  onDecision?: (status: Post['status']) => void;
+  className?: string;
+};
+
+// How each kind of note is labelled in the thread.
+const noteLabels: Record<ReviewNote['kind'], { label: string; className: string }> = {
+  comment: { label: 'Comment', className: '' },
+  changes_requested: { label: 'Changes requested', className: 'bg-orange-100 text-orange-800 border-orange-200 hover:bg-orange-200' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800 border-green-200 hover:bg-green-200' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 border-red-200 hover:bg-red-200' },
+  resubmitted: { label: 'Resubmitted', className: 'bg-yellow-100 text-yellow-800 border-yellow-200 hover:bg-yellow-200' },
+};
+
+// The status each decision moves the post to, mirroring `reviewPost`.
+const decisionStatus: Record<ReviewDecision, Post['status']> = {
+  approved: 'published',
+  changes_requested: 'changes_requested',
+  rejected: 'rejected',
+};
+
+export function ReviewThread({ postId, userId, mode, canApprove = false, quoteSourceId, onDecision, className }: ReviewThreadProps) {
+  const [notes, setNotes] = useState<ReviewNote[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [body, setBody] = useState('');
+  const [quote, setQuote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function fetchData() {
+      const [notes, users] = await Promise.all([getReviewThread(postId), getUsers()]);
+      setNotes(notes);
+      setUsers(users);
+    }
+    fetchData();
+  }, [postId]);
+
+  const getUserName = (id: string) => users.find(u => u.id === id)?.name || 'Unknown';
+
+  // The latest decision, shown to the author above the thread.
+  const lastDecision = [...notes].reverse().find(note => note.kind !== 'comment');
+
+  // Quotes the text selected in the post's content for inline feedback.
+  const handleQuoteSelection = () => {
+    const source = quoteSourceId ? document.getElementById(quoteSourceId) as HTMLTextAreaElement | null : null;
+    const selected = source ? source.value.slice(source.selectionStart, source.selectionEnd).trim() : '';
+    if (selected) {
+      setQuote(selected);
+    } else {
+      toast({ title: "Nothing selected", description: "Select a passage of the content first, then quote it." });
+    }
+  };
+
+  // Sends a comment, or records a decision together with the note explaining it.
+  const send = async (decision?: ReviewDecision) => {
+    setIsSending(true);
+    try {
+      const note = decision
+        ? await moderatePostReview(userId, postId, decision, body, quote || undefined)
+        : await addReviewComment(postId, userId, body, quote || undefined);
+      setNotes([...notes, note]);
+      setBody('');
+      setQuote('');
+      if (decision) {
+        onDecision?.(decisionStatus[decision]);
+        toast({ title: "Review Saved", description: `The post is now marked as ${noteLabels[decision].label.toLowerCase()}.` });
+      }
+    } catch (error) {
+      toast({ title: "Could not save the note", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Authors only see the thread once a reviewer has said something.
+  if (mode === 'author' && notes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card id="review" className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><MessageSquareText className="h-5 w-5" /> Review</CardTitle>
+        <CardDescription>
+          {mode === 'reviewer'
+            ? 'Leave feedback for the author. Quote a passage of the content to comment on it inline.'
+            : 'Feedback from the editors. Make the changes, reply if you like, and resubmit the post.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {mode === 'author' && lastDecision && (lastDecision.kind === 'changes_requested' || lastDecision.kind === 'rejected') && (
+          <Alert variant={lastDecision.kind === 'rejected' ? 'destructive' : 'default'}>
+            <AlertTitle>{lastDecision.kind === 'rejected' ? 'Your post was not accepted' : 'The editors asked for changes'}</AlertTitle>
+            <AlertDescription className="whitespace-pre-wrap">{lastDecision.body}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* The thread, oldest first. */}
+        <ul className="space-y-4">
+          {notes.map(note => (
+            <li key={note.id} className="rounded-md border p-4 space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{getUserName(note.author_id)}</span>
+                <Badge variant={note.kind === 'comment' ? 'outline' : 'default'} className={noteLabels[note.kind].className}>
+                  {noteLabels[note.kind].label}
+                </Badge>
+                <span className="text-muted-foreground">{format(note.created_at, 'MMM d, yyyy HH:mm')}</span>
+              </div>
+              {note.quote && (
+                <blockquote className="border-l-4 pl-3 text-sm italic text-muted-foreground whitespace-pre-wrap">{note.quote}</blockquote>
+              )}
+              {note.body && <p className="text-sm whitespace-pre-wrap">{note.body}</p>}
+            </li>
+          ))}
+          {notes.length === 0 && <li className="text-sm text-muted-foreground">No feedback yet.</li>}
+        </ul>
+
+        {/* The form for the next note. */}
+        <div className="space-y-2">
+          {quote && (
+            <div className="flex items-start gap-2 rounded-md bg-muted p-2">
+              <blockquote className="flex-1 border-l-4 pl-3 text-sm italic whitespace-pre-wrap line-clamp-4">{quote}</blockquote>
+              <button type="button" aria-label="Remove quote" onClick={() => setQuote('')}><X className="h-4 w-4" /></button>
+            </div>
+          )}
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={mode === 'reviewer' ? 'Write feedback for the author...' : 'Reply to the editors...'}
+            rows={3}
+          />
+          <div className="flex flex-wrap justify-between gap-2">
+            <div className="flex gap-2">
+              {quoteSourceId && (
+                <Button type="button" variant="ghost" size="sm" onClick={handleQuoteSelection}>
+                  <Quote className="mr-2 h-4 w-4" /> Quote selection
+                </Button>
+              )}
+              <Button type="button" variant="outline" size="sm" onClick={() => send()} disabled={isSending || !body.trim()}>
+                {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                {mode === 'reviewer' ? 'Comment' : 'Reply'}
+              </Button>
+            </div>
+            {mode === 'reviewer' && (
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => send('changes_requested')} disabled={isSending || !body.trim()}>
+                  <Undo2 className="mr-2 h-4 w-4" /> Request Changes
+                </Button>
+                <Button type="button" variant="outline" size="sm" className="text-destructive" onClick={() => send('rejected')} disabled={isSending || !body.trim()}>
+                  <XCircle className="mr-2 h-4 w-4" /> Reject
+                </Button>
+                {canApprove && (
+                  <Button type="button" size="sm" onClick={() => send('approved')} disabled={isSending}>
+                    <CheckCircle className="mr-2 h-4 w-4" /> Approve & Publish
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
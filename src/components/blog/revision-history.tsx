@@ -0,0 +1,187 @@
+// This component renders the revision history of a post on the edit pages: the list of saved versions,
+// a side-by-side comparison of the selected version with the one before it, and a button to restore it.
+
+// This is a Client Component because it loads the revisions and manages the selected one in state.
+'use client';
+
+import { useEffect, useState } from 'react';
+import { diffWords } from 'diff';
+import { format, formatDistanceToNow } from 'date-fns';
+// Import UI components from ShadCN.
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { getRevisions, getUsers, restoreRevision } from '@/lib/firestore';
+import { previousRevision, revisionFieldText, sideBySideDiff, toRevisionFields, DiffRow, REVISION_FIELD_LABELS } from '@/lib/revisions';
+import { Post, PostRevision, User } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+type RevisionHistoryProps = {
+  postId: string;
+  // The user restoring a revision, recorded as the editor of the restored version.
+  editorId: string | null;
+  // Called with the post as restored, so the page can refresh its form.
+  onRestored: (post: Post) => void;
+};
+
+// Highlights the words that differ between two versions of a changed line.
+function ChangedLine({ before, after, side }: { before: string; after: string; side: 'left' | 'right' }) {
+  return (
+    <>
+      {diffWords(before, after).map((part, index) => {
+        if (side === 'left' && part.added) return null;
+        if (side === 'right' && part.removed) return null;
+        const isChange = part.added || part.removed;
+        return (
+          <span key={index} className={cn(isChange && (side === 'left' ? 'bg-red-200 dark:bg-red-900' : 'bg-green-200 dark:bg-green-900'))}>
+            {part.value}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+// The side-by-side comparison of one field.
+function FieldDiff({ rows }: { rows: DiffRow[] }) {
+  return (
+    <div className="grid grid-cols-2 rounded-md border text-sm font-mono overflow-hidden">
+      {rows.map((row, index) => {
+        if (row.kind === 'skipped') {
+          return (
+            <div key={index} className="col-span-2 bg-muted px-3 py-1 text-xs text-muted-foreground">
+              {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+            </div>
+          );
+        }
+        return [
+          <div key={`${index}-left`} className={cn('px-3 py-0.5 whitespace-pre-wrap break-words border-r', row.left !== null && row.kind !== 'same' && 'bg-red-50 dark:bg-red-950')}>
+            {row.kind === 'changed' ? <ChangedLine before={row.left ?? ''} after={row.right ?? ''} side="left" /> : row.left}
+          </div>,
+          <div key={`${index}-right`} className={cn('px-3 py-0.5 whitespace-pre-wrap break-words', row.right !== null && row.kind !== 'same' && 'bg-green-50 dark:bg-green-950')}>
+            {row.kind === 'changed' ? <ChangedLine before={row.left ?? ''} after={row.right ?? ''} side="right" /> : row.right}
+          </div>,
+        ];
+      })}
+    </div>
+  );
+}
+
+export function RevisionHistory({ postId, editorId, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function fetchData() {
+      const [revisions, users] = await Promise.all([getRevisions(postId), getUsers()]);
+      setRevisions(revisions);
+      setUsers(users);
+      setSelectedId(revisions[0]?.id ?? null);
+    }
+    fetchData();
+  }, [postId]);
+
+  const getEditorName = (id: string | null) => users.find(u => u.id === id)?.name || 'Unknown';
+
+  const selected = revisions.find(r => r.id === selectedId) ?? null;
+  const previous = selected ? previousRevision(revisions, selected) : null;
+  // The first revision is compared with an empty post, so everything in it shows as added.
+  const before = previous?.snapshot ?? toRevisionFields({});
+  const changed = selected ? (previous ? selected.changed_fields : selected.changed_fields.filter(field => field !== 'content_format')) : [];
+
+  // Handler to restore the selected revision.
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const post = await restoreRevision(postId, selected.id, editorId);
+      const revisions = await getRevisions(postId);
+      setRevisions(revisions);
+      setSelectedId(revisions[0]?.id ?? null);
+      onRestored(post);
+      toast({
+        title: "Revision Restored",
+        description: `The post has been restored to the version from ${format(selected.created_at, 'MMMM d, yyyy HH:mm')}.`,
+      });
+    } catch (error) {
+      toast({ title: "Could not restore the revision", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><History className="h-5 w-5" /> Revision History</CardTitle>
+        <CardDescription>Every save is kept. Select a version to see what changed in it, and restore it if needed.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions yet. One is recorded each time the post is saved.</p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+            {/* The list of revisions, newest first. */}
+            <ScrollArea className="max-h-[480px] rounded-md border">
+              <ul>
+                {revisions.map((revision, index) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn('w-full text-left px-3 py-2 border-b hover:bg-muted', revision.id === selectedId && 'bg-muted')}
+                    >
+                      <p className="text-sm font-medium">
+                        {formatDistanceToNow(revision.created_at, { addSuffix: true })}
+                        {index === 0 && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {getEditorName(revision.editor_id)}
+                        {revision.restored_from && ' · restored an earlier version'}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {/* The comparison of the selected revision with the one before it. */}
+            {selected && (
+              <div className="space-y-4 min-w-0">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{format(selected.created_at, 'MMMM d, yyyy HH:mm')} by {getEditorName(selected.editor_id)}</p>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {changed.length === 0 && <span className="text-sm text-muted-foreground">Original version</span>}
+                      {changed.map(field => <Badge key={field} variant="outline">{REVISION_FIELD_LABELS[field]}</Badge>)}
+                    </div>
+                  </div>
+                  <Button type="button" variant="outline" size="sm" onClick={handleRestore} disabled={isRestoring || selected.id === revisions[0].id}>
+                    {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                    Restore this version
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 text-xs font-semibold uppercase text-muted-foreground">
+                  <span>{previous ? `Before (${format(previous.created_at, 'MMM d, HH:mm')})` : 'Before'}</span>
+                  <span className="pl-3">This version</span>
+                </div>
+                {changed.map(field => (
+                  <div key={field} className="space-y-1">
+                    <p className="text-sm font-medium">{REVISION_FIELD_LABELS[field]}</p>
+                    <FieldDiff rows={sideBySideDiff(revisionFieldText(before, field), revisionFieldText(selected.snapshot, field))} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,233 @@
+// This component renders the "Saved" tab of the user dashboard: the user's reading lists and every post
+// they have saved. Lists can be created, renamed, deleted and shared; a shared (public) list can be
+// viewed by anyone with its link, at `/lists/[id]`.
+
+// This is a Client Component because it works on the logged-in user's bookmarks.
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Copy, ExternalLink, Loader2, Pencil, Trash2 } from 'lucide-react';
+// Import UI components from ShadCN.
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useBookmarks } from '@/hooks/use-bookmarks';
+import { useToast } from '@/hooks/use-toast';
+import { getSavedPosts, READING_LIST_NAME_MAX_LENGTH } from '@/lib/firestore';
+import { Post, ReadingList } from '@/lib/types';
+
+// The link to a reading list's public page.
+function readingListUrl(list: ReadingList): string {
+  return `${window.location.origin}/lists/${list.id}`;
+}
+
+export function SavedPosts() {
+  const { toast } = useToast();
+  const { bookmarks, lists, loading, setSaved, createList, updateList, deleteList } = useBookmarks();
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [newListName, setNewListName] = useState('');
+  const [newListDescription, setNewListDescription] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Load the saved posts whenever the bookmarks change. Posts that are no longer published are left out.
+  const postIds = useMemo(() => bookmarks.map(b => b.post_id), [bookmarks]);
+  useEffect(() => {
+    getSavedPosts(postIds).then(setPosts).catch(error => console.error('Error loading saved posts:', error));
+  }, [postIds]);
+
+  // Runs a change, reporting failures in a toast.
+  const run = async (change: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await change();
+      return true;
+    } catch (error) {
+      toast({ title: failure, description: (error as Error).message, variant: 'destructive' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (await run(() => createList(newListName, newListDescription), 'Could not create the list')) {
+      setNewListName('');
+      setNewListDescription('');
+    }
+  };
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (renaming && await run(() => updateList(renaming.id, { name: renaming.name }), 'Could not rename the list')) {
+      setRenaming(null);
+    }
+  };
+
+  const handleShareChange = (list: ReadingList, isPublic: boolean) =>
+    run(() => updateList(list.id, { is_public: isPublic }), 'Could not change who can see the list');
+
+  const handleCopyLink = async (list: ReadingList) => {
+    try {
+      await navigator.clipboard.writeText(readingListUrl(list));
+      toast({ title: 'Link copied', description: `Anyone with the link can view "${list.name}".` });
+    } catch {
+      toast({ title: 'Could not copy the link', description: readingListUrl(list), variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground py-6">Loading your saved posts...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Reading Lists</CardTitle>
+          <CardDescription>Group saved posts into lists, like &quot;Goa trip ideas&quot;. Share a list to let anyone with the link see it.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleCreate} className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              value={newListName}
+              onChange={e => setNewListName(e.target.value)}
+              placeholder="List name"
+              maxLength={READING_LIST_NAME_MAX_LENGTH}
+              aria-label="List name"
+            />
+            <Input
+              value={newListDescription}
+              onChange={e => setNewListDescription(e.target.value)}
+              placeholder="Description (optional)"
+              aria-label="List description"
+            />
+            <Button type="submit" disabled={busy || !newListName.trim()}>Create List</Button>
+          </form>
+          {lists.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You have no reading lists yet. Create one here, or from the save button on any post.</p>
+          ) : (
+            <ul className="divide-y">
+              {lists.map(list => (
+                <li key={list.id} className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center sm:justify-between">
+                  {renaming?.id === list.id ? (
+                    <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+                      <Input
+                        value={renaming.name}
+                        onChange={e => setRenaming({ id: list.id, name: e.target.value })}
+                        maxLength={READING_LIST_NAME_MAX_LENGTH}
+                        aria-label="New list name"
+                        autoFocus
+                      />
+                      <Button type="submit" size="sm" disabled={busy || !renaming.name.trim()}>Save</Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setRenaming(null)}>Cancel</Button>
+                    </form>
+                  ) : (
+                    <div className="min-w-0">
+                      <Link href={`/lists/${list.id}`} className="font-medium hover:underline">{list.name}</Link>
+                      <p className="text-sm text-muted-foreground">
+                        {list.post_ids.length} {list.post_ids.length === 1 ? 'post' : 'posts'}
+                        {list.description && ` · ${list.description}`}
+                      </p>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2">
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Switch checked={list.is_public} disabled={busy} onCheckedChange={checked => handleShareChange(list, checked)} />
+                      {list.is_public ? 'Public' : 'Private'}
+                    </label>
+                    {list.is_public && (
+                      <Button variant="ghost" size="icon" onClick={() => handleCopyLink(list)} aria-label={`Copy the link to ${list.name}`}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" asChild>
+                      <Link href={`/lists/${list.id}`} aria-label={`Open ${list.name}`}><ExternalLink className="h-4 w-4" /></Link>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setRenaming({ id: list.id, name: list.name })} aria-label={`Rename ${list.name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="text-destructive" aria-label={`Delete ${list.name}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete &quot;{list.name}&quot;?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The posts in it stay saved. {list.is_public && 'The shared link will stop working.'}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => run(() => deleteList(list.id), 'Could not delete the list')}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Saved Posts
+            {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </CardTitle>
+          <CardDescription>Every post you have saved, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {posts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing saved yet. Use the save button on any post in the <Link href="/blog" className="underline">blog</Link> to keep it for later.
+            </p>
+          ) : (
+            <ul className="space-y-4">
+              {posts.map(post => {
+                const inLists = lists.filter(list => list.post_ids.includes(post.id));
+                return (
+                  <li key={post.id} className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <Link href={`/blog/${post.slug}`} className="font-medium hover:underline">{post.title}</Link>
+                      <p className="text-sm text-gray-500">Published on {format(post.publish_at ?? post.created_at, 'MMMM d, yyyy')}</p>
+                      {inLists.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {inLists.map(list => <Badge key={list.id} variant="secondary">{list.name}</Badge>)}
+                        </div>
+                      )}
+                    </div>
+                    <Button variant="outline" size="sm" disabled={busy} onClick={() => run(() => setSaved(post.id, false), 'Could not unsave the post')}>
+                      Unsave
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
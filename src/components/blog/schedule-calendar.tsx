@@ -0,0 +1,70 @@
+// This component renders the calendar of upcoming posts in the admin dashboard.
+// Days with scheduled posts are highlighted; selecting a day lists the posts going live on it.
+
+// This is a Client Component because it manages the selected day in state.
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format, isSameDay } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { Post } from '@/lib/types';
+import { CalendarClock } from 'lucide-react';
+
+type ScheduleCalendarProps = {
+  // The scheduled posts, as returned by `getScheduledPosts`.
+  posts: Post[];
+  // Called to reschedule a post.
+  onReschedule: (post: Post) => void;
+};
+
+export function ScheduleCalendar({ posts, onReschedule }: ScheduleCalendarProps) {
+  const [day, setDay] = useState<Date | undefined>(new Date());
+  const scheduled = posts
+    .filter(post => post.publish_at)
+    .sort((a, b) => (a.publish_at as Date).getTime() - (b.publish_at as Date).getTime());
+  const scheduledDays = scheduled.map(post => post.publish_at as Date);
+  const postsOnDay = day ? scheduled.filter(post => isSameDay(post.publish_at as Date, day)) : [];
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8">
+      <Calendar
+        mode="single"
+        selected={day}
+        onSelect={setDay}
+        modifiers={{ scheduled: scheduledDays }}
+        modifiersClassNames={{ scheduled: 'font-bold text-primary underline underline-offset-4' }}
+        className="rounded-md border self-start"
+      />
+      <div className="flex-1 space-y-4">
+        <h3 className="font-semibold">
+          {day ? format(day, 'EEEE, MMMM d') : 'Pick a day'}
+        </h3>
+        {postsOnDay.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing is scheduled for this day.</p>
+        ) : (
+          <ul className="space-y-3">
+            {postsOnDay.map(post => (
+              <li key={post.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div className="min-w-0">
+                  <Link href={`/blog/admin/posts/edit/${post.id}`} className="font-medium hover:underline line-clamp-1">{post.title}</Link>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <CalendarClock className="h-3 w-3" />
+                    {format(post.publish_at as Date, 'HH:mm')}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => onReschedule(post)}>Reschedule</Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {scheduled.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {scheduled.length} {scheduled.length === 1 ? 'post is' : 'posts are'} scheduled; the next one goes live on {format(scheduledDays[0], "MMMM d 'at' HH:mm")}.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
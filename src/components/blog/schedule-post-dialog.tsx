@@ -0,0 +1,72 @@
+// This component renders the dialog for scheduling a post: the editor picks a day and a time,
+// and the post is published automatically at that moment (see `publishDuePosts` in `src/lib/firestore.ts`).
+
+// This is a Client Component because it manages the chosen date and time in state.
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, isBefore, startOfDay } from 'date-fns';
+// Import UI components from ShadCN.
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Post } from '@/lib/types';
+
+type SchedulePostDialogProps = {
+  // The post to schedule; the dialog is open while this is set.
+  post: Post | null;
+  onOpenChange: (open: boolean) => void;
+  onSchedule: (post: Post, publishAt: Date) => void;
+};
+
+export function SchedulePostDialog({ post, onOpenChange, onSchedule }: SchedulePostDialogProps) {
+  const [day, setDay] = useState<Date | undefined>();
+  const [time, setTime] = useState('09:00');
+
+  // Start from the post's current schedule, if it has one.
+  useEffect(() => {
+    if (post) {
+      setDay(post.status === 'scheduled' ? post.publish_at : undefined);
+      setTime(post.status === 'scheduled' && post.publish_at ? format(post.publish_at, 'HH:mm') : '09:00');
+    }
+  }, [post]);
+
+  // The chosen moment, in the editor's local time zone.
+  const publishAt = day ? new Date(`${format(day, 'yyyy-MM-dd')}T${time || '00:00'}`) : null;
+  const isInPast = !!publishAt && isBefore(publishAt, new Date());
+
+  return (
+    <Dialog open={post !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[360px]">
+        <DialogHeader>
+          <DialogTitle>Schedule Post</DialogTitle>
+          <DialogDescription className="line-clamp-2">{post?.title}</DialogDescription>
+        </DialogHeader>
+        <Calendar
+          mode="single"
+          selected={day}
+          onSelect={setDay}
+          disabled={(date) => isBefore(date, startOfDay(new Date()))}
+          className="rounded-md border mx-auto"
+        />
+        <div>
+          <Label htmlFor="publish-time">Time</Label>
+          <Input id="publish-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+        </div>
+        {publishAt && (
+          <p className={isInPast ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'}>
+            {isInPast ? 'Pick a time in the future.' : `Will be published on ${format(publishAt, "MMMM d, yyyy 'at' HH:mm")}.`}
+          </p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!publishAt || isInPast} onClick={() => post && publishAt && onSchedule(post, publishAt)}>
+            Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+// This component renders the page body shared by the category and tag pages:
+// a hero with the name and description, and the grid of published posts filed under it.
+
+import Image from 'next/image';
+import { ReactNode } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/landing/header';
+import { Footer } from '@/components/landing/footer';
+import { Button } from '@/components/ui/button';
+import { PostCard } from '@/components/blog/post-card';
+import { getUsers } from '@/lib/firestore';
+import { Post } from '@/lib/types';
+
+type TaxonomyListingProps = {
+  // A short label shown above the title, e.g. "Category".
+  eyebrow: string;
+  title: string;
+  description?: string;
+  coverImageUrl?: string;
+  posts: Post[];
+  // The URL of the next page of posts, or null on the last page.
+  olderHref: string | null;
+  // Shown under the title, e.g. the follow button of a tag.
+  action?: ReactNode;
+};
+
+export async function TaxonomyListing({ eyebrow, title, description, coverImageUrl, posts, olderHref, action }: TaxonomyListingProps) {
+  const users = await getUsers();
+  const getAuthorName = (authorId?: string) => users.find(u => u.id === authorId)?.name || 'Unknown Author';
+
+  return (
+    <div className="flex flex-col min-h-dvh bg-background">
+      <Header />
+      <main className="flex-1">
+        {/* The hero section, with the cover image behind it when there is one. */}
+        <section className="relative py-20 md:py-28 text-white overflow-hidden bg-primary">
+          {coverImageUrl && (
+            <div className="absolute inset-0">
+              <Image src={coverImageUrl} alt={title} fill className="object-cover" />
+              <div className="absolute inset-0 bg-black/50" /> {/* Dark overlay for text readability */}
+            </div>
+          )}
+          <div className="container relative z-10 mx-auto text-center">
+            <p className="text-sm font-semibold uppercase tracking-widest text-white/80">{eyebrow}</p>
+            <h1 className="mt-2 text-4xl md:text-6xl font-extrabold font-headline tracking-tight">{title}</h1>
+            {description && (
+              <p className="mt-4 max-w-2xl mx-auto text-lg md:text-xl text-white/90">{description}</p>
+            )}
+            {action && <div className="mt-6 flex justify-center">{action}</div>}
+          </div>
+        </section>
+
+        {/* The grid of posts. */}
+        <section className="py-24 md:py-32">
+          <div className="container mx-auto">
+            {posts.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {posts.map(post => (
+                    <PostCard key={post.id} post={post} authorName={getAuthorName(post.author_id)} />
+                  ))}
+                </div>
+                {olderHref && (
+                  <div className="mt-12 flex justify-center">
+                    <Button variant="outline" asChild>
+                      <Link href={olderHref}>Older stories</Link>
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-center">
+                <h2 className="text-2xl font-bold">No Posts Yet</h2>
+                <p className="mt-4 text-muted-foreground">Nothing has been published here yet. Check back later!</p>
+                <Button variant="outline" className="mt-6" asChild>
+                  <Link href="/blog">Browse all stories</Link>
+                </Button>
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
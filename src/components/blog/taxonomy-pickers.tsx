@@ -0,0 +1,130 @@
+// This file contains the form controls for choosing a post's category and tags.
+// Both load their options from the admin-managed taxonomy (see `/blog/admin/taxonomy`).
+
+// These are Client Components because they load their options and manage the tag input.
+'use client';
+
+import { useEffect, useState, KeyboardEvent } from 'react';
+// Import UI components from ShadCN.
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
+import { getCategories, getTags } from '@/lib/firestore';
+import { normalizeTag } from '@/lib/taxonomy';
+import { Category, Tag } from '@/lib/types';
+
+// Radix Select can't use an empty string as a value, so "no category" has its own.
+const NO_CATEGORY = '__none__';
+
+// The most tags a post can have.
+export const MAX_TAGS = 8;
+
+type CategoryPickerProps = {
+  id?: string;
+  // The category name, or an empty string for none.
+  value: string;
+  onChange: (value: string) => void;
+};
+
+export function CategoryPicker({ id, value, onChange }: CategoryPickerProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    getCategories().then(setCategories);
+  }, []);
+
+  // A post may still carry a category that has since been removed; keep it selectable.
+  const names = categories.map(category => category.name);
+  if (value && !names.includes(value)) {
+    names.unshift(value);
+  }
+
+  return (
+    <Select value={value || NO_CATEGORY} onValueChange={(next) => onChange(next === NO_CATEGORY ? '' : next)}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Choose a category" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+        {names.map(name => (
+          <SelectItem key={name} value={name}>{name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+type TagPickerProps = {
+  id?: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+};
+
+export function TagPicker({ id, value, onChange }: TagPickerProps) {
+  const [suggestions, setSuggestions] = useState<Tag[]>([]);
+  const [input, setInput] = useState('');
+
+  useEffect(() => {
+    getTags().then(setSuggestions);
+  }, []);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag) && value.length < MAX_TAGS) {
+      onChange([...value, tag]);
+    }
+    setInput('');
+  };
+
+  // Enter and comma add the typed tag; Backspace in an empty input removes the last one.
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  // Suggest tags that match what is being typed (or the first few when nothing is), and aren't chosen yet.
+  const query = normalizeTag(input);
+  const matches = suggestions
+    .filter(tag => !value.includes(tag.name) && (!query || tag.name.includes(query)))
+    .slice(0, 8);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-input px-3 py-2">
+        {value.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            #{tag}
+            <button type="button" aria-label={`Remove tag ${tag}`} onClick={() => onChange(value.filter(t => t !== tag))}>
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input && addTag(input)}
+          disabled={value.length >= MAX_TAGS}
+          placeholder={value.length >= MAX_TAGS ? `Up to ${MAX_TAGS} tags` : 'Add a tag and press Enter'}
+          className="h-7 flex-1 min-w-[160px] border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {matches.length > 0 && value.length < MAX_TAGS && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Suggestions:</span>
+          {matches.map(tag => (
+            <button key={tag.id} type="button" onClick={() => addTag(tag.name)}>
+              <Badge variant="outline" className="hover:bg-secondary">#{tag.name}</Badge>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
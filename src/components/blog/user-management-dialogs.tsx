@@ -0,0 +1,234 @@
+// This file renders the dialogs of the admin Users page (`/blog/admin/users`):
+//   - `UserActionDialog` asks for the details of suspending, banning, deleting or reinstating a user.
+//   - `UserHistoryDialog` lists the audit log entries about a user: who changed what, and why.
+// The changes themselves are made by the USER MANAGEMENT functions in `src/lib/firestore.ts`.
+
+// This is a Client Component because it manages the form in state and loads the audit log.
+'use client';
+
+import { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+// Import UI components from ShadCN.
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { getAuditTrail } from '@/lib/firestore';
+import { AuditEntry, User } from '@/lib/types';
+import { DeleteCascade, DEFAULT_DELETE_CASCADE } from '@/lib/users';
+
+export type UserAction = 'suspend' | 'ban' | 'delete' | 'reinstate';
+
+// What the admin filled in. `until` is only set when suspending, `cascade` only when deleting.
+export type UserActionDetails = {
+  reason: string;
+  until?: Date;
+  cascade?: DeleteCascade;
+};
+
+// The suspension lengths to choose from, in days.
+const SUSPENSION_DAYS = [1, 3, 7, 30, 90];
+
+const ACTION_COPY: Record<UserAction, { title: string; description: string; confirm: string }> = {
+  suspend: {
+    title: 'Suspend User',
+    description: "The user can't log in or add posts, comments or stories until the suspension ends.",
+    confirm: 'Suspend',
+  },
+  ban: {
+    title: 'Ban User',
+    description: "The user can't log in or add posts, comments or stories until an admin reinstates them.",
+    confirm: 'Ban',
+  },
+  delete: {
+    title: 'Delete User',
+    description: 'The account is closed and the author page hidden. It can be restored later, but deleted content is gone for good.',
+    confirm: 'Delete',
+  },
+  reinstate: {
+    title: 'Reinstate User',
+    description: 'The user can log in and contribute again. Content removed along with a deleted account is not restored.',
+    confirm: 'Reinstate',
+  },
+};
+
+type UserActionDialogProps = {
+  // The action and the user it applies to; the dialog is open while this is set.
+  target: { action: UserAction; user: User } | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (action: UserAction, user: User, details: UserActionDetails) => Promise<void>;
+};
+
+export function UserActionDialog({ target, onOpenChange, onConfirm }: UserActionDialogProps) {
+  const [reason, setReason] = useState('');
+  const [days, setDays] = useState('7');
+  const [cascade, setCascade] = useState<DeleteCascade>(DEFAULT_DELETE_CASCADE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from a blank form every time the dialog opens.
+  useEffect(() => {
+    if (target) {
+      setReason('');
+      setDays('7');
+      setCascade(DEFAULT_DELETE_CASCADE);
+    }
+  }, [target]);
+
+  if (!target) {
+    return <Dialog open={false} onOpenChange={onOpenChange} />;
+  }
+
+  const { action, user } = target;
+  const copy = ACTION_COPY[action];
+  // Suspending, banning and deleting need a reason, which the user is shown when they try to log in.
+  const needsReason = action !== 'reinstate';
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(action, user, {
+        reason: reason.trim(),
+        ...(action === 'suspend' && { until: addDays(new Date(), Number(days)) }),
+        ...(action === 'delete' && { cascade }),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{copy.title}: {user.name}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {action === 'suspend' && (
+            <div className="space-y-2">
+              <Label htmlFor="suspension-days">Suspend for</Label>
+              <Select value={days} onValueChange={setDays}>
+                <SelectTrigger id="suspension-days"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SUSPENSION_DAYS.map(n => (
+                    <SelectItem key={n} value={String(n)}>{n === 1 ? '1 day' : `${n} days`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Until {format(addDays(new Date(), Number(days)), 'MMMM d, yyyy')}.
+              </p>
+            </div>
+          )}
+          {action === 'delete' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Posts</Label>
+                <Select value={cascade.posts} onValueChange={(posts) => setCascade({ ...cascade, posts: posts as DeleteCascade['posts'] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keep">Keep</SelectItem>
+                    <SelectItem value="unpublish">Unpublish</SelectItem>
+                    <SelectItem value="delete">Delete</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Comments</Label>
+                <Select value={cascade.comments} onValueChange={(comments) => setCascade({ ...cascade, comments: comments as DeleteCascade['comments'] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keep">Keep</SelectItem>
+                    <SelectItem value="delete">Delete</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Stories</Label>
+                <Select value={cascade.stories} onValueChange={(stories) => setCascade({ ...cascade, stories: stories as DeleteCascade['stories'] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keep">Keep</SelectItem>
+                    <SelectItem value="delete">Delete</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="action-reason">Reason{needsReason ? '' : ' (optional)'}</Label>
+            <Textarea
+              id="action-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={needsReason ? 'Shown to the user when they try to log in.' : 'Recorded in the audit log.'}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant={action === 'reinstate' ? 'default' : 'destructive'}
+            disabled={isSaving || (needsReason && !reason.trim())}
+            onClick={handleConfirm}
+          >
+            {copy.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type UserHistoryDialogProps = {
+  // The user whose history to show; the dialog is open while this is set.
+  user: User | null;
+  // All users, to show who made each change.
+  users: User[];
+  onOpenChange: (open: boolean) => void;
+};
+
+export function UserHistoryDialog({ user, users, onOpenChange }: UserHistoryDialogProps) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    setEntries(null);
+    if (user) {
+      getAuditTrail('user', user.id).then(setEntries);
+    }
+  }, [user]);
+
+  const actorName = (actorId: string) => users.find(u => u.id === actorId)?.name ?? 'Unknown user';
+
+  return (
+    <Dialog open={user !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>History: {user?.name}</DialogTitle>
+          <DialogDescription>Every change made to this account, newest first.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[400px] pr-4">
+          {entries === null ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes have been made to this account.</p>
+          ) : (
+            <ol className="space-y-4">
+              {entries.map(entry => (
+                <li key={entry.id} className="border-l-2 pl-3">
+                  <p className="text-sm font-medium">{entry.summary}</p>
+                  <p className="text-xs text-muted-foreground">
+                    By {actorName(entry.actor_id)} on {format(entry.created_at, "MMMM d, yyyy 'at' HH:mm")}
+                  </p>
+                  {entry.reason && <p className="text-sm mt-1">&ldquo;{entry.reason}&rdquo;</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,6 +22,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"; // Components for the user profile dropdown.
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar'; // User avatar component.
+import { NotificationBell } from './notification-bell'; // The bell listing the user's notifications.
 
 // An array of navigation link objects. This makes the navigation bar easy to maintain.
 const navLinks = [
@@ -64,7 +65,9 @@ export function Header() {
                 // While the auth status is loading, show a placeholder to prevent layout shift.
                 <div className="h-10 w-24 bg-muted rounded-md animate-pulse" />
             ) : user ? (
-                 // If a user is logged in, display the profile dropdown menu.
+                 // If a user is logged in, display their notifications and the profile dropdown menu.
+                 <>
+                 <NotificationBell userId={user.uid} />
                  <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                         <Button variant="ghost" className="relative h-10 px-2 rounded-full">
@@ -115,6 +118,7 @@ export function Header() {
                         </DropdownMenuItem>
                     </DropdownMenuContent>
                 </DropdownMenu>
+                </>
             ) : (
                 // If no user is logged in, display the "Login / Sign Up" button.
                 <Button asChild className="hidden md:flex">
@@ -0,0 +1,113 @@
+// This component renders the notification bell in the header for logged-in users.
+// The badge shows how many notifications are unread; clicking the bell lists the latest ones.
+// Opening a notification marks it as read and follows its link.
+
+// This is a Client Component because it loads the notifications and tracks which are read.
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+// Import UI components from ShadCN.
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { getNotifications, markNotificationRead, markAllNotificationsRead } from '@/lib/firestore';
+import { resolveNotificationLink } from '@/lib/notifications';
+import { UserNotification } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+// How often new notifications are checked for while the page is open, in milliseconds.
+const REFRESH_INTERVAL = 60 * 1000;
+
+export function NotificationBell({ userId }: { userId: string }) {
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setNotifications(await getNotifications(userId));
+    } catch (error) {
+      // The bell is not essential; keep showing what was loaded before.
+      console.error('Error loading notifications:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const unread = notifications.filter(n => !n.read).length;
+
+  // Reload when the list is opened, so it is never more than a click out of date.
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      refresh();
+    }
+  };
+
+  const handleOpen = async (notification: UserNotification) => {
+    setIsOpen(false);
+    if (!notification.read) {
+      setNotifications(notifications.map(n => n.id === notification.id ? { ...n, read: true } : n));
+      await markNotificationRead(notification.id);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setNotifications(notifications.map(n => ({ ...n, read: true })));
+    await markAllNotificationsRead(userId);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative rounded-full" aria-label={unread ? `Notifications (${unread} unread)` : 'Notifications'}>
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-bold text-primary-foreground">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="font-semibold">Notifications</p>
+          {unread > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={handleMarkAllRead}>Mark all as read</Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">You&apos;re all caught up.</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <ul>
+              {notifications.map(notification => {
+                // A link leading off the site isn't followed; the notification is then only marked as read.
+                const link = resolveNotificationLink(notification.link, window.location.origin);
+                return (
+                  <li key={notification.id} className="border-b last:border-b-0">
+                    <Link
+                      href={link ? `${link.pathname}${link.search}${link.hash}` : '#'}
+                      onClick={() => handleOpen(notification)}
+                      className={cn('block px-4 py-3 hover:bg-muted', !notification.read && 'bg-primary/5')}
+                    >
+                      <p className={cn('text-sm', !notification.read && 'font-semibold')}>{notification.title}</p>
+                      <p className="text-sm text-muted-foreground line-clamp-2">{notification.body}</p>
+                      <p className="mt-1 text-xs text-muted-foreground">{formatDistanceToNow(notification.created_at, { addSuffix: true })}</p>
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
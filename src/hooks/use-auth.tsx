@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from 'react';
 import {
   getAuth,
   onAuthStateChanged,
@@ -13,16 +13,53 @@ import {
   updateProfile,
   UserCredential,
 } from 'firebase/auth';
-import { app, db, storage } from '@/lib/firebase';
+import { app } from '@/lib/firebase';
 import { useToast } from './use-toast';
 import { useRouter } from 'next/navigation';
-import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
-import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { uploadImage } from '@/lib/storage';
 import { User } from '@/lib/types';
+import { getUserById, createUser, updateUser as updateUserProfile } from '@/lib/firestore';
+import { isBlocked, blockedMessage } from '@/lib/users';
+import { SESSION_RENEW_INTERVAL } from '@/lib/auth/session';
 
 const auth = getAuth(app);
 const googleProvider = new GoogleAuthProvider();
 
+// Exchanges the user's Firebase ID token for the session cookie the server checks before showing
+// `/dashboard` and `/blog/admin` (see `src/middleware.ts`). It runs after every login and page load,
+// and every `SESSION_RENEW_INTERVAL` while the app is open, which also picks up role changes.
+// Resolves with the reason when the server refuses the user, e.g. because they were blocked since the
+// session was last renewed; the server has cleared the cookie by then. Other failures are logged rather
+// than thrown: the user stays logged in on this page, and the server sends them to the login page when
+// they open a protected one.
+async function startSession(firebaseUser: FirebaseUser): Promise<string | null> {
+  try {
+    const response = await fetch('/api/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ idToken: await firebaseUser.getIdToken() }),
+    });
+    if (response.status === 403) {
+      return (await response.json()).error;
+    }
+    if (!response.ok) {
+      console.error('Could not start the session:', (await response.json()).error);
+    }
+  } catch (error) {
+    console.error('Could not start the session:', error);
+  }
+  return null;
+}
+
+// Clears the session cookie.
+async function endSession() {
+  try {
+    await fetch('/api/session', { method: 'DELETE' });
+  } catch (error) {
+    console.error('Could not end the session:', error);
+  }
+}
+
 export type CustomUser = FirebaseUser & User;
 
 interface AuthContextType {
@@ -49,31 +86,46 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [userRole, setUserRole] = useState<string | null>(null);
   const { toast } = useToast();
   const router = useRouter();
+  // Set when `login` or `googleSignIn` turns away a blocked user, who already sees the reason on the login page.
+  const refusingLogin = useRef(false);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setFirebaseUser(user);
       if (user) {
-        const userDocRef = doc(db, 'users', user.uid);
-        const userDoc = await getDoc(userDocRef);
-        if (userDoc.exists()) {
-          const userData = userDoc.data() as User;
+        const userData = await getUserById(user.uid);
+        // A suspended, banned or deleted user is signed out, e.g. when they were blocked since their last visit.
+        if (userData && isBlocked(userData)) {
+          await signOut(auth);
+          await endSession();
+          if (!refusingLogin.current) {
+            toast({ variant: 'destructive', title: 'You have been signed out', description: blockedMessage(userData) });
+          }
+          return;
+        }
+        if (userData) {
           setUser({ ...user, ...userData });
           setUserRole(userData.role);
         } else {
           // This case handles a user who is authenticated with Firebase,
           // but doesn't have a corresponding document in the 'users' collection.
           // This can happen with social sign-in or if a user document is manually deleted.
-          const newUser: Partial<User> = {
+          const newUser: Omit<User, 'id'> = {
             name: user.displayName || user.email || '',
             email: user.email || '',
             role: 'user',
             created_at: new Date(),
           };
-          await setDoc(userDocRef, newUser);
+          await createUser(user.uid, newUser);
           setUser({ ...user, ...newUser } as CustomUser);
           setUserRole('user');
         }
+        const refusal = await startSession(user);
+        if (refusal) {
+          await signOut(auth);
+          toast({ variant: 'destructive', title: 'You have been signed out', description: refusal });
+          return;
+        }
       } else {
         setUser(null);
         setUserRole(null);
@@ -82,52 +134,85 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     });
   
     return () => unsubscribe();
-  }, []);
+  }, [toast]);
+
+  // Renews the session while the app is open, so it doesn't expire under the user, and signs out a user
+  // the server no longer lets in.
+  useEffect(() => {
+    if (!firebaseUser) {
+      return;
+    }
+    const timer = setInterval(async () => {
+      const refusal = await startSession(firebaseUser);
+      if (refusal) {
+        await signOut(auth);
+        toast({ variant: 'destructive', title: 'You have been signed out', description: refusal });
+      }
+    }, SESSION_RENEW_INTERVAL);
+    return () => clearInterval(timer);
+  }, [firebaseUser, toast]);
+
+  // Signs out a user who is suspended, banned or deleted, and throws the reason for the login page to show.
+  const refuseIfBlocked = async (userData: User | null) => {
+    if (userData && isBlocked(userData)) {
+      refusingLogin.current = true;
+      await signOut(auth);
+      throw new Error(blockedMessage(userData));
+    }
+  };
 
   const login = async (email: string, password: string) => {
-    return await signInWithEmailAndPassword(auth, email, password);
+    refusingLogin.current = false;
+    const userCredential = await signInWithEmailAndPassword(auth, email, password);
+    await refuseIfBlocked(await getUserById(userCredential.user.uid));
+    // Wait for the session, so the dashboard the user is sent to next lets them in.
+    await startSession(userCredential.user);
+    return userCredential;
   };
 
   const signup = async (email: string, password: string, displayName: string) => {
     const userCredential = await createUserWithEmailAndPassword(auth, email, password);
     await updateProfile(userCredential.user, { displayName });
 
-    const userDocRef = doc(db, 'users', userCredential.user.uid);
-    const newUser: Partial<User> = {
+    const newUser: Omit<User, 'id'> = {
       name: displayName,
       email: email,
       role: 'user',
       created_at: new Date(),
     };
-    await setDoc(userDocRef, newUser);
+    await createUser(userCredential.user.uid, newUser);
+    await startSession(userCredential.user);
     setUser({ ...userCredential.user, ...newUser } as CustomUser);
     setUserRole('user');
   };
 
   const logout = async () => {
     await signOut(auth);
+    await endSession();
     router.push('/login');
   };
   
   const googleSignIn = async () => {
+    refusingLogin.current = false;
     const userCredential = await signInWithPopup(auth, googleProvider);
     const user = userCredential.user;
 
-    const userDocRef = doc(db, 'users', user.uid);
-    const userDoc = await getDoc(userDocRef);
+    const userData = await getUserById(user.uid);
+    await refuseIfBlocked(userData);
 
-    if (!userDoc.exists()) {
-      const newUser: Partial<User> = {
+    if (!userData) {
+      const newUser: Omit<User, 'id'> = {
         name: user.displayName || '',
         email: user.email || '',
         role: 'user',
         created_at: new Date(),
       };
-      await setDoc(userDocRef, newUser);
+      await createUser(user.uid, newUser);
       setUserRole('user');
     } else {
-      setUserRole(userDoc.data().role);
+      setUserRole(userData.role);
     }
+    await startSession(user);
     return userCredential;
   };
 
@@ -135,13 +220,12 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     if (!firebaseUser) return;
   
     try {
-      const userDocRef = doc(db, 'users', firebaseUser.uid);
       let downloadURL = firebaseUser.photoURL;
   
       if (data.avatar && typeof data.avatar !== 'string') {
-        const storageRef = ref(storage, `avatars/${firebaseUser.uid}`);
-        await uploadBytes(storageRef, data.avatar);
-        downloadURL = await getDownloadURL(storageRef);
+        // Avatars are shown small, so the thumbnail size is enough (see `src/lib/images.ts`).
+        // Each upload gets its own path, since uploaded images are cached as never changing.
+        downloadURL = await uploadImage(data.avatar, `avatars/${firebaseUser.uid}/${Date.now()}`, 'thumbnail');
       }
       
       await updateProfile(firebaseUser, {
@@ -149,9 +233,10 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           photoURL: downloadURL,
       });
       
-      await updateDoc(userDocRef, {
+      await updateUserProfile(firebaseUser.uid, {
           ...data,
-          avatar: downloadURL,
+          // Firestore rejects `undefined` values, so only write the avatar once there is one.
+          ...(downloadURL ? { avatar: downloadURL } : {}),
       });
   
       setUser({ ...user, ...data, displayName: data.name, photoURL: downloadURL } as CustomUser);
@@ -0,0 +1,169 @@
+// This hook gives components the logged-in user's bookmarks and reading lists.
+// They are kept in one module-level store (like the toasts in `use-toast.ts`), so every save button
+// on a page shares a single copy, loads it once, and updates together when any of them changes it.
+'use client';
+
+import * as React from 'react';
+import { useAuth } from './use-auth';
+import {
+  getBookmarks,
+  getReadingLists,
+  bookmarkPost,
+  removeBookmark,
+  createReadingList,
+  updateReadingList,
+  deleteReadingList,
+  addToReadingList,
+  removeFromReadingList,
+} from '@/lib/firestore';
+import { Bookmark, ReadingList } from '@/lib/types';
+
+type State = {
+  // The user the store was loaded for; null when nobody is logged in.
+  userId: string | null;
+  bookmarks: Bookmark[];
+  lists: ReadingList[];
+  loading: boolean;
+};
+
+const emptyState: State = { userId: null, bookmarks: [], lists: [], loading: false };
+
+// An array of listener functions that will be called whenever the state changes.
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = emptyState;
+
+function setState(next: Partial<State>) {
+  memoryState = { ...memoryState, ...next };
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Loads the bookmarks and lists of a user, unless they are already loaded (or loading).
+async function load(userId: string, force = false) {
+  if (!force && memoryState.userId === userId) {
+    return;
+  }
+  // Reloads after a change keep showing the current data instead of a loading state.
+  setState({ userId, ...(memoryState.userId !== userId && { bookmarks: [], lists: [], loading: true }) });
+  try {
+    const [bookmarks, lists] = await Promise.all([getBookmarks(userId), getReadingLists(userId)]);
+    // Ignore the result if another user logged in while it was loading.
+    if (memoryState.userId === userId) {
+      setState({ bookmarks, lists, loading: false });
+    }
+  } catch (error) {
+    console.error('Error loading bookmarks:', error);
+    if (memoryState.userId === userId) {
+      setState({ loading: false });
+    }
+  }
+}
+
+function requireUser(userId: string | null): string {
+  if (!userId) {
+    throw new Error('Log in to save posts.');
+  }
+  return userId;
+}
+
+export function useBookmarks() {
+  const { user } = useAuth();
+  const [state, setLocalState] = React.useState<State>(memoryState);
+  const userId = user?.uid ?? null;
+
+  // Subscribe to state changes when the component mounts.
+  React.useEffect(() => {
+    listeners.push(setLocalState);
+    setLocalState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  React.useEffect(() => {
+    if (userId) {
+      load(userId);
+    } else if (memoryState.userId) {
+      setState(emptyState);
+    }
+  }, [userId]);
+
+  // The store may still hold another user's data for a moment after switching accounts.
+  const current = state.userId === userId ? state : emptyState;
+
+  const refresh = React.useCallback(() => load(requireUser(userId), true), [userId]);
+
+  const isSaved = React.useCallback(
+    (postId: string) => current.bookmarks.some(b => b.post_id === postId),
+    [current.bookmarks],
+  );
+
+  // Saves or unsaves a post. The button changes straight away; if saving fails, the store is reloaded.
+  const setSaved = React.useCallback(async (postId: string, saved: boolean) => {
+    const uid = requireUser(userId);
+    setState(saved
+      ? { bookmarks: [{ id: `${uid}_${postId}`, user_id: uid, post_id: postId, created_at: new Date() }, ...memoryState.bookmarks.filter(b => b.post_id !== postId)] }
+      : {
+        bookmarks: memoryState.bookmarks.filter(b => b.post_id !== postId),
+        lists: memoryState.lists.map(l => ({ ...l, post_ids: l.post_ids.filter(id => id !== postId) })),
+      });
+    try {
+      await (saved ? bookmarkPost(uid, postId) : removeBookmark(uid, postId));
+    } finally {
+      await load(uid, true);
+    }
+  }, [userId]);
+
+  const createList = React.useCallback(async (name: string, description = '') => {
+    const uid = requireUser(userId);
+    const id = await createReadingList(uid, name, description);
+    await load(uid, true);
+    return id;
+  }, [userId]);
+
+  const updateList = React.useCallback(async (id: string, updates: Partial<Pick<ReadingList, 'name' | 'description' | 'is_public'>>) => {
+    const uid = requireUser(userId);
+    try {
+      await updateReadingList(id, updates);
+    } finally {
+      await load(uid, true);
+    }
+  }, [userId]);
+
+  const deleteList = React.useCallback(async (id: string) => {
+    const uid = requireUser(userId);
+    try {
+      await deleteReadingList(id);
+    } finally {
+      await load(uid, true);
+    }
+  }, [userId]);
+
+  // Adds a post to a list or takes it out again.
+  const setInList = React.useCallback(async (listId: string, postId: string, inList: boolean) => {
+    const uid = requireUser(userId);
+    try {
+      await (inList ? addToReadingList(uid, listId, postId) : removeFromReadingList(listId, postId));
+    } finally {
+      await load(uid, true);
+    }
+  }, [userId]);
+
+  return {
+    bookmarks: current.bookmarks,
+    lists: current.lists,
+    loading: current.loading,
+    isSaved,
+    setSaved,
+    createList,
+    updateList,
+    deleteList,
+    setInList,
+    refresh,
+  };
+}
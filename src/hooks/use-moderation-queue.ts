@@ -0,0 +1,192 @@
+// This hook turns a table of comments or stories on the admin pages into a triage queue:
+//   - Rows can be selected with their checkboxes (or all at once) for the bulk actions.
+//   - One row has the keyboard focus, shown highlighted, so the queue can be worked through without a mouse.
+//   - Keyboard shortcuts act on the selected rows, or on the focused row when nothing is selected
+//     (see `MODERATION_SHORTCUTS`). Deleting always asks for confirmation first.
+// The page passes the rows it shows (after filtering) and what each action does.
+'use client';
+
+import * as React from 'react';
+import { BulkModerationAction } from '@/lib/moderation';
+
+// The keyboard shortcuts, as listed in the shortcut help on the admin pages.
+export const MODERATION_SHORTCUTS: { keys: string; description: string }[] = [
+  { keys: 'j / k', description: 'Move to the next / previous item' },
+  { keys: 'x', description: 'Select or unselect the item' },
+  { keys: 'Shift + x', description: 'Select or unselect everything shown' },
+  { keys: 'a', description: 'Approve' },
+  { keys: 'r', description: 'Reject' },
+  { keys: '#', description: 'Delete (admins only)' },
+  { keys: 'Esc', description: 'Clear the selection' },
+];
+
+type QueueActions = {
+  // Runs an action on the given IDs. Delete is only offered when the user may delete.
+  run: (action: BulkModerationAction, ids: string[]) => Promise<void>;
+  canDelete: boolean;
+};
+
+// The DOM ID of a row, so the focused one can be scrolled into view.
+export function queueRowId(id: string): string {
+  return `queue-row-${id}`;
+}
+
+// Whether a key press was meant for something else: a form field, an open dialog or menu.
+function isTypingOrInOverlay(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return target.isContentEditable
+    || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+    || !!target.closest('[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"]');
+}
+
+export function useModerationQueue<T extends { id: string }>(items: T[], { run, canDelete }: QueueActions) {
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+  const [focusedId, setFocusedId] = React.useState<string | null>(null);
+  // The IDs waiting for the delete to be confirmed.
+  const [pendingDelete, setPendingDelete] = React.useState<string[] | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+  // Where the focused row was, so focus stays in place when an action takes it out of the list.
+  const focusedIndex = React.useRef(0);
+
+  // Forget selected rows that are no longer shown, e.g. after filtering or deleting them.
+  React.useEffect(() => {
+    setSelectedIds(current => {
+      const shown = new Set(items.map(item => item.id));
+      const kept = new Set(Array.from(current).filter(id => shown.has(id)));
+      return kept.size === current.size ? current : kept;
+    });
+    setFocusedId(current => {
+      if (current && items.some(item => item.id === current)) {
+        return current;
+      }
+      return items.length ? items[Math.min(focusedIndex.current, items.length - 1)].id : null;
+    });
+  }, [items]);
+
+  React.useEffect(() => {
+    const index = items.findIndex(item => item.id === focusedId);
+    if (index >= 0) {
+      focusedIndex.current = index;
+    }
+    if (focusedId) {
+      document.getElementById(queueRowId(focusedId))?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [focusedId, items]);
+
+  const toggle = React.useCallback((id: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const allSelected = items.length > 0 && items.every(item => selectedIds.has(item.id));
+
+  const toggleAll = React.useCallback(() => {
+    setSelectedIds(allSelected ? new Set() : new Set(items.map(item => item.id)));
+  }, [allSelected, items]);
+
+  const clearSelection = React.useCallback(() => setSelectedIds(new Set()), []);
+
+  // What the shortcuts and the bulk bar act on: the selection, or else the focused row.
+  const targetIds = React.useCallback((): string[] => {
+    if (selectedIds.size > 0) {
+      return items.filter(item => selectedIds.has(item.id)).map(item => item.id);
+    }
+    return focusedId ? [focusedId] : [];
+  }, [items, selectedIds, focusedId]);
+
+  const runAction = React.useCallback(async (action: BulkModerationAction, ids: string[]) => {
+    if (ids.length === 0 || isBusy) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await run(action, ids);
+      setSelectedIds(new Set());
+    } finally {
+      setIsBusy(false);
+    }
+  }, [run, isBusy]);
+
+  const requestDelete = React.useCallback((ids: string[]) => {
+    if (canDelete && ids.length > 0) {
+      setPendingDelete(ids);
+    }
+  }, [canDelete]);
+
+  const confirmDelete = React.useCallback(async () => {
+    const ids = pendingDelete;
+    setPendingDelete(null);
+    if (ids) {
+      await runAction('delete', ids);
+    }
+  }, [pendingDelete, runAction]);
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isTypingOrInOverlay(event.target) || pendingDelete) {
+        return;
+      }
+      const index = items.findIndex(item => item.id === focusedId);
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          if (items.length) setFocusedId(items[Math.min(index + 1, items.length - 1)].id);
+          break;
+        case 'k':
+        case 'ArrowUp':
+          if (items.length) setFocusedId(items[Math.max(index - 1, 0)].id);
+          break;
+        case 'x':
+          if (focusedId) toggle(focusedId);
+          break;
+        case 'X':
+          toggleAll();
+          break;
+        case 'a':
+          runAction('approve', targetIds());
+          break;
+        case 'r':
+          runAction('reject', targetIds());
+          break;
+        case '#':
+          requestDelete(targetIds());
+          break;
+        case 'Escape':
+          clearSelection();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [items, focusedId, pendingDelete, toggle, toggleAll, runAction, targetIds, requestDelete, clearSelection]);
+
+  return {
+    selectedIds,
+    allSelected,
+    focusedId,
+    setFocusedId,
+    toggle,
+    toggleAll,
+    clearSelection,
+    targetIds,
+    runAction,
+    isBusy,
+    canDelete,
+    pendingDelete,
+    requestDelete,
+    confirmDelete,
+    cancelDelete: () => setPendingDelete(null),
+  };
+}
+
+export type ModerationQueue = ReturnType<typeof useModerationQueue>;
@@ -0,0 +1,45 @@
+// Tests for the moderation service (`src/lib/moderation.ts`): the notifications and audit entries of
+// comment and story decisions name the moderator who made them. Runs against the in-memory seed data.
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { bulkModerateComments, bulkModerateStories, moderateCommentStatus, moderateStoryStatus } from '@/lib/moderation';
+import { createMemoryRepositories, Repositories, setRepositories } from '@/lib/repositories';
+
+let repositories: Repositories;
+
+beforeEach(() => {
+  repositories = createMemoryRepositories();
+  setRepositories(repositories);
+});
+
+// The notifications the writer of the seed comment and story received.
+const writerNotifications = () => repositories.notifications.listByUser('seed-editor', 10);
+
+describe('moderateCommentStatus', () => {
+  it('names the moderator on the writer\'s notification and the audit entry', async () => {
+    await moderateCommentStatus('seed-admin', 'seed-comment-2', 'approved');
+
+    expect(await writerNotifications()).toEqual([expect.objectContaining({ type: 'comment_status', actor_id: 'seed-admin' })]);
+    const [entry] = await repositories.audit.listByTarget('comment', 'seed-comment-2');
+    expect(entry).toMatchObject({ action: 'comment.status_changed', actor_id: 'seed-admin' });
+  });
+});
+
+describe('moderateStoryStatus', () => {
+  it('names the moderator on the writer\'s notification', async () => {
+    await moderateStoryStatus('seed-admin', 'seed-story-2', 'rejected');
+
+    expect(await writerNotifications()).toEqual([expect.objectContaining({ type: 'story_status', actor_id: 'seed-admin' })]);
+  });
+});
+
+describe('bulk actions', () => {
+  it('name the moderator on every notification', async () => {
+    await bulkModerateComments('seed-admin', ['seed-comment-2'], 'approve');
+    await bulkModerateStories('seed-admin', ['seed-story-2'], 'approve');
+
+    const notifications = await writerNotifications();
+    expect(notifications.map(n => n.type).sort()).toEqual(['comment_status', 'story_status']);
+    expect(notifications.every(n => n.actor_id === 'seed-admin')).toBe(true);
+  });
+});
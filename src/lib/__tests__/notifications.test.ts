@@ -0,0 +1,63 @@
+// Tests for where notifications lead and what their emails say (`src/lib/notifications`). Links are
+// written by whoever causes a notification, so the ones leading off the site must go nowhere.
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { notify, resolveNotificationLink, MAX_NOTIFICATION_BODY_LENGTH } from '@/lib/notifications';
+import { toEmailMessage } from '@/lib/notifications/email';
+import { createMemoryRepositories } from '@/lib/repositories';
+import { UserNotification } from '@/lib/types';
+
+const SITE = 'https://travonex.com';
+
+const notification = (link: string): UserNotification => ({
+  id: 'n1', user_id: 'seed-editor', type: 'review_note', title: 'New reply in a review', body: 'On "Hampi".',
+  link, read: false, email_status: 'pending', created_at: new Date(),
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveNotificationLink', () => {
+  it('resolves a path in the app', () => {
+    expect(resolveNotificationLink('/blog/admin/posts/edit/abc#review', SITE)?.href).toBe('https://travonex.com/blog/admin/posts/edit/abc#review');
+  });
+
+  it('keeps a path that looks like a host on the site', () => {
+    expect(resolveNotificationLink('@evil.example/phish', SITE)?.href).toBe('https://travonex.com/@evil.example/phish');
+  });
+
+  it.each([
+    '//evil.example/phish',
+    'https://evil.example/phish',
+    'javascript:alert(1)',
+    '/\\evil.example',
+  ])('drops %s', link => {
+    expect(resolveNotificationLink(link, SITE)).toBeNull();
+  });
+});
+
+describe('toEmailMessage', () => {
+  it('makes the link absolute with the site\'s URL', () => {
+    vi.stubEnv('NEXT_PUBLIC_BASE_URL', SITE);
+    expect(toEmailMessage(notification('/blog/hampi'), 'editor@example.com').text).toContain('Open it here: https://travonex.com/blog/hampi');
+  });
+
+  it('leaves out a link to another site', () => {
+    vi.stubEnv('NEXT_PUBLIC_BASE_URL', SITE);
+    const { text } = toEmailMessage(notification('//evil.example/phish'), 'editor@example.com');
+    expect(text).not.toContain('evil.example');
+    expect(text).not.toContain('Open it here');
+  });
+});
+
+describe('notify', () => {
+  it('shortens a long body', async () => {
+    const repositories = createMemoryRepositories();
+    await notify({ user_id: 'seed-editor', type: 'review_note', title: 'New reply in a review', body: 'a'.repeat(2000), link: '/blog' }, repositories);
+
+    const [stored] = await repositories.notifications.listByUser('seed-editor', 10);
+    expect(stored.body).toHaveLength(MAX_NOTIFICATION_BODY_LENGTH);
+    expect(stored.body.endsWith('…')).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+// Tests for the "Draft from notes" helper: how the notes drafter maps trip notes onto a title, sections,
+// tags and a category (`src/lib/post-drafts.ts`), and how `draftPost` (`src/ai/flows/draft-post.ts`)
+// picks a drafter, tidies its draft and falls back to the notes when the model fails.
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { draftPost } from '@/ai/flows/draft-post';
+import {
+  draftFromNotes, draftToMarkdown, normalizeDraft, notesDrafter, setPostDrafter, validateNotes, PostDraft, PostDrafter, MAX_NOTES_LENGTH,
+} from '@/lib/post-drafts';
+
+const CATEGORIES = ['Hill Stations', 'Beaches'];
+
+const NOTES = `Weekend in Coorg
+Day one:
+- drove from Bangalore, coffee estates everywhere
+- stayed at a coffee homestay near Madikeri
+Day two:
+- hiked to Abbey Falls early
+- misty coffee hills at sunrise`;
+
+// Stands in for the model, always answering with `draft`.
+const modelReturning = (draft: PostDraft) => ({ name: 'model', draft: vi.fn(async () => draft) } satisfies PostDrafter);
+
+afterEach(() => {
+  setPostDrafter(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('draftFromNotes', () => {
+  it('turns the first line into the title and the headed bullets into sections', () => {
+    expect(draftFromNotes({ notes: NOTES, categories: CATEGORIES })).toEqual({
+      title: 'Weekend in Coorg',
+      excerpt: 'Drove from Bangalore, coffee estates everywhere. Stayed at a coffee homestay near Madikeri.',
+      sections: [
+        { heading: 'Day one', body: 'Drove from Bangalore, coffee estates everywhere. Stayed at a coffee homestay near Madikeri.' },
+        { heading: 'Day two', body: 'Hiked to Abbey Falls early. Misty coffee hills at sunrise.' },
+      ],
+      tags: ['coffee', 'weekend', 'coorg', 'drove', 'bangalore'],
+      category: 'Hill Stations',
+      imageHint: 'coffee weekend',
+    });
+  });
+
+  it('titles notes without a title line after their first bullet', () => {
+    const draft = draftFromNotes({ notes: '- beach shacks in Gokarna\n- sunset at Om beach', categories: CATEGORIES });
+
+    expect(draft.title).toBe('Beach shacks in Gokarna');
+    expect(draft.sections).toEqual([{ heading: '', body: 'Beach shacks in Gokarna. Sunset at Om beach.' }]);
+    // "beach" isn't "beaches", so no category fits.
+    expect(draft.category).toBe('');
+  });
+
+  it('reads Markdown headings and numbered lists', () => {
+    const draft = draftFromNotes({ notes: 'Hampi on a budget\n# Getting there\n1) overnight bus to Hampi\n2. rented a scooter', categories: [] });
+
+    expect(draft.title).toBe('Hampi on a budget');
+    expect(draft.sections).toEqual([{ heading: 'Getting there', body: 'Overnight bus to Hampi. Rented a scooter.' }]);
+  });
+
+  it('drafts the same notes the same way every time', () => {
+    expect(draftFromNotes({ notes: NOTES, categories: CATEGORIES })).toEqual(draftFromNotes({ notes: NOTES, categories: CATEGORIES }));
+  });
+
+  it('keeps the excerpt short', () => {
+    const notes = Array.from({ length: 2 }, () => `- ${'a long winding road through the ghats '.repeat(8)}`).join('\n');
+    expect(draftFromNotes({ notes, categories: [] }).excerpt.length).toBeLessThanOrEqual(200);
+  });
+});
+
+describe('normalizeDraft', () => {
+  it('tidies the text, tags, category and image hint', () => {
+    const draft = normalizeDraft({
+      title: '  Monsoon in Munnar ',
+      excerpt: ' Tea and rain. ',
+      sections: [{ heading: ' Arrival ', body: ' We got in late. ' }, { heading: 'Empty', body: '   ' }],
+      tags: ['Tea Gardens', 'tea gardens', 'Kerala', 'rain', 'hills', 'monsoon', 'extra'],
+      category: ' hill stations ',
+      imageHint: 'Misty, green TEA hills!',
+    }, CATEGORIES);
+
+    expect(draft).toEqual({
+      title: 'Monsoon in Munnar',
+      excerpt: 'Tea and rain.',
+      sections: [{ heading: 'Arrival', body: 'We got in late.' }],
+      tags: ['tea-gardens', 'kerala', 'rain', 'hills', 'monsoon'],
+      category: 'Hill Stations',
+      imageHint: 'misty green',
+    });
+  });
+
+  it('drops a category that isn\'t a managed one', () => {
+    expect(normalizeDraft({ ...draftFromNotes({ notes: NOTES, categories: [] }), category: 'Deserts' }, CATEGORIES).category).toBe('');
+  });
+});
+
+describe('validateNotes', () => {
+  it('trims the notes', () => {
+    expect(validateNotes('  - Hampi  \n')).toBe('- Hampi');
+  });
+
+  it.each([
+    ['empty notes', '   ', 'Add some notes about your trip first.'],
+    ['notes that are too long', 'a'.repeat(MAX_NOTES_LENGTH + 1), `Notes can be at most ${MAX_NOTES_LENGTH} characters long.`],
+  ])('rejects %s', (_, notes, message) => {
+    expect(() => validateNotes(notes)).toThrow(message);
+  });
+});
+
+describe('draftToMarkdown', () => {
+  it('writes each section under its heading', () => {
+    expect(draftToMarkdown({ sections: [{ heading: '', body: 'Intro.' }, { heading: 'Day one', body: 'Hiked.' }] }))
+      .toBe('Intro.\n\n## Day one\n\nHiked.');
+  });
+});
+
+describe('draftPost', () => {
+  it('uses the registered drafter and tidies its draft', async () => {
+    const drafter = modelReturning({
+      title: ' A weekend in Coorg ', excerpt: 'Coffee country.', sections: [{ heading: 'Day one', body: 'Drove in.' }],
+      tags: ['Coffee Estates'], category: 'hill stations', imageHint: 'Coffee, hills',
+    });
+    setPostDrafter(drafter);
+
+    const { draft, source } = await draftPost({ notes: `  ${NOTES}  `, categories: CATEGORIES });
+
+    expect(source).toBe('model');
+    expect(drafter.draft).toHaveBeenCalledTimes(1);
+    expect(draft).toMatchObject({ title: 'A weekend in Coorg', tags: ['coffee-estates'], category: 'Hill Stations', imageHint: 'coffee hills' });
+  });
+
+  it('drafts from the notes when the drafter fails', async () => {
+    setPostDrafter({ name: 'model', draft: async () => { throw new Error('The model is down.'); } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { draft, source } = await draftPost({ notes: NOTES, categories: CATEGORIES });
+
+    expect(source).toBe('notes');
+    expect(draft).toEqual(draftFromNotes({ notes: NOTES, categories: CATEGORIES }));
+  });
+
+  it('uses the notes drafter without a model', async () => {
+    vi.stubEnv('POST_DRAFTER', 'notes');
+
+    const { draft, source } = await draftPost({ notes: NOTES, categories: CATEGORIES });
+
+    expect(source).toBe('notes');
+    expect(draft).toEqual(await notesDrafter.draft({ notes: NOTES, categories: CATEGORIES }));
+  });
+
+  it('rejects empty notes before drafting', async () => {
+    const drafter = modelReturning(draftFromNotes({ notes: NOTES, categories: [] }));
+    setPostDrafter(drafter);
+
+    await expect(draftPost({ notes: ' ', categories: CATEGORIES })).rejects.toThrow('Add some notes about your trip first.');
+    expect(drafter.draft).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+// Tests for the sanitizers in `src/lib/sanitize.ts` and the Markdown sanitizing in `src/lib/content.ts`:
+// the usual ways of sneaking script into a page must come out harmless.
+
+import { describe, expect, it } from 'vitest';
+import { isSafeUrl, sanitizeHtml, sanitizeHtmlTag, sanitizePlainText } from '@/lib/sanitize';
+import { contentToHtml, sanitizeMarkdown } from '@/lib/content';
+
+// Whether some HTML could run script: event handlers, script-bearing tags or unsafe URLs.
+function isExecutable(html: string): boolean {
+  return /<script|<svg|<object|<embed|srcdoc|\son\w+\s*=|javascript:|vbscript:|data:/i.test(html);
+}
+
+describe('sanitizeHtml', () => {
+  it('keeps ordinary post markup', () => {
+    const html = '<h2>Day one</h2><p>We walked <strong>far</strong>.</p><img src="https://example.com/a.jpg" alt="A" />';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it.each([
+    ['an image error handler', '<img src="x" onerror="alert(1)">'],
+    ['a script tag', '<p>Hi</p><script>alert(1)</script>'],
+    ['a script inside SVG', '<svg><script>alert(1)</script></svg>'],
+    ['an SVG load handler', '<svg onload="alert(1)"></svg>'],
+    ['an iframe with inline content', '<iframe srcdoc="<script>alert(1)</script>"></iframe>'],
+    ['a javascript: link', '<a href="javascript:alert(1)">Click</a>'],
+    ['an entity-encoded javascript: link', '<a href="&#106;avascript&#58;alert(1)">Click</a>'],
+    ['a javascript: link with a tab in the scheme', '<a href="java\tscript:alert(1)">Click</a>'],
+    ['a data: image', '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">'],
+    ['a data: link', '<a href="data:text/html,<script>alert(1)</script>">Click</a>'],
+    ['an object', '<object data="https://evil.example/x.swf"></object>'],
+    ['a style attribute', '<p style="background:url(javascript:alert(1))">Hi</p>'],
+  ])('removes %s', (_, html) => {
+    expect(isExecutable(sanitizeHtml(html))).toBe(false);
+  });
+
+  it('only keeps iframes of the supported embed players', () => {
+    const youtube = '<iframe src="https://www.youtube-nocookie.com/embed/abc"></iframe>';
+    expect(sanitizeHtml(youtube)).toBe(youtube);
+    expect(sanitizeHtml('<iframe src="https://evil.example/embed"></iframe>')).toBe('');
+    expect(sanitizeHtml('<iframe src="http://player.vimeo.com/video/1"></iframe>')).toBe('');
+  });
+
+  it('makes links nofollow and cuts them off from the opening page', () => {
+    expect(sanitizeHtml('<a href="https://example.com" rel="opener">x</a>'))
+      .toBe('<a href="https://example.com" rel="nofollow ugc noopener noreferrer">x</a>');
+  });
+});
+
+describe('sanitizeHtmlTag', () => {
+  it('keeps allowed tags and drops the rest', () => {
+    expect(sanitizeHtmlTag('<u>')).toBe('<u>');
+    expect(sanitizeHtmlTag('</u>')).toBe('</u>');
+    expect(sanitizeHtmlTag('<script>')).toBe('');
+    expect(sanitizeHtmlTag('</script>')).toBe('');
+  });
+
+  it('drops event handlers from allowed tags', () => {
+    expect(sanitizeHtmlTag('<img src="x" onerror="alert(1)">')).toBe('<img src="x" />');
+  });
+});
+
+describe('sanitizePlainText', () => {
+  it('removes every tag and keeps the text', () => {
+    expect(sanitizePlainText('Lovely <b>trip</b><script>alert(1)</script> & view')).toBe('Lovely trip & view');
+  });
+});
+
+describe('isSafeUrl', () => {
+  it.each([
+    'https://example.com',
+    'http://example.com',
+    'mailto:hello@example.com',
+    '/blog/some-post',
+    '#section',
+  ])('accepts %s', url => {
+    expect(isSafeUrl(url)).toBe(true);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    ' javascript:alert(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    'vbscript:msgbox(1)',
+    'data:text/html,<script>alert(1)</script>',
+    '//evil.example/x',
+  ])('rejects %j', url => {
+    expect(isSafeUrl(url)).toBe(false);
+  });
+});
+
+describe('sanitizeMarkdown', () => {
+  it('leaves safe Markdown exactly as written', () => {
+    const source = '# Day one\n\nWe walked **far**, see [the map](https://example.com).\n\n![Camp](https://example.com/c.jpg)\n';
+    expect(sanitizeMarkdown(source)).toBe(source);
+  });
+
+  it('drops the URL of unsafe links and images but keeps their text', () => {
+    expect(sanitizeMarkdown('See [this](javascript:alert(1)) now')).toBe('See this now');
+    expect(sanitizeMarkdown('![A camp](data:image/svg+xml;base64,PHN2Zz4=)')).toBe('A camp');
+  });
+
+  it('cleans inline and block HTML', () => {
+    expect(sanitizeMarkdown('Hello <img src="x" onerror="alert(1)"> there')).not.toMatch(/onerror/);
+    expect(isExecutable(sanitizeMarkdown('<div>\n<svg><script>alert(1)</script></svg>\n</div>\n'))).toBe(false);
+    expect(isExecutable(sanitizeMarkdown('<iframe srcdoc="<script>alert(1)</script>"></iframe>\n'))).toBe(false);
+  });
+
+  it('removes embeds with an unsafe URL', () => {
+    expect(sanitizeMarkdown('Before\n\n@[Watch](javascript:alert%281%29)\n\nAfter')).toBe('Before\n\nAfter');
+  });
+});
+
+describe('contentToHtml', () => {
+  it('turns supported embeds into players', () => {
+    expect(contentToHtml('@[Our hike](https://www.youtube.com/watch?v=abc123)'))
+      .toContain('<iframe src="https://www.youtube-nocookie.com/embed/abc123" title="Our hike"');
+  });
+
+  it.each([
+    'https://www.google.com/maps/embed?pb=abc',
+    'https://google.com/maps/embed?pb=abc',
+  ])('turns the map %s into a player', url => {
+    expect(contentToHtml(`@[Map](${url})`)).toContain('<iframe src="https://www.google.com/maps/embed?pb=abc" title="Map"');
+  });
+
+  it('renders other embeds as escaped links', () => {
+    const html = contentToHtml('@["><script>alert(1)</script>](https://evil.example/x)');
+    expect(html).not.toMatch(/<script|<iframe/);
+    expect(html).toContain('href="https://evil.example/x"');
+  });
+
+  it('never renders unsafe URLs, whatever the source', () => {
+    expect(isExecutable(contentToHtml('[x](javascript:alert(1))'))).toBe(false);
+    expect(isExecutable(contentToHtml('<a href="&#x6A;avascript:alert(1)">x</a>', 'html'))).toBe(false);
+    expect(isExecutable(contentToHtml('<img src=x onerror=alert(1)>'))).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+// Tests for automated moderation of new submissions (`src/lib/screening.ts`): what gets screened, when
+// low-risk comments and stories are approved, and that a client can't slip in its own assessment.
+// The classifier is replaced by a keyword check on "casino".
+
+import { afterEach, beforeEach, describe, expect, it, vi, Mock } from 'vitest';
+import { assessContent, ContentClassifier, ModerationScores, setContentClassifier } from '@/lib/auto-moderation';
+import { addComment, addPost, addStory, updatePost } from '@/lib/firestore';
+import { createMemoryRepositories, Repositories, setRepositories } from '@/lib/repositories';
+import { Assess, screenSubmission } from '@/lib/screening';
+import { ModerationAssessment } from '@/lib/types';
+
+const LOW: ModerationScores = { spam: 0.1, toxicity: 0, off_topic: 0 };
+const HIGH: ModerationScores = { spam: 0.9, toxicity: 0, off_topic: 0 };
+
+// Scores anything mentioning "casino" as spam and everything else as fine.
+const classifyByKeyword: ContentClassifier['classify'] = async input => {
+  const spam = input.text.includes('casino');
+  return { scores: spam ? HIGH : LOW, reasons: spam ? ['Mentions a casino.'] : [] };
+};
+
+const assessment = (scores: ModerationScores): ModerationAssessment => ({ risk: 'low', scores, reasons: [], source: 'model' });
+
+let repositories: Repositories;
+let classifier: ContentClassifier & { classify: Mock<ContentClassifier['classify']> };
+
+beforeEach(() => {
+  repositories = createMemoryRepositories();
+  setRepositories(repositories);
+  classifier = { name: 'model', classify: vi.fn(classifyByKeyword) };
+  setContentClassifier(classifier);
+});
+
+afterEach(() => {
+  setContentClassifier(null);
+  vi.restoreAllMocks();
+});
+
+describe('addComment', () => {
+  it('approves a low-risk comment straight away and tells its writer and the post author', async () => {
+    const { id, status } = await addComment({
+      postId: 'seed-post-hampi', userId: 'seed-editor', comment_text: 'Lovely ruins, thanks for the tips.', status: 'pending', created_at: new Date(),
+    });
+
+    expect(status).toBe('approved');
+    const comment = await repositories.comments.get(id);
+    expect(comment?.status).toBe('approved');
+    expect(comment?.moderation).toMatchObject({ risk: 'low', source: 'model' });
+
+    const [writer] = await repositories.notifications.listByUser('seed-editor', 10);
+    expect(writer).toMatchObject({ type: 'comment_status', title: 'Your comment was approved' });
+    const [author] = await repositories.notifications.listByUser('seed-user', 10);
+    expect(author).toMatchObject({ type: 'new_comment', actor_id: 'seed-editor' });
+  });
+
+  it('keeps a high-risk comment waiting, flagged with the reasons', async () => {
+    const { id, status } = await addComment({
+      postId: 'seed-post-hampi', userId: 'seed-editor', comment_text: 'Best casino deals here.', status: 'pending', created_at: new Date(),
+    });
+
+    expect(status).toBe('pending');
+    const comment = await repositories.comments.get(id);
+    expect(comment?.status).toBe('pending');
+    expect(comment?.moderation).toMatchObject({ risk: 'high', reasons: ['Mentions a casino.'] });
+    expect(await repositories.notifications.listByUser('seed-editor', 10)).toEqual([]);
+  });
+
+  it('ignores an assessment sent with the comment', async () => {
+    const { id, status } = await addComment({
+      postId: 'seed-post-hampi', userId: 'seed-editor', comment_text: 'Best casino deals here.', status: 'pending', created_at: new Date(),
+      moderation: assessment(LOW),
+    });
+
+    expect(status).toBe('pending');
+    expect((await repositories.comments.get(id))?.moderation?.risk).toBe('high');
+  });
+
+  it('falls back to the rules when the classifier fails', async () => {
+    setContentClassifier({ name: 'model', classify: async () => { throw new Error('The model is down.'); } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // The rules take over, and find nothing wrong with a plain comment.
+    const { id } = await addComment({
+      postId: 'seed-post-hampi', userId: 'seed-editor', comment_text: 'Lovely ruins.', status: 'pending', created_at: new Date(),
+    });
+    expect((await repositories.comments.get(id))?.moderation?.source).toBe('rules');
+  });
+});
+
+describe('addStory', () => {
+  it('screens the gallery captions with the text', async () => {
+    const { id, status } = await addStory({
+      postId: 'seed-post-gokarna', userId: 'seed-editor', story_text: 'We went back in March.', status: 'pending', created_at: new Date(),
+      gallery: [{
+        image: {
+          thumbnail: { url: 'https://example.com/t.jpg', width: 320, height: 240 },
+          card: { url: 'https://example.com/c.jpg', width: 800, height: 600 },
+          hero: { url: 'https://example.com/h.jpg', width: 1600, height: 1200 },
+          blur_data_url: '',
+        },
+        caption: 'The casino by the beach',
+        alt: 'A building by the sea',
+      }],
+    });
+
+    expect(status).toBe('pending');
+    expect((await repositories.stories.get(id))?.moderation?.risk).toBe('high');
+  });
+});
+
+describe('posts', () => {
+  it('screens a post submitted for review but never publishes it', async () => {
+    const id = await addPost({
+      title: 'Three days in Hampi', content: 'Boulders and temples.', content_format: 'markdown', excerpt: '', author_id: 'seed-user',
+      status: 'pending', featuredImgUrl: '', imageHint: '', category: '', tags: [], created_at: new Date(), updated_at: new Date(),
+    });
+
+    const post = await repositories.posts.get(id);
+    expect(post?.status).toBe('pending');
+    expect(post?.moderation?.risk).toBe('low');
+  });
+
+  it('does not screen drafts', async () => {
+    const id = await addPost({
+      title: 'Three days in Hampi', content: 'Boulders and temples.', content_format: 'markdown', excerpt: '', author_id: 'seed-user',
+      status: 'draft', featuredImgUrl: '', imageHint: '', category: '', tags: [], created_at: new Date(), updated_at: new Date(),
+    });
+
+    expect((await repositories.posts.get(id))?.moderation).toBeUndefined();
+    expect(classifier.classify).not.toHaveBeenCalled();
+  });
+
+  it('screens a resubmitted post again', async () => {
+    await repositories.posts.update('seed-post-spiti', { status: 'changes_requested', moderation: assessment(LOW) });
+
+    await updatePost('seed-post-spiti', { content: 'Now with a casino guide.', status: 'pending' });
+
+    expect((await repositories.posts.get('seed-post-spiti'))?.moderation?.risk).toBe('high');
+  });
+});
+
+describe('screenSubmission', () => {
+  const assess: Assess = input => assessContent(input, classifier);
+
+  it('only screens pending submissions', async () => {
+    // `seed-comment-1` is already approved.
+    expect(await screenSubmission(repositories, 'comment', 'seed-comment-1', assess)).toBe(false);
+    expect((await repositories.comments.get('seed-comment-1'))?.moderation).toBeUndefined();
+    expect(classifier.classify).not.toHaveBeenCalled();
+  });
+
+  it('screens a submission once', async () => {
+    expect(await screenSubmission(repositories, 'story', 'seed-story-2', assess)).toBe(true);
+    // It is approved now, and asking again changes nothing.
+    expect(await screenSubmission(repositories, 'story', 'seed-story-2', assess)).toBe(false);
+    expect(classifier.classify).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves an assessed submission alone', async () => {
+    await repositories.comments.update('seed-comment-2', { moderation: { ...assessment(HIGH), risk: 'high' } });
+
+    expect(await screenSubmission(repositories, 'comment', 'seed-comment-2', assess)).toBe(false);
+    expect((await repositories.comments.get('seed-comment-2'))?.status).toBe('pending');
+    expect(classifier.classify).not.toHaveBeenCalled();
+  });
+
+  it('does nothing for a missing submission', async () => {
+    expect(await screenSubmission(repositories, 'post', 'no-such-post', assess)).toBe(false);
+  });
+});
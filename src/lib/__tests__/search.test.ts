@@ -0,0 +1,49 @@
+// Tests for which posts the blog search finds (`src/lib/search`): posts scheduled for later stay out
+// of the results until they go live, like everywhere else on the blog.
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { publishDuePosts, updatePost } from '@/lib/firestore';
+import { createMemoryRepositories, Repositories, setRepositories } from '@/lib/repositories';
+import { searchPosts } from '@/lib/search';
+import { clearCachedIndex } from '@/lib/search/query';
+
+const NEXT_YEAR = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+let repositories: Repositories;
+
+beforeEach(() => {
+  repositories = createMemoryRepositories();
+  setRepositories(repositories);
+  clearCachedIndex();
+});
+
+const found = async (query: string) => (await searchPosts(query)).map(result => result.post.id);
+
+describe('searchPosts', () => {
+  it('finds published posts', async () => {
+    expect(await found('coorg')).toContain('seed-post-coorg');
+  });
+
+  it('leaves out a published post whose publish time is still to come', async () => {
+    await updatePost('seed-post-coorg', { publish_at: NEXT_YEAR });
+
+    expect(await found('coorg')).not.toContain('seed-post-coorg');
+    expect((await repositories.searchIndex.list()).map(doc => doc.id)).not.toContain('seed-post-coorg');
+  });
+
+  it('leaves out a post scheduled after the index was loaded', async () => {
+    await found('coorg');
+    // Changed behind the app's back, so the cached index still has the post.
+    await repositories.posts.update('seed-post-coorg', { publish_at: NEXT_YEAR });
+
+    expect(await found('coorg')).not.toContain('seed-post-coorg');
+  });
+
+  it('finds the post once the scheduler sees it has gone live', async () => {
+    await updatePost('seed-post-coorg', { publish_at: NEXT_YEAR });
+
+    await publishDuePosts(new Date(NEXT_YEAR.getTime() + 1000));
+
+    expect((await repositories.searchIndex.list()).map(doc => doc.id)).toContain('seed-post-coorg');
+  });
+});
@@ -0,0 +1,80 @@
+// This file helps read the audit log: the append-only record of every moderation and admin action,
+// shown at `/blog/admin/audit`. Entries are written by the moderation service (`./moderation.ts`) and
+// the user management functions in `./firestore.ts`; here they are filtered and exported as CSV.
+
+import { AuditEntry, AuditTargetType } from './types';
+
+// The actions that are recorded, with how the audit log page names them.
+export const AUDIT_ACTIONS: Record<string, string> = {
+  'post.status_changed': 'Post status changed',
+  'post.reviewed': 'Post reviewed',
+  'post.scheduled': 'Post scheduled',
+  'post.deleted': 'Post deleted',
+  'comment.status_changed': 'Comment status changed',
+  'comment.deleted': 'Comment deleted',
+  'story.status_changed': 'Story status changed',
+  'story.deleted': 'Story deleted',
+  'user.role_changed': 'Role changed',
+  'user.suspended': 'User suspended',
+  'user.banned': 'User banned',
+  'user.reinstated': 'User reinstated',
+  'user.restored': 'Account restored',
+  'user.deleted': 'Account deleted',
+};
+
+// How the audit log page names an action. Unknown actions are shown as recorded.
+export function auditActionLabel(action: string): string {
+  return AUDIT_ACTIONS[action] ?? action;
+}
+
+// What the audit log page filters by. Every filter is optional.
+export type AuditFilters = {
+  targetType?: AuditTargetType;
+  action?: string;
+  actorId?: string;
+  // The first and last day to include, inclusive.
+  from?: Date;
+  to?: Date;
+  // Matched against the summary, the reason and the target's ID, ignoring case.
+  search?: string;
+};
+
+// Returns the entries matching every filter, in their original order.
+export function filterAuditEntries(entries: AuditEntry[], filters: AuditFilters): AuditEntry[] {
+  const search = filters.search?.trim().toLowerCase();
+  // `to` is a day, so include everything up to its end.
+  const to = filters.to && new Date(filters.to.getFullYear(), filters.to.getMonth(), filters.to.getDate() + 1);
+  return entries.filter(entry =>
+    (!filters.targetType || entry.target_type === filters.targetType)
+    && (!filters.action || entry.action === filters.action)
+    && (!filters.actorId || entry.actor_id === filters.actorId)
+    && (!filters.from || entry.created_at.getTime() >= filters.from.getTime())
+    && (!to || entry.created_at.getTime() < to.getTime())
+    && (!search || [entry.summary, entry.reason ?? '', entry.target_id].some(text => text.toLowerCase().includes(search)))
+  );
+}
+
+// Quotes a CSV field when needed. Fields starting like a formula are prefixed with `'`, so a
+// spreadsheet opening the export shows them as text instead of running them.
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Turns audit entries into a CSV file, one row per entry. `actorName` names the user who acted.
+export function auditEntriesToCsv(entries: AuditEntry[], actorName: (actorId: string) => string): string {
+  const header = ['Time', 'Actor ID', 'Actor', 'Action', 'Target Type', 'Target ID', 'Summary', 'Reason', 'Before', 'After'];
+  const rows = entries.map(entry => [
+    entry.created_at.toISOString(),
+    entry.actor_id,
+    actorName(entry.actor_id),
+    entry.action,
+    entry.target_type,
+    entry.target_id,
+    entry.summary,
+    entry.reason ?? '',
+    entry.before ? JSON.stringify(entry.before) : '',
+    entry.after ? JSON.stringify(entry.after) : '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+}
@@ -0,0 +1,62 @@
+// Tests for which roles may open which protected pages (`src/lib/auth/routes.ts`), the table the
+// middleware enforces.
+
+import { describe, expect, it } from 'vitest';
+import { allowedRoles, homeFor, Role } from '@/lib/auth/routes';
+
+// Every protected page and public page the middleware has to tell apart, with who may open it.
+const MATRIX: [string, Role[] | null][] = [
+  ['/dashboard', ['user', 'editor', 'admin']],
+  ['/dashboard/submit', ['user', 'editor', 'admin']],
+  ['/dashboard/posts/edit/abc', ['user', 'editor', 'admin']],
+  ['/blog/admin', ['admin', 'editor']],
+  ['/blog/admin/posts', ['admin', 'editor']],
+  ['/blog/admin/posts/edit/abc', ['admin', 'editor']],
+  ['/blog/admin/comments', ['admin', 'editor']],
+  ['/blog/admin/stories', ['admin', 'editor']],
+  ['/blog/admin/taxonomy', ['admin', 'editor']],
+  ['/blog/admin/users', ['admin']],
+  ['/blog/admin/users/abc', ['admin']],
+  ['/blog/admin/audit', ['admin']],
+  ['/', null],
+  ['/blog', null],
+  ['/blog/some-post', null],
+  ['/login', null],
+  // Only whole path segments count.
+  ['/dashboards', null],
+  ['/blog/administration', null],
+];
+
+describe('allowedRoles', () => {
+  it.each(MATRIX)('%s', (pathname, roles) => {
+    expect(allowedRoles(pathname)).toEqual(roles);
+  });
+
+  it('keeps editors out of the admin-only sections', () => {
+    expect(allowedRoles('/blog/admin/users')).not.toContain('editor');
+    expect(allowedRoles('/blog/admin/audit')).not.toContain('editor');
+  });
+
+  it('keeps ordinary users out of the whole admin area', () => {
+    const adminPages = MATRIX.map(([pathname]) => pathname).filter(pathname => pathname === '/blog/admin' || pathname.startsWith('/blog/admin/'));
+    for (const pathname of adminPages) {
+      expect(allowedRoles(pathname)).not.toContain('user');
+    }
+  });
+});
+
+describe('homeFor', () => {
+  it.each([
+    ['admin', '/blog/admin'],
+    ['editor', '/blog/admin'],
+    ['user', '/dashboard'],
+  ] as [Role, string][])('sends a %s to %s', (role, home) => {
+    expect(homeFor(role)).toBe(home);
+  });
+
+  it('sends every role somewhere it may go', () => {
+    for (const role of ['admin', 'editor', 'user'] as Role[]) {
+      expect(allowedRoles(homeFor(role))).toContain(role);
+    }
+  });
+});
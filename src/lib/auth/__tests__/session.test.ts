@@ -0,0 +1,88 @@
+// Tests for the session cookie (`src/lib/auth/session.ts`) and the checks made on the ID tokens it is
+// exchanged for (`src/lib/auth/id-token.ts`). No token here is signed by Google, so nothing goes online.
+
+import { describe, expect, it } from 'vitest';
+import { firebaseIdTokenVerifier, localIdTokenVerifier } from '@/lib/auth/id-token';
+import { signSession, verifySession, SESSION_MAX_AGE } from '@/lib/auth/session';
+
+const SECRET = 'test-session-secret';
+const NOW = new Date('2025-01-01T12:00:00Z');
+
+// An unsigned ID token with the given header and payload.
+function idToken(payload: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256', kid: 'test' }): string {
+  const encode = (part: Record<string, unknown>) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  return `${encode(header)}.${encode(payload)}.signature`;
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 60 * 60;
+
+describe('signSession and verifySession', () => {
+  it('reads back what was signed', async () => {
+    const cookie = await signSession({ uid: 'seed-admin', email: 'admin@example.com', role: 'admin' }, SECRET, NOW);
+    expect(await verifySession(cookie, SECRET, NOW)).toEqual({
+      uid: 'seed-admin', email: 'admin@example.com', role: 'admin', exp: NOW.getTime() / 1000 + SESSION_MAX_AGE,
+    });
+  });
+
+  it('rejects a session once it has expired', async () => {
+    const cookie = await signSession({ uid: 'seed-user', role: 'user' }, SECRET, NOW);
+    const justBefore = new Date(NOW.getTime() + SESSION_MAX_AGE * 1000 - 1000);
+    const expiry = new Date(NOW.getTime() + SESSION_MAX_AGE * 1000);
+    expect(await verifySession(cookie, SECRET, justBefore)).not.toBeNull();
+    expect(await verifySession(cookie, SECRET, expiry)).toBeNull();
+  });
+
+  it('rejects a session signed with another key', async () => {
+    const cookie = await signSession({ uid: 'seed-user', role: 'user' }, 'another-secret', NOW);
+    expect(await verifySession(cookie, SECRET, NOW)).toBeNull();
+  });
+
+  it('rejects a session whose claims were changed', async () => {
+    const cookie = await signSession({ uid: 'seed-user', role: 'user' }, SECRET, NOW);
+    const [payload, signature] = cookie.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: 'admin' })).toString('base64url');
+    expect(await verifySession(`${forged}.${signature}`, SECRET, NOW)).toBeNull();
+  });
+
+  it.each([
+    ['no cookie', undefined],
+    ['an empty cookie', ''],
+    ['a cookie without a signature', 'abc'],
+    ['a cookie with too many parts', 'a.b.c'],
+    ['a cookie that is not base64', '***.***'],
+  ])('rejects %s', async (_, cookie) => {
+    expect(await verifySession(cookie, SECRET, NOW)).toBeNull();
+  });
+});
+
+describe('localIdTokenVerifier', () => {
+  it('reads the user from a token', async () => {
+    await expect(localIdTokenVerifier.verify(idToken({ sub: 'seed-user', email: 'user@example.com', exp: inAnHour() })))
+      .resolves.toEqual({ uid: 'seed-user', email: 'user@example.com' });
+  });
+
+  it.each([
+    ['a malformed token', 'not-a-token', 'The ID token is malformed.'],
+    ['a token that is not JSON', 'a.b.c', 'The ID token is malformed.'],
+    ['a token without a user', idToken({ exp: inAnHour() }), 'The ID token has no user.'],
+    ['an expired token', idToken({ sub: 'seed-user', exp: Math.floor(Date.now() / 1000) - 1 }), 'The ID token has expired.'],
+    ['a token without an expiry', idToken({ sub: 'seed-user' }), 'The ID token has expired.'],
+  ])('rejects %s', async (_, token, message) => {
+    await expect(localIdTokenVerifier.verify(token)).rejects.toThrow(message);
+  });
+});
+
+describe('firebaseIdTokenVerifier', () => {
+  it.each([
+    ['unsigned', { alg: 'none' }],
+    ['signed with a shared key', { alg: 'HS256', kid: 'test' }],
+  ])('rejects a token that is %s before looking up any key', async (_, header) => {
+    const token = idToken({ sub: 'seed-admin', exp: inAnHour() }, header);
+    await expect(firebaseIdTokenVerifier.verify(token)).rejects.toThrow('The ID token is not signed the way Firebase signs tokens.');
+  });
+
+  it('rejects a malformed token', async () => {
+    await expect(firebaseIdTokenVerifier.verify('not-a-token')).rejects.toThrow('The ID token is malformed.');
+  });
+});
@@ -0,0 +1,127 @@
+// This file checks the Firebase ID tokens the browser exchanges for a session cookie at `POST /api/session`.
+//
+// Choose the verifier with `AUTH_TOKEN_VERIFIER` in `.env.local`:
+//   - `firebase` (default): checks the token's signature against Google's public keys, and that it was
+//     issued for this Firebase project (`NEXT_PUBLIC_FIREBASE_PROJECT_ID`) and hasn't expired.
+//   - `local`: only reads the token, without checking its signature. It is a stand-in for tests and the
+//     Firebase Auth emulator (whose tokens aren't signed), and refuses to run in production.
+// Tests can also register their own with `setIdTokenVerifier`.
+
+// Who an ID token belongs to.
+export type VerifiedIdToken = {
+  uid: string;
+  email?: string;
+};
+
+// Checks an ID token. `verify` rejects when the token isn't valid.
+export interface IdTokenVerifier {
+  name: string;
+  verify(idToken: string): Promise<VerifiedIdToken>;
+}
+
+// Where Google publishes the keys Firebase ID tokens are signed with.
+const GOOGLE_KEYS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+// How long the keys are kept before they are fetched again, in milliseconds. Google rotates them every few days.
+const KEYS_CACHE_TIME = 60 * 60 * 1000;
+
+type TokenHeader = { alg?: string; kid?: string };
+type TokenPayload = { sub?: string; email?: string; aud?: string; iss?: string; exp?: number; iat?: number };
+
+function decodePart<T>(part: string): T {
+  const binary = atob(part.replace(/-/g, '+').replace(/_/g, '/'));
+  return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))) as T;
+}
+
+// Splits a token into its parts and reads its header and payload.
+function decodeToken(idToken: string): { header: TokenHeader; payload: TokenPayload; parts: string[] } {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new Error('The ID token is malformed.');
+  }
+  try {
+    return { header: decodePart<TokenHeader>(parts[0]), payload: decodePart<TokenPayload>(parts[1]), parts };
+  } catch {
+    throw new Error('The ID token is malformed.');
+  }
+}
+
+// The checks every verifier makes on the token's contents.
+function toVerifiedToken(payload: TokenPayload, now = Date.now()): VerifiedIdToken {
+  if (!payload.sub) {
+    throw new Error('The ID token has no user.');
+  }
+  if (!payload.exp || payload.exp * 1000 <= now) {
+    throw new Error('The ID token has expired.');
+  }
+  return { uid: payload.sub, ...(payload.email && { email: payload.email }) };
+}
+
+let cachedKeys: { keys: (JsonWebKey & { kid?: string })[]; fetchedAt: number } | null = null;
+
+async function getGoogleKeys(): Promise<(JsonWebKey & { kid?: string })[]> {
+  if (!cachedKeys || Date.now() - cachedKeys.fetchedAt > KEYS_CACHE_TIME) {
+    const response = await fetch(GOOGLE_KEYS_URL);
+    if (!response.ok) {
+      throw new Error(`Could not fetch the keys to check ID tokens (${response.status}).`);
+    }
+    cachedKeys = { keys: (await response.json()).keys, fetchedAt: Date.now() };
+  }
+  return cachedKeys.keys;
+}
+
+export const firebaseIdTokenVerifier: IdTokenVerifier = {
+  name: 'firebase',
+  async verify(idToken) {
+    const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+    if (!projectId) {
+      throw new Error('NEXT_PUBLIC_FIREBASE_PROJECT_ID must be set to check ID tokens.');
+    }
+    const { header, payload, parts } = decodeToken(idToken);
+    if (header.alg !== 'RS256') {
+      throw new Error('The ID token is not signed the way Firebase signs tokens.');
+    }
+    const jwk = (await getGoogleKeys()).find(key => key.kid === header.kid);
+    if (!jwk) {
+      throw new Error('The ID token was signed with an unknown key.');
+    }
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    const signature = Uint8Array.from(atob(parts[2].replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+    const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, new TextEncoder().encode(`${parts[0]}.${parts[1]}`));
+    if (!valid) {
+      throw new Error('The ID token signature is invalid.');
+    }
+    if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+      throw new Error('The ID token was issued for another project.');
+    }
+    if (!payload.iat || payload.iat * 1000 > Date.now() + 60 * 1000) {
+      throw new Error('The ID token was issued in the future.');
+    }
+    return toVerifiedToken(payload);
+  },
+};
+
+export const localIdTokenVerifier: IdTokenVerifier = {
+  name: 'local',
+  async verify(idToken) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The local ID token verifier must not be used in production.');
+    }
+    return toVerifiedToken(decodeToken(idToken).payload);
+  },
+};
+
+let verifier: IdTokenVerifier | null = null;
+
+// Returns the registered verifier, or the one selected by `AUTH_TOKEN_VERIFIER`.
+export function getIdTokenVerifier(): IdTokenVerifier {
+  if (!verifier) {
+    verifier = process.env.AUTH_TOKEN_VERIFIER === 'local' ? localIdTokenVerifier : firebaseIdTokenVerifier;
+  }
+  return verifier;
+}
+
+// Replaces the verifier used to check ID tokens.
+export function setIdTokenVerifier(next: IdTokenVerifier): void {
+  verifier = next;
+}
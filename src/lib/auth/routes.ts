@@ -0,0 +1,43 @@
+// This file lists which roles may open which protected pages. The middleware enforces it on the
+// server, and the admin sidebar uses the same list to decide which links to show, so the two can't drift.
+
+import { User } from '../types';
+
+export type Role = User['role'];
+
+// The sections of the admin area, with the roles allowed in each. A section covers every page below
+// its path, e.g. `/blog/admin/posts` also covers `/blog/admin/posts/edit/[id]`.
+export const ADMIN_NAV_ITEMS: { href: string; label: string; roles: Role[] }[] = [
+  { href: '/blog/admin', label: 'Dashboard', roles: ['admin', 'editor'] },
+  { href: '/blog/admin/posts', label: 'Posts', roles: ['admin', 'editor'] },
+  { href: '/blog/admin/comments', label: 'Comments', roles: ['admin', 'editor'] },
+  { href: '/blog/admin/stories', label: 'Stories', roles: ['admin', 'editor'] },
+  { href: '/blog/admin/taxonomy', label: 'Taxonomy', roles: ['admin', 'editor'] },
+  { href: '/blog/admin/users', label: 'Users', roles: ['admin'] }, // Only admins can see this.
+  { href: '/blog/admin/audit', label: 'Audit Log', roles: ['admin'] },
+];
+
+// Any logged-in user may use their own dashboard.
+const DASHBOARD_ROLES: Role[] = ['user', 'editor', 'admin'];
+
+// Whether `pathname` is `base` or a page below it.
+function isWithin(pathname: string, base: string): boolean {
+  return pathname === base || pathname.startsWith(`${base}/`);
+}
+
+// Returns the roles allowed to open a page, or null for public pages.
+export function allowedRoles(pathname: string): Role[] | null {
+  // The most specific section wins, so `/blog/admin/users` isn't covered by `/blog/admin`.
+  const section = ADMIN_NAV_ITEMS
+    .filter(item => isWithin(pathname, item.href))
+    .sort((a, b) => b.href.length - a.href.length)[0];
+  if (section) {
+    return section.roles;
+  }
+  return isWithin(pathname, '/dashboard') ? DASHBOARD_ROLES : null;
+}
+
+// Where to send a logged-in user who opened a page their role doesn't allow.
+export function homeFor(role: Role): string {
+  return ADMIN_NAV_ITEMS[0].roles.includes(role) ? ADMIN_NAV_ITEMS[0].href : '/dashboard';
+}
@@ -0,0 +1,94 @@
+// This file creates and checks the session cookie that lets the server know who is logged in.
+//
+// Firebase Authentication runs in the browser, so on its own the server can't tell who is asking for a
+// page. After logging in, the browser sends its Firebase ID token to `POST /api/session`, which checks
+// the token (see `./id-token.ts`), looks up the user's role and sets the session cookie made here. The
+// middleware (`src/middleware.ts`) checks the cookie on every request to `/dashboard` and `/blog/admin`.
+//
+// The cookie holds the user's ID, email and role, signed with HMAC-SHA256 using `SESSION_SECRET`, so it
+// can be checked without calling Firebase. It only uses the Web Crypto API, which the middleware's edge
+// runtime provides as well as Node.
+
+import { User } from '../types';
+
+// The name of the cookie. Firebase Hosting only forwards a cookie with this name to the app.
+export const SESSION_COOKIE = '__session';
+
+// How long a session lasts, in seconds. The cookie can't be taken back once issued, so it is kept short:
+// a user who is blocked, or loses their role, keeps the old one for an hour at most.
+export const SESSION_MAX_AGE = 60 * 60;
+
+// How often the browser renews the session while the app is open, in milliseconds: well before it
+// expires, so nobody is sent to the login page in the middle of their work. It is renewed whenever the
+// app loads too.
+export const SESSION_RENEW_INTERVAL = 20 * 60 * 1000;
+
+// What the session cookie says about the user.
+export type SessionClaims = {
+  uid: string;
+  email?: string;
+  role: User['role'];
+  // When the session expires, in seconds since the epoch.
+  exp: number;
+};
+
+// Only used outside production when `SESSION_SECRET` isn't set, so local development works out of the box.
+const DEVELOPMENT_SECRET = 'travonex-development-session-secret';
+
+// Returns the key sessions are signed with. Production refuses to run without `SESSION_SECRET`,
+// since anyone knowing the key can sign themselves in as an admin.
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set to sign session cookies.');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+// Creates the value of the session cookie for a user, valid for SESSION_MAX_AGE from `now`.
+export async function signSession(user: Omit<SessionClaims, 'exp'>, secret: string, now = new Date()): Promise<string> {
+  const claims: SessionClaims = { ...user, exp: Math.floor(now.getTime() / 1000) + SESSION_MAX_AGE };
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Checks a session cookie and returns what it says, or null when it is malformed, forged or expired.
+export async function verifySession(cookie: string | undefined, secret: string, now = new Date()): Promise<SessionClaims | null> {
+  const [payload, signature, ...rest] = (cookie ?? '').split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), fromBase64Url(signature), new TextEncoder().encode(payload));
+    if (!valid) {
+      return null;
+    }
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims;
+    if (typeof claims.uid !== 'string' || typeof claims.exp !== 'number' || claims.exp * 1000 <= now.getTime()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    // Not valid base64 or JSON.
+    return null;
+  }
+}
@@ -0,0 +1,179 @@
+// This file decides what automated moderation makes of a new comment, story or post, before a
+// moderator sees it. A classifier scores the content from 0 to 1 for spam, toxicity and being off-topic:
+//   - The language model classifier (`src/ai/flows/moderate-content.ts`) when a Gemini API key is set.
+//   - Otherwise the deterministic rules below, which need nothing but the text, so development and
+//     tests work offline. They are also the fallback when the model fails.
+//   - Tests can register a stand-in for the model with `setContentClassifier`.
+// The scores become a risk level (see `MODERATION_THRESHOLDS`):
+//   - Low-risk comments and stories are approved straight away.
+//   - Medium- and high-risk ones wait in the admin queue as usual, high-risk ones flagged with the reasons.
+//   - Posts are never published automatically; their risk only helps the editor reviewing them.
+
+import { ModerationAssessment, ModerationRisk } from './types';
+
+// What is being moderated, with what it should be about.
+export type ModerationInput = {
+  kind: 'comment' | 'story' | 'post';
+  text: string;
+  // For comments and stories, the post they respond to; for posts, their own title, category and tags.
+  context?: { title: string; tags?: string[]; category?: string };
+};
+
+export type ModerationScores = ModerationAssessment['scores'];
+
+// What a classifier makes of some content: scores, and the reasons for any that are high.
+export type Classification = {
+  scores: ModerationScores;
+  reasons: string[];
+};
+
+// Scores content. `classify` rejects when the classifier can't be used right now, e.g. the model is down.
+export interface ContentClassifier {
+  name: 'model' | 'rules';
+  classify(input: ModerationInput): Promise<Classification>;
+}
+
+let registeredClassifier: ContentClassifier | null = null;
+
+// Returns the classifier registered with `setContentClassifier`, or null to use the default.
+export function getContentClassifier(): ContentClassifier | null {
+  return registeredClassifier;
+}
+
+// Replaces the classifier used to score new content. Pass null to go back to the default.
+export function setContentClassifier(next: ContentClassifier | null): void {
+  registeredClassifier = next;
+}
+
+// Content scoring at least `high` on anything is high risk; content scoring below `low` on
+// everything is low risk; the rest is medium risk.
+export const MODERATION_THRESHOLDS = { low: 0.3, high: 0.7 };
+
+// Turns a classification into the assessment stored on the content.
+export function toAssessment(classification: Classification, source: ModerationAssessment['source']): ModerationAssessment {
+  const clamp = (score: number) => Math.round(Math.min(Math.max(Number.isFinite(score) ? score : 0, 0), 1) * 100) / 100;
+  const scores = {
+    spam: clamp(classification.scores.spam),
+    toxicity: clamp(classification.scores.toxicity),
+    off_topic: clamp(classification.scores.off_topic),
+  };
+  const highest = Math.max(scores.spam, scores.toxicity, scores.off_topic);
+  const risk: ModerationRisk = highest >= MODERATION_THRESHOLDS.high ? 'high' : highest < MODERATION_THRESHOLDS.low ? 'low' : 'medium';
+  return { risk, scores, reasons: classification.reasons, source };
+}
+
+// Assesses content with a classifier. Never fails: if the classifier does, e.g. the model is down or
+// returned nonsense, the rules still give moderators something to go on.
+export async function assessContent(input: ModerationInput, classifier: ContentClassifier): Promise<ModerationAssessment> {
+  try {
+    return toAssessment(await classifier.classify(input), classifier.name);
+  } catch (error) {
+    console.error(`The ${classifier.name} classifier failed, using the rules instead:`, error);
+    return toAssessment(classifyWithRules(input), 'rules');
+  }
+}
+
+// Whether new content is approved without waiting for a moderator. Only low-risk comments and stories are.
+export function autoApproves(kind: ModerationInput['kind'], assessment: ModerationAssessment | null): boolean {
+  return kind !== 'post' && assessment?.risk === 'low';
+}
+
+// --- RULES ---
+
+// Phrases that mostly turn up in spam.
+const SPAM_PHRASES = [
+  'buy now', 'click here', 'free money', 'limited offer', 'act now', 'promo code', 'discount code', 'best price',
+  'earn money', 'make money', 'work from home', 'casino', 'betting', 'crypto', 'bitcoin', 'forex', 'loan',
+  'viagra', 'followers', 'subscribe to my', 'check out my', 'dm me', 'whatsapp me', 'visit my website',
+];
+
+// Insults, threats and profanity.
+const TOXIC_WORDS = [
+  'idiot', 'stupid', 'moron', 'dumb', 'loser', 'pathetic', 'trash', 'garbage', 'disgusting', 'shut up',
+  'hate you', 'kill yourself', 'go die', 'f*ck', 'fuck', 'shit', 'bitch', 'bastard', 'asshole', 'crap',
+];
+
+// Subjects that have nothing to do with a travel blog.
+const OFF_TOPIC_WORDS = [
+  'election', 'politics', 'politician', 'crypto', 'bitcoin', 'stock market', 'forex', 'casino', 'dating',
+  'weight loss', 'diet pills', 'seo services', 'web design services', 'essay writing',
+];
+
+// Words too common to say anything about what a text is about.
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'your', 'have', 'was', 'are', 'you', 'our', 'but', 'not', 'its', 'all', 'can', 'out', 'into']);
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+}
+
+// The phrases from `list` that appear in `text` as whole words.
+function matches(text: string, list: string[]): string[] {
+  const lower = ` ${text.toLowerCase().replace(/\s+/g, ' ')} `;
+  return list.filter(phrase => {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}])${escaped}($|[^\\p{L}])`, 'u').test(lower);
+  });
+}
+
+// Scores content with fixed rules. The same text always gets the same scores.
+export function classifyWithRules(input: ModerationInput): Classification {
+  const text = input.text;
+  const reasons: string[] = [];
+  const textWords = words(text);
+
+  // Spam: links, contact details, sales phrases, shouting and repetition.
+  let spam = 0;
+  const links = (text.match(/https?:\/\/|www\./gi) ?? []).length;
+  if (links > 0) {
+    spam += links >= 3 ? 0.6 : 0.25 * links;
+    reasons.push(links === 1 ? 'Contains a link.' : `Contains ${links} links.`);
+  }
+  if (/\b[\w.+-]+@[\w-]+\.[\w.]+\b/.test(text) || /(\+?\d[\d\s-]{8,}\d)/.test(text)) {
+    spam += 0.3;
+    reasons.push('Contains an email address or phone number.');
+  }
+  const spamPhrases = matches(text, SPAM_PHRASES);
+  if (spamPhrases.length > 0) {
+    spam += 0.35 * spamPhrases.length;
+    reasons.push(`Uses phrases common in spam: ${spamPhrases.join(', ')}.`);
+  }
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  if (letters.length >= 20 && letters.replace(/[^\p{Lu}]/gu, '').length / letters.length > 0.7) {
+    spam += 0.3;
+    reasons.push('Written mostly in capitals.');
+  }
+  if (/(.)\1{6,}/u.test(text) || (textWords.length >= 8 && new Set(textWords).size / textWords.length < 0.35)) {
+    spam += 0.3;
+    reasons.push('Repeats the same characters or words.');
+  }
+
+  // Toxicity: insults, threats and profanity.
+  const toxicWords = matches(text, TOXIC_WORDS);
+  const toxicity = toxicWords.length === 0 ? 0 : 0.45 + 0.25 * (toxicWords.length - 1);
+  if (toxicWords.length > 0) {
+    reasons.push(`Uses insulting or offensive language: ${toxicWords.join(', ')}.`);
+  }
+
+  // Off-topic: subjects unrelated to travel, more so when nothing ties the text to what it responds to.
+  const offTopicWords = matches(text, OFF_TOPIC_WORDS);
+  let offTopic = offTopicWords.length === 0 ? 0 : 0.4 + 0.2 * (offTopicWords.length - 1);
+  if (input.context && offTopicWords.length > 0) {
+    const contextWords = new Set(words([input.context.title, input.context.category ?? '', ...(input.context.tags ?? [])].join(' '))
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+    if (!textWords.some(word => contextWords.has(word))) {
+      offTopic += 0.3;
+    }
+  }
+  if (offTopicWords.length > 0) {
+    reasons.push(`Talks about subjects unrelated to travel: ${offTopicWords.join(', ')}.`);
+  }
+
+  return { scores: { spam, toxicity, off_topic: offTopic }, reasons };
+}
+
+export const rulesClassifier: ContentClassifier = {
+  name: 'rules',
+  async classify(input) {
+    return classifyWithRules(input);
+  },
+};
@@ -0,0 +1,101 @@
+// This file arranges a post's comments into threads.
+//
+// A reply stores the comment it answers as `parent_id`, and the whole chain of comments above it,
+// from the top-level comment down, as `ancestor_ids`. Comments written before replies existed have
+// neither and are top-level comments.
+//
+// Readers only ever load approved comments. When a comment with approved replies is rejected or
+// deleted, its replies stay visible under a placeholder, which `ancestor_ids` lets us put back in
+// the right place without reading the removed comment.
+
+import { Comment } from './types';
+
+// How many levels of replies a thread can have below its top-level comment. Replies to a comment at
+// the deepest level join that level instead of nesting further. Set `NEXT_PUBLIC_COMMENT_MAX_DEPTH`
+// to change it.
+export const COMMENT_MAX_DEPTH = Math.max(0, Number(process.env.NEXT_PUBLIC_COMMENT_MAX_DEPTH) || 3);
+
+// Threads with more replies than this start out collapsed.
+export const COMMENT_COLLAPSE_AFTER = 3;
+
+// A comment in a thread. `comment` is null for a placeholder standing in for a comment that was
+// removed (or isn't approved yet) but still has visible replies.
+export type CommentNode = {
+  id: string;
+  comment: Comment | null;
+  depth: number;
+  replies: CommentNode[];
+  // The number of visible replies at every level below this comment.
+  replyCount: number;
+};
+
+// How deep a comment is: 0 for a top-level comment, 1 for a reply to one, and so on.
+export function commentDepth(comment: Pick<Comment, 'ancestor_ids'>): number {
+  return comment.ancestor_ids?.length ?? 0;
+}
+
+// Works out where a reply to `parent` goes, keeping threads within COMMENT_MAX_DEPTH.
+export function replyPlacement(parent: Comment): Pick<Comment, 'parent_id' | 'ancestor_ids'> {
+  const chain = [...(parent.ancestor_ids ?? []), parent.id];
+  if (chain.length > COMMENT_MAX_DEPTH) {
+    // Too deep: answer alongside the parent, under the parent's own parent.
+    const ancestors = chain.slice(0, COMMENT_MAX_DEPTH);
+    return ancestors.length > 0 ? { parent_id: ancestors[ancestors.length - 1], ancestor_ids: ancestors } : {};
+  }
+  return { parent_id: parent.id, ancestor_ids: chain };
+}
+
+// Arranges comments into threads, oldest first at every level.
+export function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  const roots: CommentNode[] = [];
+
+  // Finds the node for an ID, creating a placeholder (and the placeholders above it) if needed.
+  const nodeFor = (id: string, ancestors: string[]): CommentNode => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id, comment: null, depth: ancestors.length, replies: [], replyCount: 0 };
+      nodes.set(id, node);
+      attach(node, ancestors);
+    }
+    return node;
+  };
+  const attach = (node: CommentNode, ancestors: string[]) => {
+    if (ancestors.length === 0) {
+      roots.push(node);
+    } else {
+      nodeFor(ancestors[ancestors.length - 1], ancestors.slice(0, -1)).replies.push(node);
+    }
+  };
+
+  const sorted = [...comments].sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  for (const comment of sorted) {
+    const existing = nodes.get(comment.id);
+    if (existing) {
+      // A placeholder was created for this comment by an earlier reply; fill it in.
+      existing.comment = comment;
+    } else {
+      const node: CommentNode = { id: comment.id, comment, depth: commentDepth(comment), replies: [], replyCount: 0 };
+      nodes.set(comment.id, node);
+      attach(node, comment.ancestor_ids ?? []);
+    }
+  }
+
+  const count = (node: CommentNode): number => {
+    node.replies.sort((a, b) => firstActivity(a) - firstActivity(b));
+    node.replyCount = node.replies.reduce((total, reply) => total + (reply.comment ? 1 : 0) + count(reply), 0);
+    return node.replyCount;
+  };
+  roots.forEach(count);
+  return roots.sort((a, b) => firstActivity(a) - firstActivity(b));
+}
+
+// When a node entered the thread. Placeholders sort by their earliest reply.
+function firstActivity(node: CommentNode): number {
+  return node.comment?.created_at.getTime() ?? Math.min(...node.replies.map(firstActivity));
+}
+
+// Counts the comments in a set of threads, not counting placeholders.
+export function countComments(threads: CommentNode[]): number {
+  return threads.reduce((total, node) => total + (node.comment ? 1 : 0) + node.replyCount, 0);
+}
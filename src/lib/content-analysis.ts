@@ -0,0 +1,108 @@
+// This file analyzes a post's content whenever it is saved (see `addPost` and `updatePost` in
+// `./firestore.ts`). The results are stored on the post, so pages don't have to work them out again:
+//   - `word_count` and `reading_minutes`, shown on the post page.
+//   - `excerpt`: the author's own, or else the start of the post. Authors may leave it empty.
+//     `excerpt_derived` tells the two apart, so a derived excerpt is worked out again when the content
+//     changes and is never shown to the author as their own (see `authorExcerpt`).
+//   - `meta_description`: the excerpt cut to the length search engines show, for `generateMetadata`.
+//   - `toc`: the post's section headings, for the table of contents on the post page. The headings
+//     get matching `id`s when the post is rendered (see `addHeadingIds`).
+
+import { renderPostContent } from './content';
+import { stripHtml } from './search/text';
+import { slugify } from './slugs';
+import { Post, TocEntry } from './types';
+
+// Average adult reading speed for on-screen prose.
+export const WORDS_PER_MINUTE = 200;
+
+// The longest excerpt kept as written; longer ones are cut, at a word, to fit post cards.
+export const MAX_EXCERPT_LENGTH = 200;
+
+// Search engines show about this many characters of a description.
+export const MAX_META_DESCRIPTION_LENGTH = 160;
+
+// The fields `analyzePost` sets on a post.
+export type PostAnalysis = Required<Pick<Post, 'word_count' | 'reading_minutes' | 'excerpt' | 'excerpt_derived' | 'meta_description' | 'toc'>>;
+
+// The fields `analyzePost` works from.
+type AnalyzedFields = Pick<Post, 'title' | 'excerpt' | 'content' | 'content_format'> & Pick<Partial<Post>, 'excerpt_derived'>;
+
+// The excerpt the author wrote, or an empty string when the stored one was taken from the content.
+// Edit forms show this, so saving a post doesn't turn a derived excerpt into the author's.
+export function authorExcerpt(post: Pick<Partial<Post>, 'excerpt' | 'excerpt_derived'>): string {
+  return post.excerpt_derived ? '' : post.excerpt ?? '';
+}
+
+// Cuts text to at most `length` characters, at the end of a word, marking the cut with an ellipsis.
+export function truncateText(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= length) {
+    return flat;
+  }
+  const cut = flat.slice(0, length - 1);
+  const atWord = cut.replace(/\s+\S*$/, '');
+  return `${(atWord || cut).replace(/[\s,;:.–—-]+$/, '')}…`;
+}
+
+// The `h2` and `h3` headings in rendered post HTML, in order. Sanitized headings carry no attributes,
+// so matching the bare tags finds them all.
+const HEADING = /<h([23])>([\s\S]*?)<\/h\1>/g;
+
+// Gives each heading a unique ID made from its text, e.g. "Getting there" becomes `getting-there`.
+function headingIds(texts: string[]): string[] {
+  const seen = new Map<string, number>();
+  return texts.map(text => {
+    const base = slugify(text) || 'section';
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  });
+}
+
+// The table of contents of rendered post HTML: its `h2` and `h3` headings.
+export function extractToc(html: string): TocEntry[] {
+  const headings = Array.from(html.matchAll(HEADING)).map(match => ({ level: Number(match[1]) as 2 | 3, text: stripHtml(match[2]) }));
+  const ids = headingIds(headings.map(heading => heading.text));
+  return headings
+    .map((heading, i) => ({ ...heading, id: ids[i] }))
+    .filter(heading => heading.text);
+}
+
+// Adds the IDs from `extractToc` to the headings of rendered post HTML, so the table of contents can link to them.
+// The IDs are slugs, so they are safe to add after sanitizing.
+export function addHeadingIds(html: string): string {
+  const ids = headingIds(Array.from(html.matchAll(HEADING)).map(match => stripHtml(match[2])));
+  let index = 0;
+  return html.replace(HEADING, (_, level: string, inner: string) => `<h${level} id="${ids[index++]}">${inner}</h${level}>`);
+}
+
+// Analyzes a post as it is about to be saved. An excerpt the author wrote is kept unless it is too long.
+export function analyzePost(post: AnalyzedFields): PostAnalysis {
+  const html = renderPostContent(post);
+  const text = stripHtml(html);
+  const wordCount = text ? text.split(' ').length : 0;
+
+  // Without an excerpt, the post starts with its first paragraph, so that is what it's about.
+  const firstParagraph = stripHtml(html.match(/<p>([\s\S]*?)<\/p>/)?.[1] ?? '') || text;
+  const ownExcerpt = authorExcerpt(post).trim();
+  const excerpt = truncateText(ownExcerpt || firstParagraph, MAX_EXCERPT_LENGTH);
+
+  return {
+    word_count: wordCount,
+    reading_minutes: Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+    excerpt,
+    excerpt_derived: !ownExcerpt,
+    meta_description: truncateText(excerpt || post.title, MAX_META_DESCRIPTION_LENGTH),
+    toc: extractToc(html),
+  };
+}
+
+// The analysis stored on a post, or a fresh one for posts saved before it was stored.
+export function postAnalysis(post: AnalyzedFields & Partial<PostAnalysis>): PostAnalysis {
+  const { word_count, reading_minutes, meta_description, toc } = post;
+  if (word_count === undefined || reading_minutes === undefined || meta_description === undefined || toc === undefined) {
+    return analyzePost(post);
+  }
+  return { word_count, reading_minutes, excerpt: post.excerpt, excerpt_derived: post.excerpt_derived ?? false, meta_description, toc };
+}
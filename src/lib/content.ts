@@ -0,0 +1,183 @@
+// This file defines the document format used for post content and converts it to the HTML
+// rendered on the post page (`/blog/[slug]`).
+//
+// The format is GitHub-flavoured Markdown, which covers headings, bold/italic, lists, quotes,
+// links, inline images (`![alt text](url)`) and tables, plus one extra block for embeds:
+//
+//   @[Optional caption](https://www.youtube.com/watch?v=...)
+//
+// An embed must sit on its own line. Only the providers listed in `toEmbedUrl` are turned into
+// players; any other URL is rendered as an ordinary link. Inline HTML is still accepted, so posts
+// written as raw HTML before the editor existed keep rendering as they did. That HTML, and every
+// link and image URL, is sanitized both when content is saved and when it is rendered.
+
+import { Marked, Token, Tokens, TokenizerAndRendererExtension } from 'marked';
+import { ContentFormat, Post } from './types';
+import { sanitizeHtml, sanitizeHtmlTag, isSafeUrl } from './sanitize';
+
+// The format used for everything written with the post editor.
+export const DEFAULT_CONTENT_FORMAT: ContentFormat = 'markdown';
+
+type EmbedToken = Tokens.Generic & {
+  caption: string;
+  url: string;
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Converts a link to a supported video or map into the URL of its embeddable player.
+// Returns null for anything that cannot be embedded.
+export function toEmbedUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'https:') {
+    return null;
+  }
+  const host = parsed.hostname.replace(/^www\./, '');
+
+  // YouTube: youtube.com/watch?v=ID, youtube.com/shorts/ID and youtu.be/ID.
+  let videoId: string | null = null;
+  if (host === 'youtube.com' || host === 'm.youtube.com') {
+    videoId = parsed.pathname === '/watch'
+      ? parsed.searchParams.get('v')
+      : parsed.pathname.match(/^\/(?:shorts|embed)\/([\w-]+)/)?.[1] ?? null;
+  } else if (host === 'youtu.be') {
+    videoId = parsed.pathname.slice(1);
+  }
+  if (videoId) {
+    return /^[\w-]+$/.test(videoId) ? `https://www.youtube-nocookie.com/embed/${videoId}` : null;
+  }
+
+  // Vimeo: vimeo.com/ID.
+  if (host === 'vimeo.com') {
+    const id = parsed.pathname.match(/^\/(\d+)/)?.[1];
+    return id ? `https://player.vimeo.com/video/${id}` : null;
+  }
+
+  // Google Maps: the "Embed a map" link from the share dialog. Rebuilt on `www.`, the only host the
+  // iframe allowlist in `./sanitize.ts` accepts.
+  if (host === 'google.com' && parsed.pathname === '/maps/embed') {
+    return `https://www.google.com/maps/embed${parsed.search}`;
+  }
+
+  return null;
+}
+
+// The `@[caption](url)` embed block described at the top of this file.
+const embedExtension: TokenizerAndRendererExtension = {
+  name: 'embed',
+  level: 'block',
+  start(src) {
+    return src.match(/^@\[/m)?.index;
+  },
+  tokenizer(src) {
+    const match = /^@\[([^\]\n]*)\]\(([^)\s]+)\)[ \t]*(?:\n+|$)/.exec(src);
+    if (match) {
+      return { type: 'embed', raw: match[0], caption: match[1].trim(), url: match[2] };
+    }
+    return undefined;
+  },
+  renderer(token) {
+    const { caption, url } = token as EmbedToken;
+    const embedUrl = toEmbedUrl(url);
+    if (!embedUrl) {
+      return `<p><a href="${escapeHtml(url)}">${escapeHtml(caption || url)}</a></p>\n`;
+    }
+    const title = escapeHtml(caption || 'Embedded content');
+    return `<figure class="embed">`
+      + `<iframe src="${escapeHtml(embedUrl)}" title="${title}" loading="lazy" allowfullscreen referrerpolicy="strict-origin-when-cross-origin"></iframe>`
+      + (caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : '')
+      + `</figure>\n`;
+  },
+};
+
+const markdown = new Marked({ gfm: true, async: false, extensions: [embedExtension] });
+
+// Converts content in the given format to sanitized HTML, ready to be rendered.
+export function contentToHtml(content: string, format: ContentFormat = DEFAULT_CONTENT_FORMAT): string {
+  const html = format === 'html' ? content : markdown.parse(content, { async: false });
+  return sanitizeHtml(html);
+}
+
+// A piece of the Markdown source to replace, found while walking the parsed tokens.
+type Replacement = {
+  raw: string;
+  replacement: string;
+};
+
+// Collects, in document order, the raw HTML and unsafe URLs in a list of Markdown tokens.
+function collectUnsafeMarkdown(tokens: Token[], replacements: Replacement[]): void {
+  for (const token of tokens) {
+    if (token.type === 'html') {
+      // Block HTML is a complete fragment; inline HTML is a single opening or closing tag.
+      const { raw } = token as Tokens.HTML | Tokens.Tag;
+      const clean = (token as Tokens.HTML).block ? sanitizeHtml(raw) : sanitizeHtmlTag(raw);
+      if (clean !== raw) {
+        replacements.push({ raw, replacement: clean });
+      }
+      continue;
+    }
+    if ((token.type === 'link' || token.type === 'image') && !isSafeUrl((token as Tokens.Link).href)) {
+      // Keep the link text or the image's alt text, and drop the URL.
+      replacements.push({ raw: token.raw, replacement: (token as Tokens.Link).text });
+      continue;
+    }
+    if (token.type === 'embed' && !isSafeUrl((token as EmbedToken).url)) {
+      replacements.push({ raw: token.raw, replacement: '' });
+      continue;
+    }
+
+    const children: Token[] = [];
+    if ('tokens' in token && token.tokens) children.push(...token.tokens);
+    if (token.type === 'list') children.push(...(token as Tokens.List).items);
+    if (token.type === 'table') {
+      const table = token as Tokens.Table;
+      children.push(...table.header.flatMap(cell => cell.tokens), ...table.rows.flat().flatMap(cell => cell.tokens));
+    }
+    collectUnsafeMarkdown(children, replacements);
+  }
+}
+
+// Removes unsafe HTML and URLs from Markdown while keeping the rest of the source exactly as written,
+// so authors can keep editing their own Markdown.
+export function sanitizeMarkdown(markdownSource: string): string {
+  // The lexer normalizes line endings, so the source must match for the raw text to be found.
+  const source = markdownSource.replace(/\r\n?/g, '\n');
+  const replacements: Replacement[] = [];
+  collectUnsafeMarkdown(markdown.lexer(source), replacements);
+
+  // The tokens are in document order, so each one is found after the previous replacement.
+  let result = '';
+  let position = 0;
+  for (const { raw, replacement } of replacements) {
+    const index = source.indexOf(raw, position);
+    if (index === -1) {
+      // This should not happen, but if it does, fail safe: escaped HTML is shown as text.
+      return source.replace(/</g, '&lt;');
+    }
+    result += source.slice(position, index) + replacement;
+    position = index + raw.length;
+  }
+  return result + source.slice(position);
+}
+
+// Sanitizes post content before it is saved, keeping it in its original format.
+export function sanitizePostContent(content: string, format: ContentFormat): string {
+  return format === 'html' ? sanitizeHtml(content) : sanitizeMarkdown(content);
+}
+
+// Returns the HTML for a post's content. Posts saved before `content_format` existed are HTML.
+export function renderPostContent(post: Pick<Post, 'content' | 'content_format'>): string {
+  return contentToHtml(post.content || '', post.content_format ?? 'html');
+}
@@ -0,0 +1,55 @@
+// This file builds a user's personalized feed: the published posts by the authors they follow and
+// carrying the tags they follow, newest first. The same feed, limited to the past week, makes up the
+// weekly digest email (see `src/lib/notifications/digest.ts`).
+
+import { Follow, FollowTarget, Post } from './types';
+
+// How many posts the feed page shows.
+export const FEED_SIZE = 30;
+
+// How often the weekly digest is sent, in days.
+export const DIGEST_INTERVAL_DAYS = 7;
+
+// The ID of the document recording that a user follows an author or tag, which makes following twice impossible.
+export function followId(followerId: string, targetType: FollowTarget, targetId: string): string {
+  return `${followerId}_${targetType}_${targetId}`;
+}
+
+// A post in the feed, with why it is there.
+export type FeedItem = {
+  post: Post;
+  // Whether the user follows the post's author.
+  byFollowedAuthor: boolean;
+  // The followed tags the post carries.
+  followedTags: string[];
+};
+
+// Whether a published post is live: a post whose `publish_at` is still in the future is hidden,
+// even if its status was set to 'published' by hand before the scheduler ran.
+export function isLive(post: Post, now = new Date()): boolean {
+  return post.status === 'published' && (!post.publish_at || post.publish_at.getTime() <= now.getTime());
+}
+
+// When a post went live: its scheduled publication date, or its creation date.
+export function publishedAt(post: Post): Date {
+  return post.publish_at ?? post.created_at;
+}
+
+// Picks the posts matching a user's follows out of `posts` (which should all be live), newest first.
+// Only posts published after `since` are included when it is given.
+export function buildFeed(posts: Post[], follows: Follow[], options: { since?: Date; max?: number } = {}): FeedItem[] {
+  const authors = new Set(follows.filter(f => f.target_type === 'author').map(f => f.target_id));
+  const tags = new Set(follows.filter(f => f.target_type === 'tag').map(f => f.target_id));
+  const since = options.since?.getTime() ?? 0;
+
+  return posts
+    .filter(post => publishedAt(post).getTime() > since)
+    .map(post => ({
+      post,
+      byFollowedAuthor: !!post.author_id && authors.has(post.author_id),
+      followedTags: (post.tags ?? []).filter(tag => tags.has(tag)),
+    }))
+    .filter(item => item.byFollowedAuthor || item.followedTags.length > 0)
+    .sort((a, b) => publishedAt(b.post).getTime() - publishedAt(a.post).getTime())
+    .slice(0, options.max ?? FEED_SIZE);
+}
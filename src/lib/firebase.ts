@@ -4,7 +4,7 @@
 // Import the necessary functions from the Firebase SDK.
 import { initializeApp, getApps, FirebaseApp } from "firebase/app";
 import { getAuth, Auth } from "firebase/auth";
-import { getFirestore, Firestore } from "firebase/firestore";
+import { getFirestore, connectFirestoreEmulator, Firestore } from "firebase/firestore";
 import { getStorage, FirebaseStorage } from "firebase/storage";
 
 // The configuration object for Firebase.
@@ -16,7 +16,8 @@ import { getStorage, FirebaseStorage } from "firebase/storage";
 // NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET="your-project-id.appspot.com"
 // NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID="..."
 // NEXT_PUBLIC_FIREBASE_APP_ID="..."
-const firebaseConfig = {
+// The service account's app on the server uses it too (see `./service-account.ts`).
+export const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
   authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
   projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
@@ -40,5 +41,20 @@ const auth: Auth = getAuth(app);
 const db: Firestore = getFirestore(app);
 const storage: FirebaseStorage = getStorage(app);
 
+// When `NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST` is set (e.g. "localhost:8080"), Firestore talks to the
+// local emulator started with `firebase emulators:start --only firestore` instead of the live project.
+// The global list of connected apps guards against connecting twice when Next.js hot-reloads this module.
+const globalForEmulator = globalThis as unknown as { __firestoreEmulatorApps?: string[] };
+export function connectToEmulator(firestore: Firestore): void {
+  const emulatorHost = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+  const connected = globalForEmulator.__firestoreEmulatorApps ??= [];
+  if (emulatorHost && !connected.includes(firestore.app.name)) {
+    const [host, port] = emulatorHost.split(':');
+    connectFirestoreEmulator(firestore, host, Number(port) || 8080);
+    connected.push(firestore.app.name);
+  }
+}
+connectToEmulator(db);
+
 // Export the initialized app and service instances so they can be used throughout the application.
 export { app, auth, db, storage };
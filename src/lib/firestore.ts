@@ -1,276 +1,760 @@
-// This file will contain all the functions to interact with the Firestore database.
-// It will replace the mock data functions in `src/lib/mock-data.ts`.
-
-import { db } from './firebase';
-import { collection, getDocs, doc, getDoc, addDoc, updateDoc, deleteDoc, Timestamp, serverTimestamp, query, where, QueryDocumentSnapshot, SnapshotOptions } from 'firebase/firestore';
-import { User, Post, Comment, FollowUpStory, EarlyAccessUser, NewsletterSubscriber } from './types';
-
-// --- TYPE CONVERTERS ---
-// Firestore converters are used to ensure that the data being sent to and received from Firestore
-// is correctly typed. This is especially important for handling Timestamps.
-
-const postConverter = {
-  toFirestore: (post: Omit<Post, 'id'>) => {
-    return {
-      ...post,
-      created_at: post.created_at instanceof Date ? Timestamp.fromDate(post.created_at) : serverTimestamp(),
-      updated_at: post.updated_at instanceof Date ? Timestamp.fromDate(post.updated_at) : serverTimestamp(),
-    };
-  },
-  fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Post => {
-    const data = snapshot.data(options);
-    return {
-      id: snapshot.id,
-      ...data,
-      created_at: data.created_at instanceof Timestamp ? data.created_at.toDate() : new Date(),
-      updated_at: data.updated_at instanceof Timestamp ? data.updated_at.toDate() : new Date(),
-    } as Post;
-  }
-};
-
-const commentConverter = {
-    toFirestore: (comment: Omit<Comment, 'id'>) => {
-        return {
-            ...comment,
-            created_at: comment.created_at instanceof Date ? Timestamp.fromDate(comment.created_at) : serverTimestamp(),
-        };
-    },
-    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Comment => {
-        const data = snapshot.data(options);
-        return {
-            id: snapshot.id,
-            ...data,
-            created_at: data.created_at?.toDate() || new Date(),
-        } as Comment;
-    }
-};
-
-const storyConverter = {
-    toFirestore: (story: Omit<FollowUpStory, 'id'>) => {
-        return {
-            ...story,
-            created_at: story.created_at instanceof Date ? Timestamp.fromDate(story.created_at) : serverTimestamp(),
-        };
-    },
-    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): FollowUpStory => {
-        const data = snapshot.data(options);
-        return {
-            id: snapshot.id,
-            ...data,
-            created_at: data.created_at?.toDate() || new Date(),
-        } as FollowUpStory;
-    }
-};
+// This file contains all the functions the app uses to read and write data.
+// Each function delegates to the repository of the configured data backend (see `./repositories`),
+// so pages keep a simple, stable API whether they run against Firestore or the in-memory store.
 
-const userConverter = {
-    toFirestore: (user: Omit<User, 'id'>) => {
-        return {
-            ...user,
-            created_at: user.created_at instanceof Date ? Timestamp.fromDate(user.created_at) : serverTimestamp(),
-        };
-    },
-    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): User => {
-        const data = snapshot.data(options);
-        return {
-            id: snapshot.id,
-            ...data,
-            created_at: data.created_at?.toDate() || new Date(),
-        } as User;
-    }
-};
-
-const earlyAccessUserConverter = {
-    toFirestore: (user: Omit<EarlyAccessUser, 'id'>) => {
-        return {
-            ...user,
-            created_at: serverTimestamp(),
-        };
-    },
-    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): EarlyAccessUser => {
-        const data = snapshot.data(options);
-        return {
-            id: snapshot.id,
-            ...data,
-            created_at: data.created_at?.toDate() || new Date(),
-        } as EarlyAccessUser;
-    }
-};
-
-const newsletterSubscriberConverter = {
-    toFirestore: (subscriber: Omit<NewsletterSubscriber, 'id'>) => {
-        return {
-            ...subscriber,
-            created_at: serverTimestamp(),
-        };
-    },
-    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): NewsletterSubscriber => {
-        const data = snapshot.data(options);
-        return {
-            id: snapshot.id,
-            ...data,
-            created_at: data.created_at?.toDate() || new Date(),
-        } as NewsletterSubscriber;
-    }
-};
+import { getRepositories, Page, PublishedPostsQuery, BulkWriteResult } from './repositories';
+import { indexPost, removePostFromIndex } from './search';
+import { sanitizePostContent } from './content';
+import { analyzePost } from './content-analysis';
+import { normalizeGallery, MAX_POST_GALLERY_IMAGES, MAX_STORY_GALLERY_IMAGES } from './galleries';
+import { sanitizePlainText } from './sanitize';
+import { slugify, assignSlug, rememberSlug, releaseSlugs } from './slugs';
+import { categoryId, normalizeTag, normalizeTags } from './taxonomy';
+import { recordRevision, REVISION_FIELDS } from './revisions';
+import { replyPlacement } from './comments';
+import { buildFeed, isLive, FeedItem } from './feed';
+import { isBlocked, blockedMessage, effectiveStatus, DeleteCascade } from './users';
+import { assessContent, getContentClassifier, rulesClassifier } from './auto-moderation';
+import { screenSubmission, ScreeningKind } from './screening';
+import { mediaId, postMediaPaths, attachmentMediaPaths, urlMediaPaths, getMediaStorage, MEDIA_FOLDERS, MEDIA_TARGET_FOLDERS, ORPHAN_GRACE_PERIOD, StoredFile } from './media';
+import { screenSubmission as screenSubmissionOnServer } from '@/ai/flows/screen-submission';
+import { notifyPostStatus, notifyCommentModerated, notifyStoryModerated, notifyReviewNote, NOTIFICATION_LIST_SIZE } from './notifications';
+import { User, Post, Comment, FollowUpStory, EarlyAccessUser, NewsletterSubscriber, Category, Tag, PostRevision, ReviewNote, UserNotification, Reaction, ReactionCounts, ReactionKind, ReactionTarget, Bookmark, ReadingList, Follow, FollowTarget, AuditEntry, AuditTargetType, MediaRecord, MediaTargetType } from './types';
 
 // --- POSTS ---
 
-// Fetches all posts from Firestore.
+// Fetches all posts.
 export async function getPosts(): Promise<Post[]> {
-  const postsCol = collection(db, 'posts').withConverter(postConverter);
-  const postSnapshot = await getDocs(postsCol);
-  const postList = postSnapshot.docs.map(doc => doc.data() as Post);
-  return postList;
+  return getRepositories().posts.list();
 }
 
 // Fetches all posts by a specific user.
 export async function getPostsByUserId(userId: string): Promise<Post[]> {
-  const postsCol = collection(db, 'posts').withConverter(postConverter);
-  const q = query(postsCol, where('author_id', '==', userId));
-  const postSnapshot = await getDocs(q);
-  const postList = postSnapshot.docs.map(doc => doc.data() as Post);
-  return postList;
+  return getRepositories().posts.listByAuthor(userId);
 }
 
-// Fetches all published posts from Firestore.
+// Fetches all published posts.
 export async function getPublishedPosts(): Promise<Post[]> {
-    const postsCol = collection(db, 'posts').withConverter(postConverter);
-    const q = query(postsCol, where('status', '==', 'published'));
-    const postSnapshot = await getDocs(q);
-    const postList = postSnapshot.docs.map(doc => doc.data() as Post);
-    return postList;
+    const posts = await getRepositories().posts.listPublished();
+    return posts.filter(post => isLive(post));
 }
 
-// Fetches a single post by its slug.
+// Fetches one page of published posts, filtered by category/tag and ordered on the backend.
+// Pass the returned `nextCursor` back in as `cursor` to load the following page.
+export async function queryPublishedPosts(options: PublishedPostsQuery = {}): Promise<Page<Post>> {
+    const page = await getRepositories().posts.queryPublished(options);
+    // Filtering after the query can make a page a little short, but the cursor still points at the
+    // last post the backend returned, so no post is skipped.
+    return { ...page, items: page.items.filter(post => isLive(post)) };
+}
+
+// Fetches a single published post by its slug.
+// Old slugs (from before a title change) also find the post; the returned post's `slug` is then
+// different from the one requested, and the caller should redirect to it.
 export async function getPostsBySlug(slug: string): Promise<Post | null> {
-    const postsCol = collection(db, 'posts').withConverter(postConverter);
-    const q = query(postsCol, where('slug', '==', slug), where('status', '==', 'published'));
-    const postSnapshot = await getDocs(q);
-    if (postSnapshot.empty) {
+    const repositories = getRepositories();
+    const post = await repositories.posts.getBySlug(slug);
+    if (post) {
+        return isLive(post) ? post : null;
+    }
+
+    const record = await repositories.slugs.get(slug);
+    if (!record) {
+        return null;
+    }
+    try {
+        const current = await repositories.posts.get(record.post_id);
+        return current && isLive(current) ? current : null;
+    } catch {
+        // Reading an unpublished post is denied to the public, which means there is nothing to show.
         return null;
     }
-    return postSnapshot.docs[0].data() as Post;
 }
 
 // Fetches a single post by its ID.
 export async function getPost(id: string): Promise<Post | null> {
-  const postDocRef = doc(db, 'posts', id).withConverter(postConverter);
-  const postSnap = await getDoc(postDocRef);
-  if (postSnap.exists()) {
-    return postSnap.data() as Post;
-  } else {
-    return null;
+  return getRepositories().posts.get(id);
+}
+
+// Adds a new post and, if it is published, makes it searchable. Its first revision is recorded too.
+// The content is sanitized first, so no script or unsafe link is ever stored.
+// The slug is generated from `slug` if given, otherwise from the title, and is always unique.
+// The content is analyzed for its reading time, table of contents and descriptions (see
+// `src/lib/content-analysis.ts`); an empty excerpt is filled in from the content.
+// A gallery is checked too (see `src/lib/galleries.ts`): it is rejected if a photo isn't described.
+export async function addPost(post: Omit<Post, 'id' | 'slug'> & { slug?: string }): Promise<string> {
+  await assertCanContribute(post.author_id);
+  const repositories = getRepositories();
+  const slugSource = post.slug || post.title;
+  const content = sanitizePostContent(post.content, post.content_format ?? 'html');
+  const sanitized = {
+    ...post,
+    slug: slugify(slugSource),
+    content,
+    tags: normalizeTags(post.tags),
+    ...(post.gallery && { gallery: normalizeGallery(post.gallery, MAX_POST_GALLERY_IMAGES) }),
+    ...analyzePost({ ...post, content }),
+  };
+  // Only automated moderation records an assessment (see `src/lib/screening.ts`).
+  delete sanitized.moderation;
+  const id = await repositories.posts.add(sanitized);
+
+  // The slug can only be reserved once the post has an ID. It usually matches the one stored above;
+  // if another post already had it, the post is updated with the numbered variant.
+  const slug = await assignSlug(id, slugSource);
+  if (slug !== sanitized.slug) {
+    await repositories.posts.update(id, { slug });
+  }
+  await indexPost({ ...sanitized, slug, id });
+  await recordRevision({ ...sanitized, slug, id }, { editorId: post.author_id ?? null });
+  await syncPostMedia({ ...sanitized, slug, id });
+  // Posts submitted for review are screened for the editor reviewing them; they are never published automatically.
+  if (sanitized.status === 'pending') {
+    await requestScreening('post', id);
+  }
+  return id;
+}
+
+// Who is saving a post: recorded on the revision the save creates.
+export type SaveOptions = {
+  editorId?: string | null;
+  // Set when the save restores an earlier revision.
+  restoredFrom?: string;
+  // A moderator's explanation of a status change, included in the notification sent to the author.
+  note?: string;
+};
+
+// Updates a post, refreshes its search index entry and, if the title, content or other versioned
+// fields changed, records a revision (see `src/lib/revisions.ts`).
+// Changing the status notifies the author (see `src/lib/notifications`).
+// Changing the title (or passing a new `slug`) moves the post to a new slug; the old one keeps redirecting.
+// Changing the title, excerpt or content analyzes the post again, like `addPost`.
+// Submitting the post for review (again) screens it with automated moderation, like `addPost`.
+// Changing the images records the new ones and releases the ones nothing uses any more (see `src/lib/media.ts`).
+export async function updatePost(id: string, updates: Partial<Post>, options: SaveOptions = {}): Promise<void> {
+  const repositories = getRepositories();
+  const isVersioned = REVISION_FIELDS.some(field => updates[field] !== undefined);
+  const needsExisting = isVersioned || updates.slug !== undefined || updates.status !== undefined;
+  const existing = needsExisting ? await repositories.posts.get(id) : null;
+
+  if (updates.content !== undefined) {
+    // The format is needed to sanitize the content; fall back to the stored one when it isn't being changed.
+    const format = updates.content_format ?? existing?.content_format ?? 'html';
+    updates = { ...updates, content: sanitizePostContent(updates.content, format) };
+  }
+  if (updates.tags !== undefined) {
+    updates = { ...updates, tags: normalizeTags(updates.tags) };
+  }
+  if (updates.gallery !== undefined) {
+    updates = { ...updates, gallery: normalizeGallery(updates.gallery, MAX_POST_GALLERY_IMAGES) };
   }
+  const isAnalyzed = (['title', 'excerpt', 'content', 'content_format'] as const).some(field => updates[field] !== undefined);
+  if (isAnalyzed && existing) {
+    // A new excerpt is the author's, even if the stored one was derived.
+    updates = { ...updates, ...analyzePost({ ...existing, ...updates, ...(updates.excerpt !== undefined && { excerpt_derived: false }) }) };
+  }
+  // Publishing records when the post went live, unless the caller says when (e.g. the scheduler).
+  if (updates.status === 'published' && updates.publish_at === undefined) {
+    updates = { ...updates, publish_at: new Date() };
+  }
+
+  // A new slug is needed when one is passed explicitly, or when the title changes enough to change its slug.
+  const titleChanged = updates.title !== undefined && !!existing && slugify(updates.title) !== slugify(existing.title);
+  const slugSource = updates.slug ?? (titleChanged ? updates.title : undefined);
+  if (slugSource !== undefined && existing) {
+    // Posts created before slugs were reserved have no record yet; add one so the old URL keeps working.
+    await rememberSlug(id, existing.slug);
+    updates = { ...updates, slug: await assignSlug(id, slugSource) };
+  }
+
+  // A post submitted for review again is screened again: its old assessment goes until then.
+  const isSubmitted = updates.status === 'pending' && !!existing && existing.status !== 'pending';
+  if (isSubmitted) {
+    updates = { ...updates, moderation: null };
+  }
+
+  await repositories.posts.update(id, updates);
+  if (isSubmitted) {
+    await requestScreening('post', id);
+  }
+  const post = await getRepositories().posts.get(id);
+  if (post) {
+    await indexPost(post);
+    if (isVersioned) {
+      await recordRevision(post, { editorId: options.editorId ?? null, previous: existing ?? undefined, restoredFrom: options.restoredFrom });
+    }
+    if (existing && post.status !== existing.status) {
+      await notifyPostStatus(post, options.editorId, options.note);
+    }
+    if (MEDIA_FIELDS.some(field => updates[field] !== undefined)) {
+      await syncPostMedia(post);
+    }
+  }
+}
+
+// Fetches a post's revisions, newest first. The newest one matches the post as it is now.
+export async function getRevisions(postId: string): Promise<PostRevision[]> {
+  return getRepositories().revisions.listByPost(postId);
+}
+
+// Restores a post to an earlier revision. The restore is itself saved as a new revision, so it can be undone.
+export async function restoreRevision(postId: string, revisionId: string, editorId: string | null): Promise<Post> {
+  const revision = await getRepositories().revisions.get(revisionId);
+  if (!revision || revision.post_id !== postId) {
+    throw new Error('This revision does not belong to the post.');
+  }
+  await updatePost(postId, { ...revision.snapshot }, { editorId, restoredFrom: revision.id });
+  const post = await getRepositories().posts.get(postId);
+  if (!post) {
+    throw new Error('The post no longer exists.');
+  }
+  return post;
 }
 
-// Adds a new post to Firestore.
-export async function addPost(post: Omit<Post, 'id'>): Promise<string> {
-  const postsCol = collection(db, 'posts').withConverter(postConverter);
-  const docRef = await addDoc(postsCol, post);
-  return docRef.id;
+// Schedules a post to be published at the given time. `publishDuePosts` publishes it once the time has come.
+export async function schedulePost(id: string, publishAt: Date): Promise<void> {
+  await updatePost(id, { status: 'scheduled', publish_at: publishAt });
 }
 
-// Updates a post in Firestore.
-export async function updatePost(id: string, updates: Partial<Post>): Promise<void> {
-  const postDocRef = doc(db, 'posts', id);
-  await updateDoc(postDocRef, {
-    ...updates,
-    updated_at: serverTimestamp()
-  });
+// Fetches the scheduled posts, soonest first.
+export async function getScheduledPosts(): Promise<Post[]> {
+  const posts = await getRepositories().posts.listScheduled();
+  return posts.sort((a, b) => (a.publish_at?.getTime() ?? 0) - (b.publish_at?.getTime() ?? 0));
 }
 
-// Deletes a post from Firestore.
+// Publishes every scheduled post whose time has come, and resolves with the posts it published.
+// This is what the scheduler job (`npm run posts:publish-scheduled`) runs.
+// It also indexes the posts set to 'published' by hand with a future `publish_at` that have gone live
+// since, as search leaves them out until then (see `isSearchable`).
+export async function publishDuePosts(now = new Date()): Promise<Post[]> {
+  const due = (await getScheduledPosts()).filter(post => !post.publish_at || post.publish_at.getTime() <= now.getTime());
+  for (const post of due) {
+    // Keep the scheduled time as the publication time, even if the job runs a little late.
+    await updatePost(post.id, { status: 'published', publish_at: post.publish_at ?? now });
+  }
+
+  const [published, indexed] = await Promise.all([getRepositories().posts.listPublished(), getRepositories().searchIndex.list()]);
+  const indexedIds = new Set(indexed.map(doc => doc.id));
+  for (const post of published.filter(post => post.publish_at && isLive(post, now) && !indexedIds.has(post.id))) {
+    await indexPost(post, now);
+  }
+  return due;
+}
+
+// Deletes a post, its search index entry, its revisions, its review thread, its reactions, the bookmarks
+// and reading list entries pointing at it, and its slugs, which become free for other posts.
+// Its images are deleted from Storage too, unless other content uses them.
 export async function deletePost(id: string): Promise<void> {
-  const postDocRef = doc(db, 'posts', id);
-  await deleteDoc(postDocRef);
+  await releaseSlugs(id);
+  await getRepositories().revisions.deleteByPost(id);
+  await getRepositories().reviews.deleteByPost(id);
+  await getRepositories().reactions.deleteByTarget('post', id);
+  await getRepositories().bookmarks.deleteByPost(id);
+  await getRepositories().readingLists.removePostFromAll(id);
+  await getRepositories().posts.delete(id);
+  await removePostFromIndex(id);
+  await releaseTargetMedia('post', id);
 }
 
-// --- COMMENTS ---
+// --- REVIEWS ---
 
-// Fetches comments from Firestore.
-export async function getComments(postId?: string): Promise<Comment[]> {
-    const commentsCol = collection(db, 'comments').withConverter(commentConverter);
-    
-    let q;
-    // If a postId is provided, fetch approved comments for that post.
-    // Otherwise (for the admin page), fetch all comments.
-    if (postId) {
-        q = query(commentsCol, where('postId', '==', postId), where('status', '==', 'approved'));
-    } else {
-        q = query(commentsCol);
+// The decisions a moderator can make on a post under review, and the status each one moves the post to.
+const REVIEW_DECISIONS = {
+    approved: 'published',
+    changes_requested: 'changes_requested',
+    rejected: 'rejected',
+} as const;
+
+export type ReviewDecision = keyof typeof REVIEW_DECISIONS;
+
+// Adds a note to a post's review thread and resolves with it.
+async function addReviewNote(note: Omit<ReviewNote, 'id' | 'created_at'>): Promise<ReviewNote> {
+    const sanitized = {
+        ...note,
+        body: sanitizePlainText(note.body).trim(),
+        ...(note.quote && { quote: sanitizePlainText(note.quote).trim() }),
+        created_at: new Date(),
+    };
+    const id = await getRepositories().reviews.add(sanitized);
+    return { ...sanitized, id };
+}
+
+// Fetches a post's review thread, oldest first.
+export async function getReviewThread(postId: string): Promise<ReviewNote[]> {
+    return getRepositories().reviews.listByPost(postId);
+}
+
+// Adds a comment to a post's review thread. Pass the passage it is about as `quote` for inline feedback.
+export async function addReviewComment(postId: string, authorId: string, body: string, quote?: string): Promise<ReviewNote> {
+    if (!body.trim()) {
+        throw new Error('A comment can\'t be empty.');
+    }
+    const note = await addReviewNote({ post_id: postId, author_id: authorId, kind: 'comment', body, ...(quote && { quote }) });
+    await notifyReviewParticipants(note);
+    return note;
+}
+
+// Tells the others in a post's review thread about a new note.
+async function notifyReviewParticipants(note: ReviewNote): Promise<void> {
+    const [post, thread] = await Promise.all([getRepositories().posts.get(note.post_id), getRepositories().reviews.listByPost(note.post_id)]);
+    if (post) {
+        await notifyReviewNote(note, post, thread);
     }
+}
 
-    const commentSnapshot = await getDocs(q);
-    const commentList = commentSnapshot.docs.map(doc => doc.data() as Comment);
-    return commentList;
+// Records a moderator's decision on a post and moves the post to the matching status.
+// Requesting changes and rejecting need a note, so the author knows what to do next.
+export async function reviewPost(postId: string, reviewerId: string, decision: ReviewDecision, body = '', quote?: string): Promise<ReviewNote> {
+    if (decision !== 'approved' && !body.trim()) {
+        throw new Error('Please tell the author what needs to change.');
+    }
+    await updatePost(postId, { status: REVIEW_DECISIONS[decision] }, { editorId: reviewerId, note: body.trim() });
+    return addReviewNote({ post_id: postId, author_id: reviewerId, kind: decision, body, ...(quote && { quote }) });
+}
+
+// Sends a post back for review after the author has made the requested changes,
+// with an optional reply to the reviewers.
+export async function resubmitPost(postId: string, authorId: string, body = ''): Promise<ReviewNote> {
+    await updatePost(postId, { status: 'pending' }, { editorId: authorId });
+    const note = await addReviewNote({ post_id: postId, author_id: authorId, kind: 'resubmitted', body });
+    await notifyReviewParticipants(note);
+    return note;
+}
+
+// --- COMMENTS ---
+
+// Fetches comments. If a postId is provided, only approved comments for that post are returned;
+// otherwise (for the admin page) all comments are returned.
+export async function getComments(postId?: string): Promise<Comment[]> {
+    return getRepositories().comments.list(postId);
 }
 
 // Fetches all comments by a specific user.
 export async function getCommentsByUserId(userId: string): Promise<Comment[]> {
-    const commentsCol = collection(db, 'comments').withConverter(commentConverter);
-    const q = query(commentsCol, where('userId', '==', userId));
-    const commentSnapshot = await getDocs(q);
-    const commentList = commentSnapshot.docs.map(doc => doc.data() as Comment);
-    return commentList;
+    return getRepositories().comments.listByUser(userId);
 }
 
-// Adds a new comment.
-export async function addComment(comment: Omit<Comment, 'id'>): Promise<string> {
-    const commentsCol = collection(db, 'comments').withConverter(commentConverter);
-    const docRef = await addDoc(commentsCol, comment);
-    return docRef.id;
+// What became of a new comment or story: its ID, and whether it is waiting for a moderator or was
+// approved straight away by automated moderation.
+export type Submission = {
+    id: string;
+    status: Comment['status'];
+};
+
+// Adds a new comment. Comments are plain text, so any HTML in them is removed.
+// For a reply, pass the comment it answers as `parent_id`; its place in the thread is worked out here
+// (see `replyPlacement` in `src/lib/comments.ts`).
+// A pending comment is then screened by automated moderation (see `src/lib/screening.ts`):
+// low-risk ones are approved, and notified about, straight away.
+export async function addComment(comment: Omit<Comment, 'id'>): Promise<Submission> {
+    await assertCanContribute(comment.userId);
+    const repositories = getRepositories();
+    const sanitized = { ...comment, comment_text: sanitizePlainText(comment.comment_text) };
+    delete sanitized.parent_id;
+    delete sanitized.ancestor_ids;
+    let parent: Comment | null = null;
+    if (comment.parent_id) {
+        parent = await repositories.comments.get(comment.parent_id);
+        if (!parent || parent.postId !== comment.postId || parent.status !== 'approved') {
+            throw new Error('The comment you are replying to is no longer available.');
+        }
+        Object.assign(sanitized, replyPlacement(parent));
+    }
+
+    delete sanitized.moderation;
+    const id = await repositories.comments.add(sanitized);
+    await syncMedia('comment', id, attachmentMediaPaths(sanitized));
+    if (sanitized.status === 'pending' && await requestScreening('comment', id)) {
+        return { id, status: 'approved' };
+    }
+    return { id, status: sanitized.status };
 }
 
-// Updates a comment in Firestore.
-export async function updateComment(id: string, updates: Partial<Comment>): Promise<void> {
-    const commentDocRef = doc(db, 'comments', id);
-    await updateDoc(commentDocRef, updates);
+// Updates a comment. Approving or rejecting it notifies its writer and, once approved, the post's author
+// and the writer of the comment it replies to.
+// Rejecting a comment leaves its replies alone: approved replies stay visible under a placeholder.
+// `actorId` is the moderator making the change, named on those notifications.
+export async function updateComment(id: string, updates: Partial<Comment>, actorId?: string): Promise<void> {
+    if (updates.comment_text !== undefined) {
+        updates = { ...updates, comment_text: sanitizePlainText(updates.comment_text) };
+    }
+    const existing = updates.status !== undefined ? await getRepositories().comments.get(id) : null;
+    await getRepositories().comments.update(id, updates);
+    if (updates.image_url !== undefined || updates.image !== undefined) {
+        const comment = await getRepositories().comments.get(id);
+        await syncMedia('comment', id, comment ? attachmentMediaPaths(comment) : []);
+    }
+    if (existing && updates.status !== existing.status) {
+        const [post, parent] = await Promise.all([
+            getRepositories().posts.get(existing.postId),
+            existing.parent_id ? getRepositories().comments.get(existing.parent_id) : null,
+        ]);
+        await notifyCommentModerated({ ...existing, ...updates }, post, parent, actorId);
+    }
 }
 
-// Deletes a comment.
+// Deletes a comment, its reactions and its image.
 export async function deleteComment(id: string): Promise<void> {
-    const commentDocRef = doc(db, 'comments', id);
-    await deleteDoc(commentDocRef);
+    await getRepositories().reactions.deleteByTarget('comment', id);
+    await getRepositories().comments.delete(id);
+    await releaseTargetMedia('comment', id);
+}
+
+// Sets the status of many comments at once (the bulk actions on the admin page), in batched writes.
+// Resolves with the comments that couldn't be changed, e.g. because they were deleted in the meantime.
+// The changed comments are notified about as with `updateComment`.
+export async function updateCommentStatuses(ids: string[], status: Comment['status'], actorId?: string): Promise<BulkWriteResult> {
+    const repositories = getRepositories();
+    const existing = await Promise.all(ids.map(id => repositories.comments.get(id)));
+    const missing = ids.filter((_, i) => !existing[i]).map(id => ({ id, error: 'The comment no longer exists.' }));
+    const changing = existing.filter((comment): comment is Comment => !!comment && comment.status !== status);
+
+    const { failed } = await repositories.comments.updateMany(changing.map(comment => comment.id), { status });
+    const failedIds = new Set(failed.map(f => f.id));
+    for (const comment of changing.filter(c => !failedIds.has(c.id))) {
+        const [post, parent] = await Promise.all([
+            repositories.posts.get(comment.postId),
+            comment.parent_id ? repositories.comments.get(comment.parent_id) : null,
+        ]);
+        await notifyCommentModerated({ ...comment, status }, post, parent, actorId);
+    }
+    return { failed: [...missing, ...failed] };
+}
+
+// Deletes many comments at once, in batched writes, and the reactions and images of those deleted.
+export async function deleteComments(ids: string[]): Promise<BulkWriteResult> {
+    const { failed } = await getRepositories().comments.deleteMany(ids);
+    const failedIds = new Set(failed.map(f => f.id));
+    for (const id of ids.filter(id => !failedIds.has(id))) {
+        await getRepositories().reactions.deleteByTarget('comment', id);
+        await releaseTargetMedia('comment', id);
+    }
+    return { failed };
 }
 
 
 // --- STORIES ---
 
-// Fetches stories from Firestore.
+// Fetches stories. If a postId is provided, only approved stories for that post are returned;
+// otherwise (for the admin page) all stories are returned.
 export async function getStories(postId?: string): Promise<FollowUpStory[]> {
-    const storiesCol = collection(db, 'stories').withConverter(storyConverter);
+    return getRepositories().stories.list(postId);
+}
+
+// Adds a new story. Stories are plain text, so any HTML in them is removed, and their gallery is checked
+// like a post's. Like comments, pending stories are then screened and low-risk ones approved straight away.
+export async function addStory(story: Omit<FollowUpStory, 'id'>): Promise<Submission> {
+    await assertCanContribute(story.userId);
+    const repositories = getRepositories();
+    const sanitized = {
+        ...story,
+        story_text: sanitizePlainText(story.story_text),
+        ...(story.gallery && { gallery: normalizeGallery(story.gallery, MAX_STORY_GALLERY_IMAGES) }),
+    };
+
+    delete sanitized.moderation;
+    const id = await repositories.stories.add(sanitized);
+    await syncMedia('story', id, attachmentMediaPaths(sanitized));
+    if (sanitized.status === 'pending' && await requestScreening('story', id)) {
+        return { id, status: 'approved' };
+    }
+    return { id, status: sanitized.status };
+}
+
+// Updates a story. Approving or rejecting it notifies its writer and, once approved, the post's author.
+// `actorId` is the moderator making the change, as with `updateComment`.
+export async function updateStory(id: string, updates: Partial<FollowUpStory>, actorId?: string): Promise<void> {
+    if (updates.story_text !== undefined) {
+        updates = { ...updates, story_text: sanitizePlainText(updates.story_text) };
+    }
+    if (updates.gallery !== undefined) {
+        updates = { ...updates, gallery: normalizeGallery(updates.gallery, MAX_STORY_GALLERY_IMAGES) };
+    }
+    const existing = updates.status !== undefined ? await getRepositories().stories.get(id) : null;
+    await getRepositories().stories.update(id, updates);
+    if (updates.image_url !== undefined || updates.image !== undefined || updates.gallery !== undefined) {
+        const story = await getRepositories().stories.get(id);
+        await syncMedia('story', id, story ? attachmentMediaPaths(story) : []);
+    }
+    if (existing && updates.status !== existing.status) {
+        const post = await getRepositories().posts.get(existing.postId);
+        await notifyStoryModerated({ ...existing, ...updates }, post, actorId);
+    }
+}
+
+// Deletes a story, its reactions and its image.
+export async function deleteStory(id: string): Promise<void> {
+    await getRepositories().reactions.deleteByTarget('story', id);
+    await getRepositories().stories.delete(id);
+    await releaseTargetMedia('story', id);
+}
+
+// Sets the status of many stories at once, like `updateCommentStatuses`.
+export async function updateStoryStatuses(ids: string[], status: FollowUpStory['status'], actorId?: string): Promise<BulkWriteResult> {
+    const repositories = getRepositories();
+    const existing = await Promise.all(ids.map(id => repositories.stories.get(id)));
+    const missing = ids.filter((_, i) => !existing[i]).map(id => ({ id, error: 'The story no longer exists.' }));
+    const changing = existing.filter((story): story is FollowUpStory => !!story && story.status !== status);
 
-    let q;
-    // If a postId is provided, fetch approved stories for that post.
-    // Otherwise (for the admin page), fetch all stories.
-    if (postId) {
-        q = query(storiesCol, where('postId', '==', postId), where('status', '==', 'approved'));
-    } else {
-        q = query(storiesCol);
+    const { failed } = await repositories.stories.updateMany(changing.map(story => story.id), { status });
+    const failedIds = new Set(failed.map(f => f.id));
+    for (const story of changing.filter(s => !failedIds.has(s.id))) {
+        await notifyStoryModerated({ ...story, status }, await repositories.posts.get(story.postId), actorId);
     }
+    return { failed: [...missing, ...failed] };
+}
+
+// Deletes many stories at once, in batched writes, and the reactions and images of those deleted.
+export async function deleteStories(ids: string[]): Promise<BulkWriteResult> {
+    const { failed } = await getRepositories().stories.deleteMany(ids);
+    const failedIds = new Set(failed.map(f => f.id));
+    for (const id of ids.filter(id => !failedIds.has(id))) {
+        await getRepositories().reactions.deleteByTarget('story', id);
+        await releaseTargetMedia('story', id);
+    }
+    return { failed };
+}
 
-    const storySnapshot = await getDocs(q);
-    const storyList = storySnapshot.docs.map(doc => doc.data() as FollowUpStory);
-    return storyList;
+
+// --- REACTIONS ---
+
+// Adds (`active` true) or removes a user's reaction to a post, comment or story, and resolves with the
+// target's reaction counts afterwards. Asking for the state the reaction is already in changes nothing,
+// so a repeated click or a retried request can't count a reaction twice.
+export async function setReaction(targetType: ReactionTarget, targetId: string, userId: string, kind: ReactionKind, active: boolean): Promise<ReactionCounts> {
+    return getRepositories().reactions.set({ target_type: targetType, target_id: targetId, user_id: userId, kind }, active);
 }
 
-// Adds a new story.
-export async function addStory(story: Omit<FollowUpStory, 'id'>): Promise<string> {
-    const storiesCol = collection(db, 'stories').withConverter(storyConverter);
-    const docRef = await addDoc(storiesCol, story);
-    return docRef.id;
+// Fetches the reactions a user has left on posts, comments or stories.
+export async function getUserReactions(userId: string, targetType: ReactionTarget): Promise<Reaction[]> {
+    return getRepositories().reactions.listByUser(userId, targetType);
 }
 
-// Updates a story in Firestore.
-export async function updateStory(id: string, updates: Partial<FollowUpStory>): Promise<void> {
-    const storyDocRef = doc(db, 'stories', id);
-    await updateDoc(storyDocRef, updates);
+
+// --- BOOKMARKS ---
+
+// The longest name a reading list can have.
+export const READING_LIST_NAME_MAX_LENGTH = 60;
+
+// Fetches a user's bookmarks, newest first.
+export async function getBookmarks(userId: string): Promise<Bookmark[]> {
+    return getRepositories().bookmarks.listByUser(userId);
 }
 
-// Deletes a story.
-export async function deleteStory(id: string): Promise<void> {
-    const storyDocRef = doc(db, 'stories', id);
-    await deleteDoc(storyDocRef);
+// Fetches the live posts with the given IDs, in the same order. Posts that were unpublished or deleted
+// since they were saved are left out, so saved lists never show a draft to other readers.
+export async function getSavedPosts(postIds: string[]): Promise<Post[]> {
+    const posts = await Promise.all(postIds.map(id => getRepositories().posts.get(id)));
+    return posts.filter((post): post is Post => post !== null && isLive(post));
+}
+
+// Saves a post for a user. Saving a post twice keeps the first bookmark.
+export async function bookmarkPost(userId: string, postId: string): Promise<void> {
+    await getRepositories().bookmarks.add(userId, postId);
+}
+
+// Unsaves a post, which also takes it out of the user's reading lists.
+export async function removeBookmark(userId: string, postId: string): Promise<void> {
+    const lists = await getRepositories().readingLists.listByUser(userId);
+    await Promise.all(lists
+        .filter(list => list.post_ids.includes(postId))
+        .map(list => getRepositories().readingLists.removePost(list.id, postId)));
+    await getRepositories().bookmarks.delete(userId, postId);
+}
+
+// Checks and cleans the name of a reading list.
+function readingListName(name: string): string {
+    const cleaned = sanitizePlainText(name).trim();
+    if (!cleaned) {
+        throw new Error('A reading list needs a name.');
+    }
+    if (cleaned.length > READING_LIST_NAME_MAX_LENGTH) {
+        throw new Error(`A reading list name can be at most ${READING_LIST_NAME_MAX_LENGTH} characters.`);
+    }
+    return cleaned;
+}
+
+// Fetches a user's reading lists, oldest first.
+export async function getReadingLists(userId: string): Promise<ReadingList[]> {
+    return getRepositories().readingLists.listByUser(userId);
+}
+
+// Fetches a single reading list. Whether the viewer may see it is up to the caller (and the security rules).
+export async function getReadingList(id: string): Promise<ReadingList | null> {
+    return getRepositories().readingLists.get(id);
+}
+
+// Creates a private, empty reading list and resolves with its ID.
+export async function createReadingList(userId: string, name: string, description = ''): Promise<string> {
+    const now = new Date();
+    return getRepositories().readingLists.add({
+        user_id: userId,
+        name: readingListName(name),
+        description: sanitizePlainText(description).trim(),
+        post_ids: [],
+        is_public: false,
+        created_at: now,
+        updated_at: now,
+    });
+}
+
+// Renames a reading list, changes its description or shares it (`is_public`).
+export async function updateReadingList(id: string, updates: Partial<Pick<ReadingList, 'name' | 'description' | 'is_public'>>): Promise<void> {
+    const cleaned = { ...updates };
+    if (cleaned.name !== undefined) {
+        cleaned.name = readingListName(cleaned.name);
+    }
+    if (cleaned.description !== undefined) {
+        cleaned.description = sanitizePlainText(cleaned.description).trim();
+    }
+    await getRepositories().readingLists.update(id, cleaned);
+}
+
+// Deletes a reading list. The posts in it stay bookmarked.
+export async function deleteReadingList(id: string): Promise<void> {
+    await getRepositories().readingLists.delete(id);
+}
+
+// Adds a post to one of a user's reading lists, bookmarking it as well.
+export async function addToReadingList(userId: string, listId: string, postId: string): Promise<void> {
+    await getRepositories().bookmarks.add(userId, postId);
+    await getRepositories().readingLists.addPost(listId, postId);
+}
+
+// Takes a post out of a reading list. It stays bookmarked.
+export async function removeFromReadingList(listId: string, postId: string): Promise<void> {
+    await getRepositories().readingLists.removePost(listId, postId);
+}
+
+
+// --- FOLLOWS ---
+
+// Fetches the authors and tags a user follows, newest first.
+export async function getFollows(followerId: string): Promise<Follow[]> {
+    return getRepositories().follows.listByFollower(followerId);
+}
+
+// Follows (`active` true) or unfollows an author (by user ID) or a tag. Asking for the state the follow
+// is already in changes nothing, so a repeated click can't count a follower twice.
+export async function setFollow(followerId: string, targetType: FollowTarget, targetId: string, active: boolean): Promise<void> {
+    const target = targetType === 'tag' ? normalizeTag(targetId) : targetId;
+    if (!target) {
+        throw new Error('Nothing to follow.');
+    }
+    if (targetType === 'author' && target === followerId) {
+        throw new Error('You can\'t follow yourself.');
+    }
+    await getRepositories().follows.set({ follower_id: followerId, target_type: targetType, target_id: target }, active);
+}
+
+// Fetches a user's feed: the latest published posts by the authors and with the tags they follow.
+export async function getFeed(userId: string): Promise<FeedItem[]> {
+    const [follows, posts] = await Promise.all([getFollows(userId), getPublishedPosts()]);
+    return buildFeed(posts, follows);
+}
+
+// Fetches a user's newsletter subscription, which says whether they get the weekly digest.
+export async function getDigestSubscription(userId: string): Promise<NewsletterSubscriber | null> {
+    return getRepositories().newsletterSubscribers.get(userId);
+}
+
+// Turns the weekly digest of a user's feed on or off. It is sent by the digest job
+// (`npm run newsletter:send-digest`) to the given email address.
+export async function setWeeklyDigest(userId: string, email: string, enabled: boolean): Promise<void> {
+    const existing = await getRepositories().newsletterSubscribers.get(userId);
+    if (existing) {
+        await getRepositories().newsletterSubscribers.update(userId, { email, weekly_digest: enabled });
+    } else if (enabled) {
+        await getRepositories().newsletterSubscribers.set(userId, { email, user_id: userId, weekly_digest: true, created_at: new Date() });
+    }
+}
+
+
+// --- NOTIFICATIONS ---
+
+// Fetches a user's latest notifications, newest first.
+export async function getNotifications(userId: string): Promise<UserNotification[]> {
+    return getRepositories().notifications.listByUser(userId, NOTIFICATION_LIST_SIZE);
+}
+
+// Marks one notification as read.
+export async function markNotificationRead(id: string): Promise<void> {
+    await getRepositories().notifications.update(id, { read: true });
+}
+
+// Marks all of a user's notifications as read.
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+    await getRepositories().notifications.markAllRead(userId);
+}
+
+
+// --- TAXONOMY ---
+
+// Fetches all categories, sorted by name.
+export async function getCategories(): Promise<Category[]> {
+    return getRepositories().categories.list();
+}
+
+// Fetches a single category by its ID (the slug used in its URL).
+export async function getCategory(id: string): Promise<Category | null> {
+    return getRepositories().categories.get(id);
+}
+
+// Creates a category and resolves with its ID. The ID is derived from the name, so names must be unique.
+export async function addCategory(category: Omit<Category, 'id' | 'created_at'>): Promise<string> {
+    const id = categoryId(category.name);
+    if (!id) {
+        throw new Error('A category name must contain letters or numbers.');
+    }
+    if (await getRepositories().categories.get(id)) {
+        throw new Error(`A category named "${category.name}" already exists.`);
+    }
+    await getRepositories().categories.create(id, { ...category, created_at: new Date() });
+    await syncMedia('category', id, urlMediaPaths(category.cover_image_url));
+    return id;
+}
+
+// Updates a category's description or cover image. The name can't change, since posts refer to it.
+// A replaced cover image is deleted from Storage.
+export async function updateCategory(id: string, updates: Partial<Pick<Category, 'description' | 'cover_image_url'>>): Promise<void> {
+    await getRepositories().categories.update(id, updates);
+    if (updates.cover_image_url !== undefined) {
+        await syncMedia('category', id, urlMediaPaths(updates.cover_image_url));
+    }
+}
+
+// Deletes a category. Categories still used by a post can't be deleted.
+export async function deleteCategory(id: string): Promise<void> {
+    const category = await getRepositories().categories.get(id);
+    if (!category) {
+        return;
+    }
+    const posts = await getRepositories().posts.list();
+    if (posts.some(post => post.category === category.name)) {
+        throw new Error(`"${category.name}" is still used by some posts.`);
+    }
+    await getRepositories().categories.delete(id);
+    await releaseTargetMedia('category', id);
+}
+
+// Fetches the suggested tags, sorted alphabetically.
+export async function getTags(): Promise<Tag[]> {
+    return getRepositories().tags.list();
+}
+
+// Adds a suggested tag and resolves with its normalized form.
+export async function addTag(name: string): Promise<string> {
+    const tag = normalizeTag(name);
+    if (!tag) {
+        throw new Error('A tag must contain letters or numbers.');
+    }
+    await getRepositories().tags.create(tag, { name: tag, created_at: new Date() });
+    return tag;
+}
+
+// Removes a tag from the suggestions. Posts that use it keep it.
+export async function deleteTag(id: string): Promise<void> {
+    await getRepositories().tags.delete(id);
 }
 
 
@@ -278,10 +762,7 @@ export async function deleteStory(id: string): Promise<void> {
 
 // Fetches all users.
 export async function getUsers(): Promise<User[]> {
-    const usersCol = collection(db, 'users').withConverter(userConverter);
-    const userSnapshot = await getDocs(usersCol);
-    const userList = userSnapshot.docs.map(doc => doc.data() as User);
-    return userList;
+    return getRepositories().users.list();
 }
 
 // Fetches a single user by their ID.
@@ -290,50 +771,425 @@ export async function getUserById(id: string): Promise<User | null> {
     if (!id) {
         return null;
     }
-    const userDocRef = doc(db, 'users', id).withConverter(userConverter);
-    const userSnap = await getDoc(userDocRef);
-    if (userSnap.exists()) {
-        return userSnap.data() as User;
-    } else {
+    return getRepositories().users.get(id);
+}
+
+// Fetches a single user and their published posts by username. Deleted users have no public page.
+export async function getUserByUsername(username: string): Promise<{ user: User, posts: Post[] } | null> {
+    const user = await getRepositories().users.getByUsername(username);
+    if (!user || user.status === 'deleted') {
         return null;
     }
+
+    const posts = await getRepositories().posts.listByAuthor(user.id);
+    return { user, posts: posts.filter(post => isLive(post)) };
 }
 
-// Fetches a single user and their published posts by username.
-export async function getUserByUsername(username: string): Promise<{ user: User, posts: Post[] } | null> {
-    const usersCol = collection(db, 'users').withConverter(userConverter);
-    const q = query(usersCol, where('username', '==', username));
-    const userSnapshot = await getDocs(q);
+// Creates the profile document for a newly registered user. The ID is their Firebase Auth UID.
+export async function createUser(id: string, user: Omit<User, 'id'>): Promise<void> {
+    await getRepositories().users.create(id, user);
+    await syncMedia('user', id, urlMediaPaths(user.avatar));
+}
 
-    if (userSnapshot.empty) {
-        return null;
+// Updates a user's profile document. A replaced avatar is deleted from Storage.
+export async function updateUser(id: string, updates: Partial<User>): Promise<void> {
+    await getRepositories().users.update(id, updates);
+    if (updates.avatar !== undefined) {
+        await syncMedia('user', id, urlMediaPaths(updates.avatar));
     }
+}
 
-    const user = userSnapshot.docs[0].data() as User;
-    
-    const postsCol = collection(db, 'posts').withConverter(postConverter);
-    const postsQuery = query(postsCol, where('author_id', '==', user.id), where('status', '==', 'published'));
-    const postSnapshot = await getDocs(postsQuery);
-    const posts = postSnapshot.docs.map(doc => doc.data() as Post);
 
-    return { user, posts };
+// --- AUTOMATED MODERATION ---
+
+// Screens a submission that was just saved (see `src/lib/screening.ts`) and resolves with whether it
+// was approved straight away. With Firestore that happens on the server, as the service account, since
+// only it may record the outcome. The in-memory store lives where the app runs, so it is screened right
+// here, with the registered classifier or the rules. Resolves with false if screening fails altogether:
+// the submission then simply waits for a moderator, as before.
+async function requestScreening(kind: ScreeningKind, id: string): Promise<boolean> {
+    try {
+        const repositories = getRepositories();
+        if (repositories.backend === 'memory') {
+            return await screenSubmission(repositories, kind, id, input => assessContent(input, getContentClassifier() ?? rulesClassifier));
+        }
+        return await screenSubmissionOnServer(kind, id);
+    } catch (error) {
+        console.error('Automated moderation failed:', error);
+        return false;
+    }
+}
+
+
+// --- USER MANAGEMENT ---
+// The actions admins take on accounts (see `src/lib/users.ts`). Each one is recorded in the audit log.
+
+// Throws when a user may not add posts, comments or stories because they are suspended, banned or deleted.
+async function assertCanContribute(userId?: string): Promise<void> {
+    const user = userId ? await getRepositories().users.get(userId) : null;
+    if (user && isBlocked(user)) {
+        throw new Error(blockedMessage(user));
+    }
+}
+
+// Drops the fields that are undefined, which Firestore can't store.
+function definedFields(fields: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+// Adds an entry to the audit log. Entries are never changed or removed afterwards.
+export async function recordAudit({ before, after, reason, ...entry }: Omit<AuditEntry, 'id' | 'created_at'>): Promise<void> {
+    await getRepositories().audit.add({
+        ...entry,
+        ...(before && { before: definedFields(before) }),
+        ...(after && { after: definedFields(after) }),
+        ...(reason && { reason }),
+        created_at: new Date(),
+    });
+}
+
+// Fetches the audit log entries about a user, post, comment or story, newest first.
+export async function getAuditTrail(targetType: AuditTargetType, targetId: string): Promise<AuditEntry[]> {
+    return getRepositories().audit.listByTarget(targetType, targetId);
+}
+
+// Fetches the audit log entries recorded since `since` (or all of them), newest first.
+// Filter them with `filterAuditEntries` from `src/lib/audit.ts`.
+export async function getAuditLog(since?: Date): Promise<AuditEntry[]> {
+    return getRepositories().audit.list(since);
+}
+
+// Loads the user an admin is acting on. Admins can't act on their own account, so they can't lock themselves out.
+async function managedUser(actorId: string, userId: string): Promise<User> {
+    if (actorId === userId) {
+        throw new Error('You can\'t change your own account here.');
+    }
+    const user = await getRepositories().users.get(userId);
+    if (!user) {
+        throw new Error('This user no longer exists.');
+    }
+    return user;
+}
+
+// The status fields of a user, for the audit log.
+function statusFields(user: Partial<User>): Record<string, unknown> {
+    return { status: user.status ?? 'active', suspended_until: user.suspended_until, status_reason: user.status_reason || undefined };
+}
+
+// Changes a user's role. The last active admin can't be demoted.
+export async function changeUserRole(actorId: string, userId: string, role: User['role'], reason = ''): Promise<void> {
+    const user = await managedUser(actorId, userId);
+    if (user.role === role) {
+        return;
+    }
+    if (user.role === 'admin') {
+        const admins = (await getRepositories().users.list()).filter(u => u.role === 'admin' && effectiveStatus(u) !== 'deleted');
+        if (admins.length <= 1) {
+            throw new Error('There must always be at least one admin.');
+        }
+    }
+    await getRepositories().users.update(userId, { role });
+    await recordAudit({
+        actor_id: actorId,
+        action: 'user.role_changed',
+        target_type: 'user',
+        target_id: userId,
+        summary: `Changed role of ${user.name} from ${user.role} to ${role}`,
+        before: { role: user.role },
+        after: { role },
+        reason: reason.trim(),
+    });
+}
+
+// Suspends a user until the given date, after which they can use their account again.
+export async function suspendUser(actorId: string, userId: string, until: Date, reason: string): Promise<void> {
+    const user = await managedUser(actorId, userId);
+    if (until.getTime() <= Date.now()) {
+        throw new Error('A suspension must end in the future.');
+    }
+    const updates = { status: 'suspended' as const, suspended_until: until, status_reason: reason.trim() };
+    await getRepositories().users.update(userId, updates);
+    await recordAudit({
+        actor_id: actorId,
+        action: 'user.suspended',
+        target_type: 'user',
+        target_id: userId,
+        summary: `Suspended ${user.name} until ${until.toDateString()}`,
+        before: statusFields(user),
+        after: statusFields(updates),
+        reason: reason.trim(),
+    });
+}
+
+// Bans a user until an admin lifts the ban.
+export async function banUser(actorId: string, userId: string, reason: string): Promise<void> {
+    const user = await managedUser(actorId, userId);
+    const updates = { status: 'banned' as const, status_reason: reason.trim() };
+    await getRepositories().users.update(userId, updates);
+    await recordAudit({
+        actor_id: actorId,
+        action: 'user.banned',
+        target_type: 'user',
+        target_id: userId,
+        summary: `Banned ${user.name}`,
+        before: statusFields(user),
+        after: statusFields(updates),
+        reason: reason.trim(),
+    });
+}
+
+// Lifts a suspension or ban, or restores a deleted account. Content deleted along with an account
+// is not brought back, and unpublished posts stay drafts.
+export async function reinstateUser(actorId: string, userId: string, reason = ''): Promise<void> {
+    const user = await managedUser(actorId, userId);
+    const updates = { status: 'active' as const, status_reason: '' };
+    await getRepositories().users.update(userId, updates);
+    await recordAudit({
+        actor_id: actorId,
+        action: user.status === 'deleted' ? 'user.restored' : 'user.reinstated',
+        target_type: 'user',
+        target_id: userId,
+        summary: user.status === 'deleted' ? `Restored the account of ${user.name}` : `Reinstated ${user.name}`,
+        before: statusFields(user),
+        after: statusFields(updates),
+        reason: reason.trim(),
+    });
+}
+
+// Soft-deletes a user: the account is marked deleted and can't be used, but can be restored. The
+// user's posts, comments and stories are kept, unpublished or deleted as `cascade` says.
+export async function deleteUserAccount(actorId: string, userId: string, cascade: DeleteCascade, reason = ''): Promise<void> {
+    const user = await managedUser(actorId, userId);
+    const affected = { posts: 0, comments: 0, stories: 0 };
+
+    if (cascade.posts !== 'keep') {
+        const posts = await getRepositories().posts.listByAuthor(userId);
+        for (const post of posts) {
+            if (cascade.posts === 'delete') {
+                await deletePost(post.id);
+                affected.posts++;
+            } else if (post.status !== 'draft') {
+                await updatePost(post.id, { status: 'draft' }, { editorId: actorId });
+                affected.posts++;
+            }
+        }
+    }
+    if (cascade.comments === 'delete') {
+        const comments = await getRepositories().comments.listByUser(userId);
+        for (const comment of comments) {
+            await deleteComment(comment.id);
+        }
+        affected.comments = comments.length;
+    }
+    if (cascade.stories === 'delete') {
+        const stories = (await getRepositories().stories.list()).filter(story => story.userId === userId);
+        for (const story of stories) {
+            await deleteStory(story.id);
+        }
+        affected.stories = stories.length;
+    }
+
+    const updates = { status: 'deleted' as const, deleted_at: new Date(), status_reason: reason.trim() };
+    await getRepositories().users.update(userId, updates);
+    await recordAudit({
+        actor_id: actorId,
+        action: 'user.deleted',
+        target_type: 'user',
+        target_id: userId,
+        summary: `Deleted the account of ${user.name} (posts: ${cascade.posts}, comments: ${cascade.comments}, stories: ${cascade.stories})`,
+        before: statusFields(user),
+        after: { ...statusFields(updates), cascade, affected },
+        reason: reason.trim(),
+    });
 }
 
 
 // --- EARLY ACCESS USERS ---
 
-// Adds a new early access user to Firestore.
+// Adds a new early access user.
 export async function addEarlyAccessUser(user: Omit<EarlyAccessUser, 'id'>): Promise<string> {
-    const earlyAccessUsersCol = collection(db, 'early_access_users').withConverter(earlyAccessUserConverter);
-    const docRef = await addDoc(earlyAccessUsersCol, user);
-    return docRef.id;
+    return getRepositories().earlyAccessUsers.add(user);
 }
 
 // --- NEWSLETTER SUBSCRIBERS ---
 
-// Adds a new newsletter subscriber to Firestore.
+// Adds a new newsletter subscriber.
 export async function addNewsletterSubscriber(subscriber: Omit<NewsletterSubscriber, 'id'>): Promise<string> {
-    const newsletterSubscribersCol = collection(db, 'newsletter_subscribers').withConverter(newsletterSubscriberConverter);
-    const docRef = await addDoc(newsletterSubscribersCol, subscriber);
-    return docRef.id;
+    return getRepositories().newsletterSubscribers.add(subscriber);
+}
+
+
+// --- MEDIA ---
+// Which content uses which file in Storage (see `src/lib/media.ts`), so files are deleted along with
+// the content, and once replaced.
+
+// The post fields that hold images.
+const MEDIA_FIELDS = ['featuredImgUrl', 'featured_image', 'gallery', 'content', 'content_format'] as const;
+
+// Records the files a document uses now and releases the ones it no longer uses.
+async function syncMedia(targetType: MediaTargetType, targetId: string, paths: string[]): Promise<void> {
+    const media = getRepositories().media;
+    const recorded = await media.listByTarget(targetType, targetId);
+    for (const path of paths.filter(path => !recorded.some(record => record.path === path))) {
+        await media.add({ path, target_type: targetType, target_id: targetId });
+    }
+    await releaseMedia(recorded.filter(record => !paths.includes(record.path)));
+}
+
+// Releases every file a deleted document used.
+async function releaseTargetMedia(targetType: MediaTargetType, targetId: string): Promise<void> {
+    await releaseMedia(await getRepositories().media.listByTarget(targetType, targetId));
+}
+
+// Deletes the records, and then each file no other document uses. A file that can't be deleted is
+// only logged: the content is gone either way, and `reconcileMedia` will find the file later.
+async function releaseMedia(records: MediaRecord[]): Promise<void> {
+    const media = getRepositories().media;
+    for (const record of records) {
+        await media.delete(record.id);
+        if ((await media.listByPath(record.path)).length > 0) {
+            continue;
+        }
+        try {
+            await getMediaStorage().delete(record.path);
+        } catch (error) {
+            console.error(`Could not delete ${record.path} from Storage:`, error);
+        }
+    }
+}
+
+// The files a post uses, now or in any of its revisions, which can still be restored.
+async function postMediaPathsWithHistory(post: Post): Promise<string[]> {
+    const revisions = await getRepositories().revisions.listByPost(post.id);
+    return Array.from(new Set([post, ...revisions.map(revision => revision.snapshot)].flatMap(version => postMediaPaths(version))));
+}
+
+async function syncPostMedia(post: Post): Promise<void> {
+    await syncMedia('post', post.id, await postMediaPathsWithHistory(post));
+}
+
+// What `reconcileMedia` found, and what it did about it.
+export type MediaReport = {
+    scanned: number; // Files in Storage.
+    referenced: number; // Files some post, comment, story, profile or category uses.
+    orphaned: StoredFile[]; // Files nothing uses, older than the grace period.
+    recent: StoredFile[]; // Files nothing uses yet, within the grace period. They are left alone.
+    purged: string[]; // The orphaned files deleted. Empty on a dry run.
+    failed: { path: string; error: string }[]; // The orphaned files that couldn't be deleted.
+    missing_records: number; // Files in use without a record, e.g. uploaded before records were kept.
+    stale_records: number; // Records of files their document no longer uses, or of documents that are gone.
+};
+
+export type ReconcileMediaOptions = {
+    // Delete the orphaned files and fix the records. Without it, nothing is changed: the report is a dry run.
+    purge?: boolean;
+    now?: Date;
+    // How old an unused file must be to count as orphaned, in milliseconds.
+    gracePeriod?: number;
+};
+
+// Throws unless every kind of content was listed in full. A listing that comes back short, e.g. because
+// the job may not read some documents, would make all of their files look orphaned:
+//   - A kind with no documents at all while its Storage folder has files is taken as a failed listing.
+//   - A record whose document wasn't listed is checked: if the document is still there, the listing left it out.
+async function assertCompleteListings(listed: Record<MediaTargetType, { id: string }[]>, records: MediaRecord[], files: StoredFile[]): Promise<void> {
+    const repositories = getRepositories();
+    const getters: Record<MediaTargetType, (id: string) => Promise<unknown>> = {
+        post: id => repositories.posts.get(id),
+        comment: id => repositories.comments.get(id),
+        story: id => repositories.stories.get(id),
+        user: id => repositories.users.get(id),
+        category: id => repositories.categories.get(id),
+    };
+    for (const [targetType, documents] of Object.entries(listed) as [MediaTargetType, { id: string }[]][]) {
+        const folder = `${MEDIA_TARGET_FOLDERS[targetType]}/`;
+        if (documents.length === 0 && files.some(file => file.path.startsWith(folder))) {
+            throw new Error(`No ${targetType} documents were listed, but Storage has files in ${folder}. Stopping in case the listing failed.`);
+        }
+        const ids = new Set(documents.map(document => document.id));
+        const unlisted = new Set(records.filter(record => record.target_type === targetType && !ids.has(record.target_id)).map(record => record.target_id));
+        for (const id of unlisted) {
+            if (await getters[targetType](id)) {
+                throw new Error(`The ${targetType} listing left out ${id}, which still exists. Stopping, since its files would look orphaned.`);
+            }
+        }
+    }
+}
+
+// Compares Storage with the content: finds the files nothing uses (uploaded but never saved, or left
+// behind by a failed cleanup) and the records that are missing or out of date. The content itself is
+// what counts, not the records, so files are never deleted because a record is missing.
+// It throws rather than report when a content listing looks incomplete (see `assertCompleteListings`),
+// and refuses to purge when the files and the content come from different backends, e.g. Firebase
+// Storage with the in-memory data.
+// This is what the reconciliation job (`npm run media:reconcile`) runs.
+export async function reconcileMedia({ purge = false, now = new Date(), gracePeriod = ORPHAN_GRACE_PERIOD }: ReconcileMediaOptions = {}): Promise<MediaReport> {
+    const repositories = getRepositories();
+    const storage = getMediaStorage();
+    if (purge && storage.backend !== repositories.backend) {
+        throw new Error(`Refusing to purge: the content is in the ${repositories.backend} backend but the files belong to the ${storage.backend} backend.`);
+    }
+
+    const listed = {
+        post: await repositories.posts.list(),
+        comment: await repositories.comments.list(),
+        story: await repositories.stories.list(),
+        user: await repositories.users.list(),
+        category: await repositories.categories.list(),
+    };
+
+    // The records there should be, by ID.
+    const expected = new Map<string, Omit<MediaRecord, 'id' | 'created_at'>>();
+    const expect = (targetType: MediaTargetType, targetId: string, paths: string[]) => {
+        paths.forEach(path => expected.set(mediaId(targetType, targetId, path), { path, target_type: targetType, target_id: targetId }));
+    };
+    for (const post of listed.post) {
+        expect('post', post.id, await postMediaPathsWithHistory(post));
+    }
+    listed.comment.forEach(comment => expect('comment', comment.id, attachmentMediaPaths(comment)));
+    listed.story.forEach(story => expect('story', story.id, attachmentMediaPaths(story)));
+    listed.user.forEach(user => expect('user', user.id, urlMediaPaths(user.avatar)));
+    listed.category.forEach(category => expect('category', category.id, urlMediaPaths(category.cover_image_url)));
+
+    const records = await repositories.media.list();
+    const recordIds = new Set(records.map(record => record.id));
+    const missing = Array.from(expected.entries()).filter(([id]) => !recordIds.has(id)).map(([, record]) => record);
+    const stale = records.filter(record => !expected.has(record.id));
+
+    // Storage is listed after the content, so a file saved in between is at worst counted as recent.
+    const referenced = new Set(Array.from(expected.values(), record => record.path));
+    const files = await storage.list(MEDIA_FOLDERS);
+    await assertCompleteListings(listed, records, files);
+    const unused = files.filter(file => !referenced.has(file.path));
+    const cutoff = now.getTime() - gracePeriod;
+
+    const report: MediaReport = {
+        scanned: files.length,
+        referenced: files.length - unused.length,
+        orphaned: unused.filter(file => file.created_at.getTime() <= cutoff),
+        recent: unused.filter(file => file.created_at.getTime() > cutoff),
+        purged: [],
+        failed: [],
+        missing_records: missing.length,
+        stale_records: stale.length,
+    };
+    if (!purge) {
+        return report;
+    }
+
+    for (const record of missing) {
+        await repositories.media.add(record);
+    }
+    for (const record of stale) {
+        await repositories.media.delete(record.id);
+    }
+    for (const file of report.orphaned) {
+        try {
+            await storage.delete(file.path);
+            report.purged.push(file.path);
+        } catch (error) {
+            report.failed.push({ path: file.path, error: (error as Error).message });
+        }
+    }
+    return report;
 }
@@ -0,0 +1,47 @@
+// This file contains the rules for galleries: the ordered photos, each with a caption and alt text,
+// that authors attach to posts (on `/dashboard/submit`) and readers to follow-up stories. Photos are
+// uploaded through the image pipeline one by one as they are added (see `src/lib/storage.ts`), and the
+// gallery is checked again here when the post or story is saved, whatever sent it.
+
+import { sanitizePlainText } from './sanitize';
+import { GalleryImage } from './types';
+
+// The most photos a gallery can hold.
+export const MAX_POST_GALLERY_IMAGES = 20;
+export const MAX_STORY_GALLERY_IMAGES = 8;
+
+export const MAX_CAPTION_LENGTH = 200;
+export const MAX_ALT_LENGTH = 150;
+
+// Checks a gallery and resolves with it tidied up: plain-text captions and alt text, trimmed.
+// Throws an error the author can act on when there are too many photos or one isn't described.
+export function normalizeGallery(gallery: GalleryImage[], max: number): GalleryImage[] {
+  if (gallery.length > max) {
+    throw new Error(`A gallery can hold at most ${max} photos.`);
+  }
+  return gallery.map((photo, index) => {
+    const caption = sanitizePlainText(photo.caption ?? '').trim();
+    const alt = sanitizePlainText(photo.alt ?? '').trim();
+    if (!alt) {
+      throw new Error(`Describe photo ${index + 1} for readers who can't see it.`);
+    }
+    if (caption.length > MAX_CAPTION_LENGTH) {
+      throw new Error(`Captions can be at most ${MAX_CAPTION_LENGTH} characters long.`);
+    }
+    if (alt.length > MAX_ALT_LENGTH) {
+      throw new Error(`Descriptions can be at most ${MAX_ALT_LENGTH} characters long.`);
+    }
+    return { image: photo.image, caption, alt };
+  });
+}
+
+// Moves the item at `from` to `to`, shifting the ones in between. Used to reorder gallery photos.
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) {
+    return items;
+  }
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
@@ -0,0 +1,142 @@
+// This file is the image pipeline every upload goes through before it reaches Firebase Storage
+// (see `src/lib/storage.ts`):
+//   1. The file is checked: it must be a JPEG, PNG or WebP image of at most `MAX_IMAGE_BYTES`.
+//   2. It is decoded and drawn again at the sizes in `IMAGE_VARIANTS`, in the browser. Drawing the pixels
+//      again leaves every bit of metadata behind, EXIF GPS coordinates included, so where a photo was
+//      taken is never published. The original file itself is never uploaded.
+//   3. A tiny blurred copy is kept as a data URL, for `next/image` to show while the real image loads.
+// Posts, comments and stories record the resulting `ProcessedImage`; `imageSources` picks the variant
+// to show, falling back to the plain URL for images uploaded before the pipeline existed.
+
+import { ProcessedImage } from './types';
+
+// The image types accepted for upload. Browsers can decode all of them.
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// The largest file accepted for upload, before resizing.
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// The variants made of every uploaded image, by the longest side they may have. Smaller images are never enlarged.
+//   - thumbnail: avatars, the admin tables and lists.
+//   - card: post cards, comments and stories.
+//   - hero: the featured image at the top of a post, and images inside posts.
+export const IMAGE_VARIANTS = {
+  thumbnail: 320,
+  card: 800,
+  hero: 1920,
+} as const;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANTS;
+
+// The longest side of the blurred placeholder. It is stretched to the image's size, so it stays tiny.
+export const BLUR_PLACEHOLDER_SIZE = 16;
+
+// The format variants are encoded in, and its quality from 0 to 1.
+export const VARIANT_TYPE = 'image/webp';
+export const VARIANT_QUALITY = 0.82;
+
+// Throws an error a user can act on when a file can't be uploaded as an image.
+export function validateImageFile(file: Pick<File, 'type' | 'size'>): void {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error('Images must be JPEG, PNG or WebP files.');
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error(`Images can be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB.`);
+  }
+}
+
+// The size of an image scaled down so its longest side is at most `maxSide`, keeping its proportions.
+export function fitWithin(width: number, height: number, maxSide: number): { width: number; height: number } {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// What to give `next/image` for an image: the variant's URL and size, and the blurred placeholder.
+// `url` is the plain URL stored alongside (e.g. `featuredImgUrl`); when it no longer matches the
+// processed image, e.g. after restoring an older revision of a post, the plain URL wins.
+export function imageSources(url: string | undefined, processed: ProcessedImage | undefined, variant: ImageVariantName): {
+  src: string;
+  width?: number;
+  height?: number;
+  blurDataURL?: string;
+} | null {
+  if (processed && (!url || [processed.thumbnail, processed.card, processed.hero].some(v => v.url === url))) {
+    const chosen = processed[variant];
+    return { src: chosen.url, width: chosen.width, height: chosen.height, blurDataURL: processed.blur_data_url };
+  }
+  return url ? { src: url } : null;
+}
+
+// --- BROWSER ---
+
+// A variant ready to upload.
+export type EncodedVariant = {
+  blob: Blob;
+  width: number;
+  height: number;
+};
+
+// The files `processImage` makes of an upload, before they are uploaded.
+export type ProcessedImageFiles = Record<ImageVariantName, EncodedVariant> & {
+  blur_data_url: string;
+};
+
+function canvasOfSize(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+// Draws an image at the given size. Drawing smoothly in halving steps keeps large reductions sharp.
+function draw(source: CanvasImageSource & { width: number; height: number }, width: number, height: number): HTMLCanvasElement {
+  let current: CanvasImageSource = source;
+  let currentWidth = source.width;
+  let currentHeight = source.height;
+  while (currentWidth / 2 >= width && currentHeight / 2 >= height) {
+    currentWidth = Math.round(currentWidth / 2);
+    currentHeight = Math.round(currentHeight / 2);
+    const step = canvasOfSize(currentWidth, currentHeight);
+    const context = step.getContext('2d')!;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(current, 0, 0, currentWidth, currentHeight);
+    current = step;
+  }
+  const canvas = canvasOfSize(width, height);
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(current, 0, 0, width, height);
+  return canvas;
+}
+
+function encode(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The image could not be processed.')), type, quality);
+  });
+}
+
+// Validates an image and makes its variants and blurred placeholder, without any of its metadata.
+// Runs in the browser only. Browsers that can't encode WebP produce PNG variants instead.
+export async function processImage(file: File): Promise<ProcessedImageFiles> {
+  validateImageFile(file);
+  let bitmap: ImageBitmap;
+  try {
+    // Photos from phones are often stored sideways with an EXIF orientation; draw them the right way up.
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('This file could not be read as an image.');
+  }
+
+  try {
+    const variants = {} as Record<ImageVariantName, EncodedVariant>;
+    for (const [name, maxSide] of Object.entries(IMAGE_VARIANTS) as [ImageVariantName, number][]) {
+      const { width, height } = fitWithin(bitmap.width, bitmap.height, maxSide);
+      variants[name] = { blob: await encode(draw(bitmap, width, height), VARIANT_TYPE, VARIANT_QUALITY), width, height };
+    }
+    const blurSize = fitWithin(bitmap.width, bitmap.height, BLUR_PLACEHOLDER_SIZE);
+    const blur_data_url = draw(bitmap, blurSize.width, blurSize.height).toDataURL('image/jpeg', 0.6);
+    return { ...variants, blur_data_url };
+  } finally {
+    bitmap.close();
+  }
+}
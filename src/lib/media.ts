@@ -0,0 +1,117 @@
+// This file keeps track of the files uploaded to Firebase Storage, so that none is left behind when
+// the content using it goes away:
+//   - Every document using a file has a `MediaRecord` for it (see `syncMedia` in `./firestore.ts`).
+//     The records are brought up to date whenever a post, comment, story, profile or category is saved.
+//   - Deleting a document, or replacing its image, releases its records. A file is deleted from Storage
+//     once no record is left for it.
+//   - A post's files stay recorded while its revisions use them, so restoring an earlier revision never
+//     brings back a missing image. They are released when the post is deleted.
+//   - `reconcileMedia` (run by `npm run media:reconcile`) compares Storage with the documents, to find
+//     the files that were uploaded but never saved, or that a failed cleanup left behind.
+// Only files in Storage are tracked. Images hosted elsewhere, like the seed data's, are left alone.
+
+import { renderPostContent } from './content';
+import { firebaseMediaStorage } from './storage';
+import type { DataBackend } from './repositories';
+import { Post, ProcessedImage, GalleryImage, MediaTargetType } from './types';
+
+// The Storage folder each kind of document uploads its images to.
+export const MEDIA_TARGET_FOLDERS: Record<MediaTargetType, string> = {
+  post: 'posts',
+  comment: 'comments',
+  story: 'stories',
+  user: 'avatars',
+  category: 'categories',
+};
+
+// The Storage folders uploads go to. `reconcileMedia` only looks inside these.
+export const MEDIA_FOLDERS = Object.values(MEDIA_TARGET_FOLDERS);
+
+// How old an unused file must be before `reconcileMedia` counts it as orphaned. Images are uploaded
+// before the form holding them is saved, so a newer file may simply not be saved yet.
+export const ORPHAN_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+// The ID of the record of a document using a file. Storage paths contain slashes, which IDs can't.
+export function mediaId(targetType: MediaTargetType, targetId: string, path: string): string {
+  return `${targetType}_${targetId}_${encodeURIComponent(path)}`;
+}
+
+// The Storage path of a Firebase Storage URL, or null for any other URL. Download URLs look like
+// `https://firebasestorage.googleapis.com/v0/b/{bucket}/o/{encoded path}?alt=media&token=…`.
+export function storagePathFromUrl(url: string | undefined): string | null {
+  if (!url) {
+    return null;
+  }
+  if (url.startsWith('gs://')) {
+    return url.replace(/^gs:\/\/[^/]+\//, '') || null;
+  }
+  const match = url.match(/^https:\/\/firebasestorage\.googleapis\.com\/v0\/b\/[^/]+\/o\/([^?#]+)/);
+  if (!match) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+// The Storage paths among some URLs, each once.
+function pathsOf(urls: (string | undefined)[]): string[] {
+  return Array.from(new Set(urls.map(storagePathFromUrl).filter((path): path is string => !!path)));
+}
+
+function processedUrls(image: ProcessedImage | undefined): string[] {
+  return image ? [image.thumbnail.url, image.card.url, image.hero.url] : [];
+}
+
+function galleryUrls(gallery: GalleryImage[] | undefined): string[] {
+  return (gallery ?? []).flatMap(photo => processedUrls(photo.image));
+}
+
+// The files a post uses: its featured image, its gallery and the images inside its content.
+// Also works for a revision's snapshot.
+export function postMediaPaths(post: Pick<Post, 'featuredImgUrl' | 'content' | 'content_format'> & Pick<Partial<Post>, 'featured_image' | 'gallery'>): string[] {
+  const inline = Array.from(renderPostContent(post).matchAll(/<img\b[^>]*\bsrc="([^"]+)"/g), match => match[1].replace(/&amp;/g, '&'));
+  return pathsOf([post.featuredImgUrl, ...processedUrls(post.featured_image), ...galleryUrls(post.gallery), ...inline]);
+}
+
+// The files a comment or story uses: its attached image and, for a story, its gallery.
+export function attachmentMediaPaths(item: { image_url?: string; image?: ProcessedImage; gallery?: GalleryImage[] }): string[] {
+  return pathsOf([item.image_url, ...processedUrls(item.image), ...galleryUrls(item.gallery)]);
+}
+
+// The file behind a single image URL, such as an avatar or a category's cover image.
+export function urlMediaPaths(url: string | undefined): string[] {
+  return pathsOf([url]);
+}
+
+// --- STORAGE ---
+
+// A file in Storage and when it was uploaded.
+export type StoredFile = {
+  path: string;
+  created_at: Date;
+};
+
+// Where the files live. Firebase Storage by default; tests can register a stand-in with `setMediaStorage`.
+export interface MediaStorage {
+  // The data backend whose documents use these files. `reconcileMedia` only deletes files when it matches
+  // the repositories', so the in-memory seed data is never compared with the real bucket.
+  backend: DataBackend;
+  // Lists every file in the given folders and their subfolders.
+  list(folders: string[]): Promise<StoredFile[]>;
+  // Deletes a file. Deleting a file that is already gone is not an error.
+  delete(path: string): Promise<void>;
+}
+
+let mediaStorage: MediaStorage | null = null;
+
+export function getMediaStorage(): MediaStorage {
+  return mediaStorage ?? firebaseMediaStorage;
+}
+
+// Replaces the storage files are listed and deleted in. Pass null to go back to Firebase Storage.
+export function setMediaStorage(next: MediaStorage | null): void {
+  mediaStorage = next;
+}
@@ -0,0 +1,289 @@
+// This file is the moderation service: the actions moderators take on posts, comments and stories from
+// the admin pages. Each one makes the change through `./firestore.ts`, as before, and then records who
+// did what in the audit log (see `./audit.ts`), with the fields it changed before and after.
+//
+// The admin pages call these instead of `updatePost`, `updateComment`, `deleteStory` and friends, so
+// no moderation action goes unrecorded. Authors editing their own work still use `./firestore.ts`.
+//
+// Comments and stories can also be moderated in bulk (see BULK ACTIONS): the changes are written in
+// batches, and the items that couldn't be changed are reported back instead of stopping the rest.
+
+import { getRepositories, BulkWriteResult } from './repositories';
+import {
+  updatePost, schedulePost, deletePost, reviewPost, ReviewDecision,
+  updateComment, deleteComment, updateStory, deleteStory, recordAudit,
+  updateCommentStatuses, deleteComments, updateStoryStatuses, deleteStories,
+} from './firestore';
+import { Comment, FollowUpStory, ModerationRisk, Post, ReviewNote } from './types';
+
+// A short quote of a comment or story for the audit log summary.
+function excerpt(text: string, length = 60): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+}
+
+async function getPostOrThrow(postId: string): Promise<Post> {
+  const post = await getRepositories().posts.get(postId);
+  if (!post) {
+    throw new Error('The post no longer exists.');
+  }
+  return post;
+}
+
+// --- POSTS ---
+
+// Moves a post to another status, e.g. publishing or archiving it.
+export async function moderatePostStatus(actorId: string, postId: string, status: Post['status'], note = ''): Promise<void> {
+  const post = await getPostOrThrow(postId);
+  if (post.status === status) {
+    return;
+  }
+  await updatePost(postId, { status }, { editorId: actorId, ...(note.trim() && { note: note.trim() }) });
+  await recordAudit({
+    actor_id: actorId,
+    action: 'post.status_changed',
+    target_type: 'post',
+    target_id: postId,
+    summary: `Moved "${post.title}" from ${post.status} to ${status}`,
+    before: { status: post.status },
+    after: { status },
+    reason: note.trim(),
+  });
+}
+
+// Records a review decision on a post (see `reviewPost`), which also moves it to the matching status.
+export async function moderatePostReview(actorId: string, postId: string, decision: ReviewDecision, body = '', quote?: string): Promise<ReviewNote> {
+  const post = await getPostOrThrow(postId);
+  const note = await reviewPost(postId, actorId, decision, body, quote);
+  const after = await getPostOrThrow(postId);
+  await recordAudit({
+    actor_id: actorId,
+    action: 'post.reviewed',
+    target_type: 'post',
+    target_id: postId,
+    summary: `Reviewed "${post.title}": ${decision.replace('_', ' ')}`,
+    before: { status: post.status },
+    after: { status: after.status, decision },
+    reason: body.trim(),
+  });
+  return note;
+}
+
+// Schedules a post to be published at the given time.
+export async function moderatePostSchedule(actorId: string, postId: string, publishAt: Date): Promise<void> {
+  const post = await getPostOrThrow(postId);
+  await schedulePost(postId, publishAt);
+  await recordAudit({
+    actor_id: actorId,
+    action: 'post.scheduled',
+    target_type: 'post',
+    target_id: postId,
+    summary: `Scheduled "${post.title}" for ${publishAt.toISOString()}`,
+    before: { status: post.status, publish_at: post.status === 'scheduled' ? post.publish_at?.toISOString() : undefined },
+    after: { status: 'scheduled', publish_at: publishAt.toISOString() },
+  });
+}
+
+// Deletes a post for good. The entry keeps its title and author, since the post itself is gone.
+export async function moderatePostDelete(actorId: string, postId: string, reason = ''): Promise<void> {
+  const post = await getPostOrThrow(postId);
+  await deletePost(postId);
+  await recordAudit({
+    actor_id: actorId,
+    action: 'post.deleted',
+    target_type: 'post',
+    target_id: postId,
+    summary: `Deleted "${post.title}"`,
+    before: { title: post.title, slug: post.slug, status: post.status, author_id: post.author_id },
+    reason: reason.trim(),
+  });
+}
+
+// --- COMMENTS ---
+
+async function getCommentOrThrow(commentId: string): Promise<Comment> {
+  const comment = await getRepositories().comments.get(commentId);
+  if (!comment) {
+    throw new Error('The comment no longer exists.');
+  }
+  return comment;
+}
+
+// Approves or rejects a comment (or sends it back to pending).
+export async function moderateCommentStatus(actorId: string, commentId: string, status: Comment['status']): Promise<void> {
+  const comment = await getCommentOrThrow(commentId);
+  if (comment.status === status) {
+    return;
+  }
+  await updateComment(commentId, { status }, actorId);
+  await recordAudit({
+    actor_id: actorId,
+    action: 'comment.status_changed',
+    target_type: 'comment',
+    target_id: commentId,
+    summary: `Moved comment "${excerpt(comment.comment_text)}" from ${comment.status} to ${status}`,
+    before: { status: comment.status },
+    after: { status },
+  });
+}
+
+// Deletes a comment. The entry keeps its text, since the comment itself is gone.
+export async function moderateCommentDelete(actorId: string, commentId: string, reason = ''): Promise<void> {
+  const comment = await getCommentOrThrow(commentId);
+  await deleteComment(commentId);
+  await recordAudit({
+    actor_id: actorId,
+    action: 'comment.deleted',
+    target_type: 'comment',
+    target_id: commentId,
+    summary: `Deleted comment "${excerpt(comment.comment_text)}"`,
+    before: { post_id: comment.postId, user_id: comment.userId, status: comment.status, comment_text: comment.comment_text },
+    reason: reason.trim(),
+  });
+}
+
+// --- STORIES ---
+
+async function getStoryOrThrow(storyId: string): Promise<FollowUpStory> {
+  const story = await getRepositories().stories.get(storyId);
+  if (!story) {
+    throw new Error('The story no longer exists.');
+  }
+  return story;
+}
+
+// Approves or rejects a story (or sends it back to pending).
+export async function moderateStoryStatus(actorId: string, storyId: string, status: FollowUpStory['status']): Promise<void> {
+  const story = await getStoryOrThrow(storyId);
+  if (story.status === status) {
+    return;
+  }
+  await updateStory(storyId, { status }, actorId);
+  await recordAudit({
+    actor_id: actorId,
+    action: 'story.status_changed',
+    target_type: 'story',
+    target_id: storyId,
+    summary: `Moved story "${excerpt(story.story_text)}" from ${story.status} to ${status}`,
+    before: { status: story.status },
+    after: { status },
+  });
+}
+
+// Deletes a story. The entry keeps its text, since the story itself is gone.
+export async function moderateStoryDelete(actorId: string, storyId: string, reason = ''): Promise<void> {
+  const story = await getStoryOrThrow(storyId);
+  await deleteStory(storyId);
+  await recordAudit({
+    actor_id: actorId,
+    action: 'story.deleted',
+    target_type: 'story',
+    target_id: storyId,
+    summary: `Deleted story "${excerpt(story.story_text)}"`,
+    before: { post_id: story.postId, user_id: story.userId, status: story.status, story_text: story.story_text },
+    reason: reason.trim(),
+  });
+}
+
+// --- BULK ACTIONS ---
+
+// What a moderator can do to many comments or stories at once.
+export type BulkModerationAction = 'approve' | 'reject' | 'delete';
+
+// The IDs a bulk action changed, and those it couldn't, with why.
+export type BulkModerationResult = {
+  succeeded: string[];
+  failed: BulkWriteResult['failed'];
+};
+
+const BULK_STATUS = { approve: 'approved', reject: 'rejected' } as const;
+
+// Runs a bulk action and records an audit entry for every item it changed, like the single actions do.
+async function runBulkAction<T extends Comment | FollowUpStory>(
+  actorId: string,
+  ids: string[],
+  action: BulkModerationAction,
+  kind: 'comment' | 'story',
+  load: (id: string) => Promise<T | null>,
+  text: (item: T) => string,
+  write: { setStatus: (ids: string[], status: T['status'], actorId: string) => Promise<BulkWriteResult>; remove: (ids: string[]) => Promise<BulkWriteResult> },
+): Promise<BulkModerationResult> {
+  const unique = Array.from(new Set(ids));
+  // Loaded first, so the audit log keeps what deleted items said.
+  const items = new Map<string, T>();
+  for (const item of await Promise.all(unique.map(load))) {
+    if (item) {
+      items.set(item.id, item);
+    }
+  }
+  const { failed } = action === 'delete' ? await write.remove(unique) : await write.setStatus(unique, BULK_STATUS[action], actorId);
+  const failedIds = new Set(failed.map(f => f.id));
+  const succeeded = unique.filter(id => !failedIds.has(id));
+
+  for (const id of succeeded) {
+    const item = items.get(id);
+    if (!item || (action !== 'delete' && item.status === BULK_STATUS[action])) {
+      // Already gone, or already in that status: nothing changed.
+      continue;
+    }
+    await recordAudit(action === 'delete'
+      ? {
+        actor_id: actorId,
+        action: `${kind}.deleted`,
+        target_type: kind,
+        target_id: id,
+        summary: `Deleted ${kind} "${excerpt(text(item))}" (bulk action)`,
+        before: { post_id: item.postId, user_id: item.userId, status: item.status, [`${kind}_text`]: text(item) },
+      }
+      : {
+        actor_id: actorId,
+        action: `${kind}.status_changed`,
+        target_type: kind,
+        target_id: id,
+        summary: `Moved ${kind} "${excerpt(text(item))}" from ${item.status} to ${BULK_STATUS[action]} (bulk action)`,
+        before: { status: item.status },
+        after: { status: BULK_STATUS[action] },
+      });
+  }
+  return { succeeded, failed };
+}
+
+// Approves, rejects or deletes many comments at once.
+export async function bulkModerateComments(actorId: string, ids: string[], action: BulkModerationAction): Promise<BulkModerationResult> {
+  return runBulkAction(actorId, ids, action, 'comment', id => getRepositories().comments.get(id), comment => comment.comment_text,
+    { setStatus: updateCommentStatuses, remove: deleteComments });
+}
+
+// Approves, rejects or deletes many stories at once.
+export async function bulkModerateStories(actorId: string, ids: string[], action: BulkModerationAction): Promise<BulkModerationResult> {
+  return runBulkAction(actorId, ids, action, 'story', id => getRepositories().stories.get(id), story => story.story_text,
+    { setStatus: updateStoryStatuses, remove: deleteStories });
+}
+
+// --- QUEUE FILTERS ---
+
+// What the comment and story moderation queues filter by. Every filter is optional.
+export type ModerationFilters = {
+  status?: Comment['status'];
+  // The risk automated moderation gave the item (see `./auto-moderation.ts`).
+  risk?: ModerationRisk;
+  postId?: string;
+  userId?: string;
+  // The first and last day to include, inclusive.
+  from?: Date;
+  to?: Date;
+};
+
+// Returns the comments or stories matching every filter, in their original order.
+export function filterModerationQueue<T extends Comment | FollowUpStory>(items: T[], filters: ModerationFilters): T[] {
+  // `to` is a day, so include everything up to its end.
+  const to = filters.to && new Date(filters.to.getFullYear(), filters.to.getMonth(), filters.to.getDate() + 1);
+  return items.filter(item =>
+    (!filters.status || item.status === filters.status)
+    && (!filters.risk || item.moderation?.risk === filters.risk)
+    && (!filters.postId || item.postId === filters.postId)
+    && (!filters.userId || item.userId === filters.userId)
+    && (!filters.from || item.created_at.getTime() >= filters.from.getTime())
+    && (!to || item.created_at.getTime() < to.getTime())
+  );
+}
@@ -0,0 +1,74 @@
+// This file sends the weekly digest: an email listing the new posts in a user's feed.
+//
+// Users turn the digest on from their feed (`/dashboard/feed`), which stores a newsletter subscription
+// with `weekly_digest: true` under their user ID. The digest job (`npm run newsletter:send-digest`) goes
+// through those subscriptions, and for each one that hasn't had a digest in the past week it collects the
+// posts published since the last one and sends them through the email transport (see `./email.ts`).
+// Nothing is sent when there are no new posts, and the subscription is then checked again on the next run.
+//
+// This module sends emails, so it must only be imported by server-side code and scripts.
+
+import { getRepositories } from '../repositories';
+import { buildFeed, publishedAt, DIGEST_INTERVAL_DAYS, FeedItem } from '../feed';
+import { NewsletterSubscriber } from '../types';
+import { getEmailTransport, EmailMessage } from './email';
+
+// The most posts listed in one digest.
+const DIGEST_SIZE = 10;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Builds the digest email for a subscriber.
+export function toDigestMessage(subscriber: NewsletterSubscriber, items: FeedItem[]): EmailMessage {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL ?? '';
+  const lines = items.map(({ post, byFollowedAuthor, followedTags }) => {
+    const reason = byFollowedAuthor ? 'from an author you follow' : `tagged ${followedTags.map(tag => `#${tag}`).join(', ')}`;
+    return `- ${post.title} (${reason})\n  ${post.excerpt}\n  ${baseUrl}/blog/${post.slug}`;
+  });
+  return {
+    to: subscriber.email,
+    subject: items.length === 1 ? 'A new story for you this week' : `${items.length} new stories for you this week`,
+    text: `New on Travonex from the authors and tags you follow:\n\n${lines.join('\n\n')}\n\n`
+      + `See your whole feed: ${baseUrl}/dashboard/feed\n\n`
+      + `You are receiving this because you turned on the weekly digest. Turn it off on your feed page.`,
+  };
+}
+
+// Sends the digest to every subscriber who is due one, and resolves with how many were sent, failed,
+// or skipped because nothing new was published for them.
+export async function sendWeeklyDigests(now = new Date()): Promise<{ sent: number; failed: number; skipped: number }> {
+  const repositories = getRepositories();
+  const transport = getEmailTransport();
+  const result = { sent: 0, failed: 0, skipped: 0 };
+  const weekAgo = new Date(now.getTime() - DIGEST_INTERVAL_DAYS * DAY);
+
+  const subscribers = (await repositories.newsletterSubscribers.listDigestSubscribers())
+    .filter(subscriber => subscriber.user_id && (!subscriber.last_digest_at || subscriber.last_digest_at <= weekAgo));
+  if (subscribers.length === 0) {
+    return result;
+  }
+
+  // Every digest is cut from the same list of live posts.
+  const posts = (await repositories.posts.listPublished()).filter(post => publishedAt(post) <= now);
+
+  for (const subscriber of subscribers) {
+    const follows = await repositories.follows.listByFollower(subscriber.user_id!);
+    // A first digest covers the past week; later ones pick up where the last one stopped.
+    const since = subscriber.last_digest_at ?? weekAgo;
+    const items = buildFeed(posts, follows, { since, max: DIGEST_SIZE });
+    if (items.length === 0) {
+      result.skipped++;
+      continue;
+    }
+    try {
+      await transport.send(toDigestMessage(subscriber, items));
+      await repositories.newsletterSubscribers.update(subscriber.id, { last_digest_at: now });
+      result.sent++;
+    } catch (error) {
+      // The digest is tried again on the next run.
+      console.error(`Could not send the weekly digest to ${subscriber.email}:`, error);
+      result.failed++;
+    }
+  }
+  return result;
+}
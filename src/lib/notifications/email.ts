@@ -0,0 +1,109 @@
+// This file is the email channel of the notification subsystem.
+//
+// Notifications are stored with `email_status: 'pending'`. The email job
+// (`npm run notifications:send-emails`) picks them up, sends each one to its recipient through the
+// configured transport and records the outcome, so a notification is emailed at most once.
+//
+// Choose the transport with `EMAIL_TRANSPORT` in `.env.local`:
+//   - `console` (default): prints the emails, for local development.
+//   - `file`: writes each email to a text file in `EMAIL_OUTBOX_DIR` (default `.emails/`).
+// A real provider (SMTP, an email API, ...) is added by implementing `EmailTransport` and
+// registering it with `setEmailTransport` before the job runs.
+//
+// This module uses Node's file system, so it must only be imported by server-side code and scripts.
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getRepositories } from '../repositories';
+import { UserNotification } from '../types';
+import { resolveNotificationLink } from './index';
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Delivers emails. `send` rejects when the email could not be handed over.
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export const consoleTransport: EmailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`--- Email to ${message.to} ---\nSubject: ${message.subject}\n\n${message.text}\n`);
+  },
+};
+
+// Writes every email to its own file in `dir`, so they can be read without a mail server.
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.txt`);
+      await writeFile(file, `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`);
+    },
+  };
+}
+
+let transport: EmailTransport | null = null;
+
+// Returns the registered transport, or the one selected by `EMAIL_TRANSPORT`.
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = process.env.EMAIL_TRANSPORT === 'file'
+      ? createFileTransport(process.env.EMAIL_OUTBOX_DIR || '.emails')
+      : consoleTransport;
+  }
+  return transport;
+}
+
+// Replaces the transport used to send emails.
+export function setEmailTransport(next: EmailTransport): void {
+  transport = next;
+}
+
+// The site's URL, when `NEXT_PUBLIC_BASE_URL` isn't set: the development server.
+const DEFAULT_BASE_URL = 'http://localhost:3002';
+
+// Builds the email for a notification. Links in the app are made absolute with `NEXT_PUBLIC_BASE_URL`;
+// a link leading off the site is left out.
+export function toEmailMessage(notification: UserNotification, to: string): EmailMessage {
+  const link = resolveNotificationLink(notification.link, process.env.NEXT_PUBLIC_BASE_URL || DEFAULT_BASE_URL);
+  const open = link ? `\n\nOpen it here: ${link.href}` : '';
+  return {
+    to,
+    subject: notification.title,
+    text: `${notification.body}${open}\n\nYou are receiving this because you have an account on Travonex.`,
+  };
+}
+
+// Sends the email of every pending notification, and resolves with how many were sent, failed or skipped.
+// Failed emails aren't retried automatically; set their `email_status` back to 'pending' to retry them.
+export async function sendPendingEmails(): Promise<{ sent: number; failed: number; skipped: number }> {
+  const repositories = getRepositories();
+  const transport = getEmailTransport();
+  const result = { sent: 0, failed: 0, skipped: 0 };
+
+  for (const notification of await repositories.notifications.listPendingEmails()) {
+    const user = await repositories.users.get(notification.user_id);
+    if (!user?.email) {
+      await repositories.notifications.update(notification.id, { email_status: 'skipped' });
+      result.skipped++;
+      continue;
+    }
+    try {
+      await transport.send(toEmailMessage(notification, user.email));
+      await repositories.notifications.update(notification.id, { email_status: 'sent' });
+      result.sent++;
+    } catch (error) {
+      console.error(`Could not email notification ${notification.id} to ${user.email}:`, error);
+      await repositories.notifications.update(notification.id, { email_status: 'failed' });
+      result.failed++;
+    }
+  }
+  return result;
+}
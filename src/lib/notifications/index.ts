@@ -0,0 +1,189 @@
+// This file is the entry point of the notification subsystem.
+//
+// Users are told when something happens to what they wrote: a moderator publishes, schedules,
+// rejects or asks for changes to their post, approves or rejects their comment or follow-up story,
+// someone's comment or story appears on their post, someone replies to their comment, or someone
+// replies in a review thread.
+// The data layer (`src/lib/firestore.ts`) calls the `notify...` functions below after each change.
+//
+// Every notification is stored in the `notifications` collection, where the bell in the header
+// reads it, and also sent by email by the email job (see `./email.ts`). That job runs on the server,
+// so `./email.ts` is kept out of this module, which is also used in the browser.
+
+import { getRepositories, Repositories } from '../repositories';
+import { Comment, FollowUpStory, Post, ReviewNote, UserNotification } from '../types';
+
+// The fields a caller provides; the rest are filled in by `notify`.
+export type NewNotification = Omit<UserNotification, 'id' | 'read' | 'email_status' | 'created_at'>;
+
+// How many notifications the bell shows.
+export const NOTIFICATION_LIST_SIZE = 20;
+
+// The longest title and body a notification may have, also enforced by `firestore.rules`. Longer
+// bodies, e.g. with a long review note quoted, are shortened by `notify`.
+export const MAX_NOTIFICATION_TITLE_LENGTH = 100;
+export const MAX_NOTIFICATION_BODY_LENGTH = 500;
+
+// Resolves a notification's link against the site's URL, or returns null when it leads anywhere else.
+// Links are written by whoever caused the notification, so one like `@evil.example/...` or
+// `//evil.example` must not take the recipient to another site.
+export function resolveNotificationLink(link: string, base: string): URL | null {
+  try {
+    const url = new URL(link, base);
+    return url.origin === new URL(base).origin ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function shorten(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Stores a notification for one user. Nobody is notified about their own actions.
+// `repositories` are the ones to write with, when not the app's, e.g. the service account's on the server.
+//
+// Failures are logged rather than thrown: the moderation action that caused the notification has
+// already been saved, and a missing notification must not make it look as if it failed.
+export async function notify(notification: NewNotification, repositories: Repositories = getRepositories()): Promise<void> {
+  if (!notification.user_id || notification.user_id === notification.actor_id) {
+    return;
+  }
+  try {
+    await repositories.notifications.add({
+      ...notification,
+      title: shorten(notification.title, MAX_NOTIFICATION_TITLE_LENGTH),
+      body: shorten(notification.body, MAX_NOTIFICATION_BODY_LENGTH),
+      read: false,
+      email_status: 'pending',
+      created_at: new Date(),
+    });
+  } catch (error) {
+    console.error(`Could not notify user ${notification.user_id}:`, error);
+  }
+}
+
+// The ID of a post's author. Older posts use `authorId`.
+function postAuthor(post: Post): string | undefined {
+  return post.author_id ?? post.authorId;
+}
+
+// Where authors edit their posts.
+function editPath(post: Post): string {
+  return `/dashboard/posts/edit/${post.id}`;
+}
+
+// Where the comments and stories of a post are shown.
+function conversationPath(post: Post): string {
+  return `/blog/${post.slug}#conversation`;
+}
+
+// The post statuses an author is told about, and what they are told.
+const POST_STATUS_MESSAGES: Partial<Record<Post['status'], (post: Post) => { title: string; body: string; link: string }>> = {
+  published: post => ({ title: 'Your post is live', body: `"${post.title}" has been published.`, link: `/blog/${post.slug}` }),
+  scheduled: post => ({
+    title: 'Your post has been scheduled',
+    body: `"${post.title}" will be published on ${post.publish_at?.toUTCString() ?? 'a date to be announced'}.`,
+    link: editPath(post),
+  }),
+  changes_requested: post => ({ title: 'Changes requested on your post', body: `The editors asked for changes to "${post.title}".`, link: `${editPath(post)}#review` }),
+  rejected: post => ({ title: 'Your post was not accepted', body: `"${post.title}" was not accepted for publication.`, link: `${editPath(post)}#review` }),
+};
+
+// Tells an author that their post moved to a new status. `note` is the moderator's explanation, if any.
+export async function notifyPostStatus(post: Post, actorId?: string | null, note?: string): Promise<void> {
+  const message = POST_STATUS_MESSAGES[post.status]?.(post);
+  const authorId = postAuthor(post);
+  if (!message || !authorId) {
+    return;
+  }
+  await notify({
+    user_id: authorId,
+    type: 'post_status',
+    ...message,
+    body: note ? `${message.body}\n\n${note}` : message.body,
+    ...(actorId && { actor_id: actorId }),
+  });
+}
+
+// Tells the writer of a comment or story that it was approved or rejected and, when it was approved,
+// tells the post's author that it now appears on their post. For a reply, the writer of the comment
+// it answers is told instead of the post's author.
+async function notifyModerated(
+  kind: 'comment' | 'story',
+  item: { userId: string; status: 'pending' | 'approved' | 'rejected' },
+  post: Post | null,
+  actorId?: string,
+  parent?: Comment | null,
+  repositories?: Repositories,
+): Promise<void> {
+  if (item.status === 'pending') {
+    return;
+  }
+  const label = kind === 'comment' ? 'comment' : 'follow-up story';
+  const postTitle = post ? `"${post.title}"` : 'a post';
+  await notify({
+    user_id: item.userId,
+    type: kind === 'comment' ? 'comment_status' : 'story_status',
+    title: item.status === 'approved' ? `Your ${label} was approved` : `Your ${label} was not approved`,
+    body: item.status === 'approved'
+      ? `Your ${label} on ${postTitle} is now visible to everyone.`
+      : `Your ${label} on ${postTitle} was not approved by the moderators.`,
+    link: item.status === 'approved' && post ? conversationPath(post) : '/dashboard',
+    ...(actorId && { actor_id: actorId }),
+  }, repositories);
+
+  if (item.status === 'approved' && post && parent && parent.userId !== item.userId) {
+    await notify({
+      user_id: parent.userId,
+      type: 'comment_reply',
+      title: 'New reply to your comment',
+      body: `Someone replied to your comment on "${post.title}".`,
+      link: conversationPath(post),
+      actor_id: item.userId,
+    }, repositories);
+    return;
+  }
+
+  const authorId = post && postAuthor(post);
+  if (item.status === 'approved' && post && authorId && authorId !== item.userId) {
+    await notify({
+      user_id: authorId,
+      type: kind === 'comment' ? 'new_comment' : 'new_story',
+      title: kind === 'comment' ? 'New comment on your post' : 'New follow-up story on your post',
+      body: `Someone shared a ${label} on "${post.title}".`,
+      link: conversationPath(post),
+      actor_id: item.userId,
+    }, repositories);
+  }
+}
+
+// `parent` is the comment a reply answers, if it still exists.
+export async function notifyCommentModerated(comment: Comment, post: Post | null, parent?: Comment | null, actorId?: string, repositories?: Repositories): Promise<void> {
+  await notifyModerated('comment', comment, post, actorId, parent, repositories);
+}
+
+export async function notifyStoryModerated(story: FollowUpStory, post: Post | null, actorId?: string, repositories?: Repositories): Promise<void> {
+  await notifyModerated('story', story, post, actorId, undefined, repositories);
+}
+
+// Tells everyone taking part in a post's review thread (its author and whoever has written in the
+// thread) about a new note in it. Decisions aren't covered here: `notifyPostStatus` reports those.
+export async function notifyReviewNote(note: ReviewNote, post: Post, thread: ReviewNote[]): Promise<void> {
+  const authorId = postAuthor(post);
+  const participants = new Set([...(authorId ? [authorId] : []), ...thread.map(n => n.author_id)]);
+  participants.delete(note.author_id);
+
+  for (const userId of participants) {
+    const isAuthor = userId === authorId;
+    await notify({
+      user_id: userId,
+      type: 'review_note',
+      title: note.kind === 'resubmitted' ? 'A post was resubmitted for review' : 'New reply in a review',
+      body: note.body ? `On "${post.title}": ${note.body}` : `On "${post.title}".`,
+      link: isAuthor ? `${editPath(post)}#review` : `/blog/admin/posts/edit/${post.id}#review`,
+      actor_id: note.author_id,
+      post_id: post.id,
+    });
+  }
+}
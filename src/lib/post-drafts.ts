@@ -0,0 +1,189 @@
+// This file turns an author's rough trip notes into a suggested post draft, for the "Draft from notes"
+// helper on `/dashboard/submit`. The author edits the suggestion before it goes into the form; nothing
+// is submitted without them. A drafter writes the draft:
+//   - The language model drafter (`src/ai/flows/draft-post.ts`) when a Gemini API key is set.
+//   - Otherwise the deterministic notes drafter below, which only rearranges what the notes say, so
+//     development and tests work offline. It is also the fallback when the model fails.
+//   - Tests can register a stand-in for the model with `setPostDrafter`.
+
+import { normalizeTags } from './taxonomy';
+
+// The most notes the helper accepts, so a pasted book doesn't end up in a prompt.
+export const MAX_NOTES_LENGTH = 10000;
+
+// The most tags a draft suggests.
+export const MAX_DRAFT_TAGS = 5;
+
+export type DraftInput = {
+  notes: string;
+  // The names of the managed categories; the draft suggests one of them, or none.
+  categories: string[];
+};
+
+export type DraftSection = {
+  heading: string;
+  // Markdown paragraphs.
+  body: string;
+};
+
+// A suggested post. `imageHint` is one or two words describing a fitting featured image.
+export type PostDraft = {
+  title: string;
+  excerpt: string;
+  sections: DraftSection[];
+  tags: string[];
+  category: string;
+  imageHint: string;
+};
+
+// Writes a draft. `draft` rejects when the drafter can't be used right now, e.g. the model is down.
+export interface PostDrafter {
+  name: 'model' | 'notes';
+  draft(input: DraftInput): Promise<PostDraft>;
+}
+
+let registeredDrafter: PostDrafter | null = null;
+
+// Returns the drafter registered with `setPostDrafter`, or null to use the default.
+export function getPostDrafter(): PostDrafter | null {
+  return registeredDrafter;
+}
+
+// Replaces the drafter used for new drafts. Pass null to go back to the default.
+export function setPostDrafter(next: PostDrafter | null): void {
+  registeredDrafter = next;
+}
+
+// Checks the notes before drafting, and resolves with them trimmed.
+export function validateNotes(notes: string): string {
+  const trimmed = notes.trim();
+  if (!trimmed) {
+    throw new Error('Add some notes about your trip first.');
+  }
+  if (trimmed.length > MAX_NOTES_LENGTH) {
+    throw new Error(`Notes can be at most ${MAX_NOTES_LENGTH} characters long.`);
+  }
+  return trimmed;
+}
+
+// Tidies whatever a drafter returned: trims the text, drops empty sections, normalizes the tags,
+// and keeps the category only if it is one of the managed ones.
+export function normalizeDraft(draft: PostDraft, categories: string[]): PostDraft {
+  const category = categories.find(name => name.toLowerCase() === draft.category.trim().toLowerCase()) ?? '';
+  return {
+    title: draft.title.trim(),
+    excerpt: draft.excerpt.trim(),
+    sections: draft.sections
+      .map(section => ({ heading: section.heading.trim(), body: section.body.trim() }))
+      .filter(section => section.body),
+    tags: normalizeTags(draft.tags).slice(0, MAX_DRAFT_TAGS),
+    category,
+    imageHint: draft.imageHint.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean).slice(0, 2).join(' '),
+  };
+}
+
+// The draft's sections as the Markdown content of a post.
+export function draftToMarkdown(draft: Pick<PostDraft, 'sections'>): string {
+  return draft.sections
+    .map(section => section.heading ? `## ${section.heading}\n\n${section.body}` : section.body)
+    .join('\n\n');
+}
+
+// --- NOTES DRAFTER ---
+
+// Words too common to make a tag or an image hint.
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'your', 'have', 'was', 'were', 'are', 'you', 'our', 'but',
+  'not', 'its', 'all', 'can', 'out', 'into', 'then', 'than', 'there', 'their', 'they', 'them', 'very', 'really',
+  'just', 'got', 'get', 'had', 'has', 'did', 'went', 'took', 'about', 'after', 'before', 'over', 'some', 'much',
+  'many', 'more', 'most', 'also', 'only', 'day', 'days', 'night', 'nights', 'time', 'trip', 'around', 'here',
+  'when', 'where', 'what', 'which', 'while', 'would', 'could', 'should', 'will', 'like', 'good', 'great', 'nice',
+  'best', 'lots', 'next', 'first', 'last', 'back', 'down', 'each', 'even', 'ever', 'well', 'make', 'made',
+]);
+
+// A bullet or numbered list item.
+const BULLET = /^\s*(?:[-*•+]|\d+[.)])\s+/;
+
+// Makes a note read like a sentence: capitalized, with a full stop.
+function sentence(note: string): string {
+  const text = note.trim().replace(/\s+/g, ' ');
+  const capitalized = text.charAt(0).toUpperCase() + text.slice(1);
+  return /[.!?…]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+}
+
+// A heading or title from a line of notes: without markup or a trailing colon, capitalized.
+function heading(line: string): string {
+  const text = line.replace(/^#+\s*/, '').replace(/:\s*$/, '').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function shorten(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).replace(/\s+\S*$/, '')}…` : text;
+}
+
+// Drafts a post from notes without a model, using only what the notes say:
+//   - A first line that isn't a bullet becomes the title.
+//   - Lines ending in a colon, or Markdown headings, start a new section; the bullets under them
+//     become its paragraph. Bullets before any heading go into an untitled first section.
+//   - The words mentioned most often become the tags and the image hint, and the category is the
+//     managed one whose name the notes mention most.
+// The same notes always give the same draft.
+export function draftFromNotes(input: DraftInput): PostDraft {
+  const lines = input.notes.split('\n').map(line => line.trim()).filter(Boolean);
+
+  let title = '';
+  const sections: { heading: string; notes: string[] }[] = [];
+  lines.forEach((line, index) => {
+    const isBullet = BULLET.test(line);
+    if (index === 0 && !isBullet && !line.endsWith(':')) {
+      title = heading(line);
+    } else if (!isBullet && (line.endsWith(':') || line.startsWith('#'))) {
+      sections.push({ heading: heading(line), notes: [] });
+    } else {
+      if (sections.length === 0) {
+        sections.push({ heading: '', notes: [] });
+      }
+      sections[sections.length - 1].notes.push(line.replace(BULLET, ''));
+    }
+  });
+
+  const notes = sections.flatMap(section => section.notes);
+  if (!title) {
+    title = shorten(heading(notes[0] ?? sections[0]?.heading ?? 'My trip'), 70);
+  }
+
+  // Count the meaningful words, remembering where each first appeared to break ties the same way every time.
+  const counts = new Map<string, { count: number; first: number }>();
+  (input.notes.toLowerCase().match(/[\p{L}][\p{L}'-]+/gu) ?? []).forEach((word, position) => {
+    if (word.length > 3 && !STOP_WORDS.has(word)) {
+      const entry = counts.get(word) ?? { count: 0, first: position };
+      counts.set(word, { ...entry, count: entry.count + 1 });
+    }
+  });
+  const frequent = Array.from(counts.entries())
+    .sort((a, b) => b[1].count - a[1].count || a[1].first - b[1].first)
+    .map(([word]) => word);
+
+  const lower = input.notes.toLowerCase();
+  const mentions = (name: string) => name.toLowerCase().split(/\s+/).filter(word => word.length > 2 && lower.includes(word)).length;
+  const category = input.categories
+    .map(name => ({ name, score: mentions(name) }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)[0]?.name ?? '';
+
+  return {
+    title,
+    excerpt: shorten(notes.slice(0, 2).map(sentence).join(' '), 200),
+    sections: sections.map(section => ({ heading: section.heading, body: section.notes.map(sentence).join(' ') })),
+    tags: frequent.slice(0, MAX_DRAFT_TAGS),
+    category,
+    imageHint: frequent.slice(0, 2).join(' '),
+  };
+}
+
+export const notesDrafter: PostDrafter = {
+  name: 'notes',
+  async draft(input) {
+    return draftFromNotes(input);
+  },
+};
@@ -0,0 +1,32 @@
+// This file defines the reactions readers can leave on posts, comments and follow-up stories.
+//
+// Every reaction is a document in the `reactions` collection, and each post, comment and story keeps
+// a running count of its reactions in `reaction_counts`, so lists can show the counts without reading
+// the reactions themselves. The repositories change both in one transaction (see `ReactionRepository`).
+
+import { ReactionCounts, ReactionKind, ReactionTarget } from './types';
+
+// The kinds of reaction, in the order they are shown.
+export const REACTION_KINDS: ReactionKind[] = ['like', 'want_to_go', 'been_there'];
+
+export const REACTION_LABELS: Record<ReactionKind, string> = {
+  like: 'Like',
+  want_to_go: 'Want to go',
+  been_there: 'Been there',
+};
+
+// The ID of the document recording a user's reaction, which makes reacting twice impossible.
+export function reactionId(targetType: ReactionTarget, targetId: string, userId: string, kind: ReactionKind): string {
+  return `${targetType}_${targetId}_${userId}_${kind}`;
+}
+
+// Returns the counts after adding (`delta` 1) or removing (`delta` -1) one reaction. Counts never go
+// below zero, even if they were already off.
+export function adjustReactionCounts(counts: ReactionCounts | undefined, kind: ReactionKind, delta: 1 | -1): ReactionCounts {
+  return { ...counts, [kind]: Math.max(0, (counts?.[kind] ?? 0) + delta) };
+}
+
+// The number of reactions of every kind together.
+export function totalReactions(counts: ReactionCounts | undefined): number {
+  return REACTION_KINDS.reduce((total, kind) => total + (counts?.[kind] ?? 0), 0);
+}
@@ -0,0 +1,1076 @@
+// This file implements the repository interfaces on top of Cloud Firestore.
+// It is the production data backend; point `NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST` at a local
+// emulator to run it without a live project.
+
+import { db as appDb } from '../firebase';
+import { Firestore, collection, getDocs, doc, getDoc, addDoc, setDoc, updateDoc, deleteDoc, runTransaction, writeBatch, WriteBatch, DocumentReference, increment, arrayUnion, arrayRemove, Timestamp, serverTimestamp, query, where, orderBy, limit, startAfter, QueryConstraint, QueryDocumentSnapshot, SnapshotOptions } from 'firebase/firestore';
+import { User, Post, Comment, FollowUpStory, EarlyAccessUser, NewsletterSubscriber, SearchDocument, SlugRecord, Category, Tag, PostRevision, ReviewNote, UserNotification, Reaction, ReactionTarget, Bookmark, ReadingList, Follow, AuditEntry, MediaRecord } from '../types';
+import { reactionId, adjustReactionCounts } from '../reactions';
+import { followId } from '../feed';
+import { mediaId } from '../media';
+import { normalizePublishedPostsQuery } from './pagination';
+import { Repositories, PostRepository, CommentRepository, StoryRepository, UserRepository, EarlyAccessUserRepository, NewsletterSubscriberRepository, SearchIndexRepository, SlugRepository, CategoryRepository, TagRepository, RevisionRepository, ReviewRepository, NotificationRepository, ReactionRepository, BookmarkRepository, ReadingListRepository, FollowRepository, AuditRepository, MediaRepository, BulkWriteResult } from './types';
+
+// --- TYPE CONVERTERS ---
+// Firestore converters are used to ensure that the data being sent to and received from Firestore
+// is correctly typed. This is especially important for handling Timestamps.
+
+const postConverter = {
+  toFirestore: (post: Omit<Post, 'id'>) => {
+    return {
+      ...post,
+      created_at: post.created_at instanceof Date ? Timestamp.fromDate(post.created_at) : serverTimestamp(),
+      updated_at: post.updated_at instanceof Date ? Timestamp.fromDate(post.updated_at) : serverTimestamp(),
+      ...(post.publish_at instanceof Date && { publish_at: Timestamp.fromDate(post.publish_at) }),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Post => {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      ...data,
+      created_at: data.created_at instanceof Timestamp ? data.created_at.toDate() : new Date(),
+      updated_at: data.updated_at instanceof Timestamp ? data.updated_at.toDate() : new Date(),
+      publish_at: data.publish_at instanceof Timestamp ? data.publish_at.toDate() : undefined,
+    } as Post;
+  }
+};
+
+const commentConverter = {
+    toFirestore: (comment: Omit<Comment, 'id'>) => {
+        return {
+            ...comment,
+            created_at: comment.created_at instanceof Date ? Timestamp.fromDate(comment.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Comment => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as Comment;
+    }
+};
+
+const storyConverter = {
+    toFirestore: (story: Omit<FollowUpStory, 'id'>) => {
+        return {
+            ...story,
+            created_at: story.created_at instanceof Date ? Timestamp.fromDate(story.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): FollowUpStory => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as FollowUpStory;
+    }
+};
+
+const userConverter = {
+    toFirestore: (user: Omit<User, 'id'>) => {
+        return {
+            ...user,
+            created_at: user.created_at instanceof Date ? Timestamp.fromDate(user.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): User => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            ...(data.suspended_until && { suspended_until: data.suspended_until.toDate() }),
+            ...(data.deleted_at && { deleted_at: data.deleted_at.toDate() }),
+            created_at: data.created_at?.toDate() || new Date(),
+        } as User;
+    }
+};
+
+const earlyAccessUserConverter = {
+    toFirestore: (user: Omit<EarlyAccessUser, 'id'>) => {
+        return {
+            ...user,
+            created_at: serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): EarlyAccessUser => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as EarlyAccessUser;
+    }
+};
+
+const newsletterSubscriberConverter = {
+    toFirestore: (subscriber: Omit<NewsletterSubscriber, 'id'>) => {
+        return {
+            ...subscriber,
+            created_at: serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): NewsletterSubscriber => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+            ...(data.last_digest_at && { last_digest_at: data.last_digest_at.toDate() }),
+        } as NewsletterSubscriber;
+    }
+};
+
+const followConverter = {
+    toFirestore: (follow: Omit<Follow, 'id'>) => {
+        return {
+            ...follow,
+            created_at: follow.created_at instanceof Date ? Timestamp.fromDate(follow.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Follow => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as Follow;
+    }
+};
+
+const auditEntryConverter = {
+    toFirestore: (entry: Omit<AuditEntry, 'id'>) => {
+        return {
+            ...entry,
+            created_at: entry.created_at instanceof Date ? Timestamp.fromDate(entry.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): AuditEntry => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as AuditEntry;
+    }
+};
+
+const mediaRecordConverter = {
+    toFirestore: (record: Omit<MediaRecord, 'id'>) => {
+        return {
+            ...record,
+            created_at: record.created_at instanceof Date ? Timestamp.fromDate(record.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): MediaRecord => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as MediaRecord;
+    }
+};
+
+const searchDocumentConverter = {
+    toFirestore: (searchDoc: SearchDocument) => {
+        // The ID is the document key, so it isn't stored as a field.
+        return {
+            title: searchDoc.title,
+            excerpt: searchDoc.excerpt,
+            body: searchDoc.body,
+            tags: searchDoc.tags,
+            category: searchDoc.category,
+            updated_at: Timestamp.fromDate(searchDoc.updated_at),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): SearchDocument => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            updated_at: data.updated_at?.toDate() || new Date(),
+        } as SearchDocument;
+    }
+};
+
+const slugRecordConverter = {
+    toFirestore: (record: SlugRecord) => {
+        // The slug is the document key, so only the owning post is stored.
+        return {
+            post_id: record.post_id,
+            created_at: serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): SlugRecord => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            post_id: data.post_id,
+            created_at: data.created_at?.toDate() || new Date(),
+        };
+    }
+};
+
+const categoryConverter = {
+    toFirestore: (category: Omit<Category, 'id'>) => {
+        return {
+            ...category,
+            created_at: category.created_at instanceof Date ? Timestamp.fromDate(category.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Category => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as Category;
+    }
+};
+
+const tagConverter = {
+    toFirestore: (tag: Omit<Tag, 'id'>) => {
+        return {
+            ...tag,
+            created_at: tag.created_at instanceof Date ? Timestamp.fromDate(tag.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Tag => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as Tag;
+    }
+};
+
+const revisionConverter = {
+    toFirestore: (revision: Omit<PostRevision, 'id'>) => {
+        return {
+            ...revision,
+            created_at: revision.created_at instanceof Date ? Timestamp.fromDate(revision.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): PostRevision => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as PostRevision;
+    }
+};
+
+const reviewNoteConverter = {
+    toFirestore: (note: Omit<ReviewNote, 'id'>) => {
+        return {
+            ...note,
+            created_at: note.created_at instanceof Date ? Timestamp.fromDate(note.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): ReviewNote => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as ReviewNote;
+    }
+};
+
+const notificationConverter = {
+    toFirestore: (notification: Omit<UserNotification, 'id'>) => {
+        return {
+            ...notification,
+            created_at: notification.created_at instanceof Date ? Timestamp.fromDate(notification.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): UserNotification => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as UserNotification;
+    }
+};
+
+const reactionConverter = {
+    toFirestore: (reaction: Omit<Reaction, 'id'>) => {
+        return {
+            ...reaction,
+            created_at: reaction.created_at instanceof Date ? Timestamp.fromDate(reaction.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Reaction => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as Reaction;
+    }
+};
+
+const bookmarkConverter = {
+    toFirestore: (bookmark: Omit<Bookmark, 'id'>) => {
+        return {
+            ...bookmark,
+            created_at: bookmark.created_at instanceof Date ? Timestamp.fromDate(bookmark.created_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): Bookmark => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            created_at: data.created_at?.toDate() || new Date(),
+        } as Bookmark;
+    }
+};
+
+const readingListConverter = {
+    toFirestore: (list: Omit<ReadingList, 'id'>) => {
+        return {
+            ...list,
+            created_at: list.created_at instanceof Date ? Timestamp.fromDate(list.created_at) : serverTimestamp(),
+            updated_at: list.updated_at instanceof Date ? Timestamp.fromDate(list.updated_at) : serverTimestamp(),
+        };
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options: SnapshotOptions): ReadingList => {
+        const data = snapshot.data(options);
+        return {
+            id: snapshot.id,
+            ...data,
+            post_ids: data.post_ids ?? [],
+            created_at: data.created_at?.toDate() || new Date(),
+            updated_at: data.updated_at?.toDate() || new Date(),
+        } as ReadingList;
+    }
+};
+
+// --- POSTS ---
+
+const postRepository = (db: Firestore): PostRepository => ({
+  async list() {
+    const postsCol = collection(db, 'posts').withConverter(postConverter);
+    const postSnapshot = await getDocs(postsCol);
+    return postSnapshot.docs.map(doc => doc.data() as Post);
+  },
+
+  async listByAuthor(authorId) {
+    const postsCol = collection(db, 'posts').withConverter(postConverter);
+    const q = query(postsCol, where('author_id', '==', authorId));
+    const postSnapshot = await getDocs(q);
+    return postSnapshot.docs.map(doc => doc.data() as Post);
+  },
+
+  async listPublished() {
+    const postsCol = collection(db, 'posts').withConverter(postConverter);
+    const q = query(postsCol, where('status', '==', 'published'));
+    const postSnapshot = await getDocs(q);
+    return postSnapshot.docs.map(doc => doc.data() as Post);
+  },
+
+  async listScheduled() {
+    const postsCol = collection(db, 'posts').withConverter(postConverter);
+    const q = query(postsCol, where('status', '==', 'scheduled'));
+    const postSnapshot = await getDocs(q);
+    return postSnapshot.docs.map(doc => doc.data() as Post);
+  },
+
+  // Filters, orders and pages on the server. The composite indexes these queries need are
+  // declared in `firestore.indexes.json`.
+  async queryPublished(options) {
+    const { pageSize, cursor, orderBy: orderField, direction, category, tag } = normalizePublishedPostsQuery(options);
+    const postsCol = collection(db, 'posts').withConverter(postConverter);
+
+    const constraints: QueryConstraint[] = [where('status', '==', 'published')];
+    if (category) {
+      constraints.push(where('category', '==', category));
+    }
+    if (tag) {
+      constraints.push(where('tags', 'array-contains', tag));
+    }
+    constraints.push(orderBy(orderField, direction));
+    // The cursor is the ID of the last post on the previous page. If that post is gone there is no
+    // telling where the page should start, so the page is empty rather than the first page again.
+    if (cursor) {
+      const cursorSnap = await getDoc(doc(db, 'posts', cursor));
+      if (!cursorSnap.exists()) {
+        return { items: [], nextCursor: null };
+      }
+      constraints.push(startAfter(cursorSnap));
+    }
+    // Fetch one extra document to find out whether another page exists.
+    constraints.push(limit(pageSize + 1));
+
+    const postSnapshot = await getDocs(query(postsCol, ...constraints));
+    const items = postSnapshot.docs.slice(0, pageSize).map(doc => doc.data() as Post);
+    const hasMore = postSnapshot.docs.length > pageSize;
+    return { items, nextCursor: hasMore ? items[items.length - 1].id : null };
+  },
+
+  async getBySlug(slug) {
+    const postsCol = collection(db, 'posts').withConverter(postConverter);
+    const q = query(postsCol, where('slug', '==', slug), where('status', '==', 'published'));
+    const postSnapshot = await getDocs(q);
+    if (postSnapshot.empty) {
+      return null;
+    }
+    return postSnapshot.docs[0].data() as Post;
+  },
+
+  async get(id) {
+    const postDocRef = doc(db, 'posts', id).withConverter(postConverter);
+    const postSnap = await getDoc(postDocRef);
+    return postSnap.exists() ? postSnap.data() as Post : null;
+  },
+
+  async add(post) {
+    const postsCol = collection(db, 'posts').withConverter(postConverter);
+    const docRef = await addDoc(postsCol, post);
+    return docRef.id;
+  },
+
+  async update(id, updates, options = {}) {
+    const postDocRef = doc(db, 'posts', id);
+    await updateDoc(postDocRef, {
+      ...updates,
+      ...(!options.keepUpdatedAt && { updated_at: serverTimestamp() }),
+    });
+  },
+
+  async delete(id) {
+    await deleteDoc(doc(db, 'posts', id));
+  },
+});
+
+// --- BULK WRITES ---
+
+// The most writes Firestore accepts in one batch.
+const MAX_BATCH_WRITES = 500;
+
+// Writes one change per document in batches of MAX_BATCH_WRITES. A batch is all or nothing, so when
+// one fails, every document in it is reported as failed and the other batches still go ahead.
+async function writeInBatches(db: Firestore, collectionName: string, ids: string[], write: (batch: WriteBatch, ref: DocumentReference) => void): Promise<BulkWriteResult> {
+  const failed: BulkWriteResult['failed'] = [];
+  for (let start = 0; start < ids.length; start += MAX_BATCH_WRITES) {
+    const chunk = ids.slice(start, start + MAX_BATCH_WRITES);
+    const batch = writeBatch(db);
+    chunk.forEach(id => write(batch, doc(db, collectionName, id)));
+    try {
+      await batch.commit();
+    } catch (error) {
+      failed.push(...chunk.map(id => ({ id, error: (error as Error).message })));
+    }
+  }
+  return { failed };
+}
+
+// --- COMMENTS ---
+
+const commentRepository = (db: Firestore): CommentRepository => ({
+  async list(postId) {
+    const commentsCol = collection(db, 'comments').withConverter(commentConverter);
+    // If a postId is provided, fetch approved comments for that post.
+    // Otherwise (for the admin page), fetch all comments.
+    const q = postId
+      ? query(commentsCol, where('postId', '==', postId), where('status', '==', 'approved'))
+      : query(commentsCol);
+    const commentSnapshot = await getDocs(q);
+    return commentSnapshot.docs.map(doc => doc.data() as Comment);
+  },
+
+  async listByUser(userId) {
+    const commentsCol = collection(db, 'comments').withConverter(commentConverter);
+    const q = query(commentsCol, where('userId', '==', userId));
+    const commentSnapshot = await getDocs(q);
+    return commentSnapshot.docs.map(doc => doc.data() as Comment);
+  },
+
+  async get(id) {
+    const commentSnap = await getDoc(doc(db, 'comments', id).withConverter(commentConverter));
+    return commentSnap.exists() ? commentSnap.data() as Comment : null;
+  },
+
+  async add(comment) {
+    const commentsCol = collection(db, 'comments').withConverter(commentConverter);
+    const docRef = await addDoc(commentsCol, comment);
+    return docRef.id;
+  },
+
+  async update(id, updates) {
+    await updateDoc(doc(db, 'comments', id), updates);
+  },
+
+  async delete(id) {
+    await deleteDoc(doc(db, 'comments', id));
+  },
+
+  async updateMany(ids, updates) {
+    return writeInBatches(db, 'comments', ids, (batch, ref) => batch.update(ref, updates));
+  },
+
+  async deleteMany(ids) {
+    return writeInBatches(db, 'comments', ids, (batch, ref) => batch.delete(ref));
+  },
+});
+
+// --- STORIES ---
+
+const storyRepository = (db: Firestore): StoryRepository => ({
+  async list(postId) {
+    const storiesCol = collection(db, 'stories').withConverter(storyConverter);
+    // If a postId is provided, fetch approved stories for that post.
+    // Otherwise (for the admin page), fetch all stories.
+    const q = postId
+      ? query(storiesCol, where('postId', '==', postId), where('status', '==', 'approved'))
+      : query(storiesCol);
+    const storySnapshot = await getDocs(q);
+    return storySnapshot.docs.map(doc => doc.data() as FollowUpStory);
+  },
+
+  async get(id) {
+    const storySnap = await getDoc(doc(db, 'stories', id).withConverter(storyConverter));
+    return storySnap.exists() ? storySnap.data() as FollowUpStory : null;
+  },
+
+  async add(story) {
+    const storiesCol = collection(db, 'stories').withConverter(storyConverter);
+    const docRef = await addDoc(storiesCol, story);
+    return docRef.id;
+  },
+
+  async update(id, updates) {
+    await updateDoc(doc(db, 'stories', id), updates);
+  },
+
+  async delete(id) {
+    await deleteDoc(doc(db, 'stories', id));
+  },
+
+  async updateMany(ids, updates) {
+    return writeInBatches(db, 'stories', ids, (batch, ref) => batch.update(ref, updates));
+  },
+
+  async deleteMany(ids) {
+    return writeInBatches(db, 'stories', ids, (batch, ref) => batch.delete(ref));
+  },
+});
+
+// --- USERS ---
+
+const userRepository = (db: Firestore): UserRepository => ({
+  async list() {
+    const usersCol = collection(db, 'users').withConverter(userConverter);
+    const userSnapshot = await getDocs(usersCol);
+    return userSnapshot.docs.map(doc => doc.data() as User);
+  },
+
+  async get(id) {
+    const userDocRef = doc(db, 'users', id).withConverter(userConverter);
+    const userSnap = await getDoc(userDocRef);
+    return userSnap.exists() ? userSnap.data() as User : null;
+  },
+
+  async getByUsername(username) {
+    const usersCol = collection(db, 'users').withConverter(userConverter);
+    const q = query(usersCol, where('username', '==', username));
+    const userSnapshot = await getDocs(q);
+    if (userSnapshot.empty) {
+      return null;
+    }
+    return userSnapshot.docs[0].data() as User;
+  },
+
+  async create(id, user) {
+    await setDoc(doc(db, 'users', id).withConverter(userConverter), user);
+  },
+
+  async update(id, updates) {
+    await updateDoc(doc(db, 'users', id), updates);
+  },
+});
+
+// --- EARLY ACCESS USERS ---
+
+const earlyAccessUserRepository = (db: Firestore): EarlyAccessUserRepository => ({
+  async add(user) {
+    const earlyAccessUsersCol = collection(db, 'early_access_users').withConverter(earlyAccessUserConverter);
+    const docRef = await addDoc(earlyAccessUsersCol, user);
+    return docRef.id;
+  },
+});
+
+// --- NEWSLETTER SUBSCRIBERS ---
+
+const newsletterSubscriberRepository = (db: Firestore): NewsletterSubscriberRepository => ({
+  async add(subscriber) {
+    const newsletterSubscribersCol = collection(db, 'newsletter_subscribers').withConverter(newsletterSubscriberConverter);
+    const docRef = await addDoc(newsletterSubscribersCol, subscriber);
+    return docRef.id;
+  },
+
+  async get(id) {
+    const subscriberSnap = await getDoc(doc(db, 'newsletter_subscribers', id).withConverter(newsletterSubscriberConverter));
+    return subscriberSnap.exists() ? subscriberSnap.data() as NewsletterSubscriber : null;
+  },
+
+  async set(id, subscriber) {
+    await setDoc(doc(db, 'newsletter_subscribers', id).withConverter(newsletterSubscriberConverter), subscriber);
+  },
+
+  async update(id, updates) {
+    await updateDoc(doc(db, 'newsletter_subscribers', id), updates);
+  },
+
+  async listDigestSubscribers() {
+    const subscribersCol = collection(db, 'newsletter_subscribers').withConverter(newsletterSubscriberConverter);
+    const snapshot = await getDocs(query(subscribersCol, where('weekly_digest', '==', true)));
+    return snapshot.docs.map(doc => doc.data() as NewsletterSubscriber);
+  },
+});
+
+// --- SEARCH INDEX ---
+
+const searchIndexRepository = (db: Firestore): SearchIndexRepository => ({
+  async list() {
+    const searchIndexCol = collection(db, 'search_index').withConverter(searchDocumentConverter);
+    const snapshot = await getDocs(searchIndexCol);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async upsert(searchDoc) {
+    await setDoc(doc(db, 'search_index', searchDoc.id).withConverter(searchDocumentConverter), searchDoc);
+  },
+
+  async delete(id) {
+    await deleteDoc(doc(db, 'search_index', id));
+  },
+});
+
+// --- SLUGS ---
+
+const slugRepository = (db: Firestore): SlugRepository => ({
+  async get(slug) {
+    const slugSnap = await getDoc(doc(db, 'slugs', slug).withConverter(slugRecordConverter));
+    return slugSnap.exists() ? slugSnap.data() : null;
+  },
+
+  async listByPost(postId) {
+    const slugsCol = collection(db, 'slugs').withConverter(slugRecordConverter);
+    const snapshot = await getDocs(query(slugsCol, where('post_id', '==', postId)));
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async claim(slug, postId) {
+    // A transaction makes the check and the write atomic, so two posts can never claim the same slug.
+    const slugRef = doc(db, 'slugs', slug).withConverter(slugRecordConverter);
+    return runTransaction(db, async transaction => {
+      const existing = await transaction.get(slugRef);
+      if (existing.exists()) {
+        return existing.data().post_id === postId;
+      }
+      transaction.set(slugRef, { id: slug, post_id: postId, created_at: new Date() });
+      return true;
+    });
+  },
+
+  async delete(slug) {
+    await deleteDoc(doc(db, 'slugs', slug));
+  },
+});
+
+// --- CATEGORIES ---
+
+const categoryRepository = (db: Firestore): CategoryRepository => ({
+  async list() {
+    const categoriesCol = collection(db, 'categories').withConverter(categoryConverter);
+    const snapshot = await getDocs(query(categoriesCol, orderBy('name')));
+    return snapshot.docs.map(doc => doc.data() as Category);
+  },
+
+  async get(id) {
+    const categorySnap = await getDoc(doc(db, 'categories', id).withConverter(categoryConverter));
+    return categorySnap.exists() ? categorySnap.data() as Category : null;
+  },
+
+  async create(id, category) {
+    await setDoc(doc(db, 'categories', id).withConverter(categoryConverter), category);
+  },
+
+  async update(id, updates) {
+    await updateDoc(doc(db, 'categories', id), updates);
+  },
+
+  async delete(id) {
+    await deleteDoc(doc(db, 'categories', id));
+  },
+});
+
+// --- TAGS ---
+
+const tagRepository = (db: Firestore): TagRepository => ({
+  async list() {
+    const tagsCol = collection(db, 'tags').withConverter(tagConverter);
+    const snapshot = await getDocs(query(tagsCol, orderBy('name')));
+    return snapshot.docs.map(doc => doc.data() as Tag);
+  },
+
+  async create(id, tag) {
+    await setDoc(doc(db, 'tags', id).withConverter(tagConverter), tag);
+  },
+
+  async delete(id) {
+    await deleteDoc(doc(db, 'tags', id));
+  },
+});
+
+// --- REVISIONS ---
+
+const revisionRepository = (db: Firestore): RevisionRepository => ({
+  async listByPost(postId) {
+    const revisionsCol = collection(db, 'revisions').withConverter(revisionConverter);
+    const snapshot = await getDocs(query(revisionsCol, where('post_id', '==', postId)));
+    // Sorted here rather than in the query, so no composite index is needed.
+    return snapshot.docs
+      .map(doc => doc.data() as PostRevision)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  },
+
+  async get(id) {
+    const revisionSnap = await getDoc(doc(db, 'revisions', id).withConverter(revisionConverter));
+    return revisionSnap.exists() ? revisionSnap.data() as PostRevision : null;
+  },
+
+  async add(revision) {
+    const docRef = await addDoc(collection(db, 'revisions').withConverter(revisionConverter), revision);
+    return docRef.id;
+  },
+
+  async deleteByPost(postId) {
+    const snapshot = await getDocs(query(collection(db, 'revisions'), where('post_id', '==', postId)));
+    await Promise.all(snapshot.docs.map(revisionDoc => deleteDoc(revisionDoc.ref)));
+  },
+});
+
+// --- REVIEWS ---
+
+const reviewRepository = (db: Firestore): ReviewRepository => ({
+  async listByPost(postId) {
+    const reviewsCol = collection(db, 'reviews').withConverter(reviewNoteConverter);
+    const snapshot = await getDocs(query(reviewsCol, where('post_id', '==', postId)));
+    // Sorted here rather than in the query, so no composite index is needed.
+    return snapshot.docs
+      .map(doc => doc.data() as ReviewNote)
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  },
+
+  async add(note) {
+    const docRef = await addDoc(collection(db, 'reviews').withConverter(reviewNoteConverter), note);
+    return docRef.id;
+  },
+
+  async deleteByPost(postId) {
+    const snapshot = await getDocs(query(collection(db, 'reviews'), where('post_id', '==', postId)));
+    await Promise.all(snapshot.docs.map(noteDoc => deleteDoc(noteDoc.ref)));
+  },
+});
+
+// --- NOTIFICATIONS ---
+
+const notificationRepository = (db: Firestore): NotificationRepository => ({
+  async listByUser(userId, max) {
+    const notificationsCol = collection(db, 'notifications').withConverter(notificationConverter);
+    // Uses the (user_id, created_at) composite index from `firestore.indexes.json`, since users can
+    // collect far more notifications than are shown.
+    const q = query(notificationsCol, where('user_id', '==', userId), orderBy('created_at', 'desc'), limit(max));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data() as UserNotification);
+  },
+
+  async listPendingEmails() {
+    const notificationsCol = collection(db, 'notifications').withConverter(notificationConverter);
+    const snapshot = await getDocs(query(notificationsCol, where('email_status', '==', 'pending')));
+    // Sorted here rather than in the query, so no composite index is needed.
+    return snapshot.docs
+      .map(doc => doc.data() as UserNotification)
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  },
+
+  async add(notification) {
+    const docRef = await addDoc(collection(db, 'notifications').withConverter(notificationConverter), notification);
+    return docRef.id;
+  },
+
+  async update(id, updates) {
+    await updateDoc(doc(db, 'notifications', id), updates);
+  },
+
+  async markAllRead(userId) {
+    const q = query(collection(db, 'notifications'), where('user_id', '==', userId), where('read', '==', false));
+    const snapshot = await getDocs(q);
+    await Promise.all(snapshot.docs.map(notificationDoc => updateDoc(notificationDoc.ref, { read: true })));
+  },
+});
+
+// --- REACTIONS ---
+
+// The collection holding each kind of reaction target.
+const reactionTargetCollections: Record<ReactionTarget, string> = {
+  post: 'posts',
+  comment: 'comments',
+  story: 'stories',
+};
+
+const reactionRepository = (db: Firestore): ReactionRepository => ({
+  async listByUser(userId, targetType) {
+    const reactionsCol = collection(db, 'reactions').withConverter(reactionConverter);
+    const snapshot = await getDocs(query(reactionsCol, where('user_id', '==', userId), where('target_type', '==', targetType)));
+    return snapshot.docs.map(doc => doc.data() as Reaction);
+  },
+
+  async set(reaction, active) {
+    const reactionRef = doc(db, 'reactions', reactionId(reaction.target_type, reaction.target_id, reaction.user_id, reaction.kind));
+    const targetRef = doc(db, reactionTargetCollections[reaction.target_type], reaction.target_id);
+    // The reaction and the counter change together: concurrent reactions to the same target are
+    // serialized by the transaction, and repeating a request finds the reaction already in place.
+    return runTransaction(db, async transaction => {
+      const [existing, target] = await Promise.all([transaction.get(reactionRef), transaction.get(targetRef)]);
+      if (!target.exists()) {
+        throw new Error('This item no longer exists.');
+      }
+      const counts = target.data().reaction_counts;
+      if (existing.exists() === active) {
+        return counts ?? {};
+      }
+      if (active) {
+        transaction.set(reactionRef, { ...reaction, created_at: Timestamp.now() });
+      } else {
+        transaction.delete(reactionRef);
+      }
+      transaction.update(targetRef, { [`reaction_counts.${reaction.kind}`]: increment(active ? 1 : -1) });
+      return adjustReactionCounts(counts, reaction.kind, active ? 1 : -1);
+    });
+  },
+
+  async deleteByTarget(targetType, targetId) {
+    const q = query(collection(db, 'reactions'), where('target_type', '==', targetType), where('target_id', '==', targetId));
+    const snapshot = await getDocs(q);
+    await Promise.all(snapshot.docs.map(reactionDoc => deleteDoc(reactionDoc.ref)));
+  },
+});
+
+// --- BOOKMARKS ---
+
+const bookmarkRepository = (db: Firestore): BookmarkRepository => ({
+  async listByUser(userId) {
+    const bookmarksCol = collection(db, 'bookmarks').withConverter(bookmarkConverter);
+    const snapshot = await getDocs(query(bookmarksCol, where('user_id', '==', userId)));
+    // Sorted here rather than in the query, so no composite index is needed.
+    return snapshot.docs
+      .map(doc => doc.data() as Bookmark)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  },
+
+  async add(userId, postId) {
+    const bookmarkRef = doc(db, 'bookmarks', `${userId}_${postId}`).withConverter(bookmarkConverter);
+    // Keep the original date when the post is saved again.
+    if (!(await getDoc(bookmarkRef)).exists()) {
+      await setDoc(bookmarkRef, { user_id: userId, post_id: postId, created_at: new Date() });
+    }
+  },
+
+  async delete(userId, postId) {
+    await deleteDoc(doc(db, 'bookmarks', `${userId}_${postId}`));
+  },
+
+  async deleteByPost(postId) {
+    const snapshot = await getDocs(query(collection(db, 'bookmarks'), where('post_id', '==', postId)));
+    await Promise.all(snapshot.docs.map(bookmarkDoc => deleteDoc(bookmarkDoc.ref)));
+  },
+});
+
+// --- READING LISTS ---
+
+const readingListRepository = (db: Firestore): ReadingListRepository => ({
+  async listByUser(userId) {
+    const listsCol = collection(db, 'reading_lists').withConverter(readingListConverter);
+    const snapshot = await getDocs(query(listsCol, where('user_id', '==', userId)));
+    // Sorted here rather than in the query, so no composite index is needed.
+    return snapshot.docs
+      .map(doc => doc.data() as ReadingList)
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  },
+
+  async get(id) {
+    const listSnap = await getDoc(doc(db, 'reading_lists', id).withConverter(readingListConverter));
+    return listSnap.exists() ? listSnap.data() as ReadingList : null;
+  },
+
+  async add(list) {
+    const docRef = await addDoc(collection(db, 'reading_lists').withConverter(readingListConverter), list);
+    return docRef.id;
+  },
+
+  async update(id, updates) {
+    await updateDoc(doc(db, 'reading_lists', id), { ...updates, updated_at: serverTimestamp() });
+  },
+
+  async addPost(id, postId) {
+    await updateDoc(doc(db, 'reading_lists', id), { post_ids: arrayUnion(postId), updated_at: serverTimestamp() });
+  },
+
+  async removePost(id, postId) {
+    await updateDoc(doc(db, 'reading_lists', id), { post_ids: arrayRemove(postId), updated_at: serverTimestamp() });
+  },
+
+  async removePostFromAll(postId) {
+    const snapshot = await getDocs(query(collection(db, 'reading_lists'), where('post_ids', 'array-contains', postId)));
+    await Promise.all(snapshot.docs.map(listDoc => updateDoc(listDoc.ref, { post_ids: arrayRemove(postId) })));
+  },
+
+  async delete(id) {
+    await deleteDoc(doc(db, 'reading_lists', id));
+  },
+});
+
+// --- FOLLOWS ---
+
+const followRepository = (db: Firestore): FollowRepository => ({
+  async listByFollower(followerId) {
+    const followsCol = collection(db, 'follows').withConverter(followConverter);
+    const snapshot = await getDocs(query(followsCol, where('follower_id', '==', followerId)));
+    // Sorted here rather than in the query, so no composite index is needed.
+    return snapshot.docs
+      .map(doc => doc.data() as Follow)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  },
+
+  async set(follow, active) {
+    const followRef = doc(db, 'follows', followId(follow.follower_id, follow.target_type, follow.target_id));
+    if (follow.target_type !== 'author') {
+      // Tags have no counters, so there is nothing to keep in step.
+      if (active) {
+        await setDoc(followRef, { ...follow, created_at: Timestamp.now() });
+      } else {
+        await deleteDoc(followRef);
+      }
+      return;
+    }
+    const authorRef = doc(db, 'users', follow.target_id);
+    const followerRef = doc(db, 'users', follow.follower_id);
+    // The follow and both counters change together, like reactions and their counts.
+    await runTransaction(db, async transaction => {
+      const [existing, author] = await Promise.all([transaction.get(followRef), transaction.get(authorRef)]);
+      if (active && !author.exists()) {
+        throw new Error('This author no longer exists.');
+      }
+      if (existing.exists() === active) {
+        return;
+      }
+      if (active) {
+        transaction.set(followRef, { ...follow, created_at: Timestamp.now() });
+      } else {
+        transaction.delete(followRef);
+      }
+      if (author.exists()) {
+        transaction.update(authorRef, { follower_count: increment(active ? 1 : -1) });
+      }
+      transaction.update(followerRef, { following_count: increment(active ? 1 : -1) });
+    });
+  },
+});
+
+// --- AUDIT LOG ---
+
+const auditRepository = (db: Firestore): AuditRepository => ({
+  async add(entry) {
+    const docRef = await addDoc(collection(db, 'audit_log').withConverter(auditEntryConverter), entry);
+    return docRef.id;
+  },
+
+  async listByTarget(targetType, targetId) {
+    const auditCol = collection(db, 'audit_log').withConverter(auditEntryConverter);
+    const snapshot = await getDocs(query(auditCol, where('target_type', '==', targetType), where('target_id', '==', targetId)));
+    // Sorted here rather than in the query, so no composite index is needed.
+    return snapshot.docs
+      .map(doc => doc.data() as AuditEntry)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  },
+
+  async list(since) {
+    const auditCol = collection(db, 'audit_log').withConverter(auditEntryConverter);
+    const snapshot = await getDocs(since ? query(auditCol, where('created_at', '>=', since)) : auditCol);
+    return snapshot.docs
+      .map(doc => doc.data() as AuditEntry)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  },
+});
+
+// --- MEDIA ---
+
+const mediaRepository = (db: Firestore): MediaRepository => ({
+  async list() {
+    const snapshot = await getDocs(collection(db, 'media').withConverter(mediaRecordConverter));
+    return snapshot.docs.map(doc => doc.data() as MediaRecord);
+  },
+
+  async listByTarget(targetType, targetId) {
+    const mediaCol = collection(db, 'media').withConverter(mediaRecordConverter);
+    const snapshot = await getDocs(query(mediaCol, where('target_type', '==', targetType), where('target_id', '==', targetId)));
+    return snapshot.docs.map(doc => doc.data() as MediaRecord);
+  },
+
+  async listByPath(path) {
+    const mediaCol = collection(db, 'media').withConverter(mediaRecordConverter);
+    const snapshot = await getDocs(query(mediaCol, where('path', '==', path)));
+    return snapshot.docs.map(doc => doc.data() as MediaRecord);
+  },
+
+  async add(record) {
+    const id = mediaId(record.target_type, record.target_id, record.path);
+    await setDoc(doc(db, 'media', id).withConverter(mediaRecordConverter), { ...record, created_at: new Date() });
+  },
+
+  async delete(id) {
+    await deleteDoc(doc(db, 'media', id));
+  },
+});
+
+// Builds the repositories on a Firestore instance. Rules are checked as whoever is signed in to its app:
+// the browser's user for `firestoreRepositories`, the service account for the server's privileged work
+// (see `src/lib/service-account.ts`).
+export function createFirestoreRepositories(db: Firestore): Repositories {
+  return {
+    backend: 'firestore',
+    posts: postRepository(db),
+    comments: commentRepository(db),
+    stories: storyRepository(db),
+    users: userRepository(db),
+    earlyAccessUsers: earlyAccessUserRepository(db),
+    newsletterSubscribers: newsletterSubscriberRepository(db),
+    searchIndex: searchIndexRepository(db),
+    slugs: slugRepository(db),
+    categories: categoryRepository(db),
+    tags: tagRepository(db),
+    revisions: revisionRepository(db),
+    reviews: reviewRepository(db),
+    notifications: notificationRepository(db),
+    reactions: reactionRepository(db),
+    bookmarks: bookmarkRepository(db),
+    readingLists: readingListRepository(db),
+    follows: followRepository(db),
+    audit: auditRepository(db),
+    media: mediaRepository(db),
+  };
+}
+
+// The repositories of the app's own Firebase connection.
+export const firestoreRepositories: Repositories = createFirestoreRepositories(appDb);
@@ -0,0 +1,34 @@
+// This file selects the data backend used by the whole application.
+//
+// Set `NEXT_PUBLIC_DATA_BACKEND` in `.env.local`:
+//   - `firestore` (default): the live Firebase project, or the local emulator when
+//     `NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST` is also set.
+//   - `memory`: an offline, in-memory store pre-loaded with seed data.
+
+import { Repositories, DataBackend } from './types';
+import { firestoreRepositories } from './firestore';
+import { createMemoryRepositories } from './memory';
+
+export const dataBackend: DataBackend =
+  process.env.NEXT_PUBLIC_DATA_BACKEND === 'memory' ? 'memory' : 'firestore';
+
+let repositories: Repositories | null = null;
+
+// Returns the repositories for the configured backend.
+// The in-memory backend is created once per runtime so its data survives between calls.
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = dataBackend === 'memory' ? createMemoryRepositories() : firestoreRepositories;
+  }
+  return repositories;
+}
+
+// Replaces the active repositories. Intended for tests and scripts that need a fresh,
+// isolated store (e.g. `setRepositories(createMemoryRepositories())`).
+export function setRepositories(next: Repositories): void {
+  repositories = next;
+}
+
+export * from './types';
+export { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination';
+export { createMemoryRepositories } from './memory';
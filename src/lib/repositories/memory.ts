@@ -0,0 +1,537 @@
+// This file implements the repository interfaces with plain in-memory collections.
+// It is selected with `NEXT_PUBLIC_DATA_BACKEND=memory` and lets local development, previews and
+// tests run fully offline against the seed data in `./seed.ts`.
+//
+// Note: each JavaScript runtime (the Next.js server and every browser tab) holds its own copy of
+// the data, and all changes are lost on reload.
+
+import { User, Post, Comment, FollowUpStory, EarlyAccessUser, NewsletterSubscriber, SearchDocument, SlugRecord, Category, Tag, PostRevision, ReviewNote, UserNotification, Reaction, ReactionCounts, Bookmark, ReadingList, Follow, AuditEntry, MediaRecord } from '../types';
+import { isSearchable, toSearchDocument } from '../search/document';
+import { reactionId, adjustReactionCounts } from '../reactions';
+import { followId } from '../feed';
+import { mediaId } from '../media';
+import { Repositories, BulkWriteResult } from './types';
+import { normalizePublishedPostsQuery } from './pagination';
+import { seedData, SeedData } from './seed';
+
+// Generates a random, Firestore-like document ID.
+function generateId(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return id;
+}
+
+// A minimal document store keyed by ID. Documents are cloned on the way in and out
+// so callers can never mutate the stored copy by accident.
+export class MemoryCollection<T extends { id: string }> {
+  private docs = new Map<string, T>();
+
+  constructor(initial: T[] = []) {
+    initial.forEach(doc => this.docs.set(doc.id, structuredClone(doc)));
+  }
+
+  all(): T[] {
+    return Array.from(this.docs.values()).map(doc => structuredClone(doc));
+  }
+
+  where(predicate: (doc: T) => boolean): T[] {
+    return this.all().filter(predicate);
+  }
+
+  get(id: string): T | null {
+    const doc = this.docs.get(id);
+    return doc ? structuredClone(doc) : null;
+  }
+
+  add(data: Omit<T, 'id'>): string {
+    const id = generateId();
+    this.set(id, data);
+    return id;
+  }
+
+  set(id: string, data: Omit<T, 'id'>): void {
+    this.docs.set(id, structuredClone({ ...data, id } as T));
+  }
+
+  // Mirrors Firestore's `updateDoc`, which fails when the document does not exist.
+  update(id: string, updates: Partial<T>): void {
+    const existing = this.docs.get(id);
+    if (!existing) {
+      throw new Error(`No document to update: ${id}`);
+    }
+    this.docs.set(id, structuredClone({ ...existing, ...updates, id }));
+  }
+
+  delete(id: string): void {
+    this.docs.delete(id);
+  }
+}
+
+// Writes one change per document, collecting the ones that fail instead of stopping at the first.
+function writeEach(ids: string[], write: (id: string) => void): BulkWriteResult {
+  const failed: BulkWriteResult['failed'] = [];
+  ids.forEach(id => {
+    try {
+      write(id);
+    } catch (error) {
+      failed.push({ id, error: (error as Error).message });
+    }
+  });
+  return { failed };
+}
+
+// Builds a fresh set of in-memory repositories, seeded with the given data.
+export function createMemoryRepositories(seed: SeedData = seedData): Repositories {
+  const posts = new MemoryCollection<Post>(seed.posts);
+  const comments = new MemoryCollection<Comment>(seed.comments);
+  const stories = new MemoryCollection<FollowUpStory>(seed.stories);
+  const users = new MemoryCollection<User>(seed.users);
+  const earlyAccessUsers = new MemoryCollection<EarlyAccessUser>();
+  const newsletterSubscribers = new MemoryCollection<NewsletterSubscriber>();
+  // The seeded published posts start out indexed, as they would be after a reindex.
+  const searchIndex = new MemoryCollection<SearchDocument>(seed.posts.filter(post => isSearchable(post)).map(toSearchDocument));
+  const categories = new MemoryCollection<Category>(seed.categories);
+  const tags = new MemoryCollection<Tag>(seed.tags);
+  const revisions = new MemoryCollection<PostRevision>();
+  const reviews = new MemoryCollection<ReviewNote>();
+  const notifications = new MemoryCollection<UserNotification>();
+  const reactions = new MemoryCollection<Reaction>();
+  const bookmarks = new MemoryCollection<Bookmark>();
+  const readingLists = new MemoryCollection<ReadingList>();
+  const follows = new MemoryCollection<Follow>();
+  const audit = new MemoryCollection<AuditEntry>();
+  const media = new MemoryCollection<MediaRecord>();
+  // The collection holding each kind of reaction target.
+  const reactionTargets: Record<Reaction['target_type'], MemoryCollection<{ id: string; reaction_counts?: ReactionCounts }>> = {
+    post: posts,
+    comment: comments,
+    story: stories,
+  };
+  const slugs = new MemoryCollection<SlugRecord>(seed.posts.map(p => ({ id: p.slug, post_id: p.id, created_at: p.created_at })));
+
+  return {
+    backend: 'memory',
+
+    posts: {
+      async list() {
+        return posts.all();
+      },
+      async listByAuthor(authorId) {
+        return posts.where(p => p.author_id === authorId);
+      },
+      async listPublished() {
+        return posts.where(p => p.status === 'published');
+      },
+      async listScheduled() {
+        return posts.where(p => p.status === 'scheduled');
+      },
+      async queryPublished(options) {
+        const { pageSize, cursor, orderBy, direction, category, tag } = normalizePublishedPostsQuery(options);
+        const sign = direction === 'asc' ? 1 : -1;
+        // Order like Firestore: by the requested field, then by document ID as a tie-breaker.
+        const matching = posts
+          .where(p => p.status === 'published'
+            && (!category || p.category === category)
+            && (!tag || p.tags.includes(tag)))
+          .sort((a, b) => sign * (a[orderBy].getTime() - b[orderBy].getTime() || a.id.localeCompare(b.id)));
+
+        // An unknown cursor gives an empty page, as in the Firestore backend, rather than the first page again.
+        const start = cursor ? matching.findIndex(p => p.id === cursor) + 1 : 0;
+        if (cursor && start === 0) {
+          return { items: [], nextCursor: null };
+        }
+        const items = matching.slice(start, start + pageSize);
+        const hasMore = start + pageSize < matching.length;
+        return { items, nextCursor: hasMore ? items[items.length - 1].id : null };
+      },
+      async getBySlug(slug) {
+        return posts.where(p => p.slug === slug && p.status === 'published')[0] ?? null;
+      },
+      async get(id) {
+        return posts.get(id);
+      },
+      async add(post) {
+        return posts.add(post);
+      },
+      async update(id, updates, options = {}) {
+        posts.update(id, { ...updates, ...(!options.keepUpdatedAt && { updated_at: new Date() }) });
+      },
+      async delete(id) {
+        posts.delete(id);
+      },
+    },
+
+    comments: {
+      async list(postId) {
+        return postId
+          ? comments.where(c => c.postId === postId && c.status === 'approved')
+          : comments.all();
+      },
+      async listByUser(userId) {
+        return comments.where(c => c.userId === userId);
+      },
+      async get(id) {
+        return comments.get(id);
+      },
+      async add(comment) {
+        return comments.add(comment);
+      },
+      async update(id, updates) {
+        comments.update(id, updates);
+      },
+      async delete(id) {
+        comments.delete(id);
+      },
+      async updateMany(ids, updates) {
+        return writeEach(ids, id => comments.update(id, updates));
+      },
+      async deleteMany(ids) {
+        return writeEach(ids, id => comments.delete(id));
+      },
+    },
+
+    stories: {
+      async list(postId) {
+        return postId
+          ? stories.where(s => s.postId === postId && s.status === 'approved')
+          : stories.all();
+      },
+      async get(id) {
+        return stories.get(id);
+      },
+      async add(story) {
+        return stories.add(story);
+      },
+      async update(id, updates) {
+        stories.update(id, updates);
+      },
+      async delete(id) {
+        stories.delete(id);
+      },
+      async updateMany(ids, updates) {
+        return writeEach(ids, id => stories.update(id, updates));
+      },
+      async deleteMany(ids) {
+        return writeEach(ids, id => stories.delete(id));
+      },
+    },
+
+    users: {
+      async list() {
+        return users.all();
+      },
+      async get(id) {
+        return users.get(id);
+      },
+      async getByUsername(username) {
+        return users.where(u => u.username === username)[0] ?? null;
+      },
+      async create(id, user) {
+        users.set(id, user);
+      },
+      async update(id, updates) {
+        users.update(id, updates);
+      },
+    },
+
+    earlyAccessUsers: {
+      async add(user) {
+        return earlyAccessUsers.add({ ...user, created_at: new Date() });
+      },
+    },
+
+    newsletterSubscribers: {
+      async add(subscriber) {
+        return newsletterSubscribers.add({ ...subscriber, created_at: new Date() });
+      },
+      async get(id) {
+        return newsletterSubscribers.get(id);
+      },
+      async set(id, subscriber) {
+        newsletterSubscribers.set(id, { ...subscriber, created_at: new Date() });
+      },
+      async update(id, updates) {
+        newsletterSubscribers.update(id, updates);
+      },
+      async listDigestSubscribers() {
+        return newsletterSubscribers.where(s => s.weekly_digest === true);
+      },
+    },
+
+    searchIndex: {
+      async list() {
+        return searchIndex.all();
+      },
+      async upsert(doc) {
+        searchIndex.set(doc.id, doc);
+      },
+      async delete(id) {
+        searchIndex.delete(id);
+      },
+    },
+
+    slugs: {
+      async get(slug) {
+        return slugs.get(slug);
+      },
+      async listByPost(postId) {
+        return slugs.where(s => s.post_id === postId);
+      },
+      async claim(slug, postId) {
+        const existing = slugs.get(slug);
+        if (existing) {
+          return existing.post_id === postId;
+        }
+        slugs.set(slug, { post_id: postId, created_at: new Date() });
+        return true;
+      },
+      async delete(slug) {
+        slugs.delete(slug);
+      },
+    },
+
+    categories: {
+      async list() {
+        return categories.all().sort((a, b) => a.name.localeCompare(b.name));
+      },
+      async get(id) {
+        return categories.get(id);
+      },
+      async create(id, category) {
+        categories.set(id, category);
+      },
+      async update(id, updates) {
+        categories.update(id, updates);
+      },
+      async delete(id) {
+        categories.delete(id);
+      },
+    },
+
+    tags: {
+      async list() {
+        return tags.all().sort((a, b) => a.name.localeCompare(b.name));
+      },
+      async create(id, tag) {
+        tags.set(id, tag);
+      },
+      async delete(id) {
+        tags.delete(id);
+      },
+    },
+
+    revisions: {
+      async listByPost(postId) {
+        return revisions
+          .where(r => r.post_id === postId)
+          .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+      },
+      async get(id) {
+        return revisions.get(id);
+      },
+      async add(revision) {
+        return revisions.add(revision);
+      },
+      async deleteByPost(postId) {
+        revisions.where(r => r.post_id === postId).forEach(r => revisions.delete(r.id));
+      },
+    },
+
+    reviews: {
+      async listByPost(postId) {
+        return reviews
+          .where(n => n.post_id === postId)
+          .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+      },
+      async add(note) {
+        return reviews.add(note);
+      },
+      async deleteByPost(postId) {
+        reviews.where(n => n.post_id === postId).forEach(n => reviews.delete(n.id));
+      },
+    },
+
+    notifications: {
+      async listByUser(userId, max) {
+        return notifications
+          .where(n => n.user_id === userId)
+          .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+          .slice(0, max);
+      },
+      async listPendingEmails() {
+        return notifications
+          .where(n => n.email_status === 'pending')
+          .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+      },
+      async add(notification) {
+        return notifications.add(notification);
+      },
+      async update(id, updates) {
+        notifications.update(id, updates);
+      },
+      async markAllRead(userId) {
+        notifications.where(n => n.user_id === userId && !n.read).forEach(n => notifications.update(n.id, { read: true }));
+      },
+    },
+
+    reactions: {
+      async listByUser(userId, targetType) {
+        return reactions.where(r => r.user_id === userId && r.target_type === targetType);
+      },
+      // Runs without awaiting anything, so it is atomic like the Firestore transaction.
+      async set(reaction, active) {
+        const id = reactionId(reaction.target_type, reaction.target_id, reaction.user_id, reaction.kind);
+        const target = reactionTargets[reaction.target_type].get(reaction.target_id);
+        if (!target) {
+          throw new Error('This item no longer exists.');
+        }
+        if (!!reactions.get(id) === active) {
+          return target.reaction_counts ?? {};
+        }
+        if (active) {
+          reactions.set(id, { ...reaction, created_at: new Date() });
+        } else {
+          reactions.delete(id);
+        }
+        const counts = adjustReactionCounts(target.reaction_counts, reaction.kind, active ? 1 : -1);
+        reactionTargets[reaction.target_type].update(reaction.target_id, { reaction_counts: counts });
+        return counts;
+      },
+      async deleteByTarget(targetType, targetId) {
+        reactions.where(r => r.target_type === targetType && r.target_id === targetId).forEach(r => reactions.delete(r.id));
+      },
+    },
+
+    bookmarks: {
+      async listByUser(userId) {
+        return bookmarks
+          .where(b => b.user_id === userId)
+          .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+      },
+      async add(userId, postId) {
+        const id = `${userId}_${postId}`;
+        if (!bookmarks.get(id)) {
+          bookmarks.set(id, { user_id: userId, post_id: postId, created_at: new Date() });
+        }
+      },
+      async delete(userId, postId) {
+        bookmarks.delete(`${userId}_${postId}`);
+      },
+      async deleteByPost(postId) {
+        bookmarks.where(b => b.post_id === postId).forEach(b => bookmarks.delete(b.id));
+      },
+    },
+
+    readingLists: {
+      async listByUser(userId) {
+        return readingLists
+          .where(l => l.user_id === userId)
+          .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+      },
+      async get(id) {
+        return readingLists.get(id);
+      },
+      async add(list) {
+        return readingLists.add(list);
+      },
+      async update(id, updates) {
+        readingLists.update(id, { ...updates, updated_at: new Date() });
+      },
+      async addPost(id, postId) {
+        const list = readingLists.get(id);
+        if (!list) {
+          throw new Error(`No document to update: ${id}`);
+        }
+        if (!list.post_ids.includes(postId)) {
+          readingLists.update(id, { post_ids: [...list.post_ids, postId], updated_at: new Date() });
+        }
+      },
+      async removePost(id, postId) {
+        const list = readingLists.get(id);
+        if (!list) {
+          throw new Error(`No document to update: ${id}`);
+        }
+        readingLists.update(id, { post_ids: list.post_ids.filter(p => p !== postId), updated_at: new Date() });
+      },
+      async removePostFromAll(postId) {
+        readingLists
+          .where(l => l.post_ids.includes(postId))
+          .forEach(l => readingLists.update(l.id, { post_ids: l.post_ids.filter(p => p !== postId) }));
+      },
+      async delete(id) {
+        readingLists.delete(id);
+      },
+    },
+
+    follows: {
+      async listByFollower(followerId) {
+        return follows
+          .where(f => f.follower_id === followerId)
+          .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+      },
+      // Runs without awaiting anything, so it is atomic like the Firestore transaction.
+      async set(follow, active) {
+        const id = followId(follow.follower_id, follow.target_type, follow.target_id);
+        const author = follow.target_type === 'author' ? users.get(follow.target_id) : null;
+        if (active && follow.target_type === 'author' && !author) {
+          throw new Error('This author no longer exists.');
+        }
+        if (!!follows.get(id) === active) {
+          return;
+        }
+        if (active) {
+          follows.set(id, { ...follow, created_at: new Date() });
+        } else {
+          follows.delete(id);
+        }
+        if (follow.target_type === 'author') {
+          const delta = active ? 1 : -1;
+          if (author) {
+            users.update(author.id, { follower_count: Math.max(0, (author.follower_count ?? 0) + delta) });
+          }
+          const follower = users.get(follow.follower_id);
+          if (follower) {
+            users.update(follower.id, { following_count: Math.max(0, (follower.following_count ?? 0) + delta) });
+          }
+        }
+      },
+    },
+
+    audit: {
+      async add(entry) {
+        return audit.add(entry);
+      },
+      async listByTarget(targetType, targetId) {
+        return audit
+          .where(e => e.target_type === targetType && e.target_id === targetId)
+          .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+      },
+      async list(since) {
+        return audit
+          .where(e => !since || e.created_at.getTime() >= since.getTime())
+          .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+      },
+    },
+
+    media: {
+      async list() {
+        return media.all();
+      },
+      async listByTarget(targetType, targetId) {
+        return media.where(m => m.target_type === targetType && m.target_id === targetId);
+      },
+      async listByPath(path) {
+        return media.where(m => m.path === path);
+      },
+      async add(record) {
+        media.set(mediaId(record.target_type, record.target_id, record.path), { ...record, created_at: new Date() });
+      },
+      async delete(id) {
+        media.delete(id);
+      },
+    },
+  };
+}
@@ -0,0 +1,23 @@
+// Shared pagination defaults so every backend pages results the same way.
+
+import { PublishedPostsQuery } from './types';
+
+export type NormalizedPublishedPostsQuery = Required<Pick<PublishedPostsQuery, 'pageSize' | 'orderBy' | 'direction'>> & Pick<PublishedPostsQuery, 'category' | 'tag'> & { cursor: string | null };
+
+export const DEFAULT_PAGE_SIZE = 9;
+export const MAX_PAGE_SIZE = 50;
+
+// Fills in the defaults for a published-posts query and clamps the page size to a sane range.
+export function normalizePublishedPostsQuery(query: PublishedPostsQuery): NormalizedPublishedPostsQuery {
+  // A page size that isn't a finite number, e.g. from a mistyped query string, gets the default.
+  const requested = query.pageSize !== undefined && Number.isFinite(query.pageSize) ? query.pageSize : DEFAULT_PAGE_SIZE;
+  const pageSize = Math.min(Math.max(Math.floor(requested), 1), MAX_PAGE_SIZE);
+  return {
+    pageSize,
+    cursor: query.cursor || null,
+    orderBy: query.orderBy ?? 'created_at',
+    direction: query.direction ?? 'desc',
+    category: query.category || undefined,
+    tag: query.tag || undefined,
+  };
+}
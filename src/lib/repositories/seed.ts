@@ -0,0 +1,179 @@
+// This file contains the seed data loaded into the in-memory data backend.
+// It covers every role and moderation status so the blog, dashboard and admin pages
+// all have something to show when running offline.
+
+import { User, Post, Comment, FollowUpStory, Category, Tag } from '../types';
+
+export type SeedData = {
+  users: User[];
+  posts: Post[];
+  comments: Comment[];
+  stories: FollowUpStory[];
+  categories: Category[];
+  tags: Tag[];
+};
+
+const users: User[] = [
+  {
+    id: 'seed-admin',
+    name: 'Asha Admin',
+    email: 'admin@travonex.local',
+    username: 'asha',
+    bio: 'Keeps the Travonex blog running.',
+    role: 'admin',
+    avatar: 'https://i.pravatar.cc/150?u=seed-admin',
+    created_at: new Date('2024-01-05T09:00:00Z'),
+  },
+  {
+    id: 'seed-editor',
+    name: 'Ravi Editor',
+    email: 'editor@travonex.local',
+    username: 'ravi',
+    bio: 'Edits trip reports and hunts for hidden waterfalls.',
+    role: 'editor',
+    avatar: 'https://i.pravatar.cc/150?u=seed-editor',
+    created_at: new Date('2024-01-10T09:00:00Z'),
+  },
+  {
+    id: 'seed-user',
+    name: 'Meera Traveller',
+    email: 'meera@travonex.local',
+    username: 'meera',
+    bio: 'Weekend trekker from Bangalore.',
+    role: 'user',
+    avatar: 'https://i.pravatar.cc/150?u=seed-user',
+    created_at: new Date('2024-02-01T09:00:00Z'),
+  },
+];
+
+const posts: Post[] = [
+  {
+    id: 'seed-post-coorg',
+    title: 'A Monsoon Weekend in Coorg',
+    slug: 'a-monsoon-weekend-in-coorg',
+    content: '<p>Coorg in the monsoon is all mist, coffee and waterfalls.</p><h2>Getting there</h2><p>An overnight bus from Bangalore drops you in Madikeri by sunrise.</p><h2>Where to stay</h2><p>Pick a homestay on a coffee estate and let the hosts cook for you.</p>',
+    excerpt: 'Mist, coffee estates and roaring waterfalls: how to spend two rainy days in Coorg.',
+    author_id: 'seed-editor',
+    status: 'published',
+    featuredImgUrl: 'https://picsum.photos/seed/coorg/1200/800',
+    imageHint: 'misty hills',
+    category: 'Weekend Getaways',
+    tags: ['karnataka', 'monsoon', 'homestay'],
+    created_at: new Date('2024-06-15T08:00:00Z'),
+    updated_at: new Date('2024-06-16T08:00:00Z'),
+  },
+  {
+    id: 'seed-post-hampi',
+    title: 'Cycling Through the Ruins of Hampi',
+    slug: 'cycling-through-the-ruins-of-hampi',
+    content: '<p>Hampi is best explored on two wheels.</p><h2>The route</h2><p>Start at Virupaksha Temple, ride to Vittala Temple and finish at Hemakuta Hill for sunset.</p>',
+    excerpt: 'Boulders, temples and a rented bicycle: a self-guided day in Hampi.',
+    author_id: 'seed-user',
+    status: 'published',
+    featuredImgUrl: 'https://picsum.photos/seed/hampi/1200/800',
+    imageHint: 'ancient ruins',
+    category: 'Road Trips',
+    tags: ['karnataka', 'heritage', 'cycling'],
+    created_at: new Date('2024-07-02T08:00:00Z'),
+    updated_at: new Date('2024-07-02T08:00:00Z'),
+  },
+  {
+    id: 'seed-post-gokarna',
+    title: 'Beach Trek from Gokarna to Paradise Beach',
+    slug: 'beach-trek-from-gokarna-to-paradise-beach',
+    content: '<p>The coastal trail links five beaches in a single day.</p><p>Carry water, start early and time the rocky stretches for low tide.</p>',
+    excerpt: 'Five beaches, one trail: the classic Gokarna beach trek.',
+    author_id: 'seed-user',
+    status: 'published',
+    featuredImgUrl: 'https://picsum.photos/seed/gokarna/1200/800',
+    imageHint: 'beach cliffs',
+    category: 'Weekend Getaways',
+    tags: ['beach', 'trek'],
+    created_at: new Date('2024-08-10T08:00:00Z'),
+    updated_at: new Date('2024-08-11T08:00:00Z'),
+  },
+  {
+    id: 'seed-post-spiti',
+    title: 'Planning a Winter Trip to Spiti',
+    slug: 'planning-a-winter-trip-to-spiti',
+    content: '<p>Notes from my first attempt at Spiti in January.</p>',
+    excerpt: 'What to pack and how to acclimatise for Spiti in winter.',
+    author_id: 'seed-user',
+    status: 'pending',
+    featuredImgUrl: '',
+    imageHint: '',
+    category: '',
+    tags: [],
+    created_at: new Date('2024-09-01T08:00:00Z'),
+    updated_at: new Date('2024-09-01T08:00:00Z'),
+  },
+];
+
+const comments: Comment[] = [
+  {
+    id: 'seed-comment-1',
+    postId: 'seed-post-coorg',
+    userId: 'seed-user',
+    comment_text: 'Abbey Falls was packed but still worth it!',
+    status: 'approved',
+    created_at: new Date('2024-06-20T10:00:00Z'),
+  },
+  {
+    id: 'seed-comment-2',
+    postId: 'seed-post-hampi',
+    userId: 'seed-editor',
+    comment_text: 'Great route. Do you have a map of it?',
+    status: 'pending',
+    created_at: new Date('2024-07-05T10:00:00Z'),
+  },
+];
+
+const stories: FollowUpStory[] = [
+  {
+    id: 'seed-story-1',
+    postId: 'seed-post-coorg',
+    userId: 'seed-user',
+    story_text: 'We followed this guide last July and added a day at Dubare elephant camp.',
+    status: 'approved',
+    created_at: new Date('2024-07-25T10:00:00Z'),
+  },
+  {
+    id: 'seed-story-2',
+    postId: 'seed-post-gokarna',
+    userId: 'seed-editor',
+    story_text: 'The tide caught us out near Half Moon Beach, so definitely check the tables.',
+    status: 'pending',
+    created_at: new Date('2024-08-20T10:00:00Z'),
+  },
+];
+
+const categories: Category[] = [
+  {
+    id: 'weekend-getaways',
+    name: 'Weekend Getaways',
+    description: 'Short escapes you can plan on a Thursday and be back from by Sunday night.',
+    cover_image_url: 'https://picsum.photos/seed/weekend-getaways/1200/600',
+    created_at: new Date('2024-01-05T09:00:00Z'),
+  },
+  {
+    id: 'road-trips',
+    name: 'Road Trips',
+    description: 'Routes, pit stops and detours for exploring on two or four wheels.',
+    cover_image_url: 'https://picsum.photos/seed/road-trips/1200/600',
+    created_at: new Date('2024-01-05T09:00:00Z'),
+  },
+  {
+    id: 'treks',
+    name: 'Treks',
+    description: 'Trails for every fitness level, from sunrise hikes to multi-day climbs.',
+    created_at: new Date('2024-01-05T09:00:00Z'),
+  },
+];
+
+const tags: Tag[] = ['beach', 'cycling', 'heritage', 'homestay', 'karnataka', 'monsoon', 'trek'].map(name => ({
+  id: name,
+  name,
+  created_at: new Date('2024-01-05T09:00:00Z'),
+}));
+
+export const seedData: SeedData = { users, posts, comments, stories, categories, tags };
@@ -0,0 +1,275 @@
+// This file defines the repository interfaces for every Firestore collection the app uses.
+// Each backend (Firestore, in-memory) implements these interfaces, so the rest of the
+// application can read and write data without knowing where it is actually stored.
+
+import { User, Post, Comment, FollowUpStory, EarlyAccessUser, NewsletterSubscriber, SearchDocument, SlugRecord, Category, Tag, PostRevision, ReviewNote, UserNotification, Reaction, ReactionCounts, ReactionTarget, Bookmark, ReadingList, Follow, AuditEntry, AuditTargetType, MediaRecord, MediaTargetType } from '../types';
+
+// The fields published posts can be ordered by.
+export type PostOrderField = 'created_at' | 'updated_at';
+
+// Options for fetching one page of published posts.
+export type PublishedPostsQuery = {
+  // Number of posts per page. Defaults to DEFAULT_PAGE_SIZE and is capped at MAX_PAGE_SIZE.
+  pageSize?: number;
+  // The `nextCursor` returned with the previous page. Omit it to fetch the first page. A cursor whose
+  // post no longer exists gives an empty page.
+  cursor?: string | null;
+  orderBy?: PostOrderField;
+  direction?: 'asc' | 'desc';
+  // Only return posts in this category.
+  category?: string;
+  // Only return posts carrying this tag.
+  tag?: string;
+};
+
+// One page of results plus the cursor for the page after it (null when there are no more).
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+// The `posts` collection.
+export interface PostRepository {
+  // Returns every post, regardless of status.
+  list(): Promise<Post[]>;
+  // Returns every post written by the given author.
+  listByAuthor(authorId: string): Promise<Post[]>;
+  // Returns every post with the 'published' status.
+  listPublished(): Promise<Post[]>;
+  // Returns every post with the 'scheduled' status.
+  listScheduled(): Promise<Post[]>;
+  // Returns one page of published posts, filtered and ordered on the backend.
+  queryPublished(query: PublishedPostsQuery): Promise<Page<Post>>;
+  // Returns the published post with the given slug, or null.
+  getBySlug(slug: string): Promise<Post | null>;
+  get(id: string): Promise<Post | null>;
+  // Creates a post and resolves with its generated ID.
+  add(post: Omit<Post, 'id'>): Promise<string>;
+  // Applies a partial update and refreshes `updated_at`, unless `keepUpdatedAt` is set.
+  update(id: string, updates: Partial<Post>, options?: PostUpdateOptions): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export type PostUpdateOptions = {
+  // Leaves `updated_at` as it is, for changes no one made to the post, like a backfill.
+  keepUpdatedAt?: boolean;
+};
+
+// What a bulk write couldn't do: the IDs it failed to write, with why. Everything else was written.
+export type BulkWriteResult = {
+  failed: { id: string; error: string }[];
+};
+
+// The `comments` collection.
+export interface CommentRepository {
+  // With a postId, returns the approved comments for that post; otherwise every comment.
+  list(postId?: string): Promise<Comment[]>;
+  listByUser(userId: string): Promise<Comment[]>;
+  get(id: string): Promise<Comment | null>;
+  add(comment: Omit<Comment, 'id'>): Promise<string>;
+  update(id: string, updates: Partial<Comment>): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Apply the same change to, or delete, many comments in as few writes as possible.
+  updateMany(ids: string[], updates: Partial<Comment>): Promise<BulkWriteResult>;
+  deleteMany(ids: string[]): Promise<BulkWriteResult>;
+}
+
+// The `stories` collection.
+export interface StoryRepository {
+  // With a postId, returns the approved stories for that post; otherwise every story.
+  list(postId?: string): Promise<FollowUpStory[]>;
+  get(id: string): Promise<FollowUpStory | null>;
+  add(story: Omit<FollowUpStory, 'id'>): Promise<string>;
+  update(id: string, updates: Partial<FollowUpStory>): Promise<void>;
+  delete(id: string): Promise<void>;
+  updateMany(ids: string[], updates: Partial<FollowUpStory>): Promise<BulkWriteResult>;
+  deleteMany(ids: string[]): Promise<BulkWriteResult>;
+}
+
+// The `users` collection. Document IDs are Firebase Auth UIDs, so users are
+// created with an explicit ID instead of a generated one.
+export interface UserRepository {
+  list(): Promise<User[]>;
+  get(id: string): Promise<User | null>;
+  getByUsername(username: string): Promise<User | null>;
+  create(id: string, user: Omit<User, 'id'>): Promise<void>;
+  update(id: string, updates: Partial<User>): Promise<void>;
+}
+
+// The `early_access_users` collection.
+export interface EarlyAccessUserRepository {
+  add(user: Omit<EarlyAccessUser, 'id'>): Promise<string>;
+}
+
+// The `newsletter_subscribers` collection.
+export interface NewsletterSubscriberRepository {
+  add(subscriber: Omit<NewsletterSubscriber, 'id'>): Promise<string>;
+  get(id: string): Promise<NewsletterSubscriber | null>;
+  // Creates or replaces a subscriber with a known ID (a signed-in user's subscription uses their user ID).
+  set(id: string, subscriber: Omit<NewsletterSubscriber, 'id'>): Promise<void>;
+  update(id: string, updates: Partial<NewsletterSubscriber>): Promise<void>;
+  // Returns the subscribers who want the weekly digest.
+  listDigestSubscribers(): Promise<NewsletterSubscriber[]>;
+}
+
+// The `search_index` collection: one plain-text document per published post.
+export interface SearchIndexRepository {
+  list(): Promise<SearchDocument[]>;
+  // Creates or replaces the document for a post.
+  upsert(doc: SearchDocument): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// The `slugs` collection: every slug a post has ever had, keyed by the slug.
+export interface SlugRepository {
+  get(slug: string): Promise<SlugRecord | null>;
+  listByPost(postId: string): Promise<SlugRecord[]>;
+  // Atomically reserves a slug for a post. Resolves with false if another post already owns it.
+  claim(slug: string, postId: string): Promise<boolean>;
+  delete(slug: string): Promise<void>;
+}
+
+// The `categories` collection. Document IDs are the slugs of the category names.
+export interface CategoryRepository {
+  list(): Promise<Category[]>;
+  get(id: string): Promise<Category | null>;
+  create(id: string, category: Omit<Category, 'id'>): Promise<void>;
+  update(id: string, updates: Partial<Category>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// The `tags` collection of suggested tags. Document IDs are the slugs of the tags.
+export interface TagRepository {
+  list(): Promise<Tag[]>;
+  create(id: string, tag: Omit<Tag, 'id'>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// The `revisions` collection: the saved versions of every post.
+export interface RevisionRepository {
+  // Returns a post's revisions, newest first.
+  listByPost(postId: string): Promise<PostRevision[]>;
+  get(id: string): Promise<PostRevision | null>;
+  add(revision: Omit<PostRevision, 'id'>): Promise<string>;
+  // Deletes all of a post's revisions, e.g. when the post is deleted.
+  deleteByPost(postId: string): Promise<void>;
+}
+
+// The `reviews` collection: the review thread of every post.
+export interface ReviewRepository {
+  // Returns a post's review notes, oldest first.
+  listByPost(postId: string): Promise<ReviewNote[]>;
+  add(note: Omit<ReviewNote, 'id'>): Promise<string>;
+  // Deletes a post's whole review thread, e.g. when the post is deleted.
+  deleteByPost(postId: string): Promise<void>;
+}
+
+// The `notifications` collection: the messages sent to each user.
+export interface NotificationRepository {
+  // Returns a user's notifications, newest first, at most `max` of them.
+  listByUser(userId: string, max: number): Promise<UserNotification[]>;
+  // Returns the notifications whose email hasn't been sent yet, oldest first.
+  listPendingEmails(): Promise<UserNotification[]>;
+  add(notification: Omit<UserNotification, 'id'>): Promise<string>;
+  update(id: string, updates: Partial<UserNotification>): Promise<void>;
+  // Marks every unread notification of a user as read.
+  markAllRead(userId: string): Promise<void>;
+}
+
+// The `reactions` collection: every reaction left by every user.
+export interface ReactionRepository {
+  // Returns the reactions a user has left on targets of the given type.
+  listByUser(userId: string, targetType: ReactionTarget): Promise<Reaction[]>;
+  // Adds (`active`) or removes a reaction and adjusts the target's `reaction_counts` in the same
+  // transaction. Setting a reaction that is already in that state changes nothing, so retries are safe.
+  // Resolves with the target's counts afterwards.
+  set(reaction: Omit<Reaction, 'id' | 'created_at'>, active: boolean): Promise<ReactionCounts>;
+  // Deletes every reaction to a target, e.g. when the target is deleted.
+  deleteByTarget(targetType: ReactionTarget, targetId: string): Promise<void>;
+}
+
+// The `audit_log` collection: an append-only record of admin and moderator actions.
+export interface AuditRepository {
+  add(entry: Omit<AuditEntry, 'id'>): Promise<string>;
+  // Returns the entries about one user, post, comment or story, newest first.
+  listByTarget(targetType: AuditTargetType, targetId: string): Promise<AuditEntry[]>;
+  // Returns every entry recorded since `since` (or ever), newest first.
+  list(since?: Date): Promise<AuditEntry[]>;
+}
+
+// The `follows` collection: the authors and tags each user follows.
+export interface FollowRepository {
+  // Returns everything a user follows, newest first.
+  listByFollower(followerId: string): Promise<Follow[]>;
+  // Follows (`active`) or unfollows an author or tag. Following an author also adjusts the author's
+  // `follower_count` and the follower's `following_count` in the same transaction. Setting a follow
+  // that is already in that state changes nothing, so retries are safe.
+  set(follow: Omit<Follow, 'id' | 'created_at'>, active: boolean): Promise<void>;
+}
+
+// The `bookmarks` collection: the posts each user has saved.
+export interface BookmarkRepository {
+  // Returns a user's bookmarks, newest first.
+  listByUser(userId: string): Promise<Bookmark[]>;
+  // Saves a post for a user. Saving it again changes nothing.
+  add(userId: string, postId: string): Promise<void>;
+  delete(userId: string, postId: string): Promise<void>;
+  // Deletes every bookmark of a post, e.g. when the post is deleted.
+  deleteByPost(postId: string): Promise<void>;
+}
+
+// The `reading_lists` collection: the named lists of saved posts.
+export interface ReadingListRepository {
+  // Returns a user's reading lists, oldest first.
+  listByUser(userId: string): Promise<ReadingList[]>;
+  get(id: string): Promise<ReadingList | null>;
+  add(list: Omit<ReadingList, 'id'>): Promise<string>;
+  // Applies a partial update and refreshes `updated_at`.
+  update(id: string, updates: Partial<ReadingList>): Promise<void>;
+  // Add or remove one post without rewriting the rest of the list, so edits from two tabs don't clash.
+  addPost(id: string, postId: string): Promise<void>;
+  removePost(id: string, postId: string): Promise<void>;
+  // Removes a post from every list holding it, e.g. when the post is deleted.
+  removePostFromAll(postId: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// The `media` collection: which document uses which file in Storage (see `src/lib/media.ts`).
+export interface MediaRepository {
+  // Returns every record, for reconciling them with Storage.
+  list(): Promise<MediaRecord[]>;
+  listByTarget(targetType: MediaTargetType, targetId: string): Promise<MediaRecord[]>;
+  // Returns the records of every document using a file.
+  listByPath(path: string): Promise<MediaRecord[]>;
+  // Records that a document uses a file. There is one record per file and document, so adding it again is harmless.
+  add(record: Omit<MediaRecord, 'id' | 'created_at'>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// The full set of repositories exposed by a data backend.
+// Where the data lives: the Firebase project (or its emulator), or the offline in-memory store.
+export type DataBackend = 'firestore' | 'memory';
+
+export interface Repositories {
+  // The backend these repositories read and write.
+  backend: DataBackend;
+  posts: PostRepository;
+  comments: CommentRepository;
+  stories: StoryRepository;
+  users: UserRepository;
+  earlyAccessUsers: EarlyAccessUserRepository;
+  newsletterSubscribers: NewsletterSubscriberRepository;
+  searchIndex: SearchIndexRepository;
+  slugs: SlugRepository;
+  categories: CategoryRepository;
+  tags: TagRepository;
+  revisions: RevisionRepository;
+  reviews: ReviewRepository;
+  notifications: NotificationRepository;
+  reactions: ReactionRepository;
+  bookmarks: BookmarkRepository;
+  readingLists: ReadingListRepository;
+  follows: FollowRepository;
+  audit: AuditRepository;
+  media: MediaRepository;
+}
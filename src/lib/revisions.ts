@@ -0,0 +1,149 @@
+// This file records the revision history of posts and compares revisions with each other.
+//
+// Every save that changes a post's title, excerpt, content, image, category or tags adds a revision to
+// the `revisions` collection holding the post as saved, who saved it and which fields changed. Posts
+// written before revisions existed get a first revision with their original text the first time they
+// are edited, so nothing an author wrote is ever lost.
+
+import { diffLines } from 'diff';
+import { getRepositories } from './repositories';
+import { authorExcerpt } from './content-analysis';
+import { Post, PostRevision, RevisionFields } from './types';
+
+// The versioned fields, in the order they are shown when comparing revisions.
+export const REVISION_FIELDS: (keyof RevisionFields)[] = ['title', 'excerpt', 'content', 'featuredImgUrl', 'category', 'tags', 'content_format'];
+
+// Readable names of the versioned fields.
+export const REVISION_FIELD_LABELS: Record<keyof RevisionFields, string> = {
+  title: 'Title',
+  excerpt: 'Excerpt',
+  content: 'Content',
+  content_format: 'Format',
+  featuredImgUrl: 'Featured image',
+  category: 'Category',
+  tags: 'Tags',
+};
+
+// Picks the versioned fields from a post. Missing values are filled in, since Firestore can't store `undefined`.
+export function toRevisionFields(post: Partial<Post>): RevisionFields {
+  return {
+    title: post.title ?? '',
+    // Only the author's own excerpt is versioned; a derived one follows the content.
+    excerpt: authorExcerpt(post),
+    content: post.content ?? '',
+    // Posts saved before `content_format` existed are HTML.
+    content_format: post.content_format ?? 'html',
+    featuredImgUrl: post.featuredImgUrl ?? '',
+    category: post.category ?? '',
+    tags: post.tags ?? [],
+  };
+}
+
+// A versioned field's value as text, for comparing and displaying.
+export function revisionFieldText(fields: RevisionFields, field: keyof RevisionFields): string {
+  const value = fields[field];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+// Lists the versioned fields whose values differ between two versions of a post.
+export function changedFields(before: RevisionFields, after: RevisionFields): (keyof RevisionFields)[] {
+  return REVISION_FIELDS.filter(field => revisionFieldText(before, field) !== revisionFieldText(after, field));
+}
+
+// Records a revision for a post that was just saved, if the save changed any versioned field.
+// `previous` is the post as it was before the save, used when the post has no revisions yet.
+export async function recordRevision(
+  post: Post,
+  options: { editorId: string | null; previous?: Post; restoredFrom?: string },
+): Promise<void> {
+  const { revisions } = getRepositories();
+  const snapshot = toRevisionFields(post);
+  const [latest] = await revisions.listByPost(post.id);
+
+  let before = latest?.snapshot;
+  if (!before && options.previous) {
+    // The post's original version, attributed to its author.
+    before = toRevisionFields(options.previous);
+    await revisions.add({
+      post_id: post.id,
+      editor_id: options.previous.author_id ?? null,
+      created_at: options.previous.updated_at,
+      changed_fields: [],
+      snapshot: before,
+    });
+  }
+
+  // A brand-new post has every field "changed"; a save that changes nothing is not recorded.
+  const changed = before ? changedFields(before, snapshot) : REVISION_FIELDS;
+  if (changed.length === 0) {
+    return;
+  }
+  await revisions.add({
+    post_id: post.id,
+    editor_id: options.editorId,
+    created_at: new Date(),
+    changed_fields: changed,
+    snapshot,
+    ...(options.restoredFrom && { restored_from: options.restoredFrom }),
+  });
+}
+
+// One row of a side-by-side comparison: a line of the older version on the left and of the newer one
+// on the right. `skipped` rows stand for a run of unchanged lines that is folded away.
+export type DiffRow =
+  | { kind: 'same' | 'changed' | 'removed' | 'added'; left: string | null; right: string | null }
+  | { kind: 'skipped'; count: number };
+
+function splitLines(text: string): string[] {
+  return text.replace(/\n$/, '').split('\n');
+}
+
+// Compares two texts line by line for a side-by-side view. Removed lines followed by added lines are
+// paired up as changed lines; unchanged lines more than `context` lines away from a change are folded.
+export function sideBySideDiff(before: string, after: string, context = 3): DiffRow[] {
+  const parts = diffLines(before.replace(/\r\n?/g, '\n'), after.replace(/\r\n?/g, '\n'), { ignoreNewlineAtEof: true });
+  const rows: DiffRow[] = [];
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    const lines = splitLines(part.value);
+    if (!part.added && !part.removed) {
+      lines.forEach(line => rows.push({ kind: 'same', left: line, right: line }));
+    } else if (part.removed && parts[i + 1]?.added) {
+      const added = splitLines(parts[++i].value);
+      for (let j = 0; j < Math.max(lines.length, added.length); j++) {
+        const left = lines[j] ?? null;
+        const right = added[j] ?? null;
+        rows.push({ kind: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+      }
+    } else if (part.removed) {
+      lines.forEach(line => rows.push({ kind: 'removed', left: line, right: null }));
+    } else {
+      lines.forEach(line => rows.push({ kind: 'added', left: null, right: line }));
+    }
+  }
+
+  // Fold the unchanged lines that are far from any change.
+  const nearChange = rows.map((_, index) =>
+    rows.slice(Math.max(0, index - context), index + context + 1).some(row => row.kind !== 'same'));
+  const folded: DiffRow[] = [];
+  rows.forEach((row, index) => {
+    if (nearChange[index]) {
+      folded.push(row);
+      return;
+    }
+    const last = folded[folded.length - 1];
+    if (last?.kind === 'skipped') {
+      last.count++;
+    } else {
+      folded.push({ kind: 'skipped', count: 1 });
+    }
+  });
+  return folded;
+}
+
+// Finds the revision that came before the given one in a list sorted newest first.
+export function previousRevision(revisions: PostRevision[], revision: PostRevision): PostRevision | null {
+  const index = revisions.findIndex(r => r.id === revision.id);
+  return index >= 0 ? revisions[index + 1] ?? null : null;
+}
@@ -0,0 +1,100 @@
+// This file contains the sanitizers for user-submitted content.
+//
+// Post content is rendered as HTML, so anything a community member writes must be cleaned before it
+// reaches the page. Sanitizing is done twice: when content is saved (`src/lib/firestore.ts`), so the
+// database never holds a payload, and again when it is rendered (`src/lib/content.ts`), so content
+// saved before this existed, or written straight to the database, is safe too.
+//
+// The rules are an allowlist: any tag, attribute or URL scheme not listed here is removed.
+
+import sanitize, { IOptions } from 'sanitize-html';
+
+// The only iframes allowed are the embed players produced by `toEmbedUrl` in `src/lib/content.ts`.
+const ALLOWED_IFRAME_PREFIXES = [
+  'https://www.youtube-nocookie.com/embed/',
+  'https://player.vimeo.com/video/',
+  'https://www.google.com/maps/embed?',
+];
+
+const ALLOWED_SCHEMES = ['http', 'https', 'mailto'];
+
+const ALLOWED_TAGS = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote',
+  'strong', 'b', 'em', 'i', 'u', 's', 'del', 'sub', 'sup', 'span',
+  'ul', 'ol', 'li', 'a', 'img', 'figure', 'figcaption', 'iframe',
+  'pre', 'code', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+];
+
+const POST_HTML_OPTIONS: IOptions = {
+  allowedTags: ALLOWED_TAGS,
+  allowedAttributes: {
+    a: ['href', 'title', 'rel'],
+    img: ['src', 'alt', 'title', 'width', 'height', 'loading'],
+    iframe: ['src', 'title', 'loading', 'allowfullscreen', 'referrerpolicy'],
+    ol: ['start'],
+    th: ['align'],
+    td: ['align'],
+    figure: ['class'],
+    code: ['class'],
+  },
+  allowedClasses: {
+    figure: ['embed'],
+    code: ['language-*'],
+  },
+  allowedSchemes: ALLOWED_SCHEMES,
+  allowedSchemesByTag: {
+    img: ['http', 'https'],
+    iframe: ['https'],
+  },
+  allowProtocolRelative: false,
+  // Links written by the community should not pass on our ranking or access `window.opener`.
+  // This replaces any `rel` in the content, which is why `rel` is in the allowlist above.
+  transformTags: {
+    a: sanitize.simpleTransform('a', { rel: 'nofollow ugc noopener noreferrer' }),
+  },
+  exclusiveFilter: frame =>
+    frame.tag === 'iframe' && !ALLOWED_IFRAME_PREFIXES.some(prefix => (frame.attribs.src || '').startsWith(prefix)),
+};
+
+const PLAIN_TEXT_OPTIONS: IOptions = {
+  allowedTags: [],
+  allowedAttributes: {},
+};
+
+// Cleans an HTML fragment for display in a post.
+export function sanitizeHtml(html: string): string {
+  return sanitize(html, POST_HTML_OPTIONS);
+}
+
+// Cleans a single opening or closing tag, such as the inline HTML in Markdown (`<u>`, `</u>`).
+// Returns an empty string for a tag that is not allowed.
+export function sanitizeHtmlTag(tag: string): string {
+  const closing = tag.match(/^<\/([a-z][a-z0-9]*)\s*>$/i);
+  if (closing) {
+    const name = closing[1].toLowerCase();
+    return ALLOWED_TAGS.includes(name) ? `</${name}>` : '';
+  }
+  // Sanitizing an opening tag on its own also closes it, so the added closing tag is removed again.
+  return sanitizeHtml(tag).replace(/<\/[a-z0-9]+>$/i, '');
+}
+
+// Removes every tag from text that is displayed as plain text, such as comments and stories.
+export function sanitizePlainText(text: string): string {
+  // `sanitize-html` always returns HTML, so the entities it escaped are turned back into characters.
+  return sanitize(text, PLAIN_TEXT_OPTIONS)
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
+
+// Returns whether a link or image URL uses one of the allowed schemes. Relative URLs are allowed.
+export function isSafeUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters inside a scheme, e.g. "java\tscript:".
+  const normalized = url.replace(/[\u0000-\u0020]/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+  if (scheme) {
+    return ALLOWED_SCHEMES.includes(scheme);
+  }
+  return !normalized.startsWith('//');
+}
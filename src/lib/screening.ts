@@ -0,0 +1,89 @@
+// This file screens new submissions with automated moderation (see `./auto-moderation.ts`): a comment
+// or story that was just added, or a post that was just submitted for review.
+//
+// Only the system may record an assessment or approve content, so submissions are saved as pending
+// with no assessment (the security rules enforce it) and screened afterwards:
+//   - With Firestore, on the server, by the `screenSubmission` server action in
+//     `src/ai/flows/screen-submission.ts`, signed in as the service account.
+//   - With the in-memory backend, whose data lives where the app runs, by the data layer itself
+//     (see `requestScreening` in `./firestore.ts`).
+// Either way, only a pending submission that hasn't been assessed yet is screened, so asking again, or
+// for someone else's submission, changes nothing. Low-risk comments and stories are approved, and
+// notified about, straight away; posts are never published automatically.
+
+import { autoApproves, ModerationInput } from './auto-moderation';
+import { renderPostContent } from './content';
+import { notifyCommentModerated, notifyStoryModerated } from './notifications';
+import type { Repositories } from './repositories';
+import { stripHtml } from './search/text';
+import { GalleryImage, ModerationAssessment, Post } from './types';
+
+// What can be screened.
+export type ScreeningKind = 'comment' | 'story' | 'post';
+
+export const SCREENING_KINDS: ScreeningKind[] = ['comment', 'story', 'post'];
+
+// Assesses content: the model on the server, a classifier of the browser's own otherwise.
+export type Assess = (input: ModerationInput) => Promise<ModerationAssessment>;
+
+// What a post is about, for judging whether a comment or story on it (or the post itself) is off-topic.
+export function postContext(post: Pick<Post, 'title' | 'tags' | 'category'>): NonNullable<ModerationInput['context']> {
+  return { title: post.title, tags: post.tags ?? [], ...(post.category && { category: post.category }) };
+}
+
+// The text of a post as a reader sees it, without markup, gallery captions included.
+export function postText(post: Pick<Post, 'title' | 'excerpt' | 'content' | 'content_format' | 'gallery'>): string {
+  return [post.title, post.excerpt ?? '', stripHtml(renderPostContent(post)), ...galleryCaptions(post.gallery)].filter(Boolean).join('\n\n');
+}
+
+// The captions and descriptions in a gallery, which readers see (or hear) too.
+function galleryCaptions(gallery: GalleryImage[] | undefined): string[] {
+  return (gallery ?? []).flatMap(photo => [photo.caption, photo.alt]).filter(Boolean);
+}
+
+// Screens a pending submission that hasn't been assessed yet, records the assessment and, for a
+// low-risk comment or story, approves it and notifies as a moderator's approval would.
+// Resolves with whether the submission was approved. Submissions that are gone, no longer pending or
+// already assessed are left alone.
+export async function screenSubmission(repositories: Repositories, kind: ScreeningKind, id: string, assess: Assess): Promise<boolean> {
+  if (kind === 'post') {
+    const post = await repositories.posts.get(id);
+    if (!post || post.status !== 'pending' || post.moderation) {
+      return false;
+    }
+    const moderation = await assess({ kind: 'post', text: postText(post), context: postContext(post) });
+    // The assessment isn't an edit by the author.
+    await repositories.posts.update(id, { moderation }, { keepUpdatedAt: true });
+    return false;
+  }
+
+  if (kind === 'comment') {
+    const comment = await repositories.comments.get(id);
+    if (!comment || comment.status !== 'pending' || comment.moderation) {
+      return false;
+    }
+    const post = await repositories.posts.get(comment.postId).catch(() => null);
+    const moderation = await assess({ kind: 'comment', text: comment.comment_text, context: post ? postContext(post) : undefined });
+    const approved = autoApproves('comment', moderation);
+    await repositories.comments.update(id, { moderation, ...(approved && { status: 'approved' as const }) });
+    if (approved) {
+      const parent = comment.parent_id ? await repositories.comments.get(comment.parent_id) : null;
+      await notifyCommentModerated({ ...comment, moderation, status: 'approved' }, post, parent, undefined, repositories);
+    }
+    return approved;
+  }
+
+  const story = await repositories.stories.get(id);
+  if (!story || story.status !== 'pending' || story.moderation) {
+    return false;
+  }
+  const post = await repositories.posts.get(story.postId).catch(() => null);
+  const text = [story.story_text, ...galleryCaptions(story.gallery)].join('\n\n');
+  const moderation = await assess({ kind: 'story', text, context: post ? postContext(post) : undefined });
+  const approved = autoApproves('story', moderation);
+  await repositories.stories.update(id, { moderation, ...(approved && { status: 'approved' as const }) });
+  if (approved) {
+    await notifyStoryModerated({ ...story, moderation, status: 'approved' }, post, undefined, repositories);
+  }
+  return approved;
+}
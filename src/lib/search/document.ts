@@ -0,0 +1,24 @@
+// This file converts posts into the plain-text documents stored in the search index.
+
+import { Post, SearchDocument } from '../types';
+import { renderPostContent } from '../content';
+import { isLive } from '../feed';
+import { stripHtml } from './text';
+
+// Only live posts are searchable: published, and not scheduled for later (see `isLive`).
+export function isSearchable(post: Post, now = new Date()): boolean {
+  return isLive(post, now);
+}
+
+// Flattens a post into the fields the search index tokenizes.
+export function toSearchDocument(post: Post): SearchDocument {
+  return {
+    id: post.id,
+    title: post.title,
+    excerpt: post.excerpt,
+    body: stripHtml(renderPostContent(post)),
+    tags: post.tags || [],
+    category: post.category || '',
+    updated_at: post.updated_at,
+  };
+}
@@ -0,0 +1,58 @@
+// This file is the entry point of the blog's full-text search.
+//
+// Every published post has a plain-text copy in the `search_index` collection, kept in sync by
+// `addPost`, `updatePost` and `deletePost` in `src/lib/firestore.ts`. Searches are answered from an
+// in-memory inverted index built from that collection, which each runtime caches for a short time
+// (see `./query.ts`).
+
+import { getRepositories } from '../repositories';
+import { Post } from '../types';
+import { isSearchable, toSearchDocument } from './document';
+import { clearCachedIndex, removeFromCachedIndex, searchIndexedPosts, updateCachedIndex, SearchResult } from './query';
+import { searchPostsOnServer } from './server';
+
+export type { HighlightedText } from './search-index';
+export type { SearchResult } from './query';
+
+// Searches the published posts and returns the best matches, most relevant first.
+// With Firestore the index is built and searched on the server, so the browser never downloads it.
+// The in-memory store lives where the app runs, so it is searched right here.
+export async function searchPosts(query: string, limit = 20): Promise<SearchResult[]> {
+  if (getRepositories().backend === 'memory') {
+    return searchIndexedPosts(query, limit);
+  }
+  return searchPostsOnServer(query, limit);
+}
+
+// Brings the index entry for a post up to date: live posts are (re)indexed, others removed.
+// `now` is the time to judge that by.
+export async function indexPost(post: Post, now = new Date()): Promise<void> {
+  if (isSearchable(post, now)) {
+    const doc = toSearchDocument(post);
+    await getRepositories().searchIndex.upsert(doc);
+    updateCachedIndex(doc);
+  } else {
+    await removePostFromIndex(post.id);
+  }
+}
+
+export async function removePostFromIndex(id: string): Promise<void> {
+  await getRepositories().searchIndex.delete(id);
+  removeFromCachedIndex(id);
+}
+
+// Re-creates the index entry of every post, e.g. after importing data or changing the tokenizer.
+// Resolves with the number of posts indexed.
+export async function rebuildSearchIndex(): Promise<number> {
+  const repositories = getRepositories();
+  const [posts, existing] = await Promise.all([repositories.posts.list(), repositories.searchIndex.list()]);
+  const published = posts.filter(post => isSearchable(post));
+  const publishedIds = new Set(published.map(post => post.id));
+
+  await Promise.all([
+    ...published.map(post => repositories.searchIndex.upsert(toSearchDocument(post))),
+    ...existing.filter(doc => !publishedIds.has(doc.id)).map(doc => repositories.searchIndex.delete(doc.id)),
+  ]);
+  clearCachedIndex();
+  return published.length;
+}
@@ -0,0 +1,58 @@
+// This file answers searches from an in-memory inverted index built from the `search_index` collection.
+// Each runtime caches its index for a short time: with Firestore that is the server (see `./server.ts`),
+// so browsers never download the collection; with the in-memory backend it is the app itself.
+
+import { getRepositories } from '../repositories';
+import { Post, SearchDocument } from '../types';
+import { isSearchable } from './document';
+import { SearchIndex, HighlightedText } from './search-index';
+
+// A search match: the post plus its highlighted title and snippet.
+export type SearchResult = {
+  post: Post;
+  score: number;
+  title: HighlightedText;
+  snippet: HighlightedText;
+};
+
+// How long a runtime reuses its index before reloading it, to pick up changes made elsewhere.
+const INDEX_TTL_MS = 60 * 1000;
+
+let cached: { index: SearchIndex; loadedAt: number } | null = null;
+
+async function getSearchIndex(): Promise<SearchIndex> {
+  if (!cached || Date.now() - cached.loadedAt > INDEX_TTL_MS) {
+    const docs = await getRepositories().searchIndex.list();
+    cached = { index: new SearchIndex(docs), loadedAt: Date.now() };
+  }
+  return cached.index;
+}
+
+// Searches this runtime's index and returns the best matches, most relevant first.
+export async function searchIndexedPosts(query: string, limit: number): Promise<SearchResult[]> {
+  const index = await getSearchIndex();
+  const hits = index.search(query, limit);
+  // Anonymous readers may not read a post that is no longer published, so a refused read just means
+  // the post has been unpublished since the index was loaded.
+  const posts = await Promise.all(hits.map(hit => getRepositories().posts.get(hit.id).catch(() => null)));
+
+  // A post may have been unpublished since the index was loaded, so check again.
+  return hits.flatMap((hit, i) => {
+    const post = posts[i];
+    return post && isSearchable(post) ? [{ post, score: hit.score, title: hit.title, snippet: hit.snippet }] : [];
+  });
+}
+
+// Keeps this runtime's index, if it has loaded one, in step with a change it just made.
+export function updateCachedIndex(doc: SearchDocument): void {
+  cached?.index.add(doc);
+}
+
+export function removeFromCachedIndex(id: string): void {
+  cached?.index.remove(id);
+}
+
+// Makes the next search reload the index.
+export function clearCachedIndex(): void {
+  cached = null;
+}
@@ -0,0 +1,260 @@
+// This file implements an in-memory inverted index over SearchDocuments.
+// It ranks matches with a field-weighted BM25 score, tolerates typos and prefixes,
+// and produces highlighted snippets for the results page.
+
+import { SearchDocument } from '../types';
+import { Token, tokenize, editDistance } from './text';
+
+type FieldName = 'title' | 'tags' | 'category' | 'excerpt' | 'body';
+
+// How much a match in each field counts towards the score.
+const FIELD_WEIGHTS: Record<FieldName, number> = {
+  title: 5,
+  tags: 4,
+  category: 3,
+  excerpt: 2,
+  body: 1,
+};
+
+const FIELDS = Object.keys(FIELD_WEIGHTS) as FieldName[];
+
+// Standard BM25 tuning constants.
+const K1 = 1.2;
+const B = 0.75;
+
+// How much a non-exact match is worth compared to an exact one.
+const PREFIX_QUALITY = 0.7;
+const TYPO_QUALITY = [1, 0.6, 0.4]; // Indexed by edit distance.
+
+// The number of words shown in a body snippet.
+const SNIPPET_WORDS = 30;
+
+// A piece of text together with the character ranges to highlight in it.
+export type HighlightedText = {
+  text: string;
+  ranges: Array<[number, number]>;
+};
+
+export type SearchHit = {
+  id: string;
+  score: number;
+  title: HighlightedText;
+  snippet: HighlightedText;
+};
+
+type IndexedDocument = {
+  doc: SearchDocument;
+  lengths: Record<FieldName, number>;
+  terms: Set<string>;
+};
+
+// Term frequency per field, for one term in one document.
+type Posting = Partial<Record<FieldName, number>>;
+
+function fieldText(doc: SearchDocument, field: FieldName): string {
+  return field === 'tags' ? doc.tags.join(' ') : doc[field];
+}
+
+// Allowed typos grow with the word length: none for short words, at most two for long ones.
+function maxTyposFor(term: string): number {
+  if (term.length >= 9) return 2;
+  if (term.length >= 5) return 1;
+  return 0;
+}
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> document ID -> per-field term frequency
+  private postings = new Map<string, Map<string, Posting>>();
+  private totalLengths: Record<FieldName, number> = { title: 0, tags: 0, category: 0, excerpt: 0, body: 0 };
+
+  constructor(docs: SearchDocument[] = []) {
+    docs.forEach(doc => this.add(doc));
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  // Adds a document, replacing any previous version with the same ID.
+  add(doc: SearchDocument): void {
+    this.remove(doc.id);
+
+    const lengths = { title: 0, tags: 0, category: 0, excerpt: 0, body: 0 };
+    const terms = new Set<string>();
+    for (const field of FIELDS) {
+      const tokens = tokenize(fieldText(doc, field));
+      lengths[field] = tokens.length;
+      this.totalLengths[field] += tokens.length;
+      for (const { term } of tokens) {
+        terms.add(term);
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(term, docs);
+        }
+        const posting = docs.get(doc.id) ?? {};
+        posting[field] = (posting[field] ?? 0) + 1;
+        docs.set(doc.id, posting);
+      }
+    }
+    this.documents.set(doc.id, { doc, lengths, terms });
+  }
+
+  remove(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    for (const term of existing.terms) {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    for (const field of FIELDS) {
+      this.totalLengths[field] -= existing.lengths[field];
+    }
+    this.documents.delete(id);
+  }
+
+  // Returns the best matching documents for a free-text query, most relevant first.
+  search(query: string, limit = 20): SearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query).map(t => t.term)));
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const scores = new Map<string, number>();
+    const matchedQueryTerms = new Map<string, number>();
+    const matchedIndexTerms = new Map<string, Set<string>>();
+
+    for (const queryTerm of queryTerms) {
+      // The best score this query term contributes to each document, so that several
+      // spellings of the same word don't add up.
+      const best = new Map<string, number>();
+      for (const [term, quality] of this.expand(queryTerm)) {
+        const docs = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - docs.size + 0.5) / (docs.size + 0.5));
+        for (const [id, posting] of docs) {
+          const score = quality * idf * this.weightedFrequency(id, posting);
+          if (score > (best.get(id) ?? 0)) {
+            best.set(id, score);
+          }
+          let terms = matchedIndexTerms.get(id);
+          if (!terms) {
+            terms = new Set();
+            matchedIndexTerms.set(id, terms);
+          }
+          terms.add(term);
+        }
+      }
+      for (const [id, score] of best) {
+        scores.set(id, (scores.get(id) ?? 0) + score);
+        matchedQueryTerms.set(id, (matchedQueryTerms.get(id) ?? 0) + 1);
+      }
+    }
+
+    return Array.from(scores.entries())
+      // Documents matching every query word rank above those matching only some of them.
+      .map(([id, score]) => ({ id, score: score * (matchedQueryTerms.get(id)! / queryTerms.length) }))
+      .sort((a, b) => b.score - a.score
+        || this.documents.get(b.id)!.doc.updated_at.getTime() - this.documents.get(a.id)!.doc.updated_at.getTime())
+      .slice(0, limit)
+      .map(({ id, score }) => {
+        const { doc } = this.documents.get(id)!;
+        const terms = matchedIndexTerms.get(id)!;
+        return { id, score, title: highlight(doc.title, terms), snippet: snippetFor(doc, terms) };
+      });
+  }
+
+  // Finds the indexed terms a query term should match, with a quality between 0 and 1.
+  private expand(queryTerm: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(queryTerm)) {
+      matches.set(queryTerm, 1);
+    }
+    const maxTypos = maxTyposFor(queryTerm);
+    for (const term of this.postings.keys()) {
+      if (term === queryTerm) continue;
+      let quality = 0;
+      if (queryTerm.length >= 3 && term.startsWith(queryTerm)) {
+        quality = PREFIX_QUALITY;
+      }
+      if (maxTypos > 0) {
+        const distance = editDistance(queryTerm, term, maxTypos);
+        if (distance <= maxTypos) {
+          quality = Math.max(quality, TYPO_QUALITY[distance]);
+        }
+      }
+      if (quality > 0) {
+        matches.set(term, quality);
+      }
+    }
+    return matches;
+  }
+
+  // The BM25 term-frequency component, summed over fields with their weights.
+  private weightedFrequency(id: string, posting: Posting): number {
+    const { lengths } = this.documents.get(id)!;
+    let total = 0;
+    for (const field of FIELDS) {
+      const tf = posting[field];
+      if (!tf) continue;
+      const averageLength = this.totalLengths[field] / this.documents.size || 1;
+      const norm = 1 - B + B * (lengths[field] / averageLength);
+      total += FIELD_WEIGHTS[field] * (tf * (K1 + 1)) / (tf + K1 * norm);
+    }
+    return total;
+  }
+}
+
+// Marks every token of `text` that is one of the matched terms.
+function highlight(text: string, terms: Set<string>, tokens: Token[] = tokenize(text)): HighlightedText {
+  return {
+    text,
+    ranges: tokens.filter(t => terms.has(t.term)).map(t => [t.start, t.end]),
+  };
+}
+
+// Picks the passage to show under a result: the excerpt when it contains a match,
+// otherwise the window of the body with the most matches.
+function snippetFor(doc: SearchDocument, terms: Set<string>): HighlightedText {
+  const excerpt = highlight(doc.excerpt, terms);
+  if (excerpt.ranges.length > 0 || !doc.body) {
+    return excerpt;
+  }
+
+  const tokens = tokenize(doc.body);
+  const hits = tokens.map(t => (terms.has(t.term) ? 1 : 0));
+  if (!hits.some(Boolean)) {
+    return excerpt;
+  }
+
+  // Slide a window over the body tokens and keep the one with the most hits.
+  let bestStart = 0;
+  let bestCount = -1;
+  let count = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    count += hits[i];
+    if (i >= SNIPPET_WORDS) {
+      count -= hits[i - SNIPPET_WORDS];
+    }
+    if (count > bestCount) {
+      bestCount = count;
+      bestStart = Math.max(0, i - SNIPPET_WORDS + 1);
+    }
+  }
+  // Start a couple of words before the window so the first match has some context.
+  const first = tokens[Math.max(0, bestStart - 2)];
+  const last = tokens[Math.min(tokens.length - 1, bestStart + SNIPPET_WORDS - 1)];
+  const from = first === tokens[0] ? 0 : first.start;
+  const to = last === tokens[tokens.length - 1] ? doc.body.length : last.end;
+
+  const prefix = from > 0 ? '… ' : '';
+  const suffix = to < doc.body.length ? ' …' : '';
+  const ranges = tokens
+    .filter(t => t.start >= from && t.end <= to && terms.has(t.term))
+    .map((t): [number, number] => [t.start - from + prefix.length, t.end - from + prefix.length]);
+  return { text: prefix + doc.body.slice(from, to) + suffix, ranges };
+}
@@ -0,0 +1,25 @@
+'use server';
+
+/**
+ * @fileOverview Answers blog searches on the server, from an index built and cached there (see `./query.ts`),
+ * so browsers get the matches without downloading the `search_index` collection.
+ *
+ * - searchPostsOnServer - Searches the published posts. Resolves with the best matches, most relevant first.
+ *
+ * Anyone may call this action, so the query is capped and the limit kept within bounds. It reads only
+ * what anonymous readers may read, so it needs no credentials.
+ */
+
+import { searchIndexedPosts, SearchResult } from './query';
+
+// The longest query searched; anything after it is ignored.
+const MAX_QUERY_LENGTH = 200;
+const MAX_RESULTS = 50;
+
+export async function searchPostsOnServer(query: string, limit: number): Promise<SearchResult[]> {
+  if (typeof query !== 'string' || !query.trim()) {
+    return [];
+  }
+  const count = Number.isFinite(limit) ? Math.min(Math.max(Math.floor(limit), 1), MAX_RESULTS) : MAX_RESULTS;
+  return searchIndexedPosts(query.slice(0, MAX_QUERY_LENGTH), count);
+}
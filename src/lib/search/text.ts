@@ -0,0 +1,79 @@
+// This file contains the text-processing helpers used by the search index:
+// stripping HTML, normalizing words and splitting text into tokens.
+
+// Common English words that carry no meaning on their own and are left out of the index.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+  'i', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the',
+  'their', 'then', 'there', 'this', 'to', 'was', 'we', 'were', 'with', 'you', 'your',
+]);
+
+// A single word found in a piece of text, with its position so matches can be highlighted.
+export type Token = {
+  term: string; // The normalized form used for matching.
+  start: number; // Offset of the first character in the original text.
+  end: number; // Offset just past the last character in the original text.
+};
+
+// Converts an HTML fragment to plain text, keeping block boundaries as whitespace
+// and decoding the handful of entities editors commonly produce.
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Lower-cases a word and removes accents, so "Café" and "cafe" match.
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Splits text into normalized tokens, skipping stop words and single characters.
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu)) {
+    const term = normalizeTerm(match[0]).replace(/'s$/, '');
+    if (term.length < 2 || STOP_WORDS.has(term)) {
+      continue;
+    }
+    tokens.push({ term, start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+// Returns the edit distance between two words (insertions, deletions, substitutions and
+// swapped neighbours), giving up early once it exceeds `max`.
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
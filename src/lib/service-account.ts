@@ -0,0 +1,85 @@
+// This file signs the server and the jobs in `src/scripts` in to Firebase as the project's service account,
+// for the work the security rules only allow to the system itself: publishing scheduled posts, sending
+// emails and digests, backfills, and approving the comments and stories automated moderation clears.
+//
+// The Admin SDK mints a custom token carrying the `service` claim, and a Firebase app of its own signs in
+// with it, so the browser's app and the server's anonymous reads are never privileged. `firestore.rules`
+// treats the claim as an admin (see `isService`), and so do the Storage rules, so jobs can clean up any upload. Only holders of the service account's credentials can
+// mint such a token, so nobody can pass for the server from a browser.
+//
+// The credentials are Google's Application Default Credentials: locally, `GOOGLE_APPLICATION_CREDENTIALS`
+// pointing at the service account's key file; on Firebase App Hosting, the backend's own service account,
+// which needs the "Service Account Token Creator" role to sign tokens.
+// With `NEXT_PUBLIC_DATA_BACKEND=memory` there is nothing to sign in to, and the in-memory repositories are used.
+//
+// This module must only be imported on the server.
+
+import { applicationDefault, getApps as getAdminApps, initializeApp as initializeAdminApp } from 'firebase-admin/app';
+import { getAuth as getAdminAuth } from 'firebase-admin/auth';
+import { getApps, initializeApp } from 'firebase/app';
+import { getAuth, signInWithCustomToken } from 'firebase/auth';
+import { getFirestore } from 'firebase/firestore';
+import { getStorage } from 'firebase/storage';
+import { firebaseConfig, connectToEmulator } from './firebase';
+import { setMediaStorage, MediaStorage } from './media';
+import { getRepositories, setRepositories, Repositories } from './repositories';
+import { createFirestoreRepositories } from './repositories/firestore';
+import { createFirebaseMediaStorage } from './storage';
+
+// The user ID the service account signs in as. It has no user document: the `service` claim is what counts.
+export const SERVICE_UID = 'travonex-service';
+
+// The name of the service account's Firebase apps, kept apart from the app's own.
+const SERVICE_APP_NAME = 'service';
+
+// What the service account works with once signed in.
+type ServiceAccess = {
+  repositories: Repositories;
+  mediaStorage: MediaStorage;
+};
+
+let serviceAccess: Promise<ServiceAccess> | null = null;
+
+async function signIn(): Promise<ServiceAccess> {
+  const adminApp = getAdminApps().find(app => app.name === SERVICE_APP_NAME)
+    ?? initializeAdminApp({ credential: applicationDefault(), projectId: firebaseConfig.projectId }, SERVICE_APP_NAME);
+  const token = await getAdminAuth(adminApp).createCustomToken(SERVICE_UID, { service: true });
+
+  const app = getApps().find(app => app.name === SERVICE_APP_NAME) ?? initializeApp(firebaseConfig, SERVICE_APP_NAME);
+  // The SDK renews the ID token the custom token is exchanged for as it expires.
+  await signInWithCustomToken(getAuth(app), token);
+  const db = getFirestore(app);
+  connectToEmulator(db);
+  return { repositories: createFirestoreRepositories(db), mediaStorage: createFirebaseMediaStorage(getStorage(app)) };
+}
+
+// Signs in once per process; a failed sign-in is tried again on the next call.
+function getServiceAccess(): Promise<ServiceAccess> {
+  if (!serviceAccess) {
+    serviceAccess = signIn().catch(error => {
+      serviceAccess = null;
+      throw new Error(`Could not sign in as the service account: ${(error as Error).message}`);
+    });
+  }
+  return serviceAccess;
+}
+
+// Returns the repositories signed in as the service account.
+export async function getServiceRepositories(): Promise<Repositories> {
+  const repositories = getRepositories();
+  if (repositories.backend === 'memory') {
+    return repositories;
+  }
+  return (await getServiceAccess()).repositories;
+}
+
+// For the jobs in `src/scripts`: everything the job does from now on runs as the service account, in
+// Firestore and in Storage.
+export async function runAsServiceAccount(): Promise<void> {
+  if (getRepositories().backend === 'memory') {
+    return;
+  }
+  const { repositories, mediaStorage } = await getServiceAccess();
+  setRepositories(repositories);
+  setMediaStorage(mediaStorage);
+}
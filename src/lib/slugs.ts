@@ -0,0 +1,77 @@
+// This file generates the URL slugs of posts.
+//
+// Slugs are reserved in the `slugs` collection, whose document IDs are the slugs themselves, so two
+// posts can never share one. When a post's title changes it gets a new slug, but the record of the
+// old one is kept: `/blog/[old-slug]` still finds the post and redirects to its current URL.
+
+import { getRepositories } from './repositories';
+
+// The longest slug generated, in characters.
+const MAX_SLUG_LENGTH = 80;
+
+// How many numbered variants (`my-trip-2`, `my-trip-3`, ...) are tried before falling back to a random suffix.
+const MAX_NUMBERED_ATTEMPTS = 20;
+
+// Letters that Unicode normalization does not reduce to plain ASCII.
+const TRANSLITERATIONS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ł': 'l', 'ı': 'i', '&': ' and ',
+};
+
+// Turns any text into a lowercase, hyphen-separated slug of ASCII letters and digits,
+// e.g. "Café Trails: São Paulo & Beyond!" becomes "cafe-trails-sao-paulo-and-beyond".
+export function slugify(text: string): string {
+  const ascii = text
+    .toLowerCase()
+    .replace(/[ßæœøđðþłı&]/g, char => TRANSLITERATIONS[char])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+  const slug = ascii
+    .replace(/['’]/g, '') // "Let's" becomes "lets" rather than "let-s".
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= MAX_SLUG_LENGTH) {
+    return slug;
+  }
+  // Cut long slugs at the last whole word that fits.
+  const cut = slug.slice(0, MAX_SLUG_LENGTH);
+  return cut.slice(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : MAX_SLUG_LENGTH);
+}
+
+// Reserves a unique slug for a post, based on the given text (usually its title).
+// If the slug is taken by another post, `-2`, `-3`, ... are appended until a free one is found.
+// A slug the post already owned (e.g. its title was changed back) is reused.
+export async function assignSlug(postId: string, text: string): Promise<string> {
+  const { slugs } = getRepositories();
+  // Titles in non-Latin scripts have nothing left after slugify, so they share a generic base.
+  const base = slugify(text) || 'post';
+
+  for (let attempt = 1; attempt <= MAX_NUMBERED_ATTEMPTS; attempt++) {
+    const candidate = attempt === 1 ? base : `${base}-${attempt}`;
+    if (await slugs.claim(candidate, postId)) {
+      return candidate;
+    }
+  }
+  // Very common titles: fall back to a suffix that is practically guaranteed to be free.
+  const candidate = `${base}-${postId.slice(0, 8).toLowerCase()}`;
+  if (await slugs.claim(candidate, postId)) {
+    return candidate;
+  }
+  throw new Error(`Could not find a free slug for post ${postId}`);
+}
+
+// Records a slug a post already uses, so that it keeps pointing at the post after the post moves
+// to a new slug. Used for posts created before slugs were reserved.
+export async function rememberSlug(postId: string, slug: string): Promise<void> {
+  // Slugs from the old generator may contain a "/", which cannot be a document ID.
+  if (slug && !slug.includes('/')) {
+    await getRepositories().slugs.claim(slug, postId);
+  }
+}
+
+// Releases every slug a post has had, e.g. when the post is deleted.
+export async function releaseSlugs(postId: string): Promise<void> {
+  const { slugs } = getRepositories();
+  const records = await slugs.listByPost(postId);
+  await Promise.all(records.map(record => slugs.delete(record.id)));
+}
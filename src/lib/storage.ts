@@ -1,41 +1,139 @@
 // This file contains helper functions for interacting with Firebase Storage.
 // It simplifies the process of uploading and deleting files, like user-submitted images.
+// Images go through the pipeline in `./images.ts` first: they are checked, resized and stripped
+// of their metadata (EXIF GPS coordinates included) before anything is uploaded.
 
-import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject, listAll, getMetadata, FirebaseStorage, StorageError } from "firebase/storage";
 import { storage } from "./firebase";
+import { processImage, EncodedVariant, ImageVariantName } from "./images";
+import type { MediaStorage, StoredFile } from "./media";
+import { ImageVariant, ProcessedImage } from "./types";
+
+// Uploaded images never change (a new upload gets a new path), so browsers and CDNs may keep them for a year.
+const IMAGE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// Uploads one variant. `onBytes` is called with the bytes sent so far as the upload goes on.
+async function uploadVariant(variant: EncodedVariant, path: string, onBytes?: (bytes: number) => void): Promise<ImageVariant> {
+  const task = uploadBytesResumable(ref(storage, path), variant.blob, {
+    contentType: variant.blob.type,
+    cacheControl: IMAGE_CACHE_CONTROL,
+  });
+  if (onBytes) {
+    task.on('state_changed', snapshot => onBytes(snapshot.bytesTransferred));
+  }
+  const snapshot = await task;
+  return { url: await getDownloadURL(snapshot.ref), width: variant.width, height: variant.height };
+}
+
+// The file extension for a variant's format.
+function extensionOf(blob: Blob): string {
+  return blob.type === 'image/webp' ? 'webp' : blob.type === 'image/png' ? 'png' : 'jpg';
+}
 
 /**
- * Uploads a file to a specified path in Firebase Storage.
+ * Uploads an image to a specified path in Firebase Storage, resized to the `variant` size and without
+ * its metadata (see `src/lib/images.ts`). Rejects with a message for the user if the file isn't a
+ * supported image or is too large.
  * 
  * @param {File} file - The file object to upload (e.g., from an <input type="file"> element).
  * @param {string} path - The destination path in Firebase Storage where the file should be stored.
  *                        Example: `uploads/users/${userId}/${file.name}`
+ * @param {ImageVariantName} variant - The size to upload. Images inside posts use the default, `hero`.
  * @returns {Promise<string>} A promise that resolves with the public download URL of the uploaded file.
  */
-export async function uploadImage(file: File, path: string): Promise<string> {
-  // Create a storage reference with the specified path.
-  const storageRef = ref(storage, path);
-  
-  // 'uploadBytes' uploads the file to the location defined by the storage reference.
-  const snapshot = await uploadBytes(storageRef, file);
-  
-  // After the upload is complete, 'getDownloadURL' retrieves the public URL 
-  // which can be stored in Firestore or used in an <img> tag.
-  const downloadURL = await getDownloadURL(snapshot.ref);
-  
-  return downloadURL;
+export async function uploadImage(file: File, path: string, variant: ImageVariantName = 'hero'): Promise<string> {
+  const processed = await processImage(file);
+  const uploaded = await uploadVariant(processed[variant], path);
+  return uploaded.url;
+}
+
+/**
+ * Uploads an image in every size of the pipeline (thumbnail, card and hero), without its metadata,
+ * for the featured image of a post, the image attached to a comment or story, or a gallery photo.
+ *
+ * @param {File} file - The image to upload.
+ * @param {string} folder - The folder to upload to, e.g. `posts/${userId}`. Each upload gets its own subfolder.
+ * @param {(percent: number) => void} onProgress - Optional. Called with how much of the upload is done,
+ *                                                 from 0 to 100, as the variants are uploaded.
+ * @returns {Promise<ProcessedImage>} The URL and size of each variant, and the blurred placeholder, to store on the document.
+ */
+export async function uploadImageVariants(file: File, folder: string, onProgress?: (percent: number) => void): Promise<ProcessedImage> {
+  const processed = await processImage(file);
+  const base = `${folder}/${Date.now()}-${file.name.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-')}`;
+  const names = ['thumbnail', 'card', 'hero'] as const;
+
+  // The variants upload side by side, so progress is the bytes sent of all three together.
+  const total = names.reduce((sum, name) => sum + processed[name].blob.size, 0);
+  const sent = { thumbnail: 0, card: 0, hero: 0 };
+  const report = onProgress && ((name: typeof names[number], bytes: number) => {
+    sent[name] = bytes;
+    onProgress(Math.round(((sent.thumbnail + sent.card + sent.hero) / total) * 100));
+  });
+
+  const [thumbnail, card, hero] = await Promise.all(names.map(name =>
+    uploadVariant(processed[name], `${base}/${name}.${extensionOf(processed[name].blob)}`, report && (bytes => report(name, bytes)))));
+  return { thumbnail, card, hero, blur_data_url: processed.blur_data_url };
 }
 
 /**
  * Deletes a file from Firebase Storage.
  * 
  * @param {string} path - The full path to the file in Firebase Storage that should be deleted.
+ * @param {FirebaseStorage} bucket - Optional. The Storage instance to use, e.g. the service account's. The app's by default.
  * @returns {Promise<void>} A promise that resolves when the file has been successfully deleted.
  */
-export async function deleteImage(path: string): Promise<void> {
+export async function deleteImage(path: string, bucket: FirebaseStorage = storage): Promise<void> {
   // Create a reference to the file to delete.
-  const storageRef = ref(storage, path);
+  const storageRef = ref(bucket, path);
   
   // Delete the file.
   await deleteObject(storageRef);
 }
+
+/**
+ * Lists every file in a folder of Firebase Storage and its subfolders, with when each was uploaded.
+ *
+ * @param {string} folder - The folder to list, e.g. `posts`.
+ * @param {FirebaseStorage} bucket - Optional. The Storage instance to use, e.g. the service account's. The app's by default.
+ * @returns {Promise<StoredFile[]>} The path and upload time of each file.
+ */
+export async function listFiles(folder: string, bucket: FirebaseStorage = storage): Promise<StoredFile[]> {
+  const result = await listAll(ref(bucket, folder));
+  const files = await Promise.all(result.items.map(async item => {
+    const metadata = await getMetadata(item);
+    return { path: item.fullPath, created_at: new Date(metadata.timeCreated) };
+  }));
+  // Folders are listed one after another, so a large bucket doesn't fire off thousands of requests at once.
+  for (const prefix of result.prefixes) {
+    files.push(...await listFiles(prefix.fullPath, bucket));
+  }
+  return files;
+}
+
+// Firebase Storage, as the media cleanup in `src/lib/media.ts` sees it, signed in as whoever `bucket`'s
+// app is signed in as. The jobs use the service account's (see `src/lib/service-account.ts`).
+export function createFirebaseMediaStorage(bucket: FirebaseStorage): MediaStorage {
+  return {
+    backend: 'firestore',
+    async list(folders) {
+      const files: StoredFile[] = [];
+      for (const folder of folders) {
+        files.push(...await listFiles(folder, bucket));
+      }
+      return files;
+    },
+    async delete(path) {
+      try {
+        await deleteImage(path, bucket);
+      } catch (error) {
+        // Already gone, e.g. deleted by an earlier cleanup that was interrupted.
+        if ((error as StorageError).code !== 'storage/object-not-found') {
+          throw error;
+        }
+      }
+    },
+  };
+}
+
+// The app's own Firebase Storage, signed in as the user in the browser.
+export const firebaseMediaStorage = createFirebaseMediaStorage(storage);
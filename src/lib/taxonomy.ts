@@ -0,0 +1,30 @@
+// This file contains the helpers for the blog's taxonomy: the admin-managed categories and the tags on posts.
+//
+// Categories live in the `categories` collection; a post stores the name of its category, and the
+// category's page is `/blog/category/[slug]`. Tags are free-form but normalized to lowercase,
+// hyphenated words so the same tag is always spelled the same way; their pages are `/blog/tag/[tag]`.
+
+import { slugify } from './slugs';
+
+// The ID (and URL segment) of the category with the given name.
+export function categoryId(name: string): string {
+  return slugify(name);
+}
+
+// Normalizes a tag as typed by an author, e.g. "Road Trips " becomes "road-trips".
+export function normalizeTag(tag: string): string {
+  return slugify(tag);
+}
+
+// Normalizes a list of tags, dropping empty and duplicate ones.
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
+
+export function categoryPath(name: string): string {
+  return `/blog/category/${categoryId(name)}`;
+}
+
+export function tagPath(tag: string): string {
+  return `/blog/tag/${encodeURIComponent(tag)}`;
+}
@@ -14,22 +14,105 @@ export type User = {
   bio?: string;
   role: 'user' | 'editor' | 'admin'; // Role for controlling permissions.
   avatar?: string; // Optional URL for a profile picture.
+  follower_count?: number; // How many users follow this user. Kept up to date when users follow or unfollow.
+  following_count?: number; // How many authors this user follows (followed tags aren't counted).
+  // Set by admins (see `src/lib/users.ts`). A missing status means 'active'.
+  status?: UserStatus;
+  suspended_until?: Date; // When a suspension ends. A suspension without an end lasts until it is lifted.
+  status_reason?: string; // Why the user was suspended, banned or deleted, shown to them when they try to log in.
+  deleted_at?: Date;
   created_at: Date;
 };
 
+// Whether a user may use their account. Suspended, banned and deleted users can't log in, post,
+// comment or share stories. Suspensions can end by themselves; bans last until lifted; deleted
+// accounts are kept (soft-deleted) so an admin can restore them.
+export type UserStatus = 'active' | 'suspended' | 'banned' | 'deleted';
+
+// How risky automated moderation found a post, comment or story before a moderator saw it.
+// See `src/lib/auto-moderation.ts`.
+export type ModerationRisk = 'low' | 'medium' | 'high';
+
+export type ModerationAssessment = {
+  risk: ModerationRisk;
+  // Each from 0 (clearly fine) to 1 (clearly a problem).
+  scores: { spam: number; toxicity: number; off_topic: number };
+  reasons: string[]; // Why the content was flagged, shown in the admin queues.
+  source: 'model' | 'rules'; // Whether the language model or the fallback rules assessed it.
+};
+
+// One size of an uploaded image. See `src/lib/images.ts`.
+export type ImageVariant = {
+  url: string;
+  width: number;
+  height: number;
+};
+
+// An uploaded image, in the sizes the pipeline in `src/lib/images.ts` makes of it, with a blurred
+// placeholder to show while it loads.
+export type ProcessedImage = {
+  thumbnail: ImageVariant;
+  card: ImageVariant;
+  hero: ImageVariant;
+  blur_data_url: string;
+};
+
+// One photo of a gallery attached to a post or story, in the order the author chose. See `src/lib/galleries.ts`.
+export type GalleryImage = {
+    image: ProcessedImage;
+    caption: string; // Shown under the photo; may be empty.
+    alt: string; // Describes the photo for readers who can't see it.
+};
+
+// What a file in Storage can belong to. See `src/lib/media.ts`.
+export type MediaTargetType = 'post' | 'comment' | 'story' | 'user' | 'category';
+
+// A file in Firebase Storage and a document that uses it. A file used by several documents has a record
+// for each; it is deleted from Storage once the last one is released. The document ID is made by `mediaId`
+// in `src/lib/media.ts`, so a document never holds the same file twice.
+export type MediaRecord = {
+    id: string;
+    path: string; // The file's path in Storage, e.g. `posts/{userId}/{upload}/hero.webp`.
+    target_type: MediaTargetType;
+    target_id: string;
+    created_at: Date;
+};
+
+// A section heading in a post, for its table of contents. `id` is the heading's anchor on the post page.
+export type TocEntry = {
+  level: 2 | 3;
+  text: string;
+  id: string;
+};
+
+// The format a post's `content` is written in. See `src/lib/content.ts`.
+export type ContentFormat = 'markdown' | 'html';
+
 export type Post = {
   id: string;
   title: string;
   slug: string; // URL-friendly version of the title.
-  content: string; // The full content of the post, can include HTML.
+  content: string; // The full content of the post, in the format given by `content_format`.
+  content_format?: ContentFormat; // Missing on posts written before the editor, which are HTML.
   excerpt: string; // A short summary.
+  excerpt_derived?: boolean; // Set when the author left the excerpt empty and it was taken from the content.
   author_id?: string; // The ID of the user who wrote the post.
   authorId?: string;
-  status: 'draft' | 'pending' | 'published' | 'rejected'; // The moderation status.
-  featuredImgUrl: string; // URL for the main image.
+  status: 'draft' | 'pending' | 'changes_requested' | 'scheduled' | 'published' | 'rejected'; // The moderation status.
+  publish_at?: Date; // When the post goes (or went) live. Scheduled posts are published at this time.
+  featuredImgUrl: string; // URL for the main image: the `hero` variant of `featured_image`, for images uploaded since it exists.
+  featured_image?: ProcessedImage; // The featured image's variants.
+  gallery?: GalleryImage[]; // More photos, shown after the post in a lightbox carousel.
   imageHint: string; // A hint for AI image tools.
-  category: string;
-  tags: string[];
+  category: string; // The name of one of the managed categories, or empty.
+  tags: string[]; // Normalized with `normalizeTag` (see `src/lib/taxonomy.ts`).
+  reaction_counts?: ReactionCounts; // Kept up to date by `setReaction` in `src/lib/firestore.ts`.
+  moderation?: ModerationAssessment | null; // Set when the post is submitted for review; null until a resubmitted post is screened again.
+  // Worked out from the content on every save. See `src/lib/content-analysis.ts`.
+  word_count?: number;
+  reading_minutes?: number;
+  meta_description?: string; // The excerpt, cut to fit search results.
+  toc?: TocEntry[]; // The post's section headings.
   created_at: Date;
   updated_at: Date;
 };
@@ -39,8 +122,13 @@ export type Comment = {
   postId: string; // The ID of the post this comment belongs to.
   userId: string; // The ID of the user who wrote the comment.
   comment_text: string;
-  image_url?: string; // Optional image attached to the comment.
+  parent_id?: string; // For a reply, the comment it answers. See `src/lib/comments.ts`.
+  ancestor_ids?: string[]; // For a reply, every comment above it, from the top-level comment down.
+  image_url?: string; // Optional image attached to the comment: the `card` variant of `image`.
+  image?: ProcessedImage; // The attached image's variants.
   status: 'pending' | 'approved' | 'rejected'; // Moderation status.
+  reaction_counts?: ReactionCounts;
+  moderation?: ModerationAssessment; // Set when the comment is submitted.
   created_at: Date;
 };
 
@@ -49,8 +137,12 @@ export type FollowUpStory = {
   postId: string;
   userId: string;
   story_text: string;
-  image_url?: string;
+  image_url?: string; // The `card` variant of `image`, for images uploaded since it exists.
+  image?: ProcessedImage; // The attached image's variants.
+  gallery?: GalleryImage[]; // Photos of the trip, in order.
   status: 'pending' | 'approved' | 'rejected';
+  reaction_counts?: ReactionCounts;
+  moderation?: ModerationAssessment; // Set when the story is submitted.
   created_at: Date;
 };
 
@@ -67,4 +159,172 @@ export type NewsletterSubscriber = {
     id: string;
     email: string;
     created_at: Date;
+    // Set for signed-in users who subscribed from their feed; the document ID is then their user ID.
+    user_id?: string;
+    // Whether to send the weekly digest of new posts from the authors and tags the user follows.
+    weekly_digest?: boolean;
+    last_digest_at?: Date; // When the last digest was sent.
+};
+
+// A published post flattened to plain text for the full-text search index.
+// The document ID is the ID of the post it describes.
+export type SearchDocument = {
+    id: string;
+    title: string;
+    excerpt: string;
+    body: string; // The post content with all HTML stripped.
+    tags: string[];
+    category: string;
+    updated_at: Date;
+};
+
+// A URL slug and the post it belongs to. The document ID is the slug itself, which makes
+// slugs unique. A post keeps the records of its old slugs so that old links can be redirected.
+export type SlugRecord = {
+    id: string; // The slug.
+    post_id: string;
+    created_at: Date;
+};
+
+// The fields of a post that are versioned by its revisions.
+export type RevisionFields = Required<Pick<Post, 'title' | 'excerpt' | 'content' | 'content_format' | 'featuredImgUrl' | 'category' | 'tags'>>;
+
+// A saved version of a post. One is recorded every time a save changes any of the versioned fields,
+// so an earlier version can be compared with later ones and restored. See `src/lib/revisions.ts`.
+export type PostRevision = {
+    id: string;
+    post_id: string;
+    editor_id: string | null; // The user who saved this version, if known.
+    created_at: Date;
+    changed_fields: (keyof RevisionFields)[]; // The fields that differ from the previous revision.
+    restored_from?: string; // The ID of the revision this one restored, if it was a restore.
+    snapshot: RevisionFields; // The post's versioned fields as saved.
+};
+
+// One entry in a post's review thread, between the moderators reviewing the post and its author.
+// Decisions (`changes_requested`, `approved`, `rejected`) are recorded with the note that explains them.
+export type ReviewNote = {
+    id: string;
+    post_id: string;
+    author_id: string; // The user who wrote the note.
+    kind: 'comment' | 'changes_requested' | 'approved' | 'rejected' | 'resubmitted';
+    body: string;
+    quote?: string; // For inline feedback: the passage of the post the note is about.
+    created_at: Date;
+};
+
+// The reactions readers can leave on posts, comments and follow-up stories. See `src/lib/reactions.ts`.
+export type ReactionKind = 'like' | 'want_to_go' | 'been_there';
+
+// How many readers left each kind of reaction. Kinds nobody has used yet may be missing.
+export type ReactionCounts = Partial<Record<ReactionKind, number>>;
+
+// What can be reacted to.
+export type ReactionTarget = 'post' | 'comment' | 'story';
+
+// One user's reaction of one kind to a post, comment or story. The document ID is made from the
+// target, the user and the kind (see `reactionId`), so a user can't leave the same reaction twice.
+export type Reaction = {
+    id: string;
+    target_type: ReactionTarget;
+    target_id: string;
+    user_id: string;
+    kind: ReactionKind;
+    created_at: Date;
+};
+
+// A post a user saved for later. The document ID is `{user_id}_{post_id}`, so a post is saved only once.
+export type Bookmark = {
+    id: string;
+    user_id: string;
+    post_id: string;
+    created_at: Date;
+};
+
+// A named collection of saved posts, like "Goa trip ideas". Every post in a list is also bookmarked.
+// Public lists can be shared by link (`/lists/[id]`).
+export type ReadingList = {
+    id: string;
+    user_id: string; // The owner.
+    name: string;
+    description: string;
+    post_ids: string[]; // In the order they were added.
+    is_public: boolean;
+    created_at: Date;
+    updated_at: Date;
+};
+
+// What an audit log entry is about.
+export type AuditTargetType = 'user' | 'post' | 'comment' | 'story';
+
+// A record of something an admin or moderator did, e.g. changing a user's role. Entries are only ever
+// added, never changed or deleted. `before` and `after` hold the fields the action changed.
+export type AuditEntry = {
+    id: string;
+    actor_id: string; // The user who did it.
+    action: string; // What they did, e.g. 'user.role_changed'.
+    target_type: AuditTargetType;
+    target_id: string;
+    summary: string; // A readable description, e.g. "Changed role from user to editor".
+    before?: Record<string, unknown>;
+    after?: Record<string, unknown>;
+    reason?: string; // The reason the actor gave, if any.
+    created_at: Date;
+};
+
+// What a user can follow: an author (by user ID) or a tag (by its normalized name).
+export type FollowTarget = 'author' | 'tag';
+
+// A user following an author or a tag. The document ID is `{follower_id}_{target_type}_{target_id}`,
+// so a user follows each author or tag only once.
+export type Follow = {
+    id: string;
+    follower_id: string;
+    target_type: FollowTarget;
+    target_id: string;
+    created_at: Date;
+};
+
+// What a notification is about. See `src/lib/notifications/index.ts` for when each is sent.
+export type NotificationType =
+    | 'post_status'     // The recipient's post was published, scheduled, rejected or sent back for changes.
+    | 'comment_status'  // The recipient's comment was approved or rejected.
+    | 'story_status'    // The recipient's follow-up story was approved or rejected.
+    | 'new_comment'     // A comment on the recipient's post was approved.
+    | 'comment_reply'   // A reply to the recipient's comment was approved.
+    | 'new_story'       // A follow-up story on the recipient's post was approved.
+    | 'review_note';    // Someone replied in the review thread of a post the recipient takes part in.
+
+// A message for one user, shown under the bell in the header and also sent by email.
+export type UserNotification = {
+    id: string;
+    user_id: string; // The recipient.
+    type: NotificationType;
+    title: string;
+    body: string;
+    link: string; // The app path the notification leads to, e.g. `/blog/my-post`.
+    actor_id?: string; // The user whose action caused the notification, if any.
+    post_id?: string; // The post a review note is about, on 'review_note' notifications.
+    read: boolean;
+    // The email copy: 'pending' until the email job has handled it, 'skipped' when the user has no email address.
+    email_status: 'pending' | 'sent' | 'failed' | 'skipped';
+    created_at: Date;
+};
+
+// A post category, managed by admins. The document ID is the slug of the name, which is also
+// the category's URL (`/blog/category/[id]`). Posts store the category's name.
+export type Category = {
+    id: string;
+    name: string;
+    description: string;
+    cover_image_url?: string;
+    created_at: Date;
+};
+
+// A suggested tag, offered by the tag picker. Posts can also use tags outside this list.
+// The document ID is the slug of the tag.
+export type Tag = {
+    id: string;
+    name: string; // The normalized tag, as stored on posts.
+    created_at: Date;
 };
@@ -0,0 +1,55 @@
+// This file defines what admins can do to user accounts: change their role, suspend, ban, delete and
+// restore them. The functions that do it live in `./firestore.ts` (see USER MANAGEMENT) and record
+// every change in the audit log.
+//
+// A suspended, banned or deleted user can't log in (the session route refuses them, and `useAuth` signs
+// them out), and can't add posts, comments or stories (checked in `./firestore.ts` and the security rules).
+// Deleting an account is a soft delete: the user document stays, marked 'deleted', so it can be restored;
+// what happens to the user's content is chosen when deleting (see `DeleteCascade`).
+
+import { format } from 'date-fns';
+import { User, UserStatus } from './types';
+
+// The roles, from least to most powerful.
+export const USER_ROLES: User['role'][] = ['user', 'editor', 'admin'];
+
+// What to do with a deleted user's content.
+export type DeleteCascade = {
+  // Keep the posts, take them off the blog (back to draft), or delete them.
+  posts: 'keep' | 'unpublish' | 'delete';
+  comments: 'keep' | 'delete';
+  stories: 'keep' | 'delete';
+};
+
+export const DEFAULT_DELETE_CASCADE: DeleteCascade = { posts: 'keep', comments: 'keep', stories: 'keep' };
+
+// A user's status right now. A suspension whose end has passed counts as over.
+export function effectiveStatus(user: Pick<User, 'status' | 'suspended_until'>, now = new Date()): UserStatus {
+  const status = user.status ?? 'active';
+  if (status === 'suspended' && user.suspended_until && user.suspended_until.getTime() <= now.getTime()) {
+    return 'active';
+  }
+  return status;
+}
+
+// Whether a user is barred from logging in and contributing.
+export function isBlocked(user: Pick<User, 'status' | 'suspended_until'>, now = new Date()): boolean {
+  return effectiveStatus(user, now) !== 'active';
+}
+
+// The message a blocked user sees when they try to log in or contribute.
+export function blockedMessage(user: Pick<User, 'status' | 'suspended_until' | 'status_reason'>, now = new Date()): string {
+  const reason = user.status_reason ? ` Reason: ${user.status_reason}` : '';
+  switch (effectiveStatus(user, now)) {
+    case 'suspended':
+      return user.suspended_until
+        ? `Your account is suspended until ${format(user.suspended_until, 'MMMM d, yyyy')}.${reason}`
+        : `Your account is suspended.${reason}`;
+    case 'banned':
+      return `Your account has been banned.${reason}`;
+    case 'deleted':
+      return 'This account has been deleted.';
+    default:
+      return '';
+  }
+}
@@ -1,38 +1,58 @@
 // This file configures the middleware for the Next.js application.
-// Middleware allows you to run code before a request is completed. 
-// Based on the incoming request, you can modify the response by rewriting, redirecting, 
-// modifying headers, or streaming.
+// Middleware runs on the server before a request is completed, so it can turn visitors away from
+// protected pages before any of their HTML or data is sent.
+//
+// Here it enforces who may open the user dashboard (`/dashboard`) and the admin area (`/blog/admin`):
+//   - Visitors without a valid session cookie are sent to the login page, which brings them back afterwards.
+//   - Logged-in users whose role isn't allowed on a page (see `ADMIN_NAV_ITEMS` in `src/lib/auth/routes.ts`)
+//     are sent to the page their role starts on.
+// The session cookie is set by `POST /api/session` when the user logs in (see `src/lib/auth/session.ts`).
 
 // Import the necessary types from Next.js.
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { allowedRoles, homeFor } from '@/lib/auth/routes';
+import { getSessionSecret, verifySession, SESSION_COOKIE } from '@/lib/auth/session';
 
 // The main middleware function.
-export function middleware(request: NextRequest) {
-  // This is a placeholder for actual middleware logic.
-  // For example, you could check for an authentication token in the cookies
-  // and redirect unauthenticated users from protected routes.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const roles = allowedRoles(pathname);
+  // Public pages pass straight through.
+  if (!roles) {
+    return NextResponse.next();
+  }
 
-  // Example: Protecting a route
-  // const authToken = request.cookies.get('auth-token');
-  // const { pathname } = request.nextUrl;
-  
-  // if (pathname.startsWith('/dashboard') && !authToken) {
-  //   const url = request.nextUrl.clone();
-  //   url.pathname = '/login';
-  //   return NextResponse.redirect(url);
-  // }
-  
-  // If no redirection or modification is needed, just pass the request through.
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value, getSessionSecret());
+
+  if (!session) {
+    const url = request.nextUrl.clone();
+    url.pathname = '/login';
+    url.search = `?next=${encodeURIComponent(pathname + search)}`;
+    const response = NextResponse.redirect(url);
+    // Drop a cookie that is expired or forged, so the browser doesn't keep sending it.
+    if (request.cookies.has(SESSION_COOKIE)) {
+      response.cookies.delete(SESSION_COOKIE);
+    }
+    return response;
+  }
+
+  if (!roles.includes(session.role)) {
+    const url = request.nextUrl.clone();
+    url.pathname = homeFor(session.role);
+    url.search = '';
+    return NextResponse.redirect(url);
+  }
+
+  // If no redirection is needed, just pass the request through.
   return NextResponse.next();
 }
 
 // The `config` object specifies which paths the middleware should run on.
-// Using a `matcher` is more efficient than running the middleware on every single request.
+// Only the protected sections are matched, so public pages don't pay for the session check.
 export const config = {
-  // This matcher applies the middleware to all routes except for those that are
-  // typically static files or internal Next.js assets.
   matcher: [
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/dashboard/:path*',
+    '/blog/admin/:path*',
   ],
 };
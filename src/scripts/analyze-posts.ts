@@ -0,0 +1,33 @@
+// Works out the reading time, table of contents and descriptions of every existing post (see
+// `src/lib/content-analysis.ts`). New and edited posts get them when they are saved; run this once
+// with `npm run posts:analyze` after upgrading, so older posts have them too. Running it again is harmless.
+// A post saved before `excerpt_derived` existed counts its stored excerpt as the author's own.
+// It reads and changes every author's posts, so it runs as the service account (see `src/lib/service-account.ts`).
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+async function main() {
+  // Imported after the environment is loaded, since Firebase reads it at import time.
+  const { runAsServiceAccount } = await import('@/lib/service-account');
+  const { getRepositories } = await import('@/lib/repositories');
+  const { analyzePost } = await import('@/lib/content-analysis');
+  await runAsServiceAccount();
+
+  const { posts } = getRepositories();
+  const allPosts = await posts.list();
+
+  for (const post of allPosts) {
+    const analysis = analyzePost(post);
+    // The posts' content hasn't changed, so they keep their "last updated" date.
+    await posts.update(post.id, analysis, { keepUpdatedAt: true });
+    console.log(`${post.id}: ${analysis.word_count} words, ${analysis.reading_minutes} min, ${analysis.toc.length} heading(s)`);
+  }
+  console.log(`Analyzed ${allPosts.length} post(s).`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Error analyzing posts:', error);
+  process.exit(1);
+});
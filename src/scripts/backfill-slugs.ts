@@ -0,0 +1,37 @@
+// Reserves a slug in the `slugs` collection for every existing post.
+// Run it once with `npm run slugs:backfill` after upgrading. Posts are processed oldest first, so when
+// two posts share a slug the older one keeps it and the newer one is moved to a numbered variant.
+// It reads and changes every author's posts, so it runs as the service account (see `src/lib/service-account.ts`).
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+async function main() {
+  // Imported after the environment is loaded, since Firebase reads it at import time.
+  const { runAsServiceAccount } = await import('@/lib/service-account');
+  const { getRepositories } = await import('@/lib/repositories');
+  const { assignSlug, rememberSlug } = await import('@/lib/slugs');
+  await runAsServiceAccount();
+
+  const { posts } = getRepositories();
+  const allPosts = (await posts.list()).sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+
+  let changed = 0;
+  for (const post of allPosts) {
+    const slug = await assignSlug(post.id, post.slug || post.title);
+    if (slug !== post.slug) {
+      // Keep the old slug pointing at the post (if no older post owns it), so existing links redirect.
+      await rememberSlug(post.id, post.slug);
+      await posts.update(post.id, { slug });
+      console.log(`${post.id}: "${post.slug}" -> "${slug}"`);
+      changed++;
+    }
+  }
+  console.log(`Reserved slugs for ${allPosts.length} post(s); ${changed} changed.`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Error backfilling slugs:', error);
+  process.exit(1);
+});
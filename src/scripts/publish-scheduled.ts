@@ -0,0 +1,44 @@
+// Publishes the scheduled posts whose publish time has come.
+// Run it with `npm run posts:publish-scheduled`, e.g. every few minutes from cron, or keep it running with
+// `npm run posts:publish-scheduled -- --watch`, which checks once a minute until stopped with Ctrl+C.
+// Only moderators may read scheduled posts and publish them, so the job runs as the service account
+// (see `src/lib/service-account.ts`).
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+// How often `--watch` checks for due posts, in milliseconds.
+const WATCH_INTERVAL = 60 * 1000;
+
+async function publishOnce() {
+  // Imported after the environment is loaded, since Firebase reads it at import time.
+  const { publishDuePosts } = await import('@/lib/firestore');
+  const published = await publishDuePosts();
+  for (const post of published) {
+    console.log(`Published "${post.title}" (${post.id}), scheduled for ${post.publish_at?.toISOString()}`);
+  }
+  console.log(`${new Date().toISOString()}: published ${published.length} post(s).`);
+}
+
+async function main() {
+  const { runAsServiceAccount } = await import('@/lib/service-account');
+  await runAsServiceAccount();
+
+  if (!process.argv.includes('--watch')) {
+    await publishOnce();
+    process.exit(0);
+  }
+
+  // In watch mode a failed run is logged and retried on the next tick, rather than stopping the job.
+  // The next check is only queued once the current one is done, so slow runs never overlap.
+  const tick = async () => {
+    await publishOnce().catch(error => console.error('Error publishing scheduled posts:', error));
+    setTimeout(tick, WATCH_INTERVAL);
+  };
+  await tick();
+}
+
+main().catch(error => {
+  console.error('Error publishing scheduled posts:', error);
+  process.exit(1);
+});
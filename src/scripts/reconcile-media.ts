@@ -0,0 +1,47 @@
+// Finds the files in Firebase Storage that no post, comment, story, profile or category uses any more
+// (see `reconcileMedia` in `src/lib/firestore.ts`), e.g. images uploaded with a form that was never saved.
+// Run it with `npm run media:reconcile` for a dry run that only reports them, then with
+// `npm run media:reconcile -- --purge` to delete them and bring the media records up to date.
+// Files uploaded in the last day are left alone; `--grace-hours=N` changes that.
+// It stops without changing anything if a content listing looks incomplete, and `--purge` is refused
+// when `NEXT_PUBLIC_DATA_BACKEND=memory`, since the files are in the real bucket.
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+async function main() {
+  // Imported after the environment is loaded, since Firebase reads it at import time.
+  const { reconcileMedia } = await import('@/lib/firestore');
+  const { ORPHAN_GRACE_PERIOD } = await import('@/lib/media');
+  const { runAsServiceAccount } = await import('@/lib/service-account');
+
+  const purge = process.argv.includes('--purge');
+  const graceHours = process.argv.find(arg => arg.startsWith('--grace-hours='))?.split('=')[1];
+  const gracePeriod = graceHours !== undefined ? Number(graceHours) * 60 * 60 * 1000 : ORPHAN_GRACE_PERIOD;
+  if (!Number.isFinite(gracePeriod) || gracePeriod < 0) {
+    throw new Error(`--grace-hours must be a number of hours, not "${graceHours}".`);
+  }
+
+  // Every document and every upload must be visible, and orphans deleted whoever uploaded them.
+  await runAsServiceAccount();
+  const report = await reconcileMedia({ purge, gracePeriod });
+  for (const file of report.orphaned) {
+    console.log(`${purge ? 'Deleting' : 'Orphaned'}: ${file.path} (uploaded ${file.created_at.toISOString()})`);
+  }
+  for (const { path, error } of report.failed) {
+    console.error(`Could not delete ${path}: ${error}`);
+  }
+  console.log(`Scanned ${report.scanned} file(s): ${report.referenced} in use, ${report.orphaned.length} orphaned, ${report.recent.length} too recent to judge.`);
+  console.log(`Media records: ${report.missing_records} missing, ${report.stale_records} out of date.`);
+  if (purge) {
+    console.log(`Deleted ${report.purged.length} file(s) and fixed the media records.`);
+  } else {
+    console.log('Dry run: nothing was changed. Run with --purge to delete the orphaned files.');
+  }
+  process.exit(report.failed.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Error reconciling media:', error);
+  process.exit(1);
+});
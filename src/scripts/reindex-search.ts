@@ -0,0 +1,21 @@
+// Rebuilds the `search_index` collection from the current posts.
+// Run it with `npm run search:reindex` after importing posts or changing the tokenizer.
+// Only moderators may write the index, so the job runs as the service account (see `src/lib/service-account.ts`).
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+async function main() {
+  // Imported after the environment is loaded, since Firebase reads it at import time.
+  const { runAsServiceAccount } = await import('@/lib/service-account');
+  const { rebuildSearchIndex } = await import('@/lib/search');
+  await runAsServiceAccount();
+  const count = await rebuildSearchIndex();
+  console.log(`Indexed ${count} published post(s).`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Error rebuilding the search index:', error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+// Emails the notifications that haven't been emailed yet, through the transport chosen with
+// `EMAIL_TRANSPORT` (see `src/lib/notifications/email.ts`).
+// Run it with `npm run notifications:send-emails`, e.g. every few minutes from cron, or keep it running with
+// `npm run notifications:send-emails -- --watch`, which checks once a minute until stopped with Ctrl+C.
+// Only the recipients may read their notifications, so the job runs as the service account
+// (see `src/lib/service-account.ts`).
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+// How often `--watch` checks for new notifications, in milliseconds.
+const WATCH_INTERVAL = 60 * 1000;
+
+async function sendOnce() {
+  // Imported after the environment is loaded, since Firebase reads it at import time.
+  const { sendPendingEmails, getEmailTransport } = await import('@/lib/notifications/email');
+  const { sent, failed, skipped } = await sendPendingEmails();
+  console.log(`${new Date().toISOString()}: ${sent} sent, ${failed} failed, ${skipped} skipped (no email address) via the ${getEmailTransport().name} transport.`);
+}
+
+async function main() {
+  const { runAsServiceAccount } = await import('@/lib/service-account');
+  await runAsServiceAccount();
+
+  if (!process.argv.includes('--watch')) {
+    await sendOnce();
+    process.exit(0);
+  }
+
+  // In watch mode a failed run is logged and retried on the next tick, rather than stopping the job.
+  // The next check is only queued once the current one is done, so slow runs never overlap.
+  const tick = async () => {
+    await sendOnce().catch(error => console.error('Error sending notification emails:', error));
+    setTimeout(tick, WATCH_INTERVAL);
+  };
+  await tick();
+}
+
+main().catch(error => {
+  console.error('Error sending notification emails:', error);
+  process.exit(1);
+});
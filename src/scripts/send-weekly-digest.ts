@@ -0,0 +1,43 @@
+// Emails the weekly digest of new posts from followed authors and tags to every subscriber who is due one,
+// through the transport chosen with `EMAIL_TRANSPORT` (see `src/lib/notifications/digest.ts`).
+// Run it with `npm run newsletter:send-digest`, e.g. once a day from cron (each subscriber gets at most one
+// digest a week), or keep it running with `npm run newsletter:send-digest -- --watch`, which checks once an
+// hour until stopped with Ctrl+C.
+// Only admins may list the subscribers, so the job runs as the service account (see `src/lib/service-account.ts`).
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+// How often `--watch` checks for subscribers who are due a digest, in milliseconds.
+const WATCH_INTERVAL = 60 * 60 * 1000;
+
+async function sendOnce() {
+  // Imported after the environment is loaded, since Firebase reads it at import time.
+  const { sendWeeklyDigests } = await import('@/lib/notifications/digest');
+  const { getEmailTransport } = await import('@/lib/notifications/email');
+  const { sent, failed, skipped } = await sendWeeklyDigests();
+  console.log(`${new Date().toISOString()}: ${sent} sent, ${failed} failed, ${skipped} skipped (nothing new) via the ${getEmailTransport().name} transport.`);
+}
+
+async function main() {
+  const { runAsServiceAccount } = await import('@/lib/service-account');
+  await runAsServiceAccount();
+
+  if (!process.argv.includes('--watch')) {
+    await sendOnce();
+    process.exit(0);
+  }
+
+  // In watch mode a failed run is logged and retried on the next tick, rather than stopping the job.
+  // The next check is only queued once the current one is done, so slow runs never overlap.
+  const tick = async () => {
+    await sendOnce().catch(error => console.error('Error sending weekly digests:', error));
+    setTimeout(tick, WATCH_INTERVAL);
+  };
+  await tick();
+}
+
+main().catch(error => {
+  console.error('Error sending weekly digests:', error);
+  process.exit(1);
+});
@@ -108,5 +108,6 @@ export default {
   },
   // The `plugins` array is where you can add official or third-party Tailwind plugins.
   // `tailwindcss-animate` is a plugin from ShadCN UI that provides animation utilities.
-  plugins: [require('tailwindcss-animate')],
+  // `@tailwindcss/typography` provides the `prose` classes that style rendered post content.
+  plugins: [require('tailwindcss-animate'), require('@tailwindcss/typography')],
 } satisfies Config;
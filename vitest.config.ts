@@ -0,0 +1,27 @@
+// This file configures Vitest, which runs the unit tests (`npm test`).
+// Tests live in `__tests__` folders next to the code they cover, and run in Node against the in-memory
+// data backend, so they need neither a browser nor a Firebase project.
+
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // The same `@/` alias as `tsconfig.json`.
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['src/**/__tests__/**/*.test.ts'],
+    environment: 'node',
+    env: {
+      NEXT_PUBLIC_DATA_BACKEND: 'memory',
+      // Firebase is still initialized when the data layer is imported, and wants a config to do so.
+      // Nothing ever connects to this project.
+      NEXT_PUBLIC_FIREBASE_API_KEY: 'test-api-key',
+      NEXT_PUBLIC_FIREBASE_PROJECT_ID: 'travonex-test',
+      NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET: 'travonex-test.appspot.com',
+    },
+  },
+});